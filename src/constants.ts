@@ -6,6 +6,17 @@
  * plus a transport section with 11 buttons.
  */
 
+import type {
+  ButtonGroup,
+  ControlType,
+  DeviceProfile,
+  ProfileControl,
+  MappingConfig,
+  MappingEntry,
+  TrackMapping,
+  TransportControlType,
+} from './types.js';
+
 /**
  * Hardware CC assignments for the nanoKONTROL2 controller.
  * These are the CC numbers sent by the hardware when controls are operated.
@@ -185,6 +196,45 @@ export function isContinuousControl(controlType: string): boolean {
   return controlType === 'knob' || controlType === 'slider';
 }
 
+/**
+ * Button behaviors, in display order (see ButtonBehavior).
+ */
+export const BUTTON_BEHAVIORS = ['toggle', 'momentary', 'trigger', 'cycle', 'longpress', 'doubletap'] as const;
+
+/**
+ * Output message types, in display order (see OutputType).
+ */
+export const OUTPUT_TYPES = ['cc', 'cc14', 'nrpn', 'rpn', 'note', 'program', 'pitchbend', 'aftertouch'] as const;
+
+/**
+ * Output message types available to buttons.
+ */
+export const BUTTON_OUTPUT_TYPES = ['cc', 'note', 'program'] as const;
+
+/**
+ * Output message types available to knobs and sliders.
+ */
+export const CONTINUOUS_OUTPUT_TYPES = ['cc', 'cc14', 'nrpn', 'rpn', 'pitchbend', 'aftertouch', 'program'] as const;
+
+/**
+ * Check if an output type sends 14-bit values (cc14, NRPN, RPN, Pitch Bend).
+ */
+export function isHighResOutputType(outputType: string | undefined): boolean {
+  return outputType === 'cc14' || outputType === 'nrpn' || outputType === 'rpn' || outputType === 'pitchbend';
+}
+
+/**
+ * Check if an output type can be used by a control type.
+ * An undefined output type means 'cc', which every control supports.
+ */
+export function isOutputTypeValidFor(controlType: string, outputType: string | undefined): boolean {
+  if (outputType === undefined) {
+    return true;
+  }
+  const allowed: readonly string[] = isContinuousControl(controlType) ? CONTINUOUS_OUTPUT_TYPES : BUTTON_OUTPUT_TYPES;
+  return allowed.includes(outputType);
+}
+
 /**
  * Get the default button behavior for a control type.
  */
@@ -194,3 +244,199 @@ export function getDefaultBehavior(controlType: string): 'toggle' | 'momentary'
   }
   return 'momentary';
 }
+
+/**
+ * Derives the control type identifier from a hardware CC number.
+ *
+ * Maps raw CC numbers from the nanoKONTROL2 hardware to semantic
+ * control type strings like "track1.slider" or "transport.play".
+ * This enables GUI updates even when no mapping preset is loaded.
+ *
+ * @param cc - The CC number from hardware (0-127)
+ * @param profile - Device profile to look the CC up in (default: the nanoKONTROL2 layout)
+ * @returns Control type string (e.g., "track1.knob", "transport.play") or null if not recognized
+ */
+export function deriveControlTypeFromCC(cc: number, profile?: DeviceProfile): string | null {
+  if (profile) {
+    const entry = Object.entries(profile.controls).find(([, control]) => control.cc === cc);
+    return entry ? getProfileControlSlot(entry[0], entry[1]) : null;
+  }
+
+  // Check knobs (CC 16-23 -> track1-8.knob)
+  const knobIndex = HARDWARE_CC.KNOBS.indexOf(cc as typeof HARDWARE_CC.KNOBS[number]);
+  if (knobIndex !== -1) {
+    return `track${knobIndex + 1}.knob`;
+  }
+
+  // Check sliders (CC 0-7 -> track1-8.slider)
+  const sliderIndex = HARDWARE_CC.SLIDERS.indexOf(cc as typeof HARDWARE_CC.SLIDERS[number]);
+  if (sliderIndex !== -1) {
+    return `track${sliderIndex + 1}.slider`;
+  }
+
+  // Check solo buttons (CC 32-39 -> track1-8.solo)
+  const soloIndex = HARDWARE_CC.SOLO.indexOf(cc as typeof HARDWARE_CC.SOLO[number]);
+  if (soloIndex !== -1) {
+    return `track${soloIndex + 1}.solo`;
+  }
+
+  // Check mute buttons (CC 48-55 -> track1-8.mute)
+  const muteIndex = HARDWARE_CC.MUTE.indexOf(cc as typeof HARDWARE_CC.MUTE[number]);
+  if (muteIndex !== -1) {
+    return `track${muteIndex + 1}.mute`;
+  }
+
+  // Check rec buttons (CC 64-71 -> track1-8.rec)
+  const recIndex = HARDWARE_CC.REC.indexOf(cc as typeof HARDWARE_CC.REC[number]);
+  if (recIndex !== -1) {
+    return `track${recIndex + 1}.rec`;
+  }
+
+  // Check transport buttons
+  const transportEntries = Object.entries(HARDWARE_CC.TRANSPORT) as [string, number][];
+  for (const [name, transportCC] of transportEntries) {
+    if (cc === transportCC) {
+      // Convert PLAY -> play, TRACK_LEFT -> track_left
+      return `transport.${name.toLowerCase()}`;
+    }
+  }
+
+  // CC not recognized as a nanoKONTROL2 control
+  return null;
+}
+
+// =============================================================================
+// Track Banks
+// =============================================================================
+
+/**
+ * Gets the number of track banks in a mapping (1 when paging is off).
+ */
+export function getBankCount(config: MappingConfig): number {
+  return 1 + (config.banks?.length ?? 0);
+}
+
+/**
+ * Gets the 8 track mappings of a bank (bank 0 is tracks 1-8).
+ *
+ * @returns The bank's tracks, or undefined if the bank doesn't exist
+ */
+export function getBankTracks(config: MappingConfig, bank: number): TrackMapping[] | undefined {
+  return bank === 0 ? config.tracks : config.banks?.[bank - 1];
+}
+
+/**
+ * Splits a track number (1-64) into its bank and physical strip.
+ * Example: track 11 -> { bank: 1, strip: 2 }
+ *
+ * @returns Bank index (0-based) and strip index (0-7)
+ */
+export function getBankPosition(trackNumber: number): { bank: number; strip: number } {
+  return {
+    bank: Math.floor((trackNumber - 1) / TRACK_CONSTANTS.COUNT),
+    strip: (trackNumber - 1) % TRACK_CONSTANTS.COUNT,
+  };
+}
+
+/**
+ * Gets the base mapping of a control in any bank.
+ * Example: 'track9.solo' -> solo of the first track of bank 1
+ *
+ * @param controlType - Full control type identifier (e.g., 'track9.solo', 'transport.play')
+ * @returns The mapping entry, or undefined if the mapping has no such control
+ */
+export function getControlMapping(config: MappingConfig, controlType: string): MappingEntry | undefined {
+  const [section, control] = controlType.split('.');
+  if (section === 'transport') {
+    return TRANSPORT_CONTROL_TYPES.includes(control as TransportControlType)
+      ? config.transport[control as TransportControlType]
+      : undefined;
+  }
+
+  const trackMatch = section?.match(/^track(\d+)$/);
+  if (!trackMatch || !TRACK_CONTROL_TYPES.includes(control as ControlType)) {
+    return undefined;
+  }
+  const { bank, strip } = getBankPosition(parseInt(trackMatch[1] ?? '', 10));
+  return getBankTracks(config, bank)?.[strip]?.[control as ControlType];
+}
+
+// =============================================================================
+// Button Groups
+// =============================================================================
+
+/**
+ * Finds the radio-button group a button belongs to.
+ *
+ * @param controlType - Full control type identifier (e.g., 'track1.solo')
+ * @returns The group, or undefined if the button isn't in one
+ */
+export function findButtonGroup(config: MappingConfig, controlType: string): ButtonGroup | undefined {
+  return config.groups?.find((group) => group.buttons.includes(controlType));
+}
+
+// =============================================================================
+// Device Profiles
+// =============================================================================
+
+/** ID of the built-in nanoKONTROL2 profile */
+export const NANOKONTROL2_PROFILE_ID = 'nanokontrol2';
+
+/**
+ * Gets the profile slot a control is played on; bank tracks use the slot of
+ * their strip. Example: 'track9.knob' -> 'track1.knob'
+ */
+export function getProfileSlot(controlType: string): string {
+  const match = controlType.match(/^track(\d+)\.(\w+)$/);
+  if (!match) {
+    return controlType;
+  }
+  const { strip } = getBankPosition(parseInt(match[1] ?? '', 10));
+  return `track${strip + 1}.${match[2]}`;
+}
+
+/**
+ * Gets the mapping slot a profile's control is played through.
+ *
+ * @param id - Control ID in the profile (e.g., 'pad1')
+ * @param control - The control
+ */
+export function getProfileControlSlot(id: string, control: ProfileControl): string {
+  return control.slot ?? id;
+}
+
+/**
+ * Finds the hardware control of a device played through a control type's slot (any bank).
+ */
+export function findProfileControl(profile: DeviceProfile, controlType: string): ProfileControl | undefined {
+  const slot = getProfileSlot(controlType);
+  return Object.entries(profile.controls).find(([id, control]) => getProfileControlSlot(id, control) === slot)?.[1];
+}
+
+/**
+ * Checks if a device has a hardware control for a control type (any bank).
+ */
+export function hasProfileControl(profile: DeviceProfile, controlType: string): boolean {
+  return findProfileControl(profile, controlType) !== undefined;
+}
+
+/**
+ * Gets the LED CC of the button sending a CC, or undefined if it has no LED.
+ */
+export function getProfileLedCC(profile: DeviceProfile, cc: number): number | undefined {
+  return Object.values(profile.controls).find((control) => control.cc === cc)?.led;
+}
+
+/**
+ * Gets the LED CCs of all buttons of a device.
+ */
+export function getProfileLedCCs(profile: DeviceProfile): number[] {
+  return Object.values(profile.controls).flatMap((control) => (control.led !== undefined ? [control.led] : []));
+}
+
+/**
+ * Compiles a profile's port-name pattern (case-insensitive).
+ */
+export function getProfilePortPattern(profile: DeviceProfile): RegExp {
+  return new RegExp(profile.portPattern, 'i');
+}
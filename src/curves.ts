@@ -0,0 +1,143 @@
+/**
+ * Value curves for continuous controls.
+ *
+ * Shared by the mapping engine (which applies them to outgoing values) and
+ * the editor GUI (which previews them), so both use identical math.
+ */
+
+import type { CurveType } from './types.js';
+import { MIDI_VALUE_ON, MIDI_VALUE_OFF, MIDI_14BIT_MAX } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** All supported curve types, in display order */
+export const CURVE_TYPES: readonly CurveType[] = ['linear', 'log', 'exp', 'scurve', 'stepped'];
+
+/** Default number of positions for the stepped curve */
+export const DEFAULT_CURVE_STEPS = 8;
+
+/** Minimum number of positions for the stepped curve */
+export const MIN_CURVE_STEPS = 2;
+
+/** Maximum number of positions for the stepped curve (one per MIDI value) */
+export const MAX_CURVE_STEPS = 128;
+
+/**
+ * Curvature of the log/exp curves.
+ * log(1 + 9x) / log(10) spans one decade, a common audio taper.
+ */
+const LOG_CURVE_BASE = 10;
+
+// =============================================================================
+// Curve Functions
+// =============================================================================
+
+/**
+ * Shapes a 0-127 control value with a response curve.
+ *
+ * - linear: No shaping
+ * - log: Fast rise at the bottom of travel, fine control at the top
+ * - exp: Fine control at the bottom of travel, fast rise at the top
+ * - scurve: Fine control at both ends, fast through the middle
+ * - stepped: Quantized to `steps` evenly spaced positions
+ *
+ * @param value - Control value (0-127)
+ * @param curve - Curve type (default 'linear')
+ * @param steps - Number of positions for the stepped curve
+ * @returns Shaped value (0-127, not rounded)
+ */
+export function applyCurve(
+  value: number,
+  curve: CurveType = 'linear',
+  steps: number = DEFAULT_CURVE_STEPS
+): number {
+  const x = Math.max(0, Math.min(1, value / MIDI_VALUE_ON));
+  let y: number;
+
+  switch (curve) {
+    case 'log':
+      y = Math.log(1 + (LOG_CURVE_BASE - 1) * x) / Math.log(LOG_CURVE_BASE);
+      break;
+    case 'exp':
+      y = (Math.pow(LOG_CURVE_BASE, x) - 1) / (LOG_CURVE_BASE - 1);
+      break;
+    case 'scurve':
+      y = x * x * (3 - 2 * x);
+      break;
+    case 'stepped': {
+      const positions = Math.max(MIN_CURVE_STEPS, Math.min(MAX_CURVE_STEPS, Math.round(steps)));
+      y = Math.round(x * (positions - 1)) / (positions - 1);
+      break;
+    }
+    default:
+      y = x;
+  }
+
+  return y * MIDI_VALUE_ON;
+}
+
+/**
+ * Scales a 0-127 control value into the configured output range.
+ *
+ * Formula: min + (value / 127) * (max - min). When minValue is greater than
+ * maxValue the control is inverted (0 -> minValue, 127 -> maxValue).
+ * The result is rounded and clamped to 0-127.
+ *
+ * @param value - Control value (0-127)
+ * @param minValue - Output value at the bottom of travel (default 0)
+ * @param maxValue - Output value at the top of travel (default 127)
+ * @returns Scaled output value (0-127)
+ */
+export function scaleToRange(
+  value: number,
+  minValue: number = MIDI_VALUE_OFF,
+  maxValue: number = MIDI_VALUE_ON
+): number {
+  return Math.round(scaleToRangeExact(value, minValue, maxValue));
+}
+
+/**
+ * Same as scaleToRange, but without rounding (clamped to 0-127).
+ */
+function scaleToRangeExact(
+  value: number,
+  minValue: number = MIDI_VALUE_OFF,
+  maxValue: number = MIDI_VALUE_ON
+): number {
+  const scaled = minValue + (value / MIDI_VALUE_ON) * (maxValue - minValue);
+  return Math.max(MIDI_VALUE_OFF, Math.min(MIDI_VALUE_ON, scaled));
+}
+
+/**
+ * Transforms a continuous control value: applies the curve, then scales into
+ * the output range.
+ *
+ * @param value - Control value (0-127)
+ * @param options - Curve and range settings (typically a MappingEntry)
+ * @returns Output value (0-127)
+ */
+export function transformContinuousValue(
+  value: number,
+  options: { curve?: CurveType | undefined; steps?: number | undefined; minValue?: number | undefined; maxValue?: number | undefined }
+): number {
+  return scaleToRange(applyCurve(value, options.curve, options.steps), options.minValue, options.maxValue);
+}
+
+/**
+ * Transforms a continuous control value into a 14-bit output value
+ * (cc14/NRPN/RPN). The curve and range are applied at full precision, so
+ * curved or narrowed ranges use the extra resolution.
+ *
+ * @param value - Control value (0-127, fractional values allowed)
+ * @param options - Curve and range settings (typically a MappingEntry)
+ * @returns Output value (0-16383)
+ */
+export function transformContinuousValue14(
+  value: number,
+  options: { curve?: CurveType | undefined; steps?: number | undefined; minValue?: number | undefined; maxValue?: number | undefined }
+): number {
+  const exact = scaleToRangeExact(applyCurve(value, options.curve, options.steps), options.minValue, options.maxValue);
+  return Math.round((exact / MIDI_VALUE_ON) * MIDI_14BIT_MAX);
+}
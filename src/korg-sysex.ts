@@ -0,0 +1,419 @@
+/**
+ * nanoKONTROL2 SysEx Protocol
+ *
+ * Builds and parses the system exclusive messages the Korg nanoKONTROL2
+ * answers: the universal identity request, and the Korg exclusive messages
+ * that dump the current scene, load a scene and write it to the unit's
+ * memory. SysexSession runs these exchanges over any transport (the
+ * hardware ports of MidiHandler, or a simulated device in tests), one at a
+ * time, matching each reply to its request.
+ *
+ * Korg exclusive messages start with F0 42 4g 00 01 13 00, where g is the
+ * unit's global MIDI channel (0-15), which the identity reply reports. Scene
+ * parameters travel 7-bit encoded: 339 bytes become 388.
+ */
+
+/** Size of the decoded scene parameters (bytes) */
+export const SCENE_DATA_SIZE = 339;
+
+/** Size of the 7-bit encoded scene parameters (bytes) */
+const ENCODED_SCENE_DATA_SIZE = 388;
+
+/** Time to wait for the reply to a request (ms) */
+export const DEFAULT_SYSEX_TIMEOUT_MS = 2000;
+
+/** Korg manufacturer ID */
+const KORG_ID = 0x42;
+
+/** nanoKONTROL2 model ID of Korg exclusive messages, following the channel byte */
+const MODEL_ID = [0x00, 0x01, 0x13, 0x00] as const;
+
+/** nanoKONTROL2 device family code of the identity reply */
+export const NANOKONTROL2_FAMILY = 0x0113;
+
+/** Function bytes of Korg exclusive messages, following the model ID */
+const FUNCTION = {
+  SCENE_DUMP_REQUEST: [0x1f, 0x10, 0x00],
+  SCENE_WRITE_REQUEST: [0x1f, 0x11, 0x00],
+  SCENE_DUMP: [0x7f, 0x7f, 0x02, 0x03, 0x05, 0x40],
+  WRITE_COMPLETED: [0x5f, 0x21, 0x00],
+  WRITE_ERROR: [0x5f, 0x22, 0x00],
+  LOAD_COMPLETED: [0x5f, 0x23, 0x00],
+  LOAD_ERROR: [0x5f, 0x24, 0x00],
+} as const;
+
+/** Identity of a unit, from its identity reply */
+export interface DeviceIdentity {
+  /** Global MIDI channel (1-16) */
+  channel: number;
+  manufacturer: number;
+  family: number;
+  member: number;
+  /** Firmware version (e.g., '1.03') */
+  version: string;
+}
+
+/** Korg exclusive message received from the unit */
+export type KorgReply =
+  | { type: 'sceneDump'; channel: number; data: Uint8Array }
+  | { type: 'loadCompleted' | 'loadError' | 'writeCompleted' | 'writeError'; channel: number };
+
+/** Sends SysEx message bytes (F0 ... F7) to the unit */
+export type SysexSender = (bytes: number[]) => void;
+
+// =============================================================================
+// 7-Bit Encoding
+// =============================================================================
+
+/**
+ * Encodes data as Korg 7-bit SysEx data: each group of up to 7 data bytes is
+ * preceded by a byte holding their most significant bits (bit N for byte N).
+ */
+export function encodeSevenBit(data: Uint8Array): Uint8Array {
+  const encoded: number[] = [];
+  for (let i = 0; i < data.length; i += 7) {
+    const group = Array.from(data.subarray(i, i + 7));
+    encoded.push(group.reduce((msbs, byte, j) => msbs | ((byte >> 7) << j), 0));
+    encoded.push(...group.map((byte) => byte & 0x7f));
+  }
+  return new Uint8Array(encoded);
+}
+
+/**
+ * Decodes Korg 7-bit encoded SysEx data. See encodeSevenBit.
+ */
+export function decodeSevenBit(data: Uint8Array): Uint8Array {
+  const decoded: number[] = [];
+  for (let i = 0; i < data.length; i += 8) {
+    const msbs = data[i] ?? 0;
+    for (let j = 1; j < 8 && i + j < data.length; j++) {
+      decoded.push((data[i + j] ?? 0) | (((msbs >> (j - 1)) & 1) << 7));
+    }
+  }
+  return new Uint8Array(decoded);
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+/**
+ * Builds a Korg exclusive message for the unit on a global channel.
+ *
+ * @param channel - Global MIDI channel of the unit (1-16)
+ */
+function buildKorgMessage(channel: number, body: readonly number[]): number[] {
+  return [0xf0, KORG_ID, 0x40 | ((channel - 1) & 0x0f), ...MODEL_ID, ...body, 0xf7];
+}
+
+/**
+ * Builds the universal identity request, answered by every unit on the port.
+ */
+export function buildIdentityRequest(): number[] {
+  return [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7];
+}
+
+/**
+ * Builds the request for a dump of the unit's current scene.
+ */
+export function buildSceneDumpRequest(channel: number): number[] {
+  return buildKorgMessage(channel, FUNCTION.SCENE_DUMP_REQUEST);
+}
+
+/**
+ * Builds a current scene data dump, which loads the scene into the unit
+ * (or is the unit's answer to a dump request).
+ *
+ * @param data - The 339 scene parameter bytes
+ */
+export function buildSceneDump(channel: number, data: Uint8Array): number[] {
+  if (data.length !== SCENE_DATA_SIZE) {
+    throw new Error(`Scene data must be ${SCENE_DATA_SIZE} bytes, got: ${data.length}`);
+  }
+  return buildKorgMessage(channel, [...FUNCTION.SCENE_DUMP, ...encodeSevenBit(data)]);
+}
+
+/**
+ * Builds the request to write the current scene to the unit's memory, so it
+ * is kept when the unit is switched off.
+ */
+export function buildSceneWriteRequest(channel: number): number[] {
+  return buildKorgMessage(channel, FUNCTION.SCENE_WRITE_REQUEST);
+}
+
+/**
+ * Builds a Korg exclusive reply of the unit (used by simulated devices).
+ */
+export function buildKorgReply(reply: KorgReply): number[] {
+  switch (reply.type) {
+    case 'sceneDump':
+      return buildSceneDump(reply.channel, reply.data);
+    case 'loadCompleted':
+      return buildKorgMessage(reply.channel, FUNCTION.LOAD_COMPLETED);
+    case 'loadError':
+      return buildKorgMessage(reply.channel, FUNCTION.LOAD_ERROR);
+    case 'writeCompleted':
+      return buildKorgMessage(reply.channel, FUNCTION.WRITE_COMPLETED);
+    case 'writeError':
+      return buildKorgMessage(reply.channel, FUNCTION.WRITE_ERROR);
+  }
+}
+
+/**
+ * Checks whether bytes continue with the given bytes at an offset.
+ */
+function startsWithAt(bytes: readonly number[], offset: number, expected: readonly number[]): boolean {
+  return expected.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Parses a universal identity reply.
+ *
+ * @returns The identity, or null if the message is no identity reply
+ */
+export function parseIdentityReply(bytes: readonly number[]): DeviceIdentity | null {
+  // F0 7E <device ID> 06 02 <manufacturer> <family LSB MSB> <member LSB MSB> <version x4> F7
+  if (bytes.length < 15 || !startsWithAt(bytes, 0, [0xf0, 0x7e]) || !startsWithAt(bytes, 3, [0x06, 0x02])) {
+    return null;
+  }
+  const at = (i: number) => bytes[i] ?? 0;
+  return {
+    channel: (at(2) & 0x0f) + 1,
+    manufacturer: at(5),
+    // Korg writes family and member codes as the byte pair, e.g. 13 01 -> 0x0113
+    family: at(6) | (at(7) << 8),
+    member: at(8) | (at(9) << 8),
+    version: `${at(12) | (at(13) << 7)}.${String(at(10) | (at(11) << 7)).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Parses a Korg exclusive message of the nanoKONTROL2.
+ *
+ * @returns The reply, or null if the message is no nanoKONTROL2 reply
+ */
+export function parseKorgReply(bytes: readonly number[]): KorgReply | null {
+  const channelByte = bytes[2] ?? 0;
+  if (bytes[0] !== 0xf0 || bytes[1] !== KORG_ID || (channelByte & 0xf0) !== 0x40 || !startsWithAt(bytes, 3, MODEL_ID)) {
+    return null;
+  }
+  const channel = (channelByte & 0x0f) + 1;
+  const bodyOffset = 3 + MODEL_ID.length;
+
+  if (startsWithAt(bytes, bodyOffset, FUNCTION.SCENE_DUMP)) {
+    const start = bodyOffset + FUNCTION.SCENE_DUMP.length;
+    const encoded = bytes.slice(start, start + ENCODED_SCENE_DATA_SIZE);
+    if (encoded.length !== ENCODED_SCENE_DATA_SIZE) {
+      return null;
+    }
+    return { type: 'sceneDump', channel, data: decodeSevenBit(new Uint8Array(encoded)) };
+  }
+
+  const replies = [
+    ['loadCompleted', FUNCTION.LOAD_COMPLETED],
+    ['loadError', FUNCTION.LOAD_ERROR],
+    ['writeCompleted', FUNCTION.WRITE_COMPLETED],
+    ['writeError', FUNCTION.WRITE_ERROR],
+  ] as const;
+  for (const [type, body] of replies) {
+    if (startsWithAt(bytes, bodyOffset, body)) {
+      return { type, channel };
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+/** Request waiting for its reply */
+interface PendingReply {
+  /** Returns the result for a matching reply, or undefined to keep waiting */
+  match: (bytes: number[]) => unknown;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs SysEx exchanges with a nanoKONTROL2 over a transport: messages are
+ * sent with the given sender, and received messages are passed in with
+ * handleMessage. Exchanges run one after another; each request fails if
+ * the unit doesn't reply in time.
+ *
+ * @example
+ * const session = new SysexSession((bytes) => output.send('sysex', bytes));
+ * input.on('sysex', (msg) => session.handleMessage(msg.bytes));
+ *
+ * const data = await session.requestSceneData();
+ */
+export class SysexSession {
+  private readonly send: SysexSender;
+  private readonly timeoutMs: number;
+  /** Request waiting for its reply, or null */
+  private pending: PendingReply | null = null;
+  /** End of the last queued exchange */
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Global channel of the unit, from its identity reply */
+  private channel: number | null = null;
+  /** Bumped by cancel, failing the exchanges queued before it */
+  private generation = 0;
+  /** Reason given to the last cancel */
+  private cancelReason = '';
+
+  constructor(send: SysexSender, timeoutMs: number = DEFAULT_SYSEX_TIMEOUT_MS) {
+    this.send = send;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Passes a SysEx message received from the unit to the waiting request.
+   */
+  handleMessage(bytes: number[]): void {
+    if (!this.pending) return;
+
+    const result = this.pending.match(bytes);
+    if (result !== undefined) {
+      const { resolve, timer } = this.pending;
+      clearTimeout(timer);
+      this.pending = null;
+      resolve(result);
+    }
+  }
+
+  /**
+   * Fails the waiting and queued requests (e.g., when the unit disconnects)
+   * and forgets the unit's channel.
+   */
+  cancel(reason: string): void {
+    this.channel = null;
+    this.generation++;
+    this.cancelReason = reason;
+    if (this.pending) {
+      const { reject, timer } = this.pending;
+      clearTimeout(timer);
+      this.pending = null;
+      reject(new Error(reason));
+    }
+  }
+
+  /**
+   * Asks the unit for its identity.
+   *
+   * @throws If the unit doesn't answer, or isn't a nanoKONTROL2
+   */
+  requestIdentity(): Promise<DeviceIdentity> {
+    return this.enqueue(() => this.exchangeIdentity());
+  }
+
+  /**
+   * Asks the unit for a dump of its current scene.
+   *
+   * @returns The 339 scene parameter bytes
+   * @throws If the unit doesn't answer
+   */
+  requestSceneData(): Promise<Uint8Array> {
+    return this.enqueue(async () => {
+      const channel = await this.getChannel();
+      return this.exchange(buildSceneDumpRequest(channel), 'scene dump', (bytes) => {
+        const reply = parseKorgReply(bytes);
+        return reply?.type === 'sceneDump' ? reply.data : undefined;
+      });
+    });
+  }
+
+  /**
+   * Loads a scene into the unit, which uses it right away.
+   *
+   * @param data - The 339 scene parameter bytes
+   * @param store - Whether to also write the scene to the unit's memory, so it is kept when switched off
+   * @throws If the unit doesn't answer or reports an error
+   */
+  writeSceneData(data: Uint8Array, store = true): Promise<void> {
+    return this.enqueue(async () => {
+      const channel = await this.getChannel();
+
+      const loaded = await this.exchange(buildSceneDump(channel, data), 'scene load', (bytes) => {
+        const reply = parseKorgReply(bytes);
+        return reply?.type === 'loadCompleted' || reply?.type === 'loadError' ? reply.type : undefined;
+      });
+      if (loaded === 'loadError') {
+        throw new Error('The nanoKONTROL2 rejected the scene data');
+      }
+
+      if (store) {
+        const written = await this.exchange(buildSceneWriteRequest(channel), 'scene write', (bytes) => {
+          const reply = parseKorgReply(bytes);
+          return reply?.type === 'writeCompleted' || reply?.type === 'writeError' ? reply.type : undefined;
+        });
+        if (written === 'writeError') {
+          throw new Error('The nanoKONTROL2 failed to write the scene to its memory');
+        }
+      }
+    });
+  }
+
+  /**
+   * Runs an exchange after the ones queued before it.
+   */
+  private enqueue<T>(exchange: () => Promise<T>): Promise<T> {
+    const generation = this.generation;
+    const run = () => {
+      if (generation !== this.generation) {
+        return Promise.reject(new Error(this.cancelReason));
+      }
+      return exchange();
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Gets the unit's global channel, asking for its identity the first time.
+   */
+  private async getChannel(): Promise<number> {
+    if (this.channel === null) {
+      this.channel = (await this.exchangeIdentity()).channel;
+    }
+    return this.channel;
+  }
+
+  /**
+   * Sends the identity request and checks the reply is a nanoKONTROL2's.
+   */
+  private async exchangeIdentity(): Promise<DeviceIdentity> {
+    const identity = await this.exchange(buildIdentityRequest(), 'identity', (bytes) => parseIdentityReply(bytes) ?? undefined);
+    if (identity.manufacturer !== KORG_ID || identity.family !== NANOKONTROL2_FAMILY) {
+      throw new Error(
+        `Not a nanoKONTROL2 (manufacturer ${identity.manufacturer.toString(16)}, family ${identity.family.toString(16)})`
+      );
+    }
+    this.channel = identity.channel;
+    return identity;
+  }
+
+  /**
+   * Sends a message and waits for the reply the matcher accepts.
+   *
+   * @param name - Name of the exchange, for the timeout error
+   */
+  private exchange<T>(message: number[], name: string, match: (bytes: number[]) => T | undefined): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new Error(`No ${name} reply from the nanoKONTROL2 within ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+      this.pending = { match, resolve: resolve as (result: unknown) => void, reject, timer };
+
+      try {
+        this.send(message);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending = null;
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
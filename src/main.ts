@@ -21,7 +21,13 @@ import { fileURLToPath } from 'url';
 
 import { parseMapping } from './config-parser.js';
 import { MidiHandler } from './midi-handler.js';
-import { MappingEngine, type ProcessedMessage, type ButtonStateChangeEvent } from './mapping-engine.js';
+import {
+  MappingEngine,
+  shouldSendOutput,
+  type ProcessedMessage,
+  type ButtonStateChangeEvent,
+  type BankChangeEvent,
+} from './mapping-engine.js';
 import { LedController } from './led-controller.js';
 import { getAvailablePorts, formatPortsForDisplay, isMidiAvailable } from './midi-discovery.js';
 import type { CCMessage, MappingConfig, ConnectedEvent, DisconnectedEvent, ErrorEvent } from './types.js';
@@ -542,6 +548,27 @@ function createShutdownHandler(
   };
 }
 
+/**
+ * Sends a processed message to the virtual output.
+ * 14-bit types are sent unsmoothed; additional targets are always 7-bit CC.
+ */
+function sendProcessed(midiHandler: MidiHandler, processed: ProcessedMessage): void {
+  // Convert channel from 1-indexed (display) to 0-indexed (MIDI)
+  if (shouldSendOutput(processed)) {
+    midiHandler.sendOutput(
+      processed.channel - 1,
+      processed.outputType,
+      processed.parameter ?? processed.outputCC,
+      processed.highResValue ?? processed.value
+    );
+    logCCMessage(processed);
+  }
+
+  for (const target of processed.targets ?? []) {
+    midiHandler.sendCC(target.channel - 1, target.outputCC, target.value);
+  }
+}
+
 /**
  * Sets up event handlers to connect the components.
  *
@@ -560,12 +587,20 @@ function setupEventHandlers(
 
     const processed = mappingEngine.processCC(msg.channel, msg.controller, msg.value);
 
-    if (processed) {
-      // Send remapped CC to virtual output
-      // Convert channel from 1-indexed (display) to 0-indexed (MIDI)
-      midiHandler.sendCC(processed.channel - 1, processed.outputCC, processed.value);
-      logCCMessage(processed);
+    if (!processed) {
+      return;
     }
+
+    // Buttons turned off by a radio group send their off values first
+    for (const released of processed.released ?? []) {
+      sendProcessed(midiHandler, released);
+    }
+    sendProcessed(midiHandler, processed);
+  });
+
+  // Trigger releases, long presses and single taps are decided by engine timers
+  mappingEngine.on('timedOutput', (processed: ProcessedMessage) => {
+    sendProcessed(midiHandler, processed);
   });
 
   // Handle button state changes (for LED updates)
@@ -574,6 +609,12 @@ function setupEventHandlers(
     logLedChange(event.cc, event.isOn, event.controlType);
   });
 
+  // Handle track bank paging (track_left/track_right when the mapping has banks)
+  mappingEngine.on('bankChanged', (event: BankChangeEvent) => {
+    const firstTrack = event.bank * 8 + 1;
+    logInfo(`Track bank ${event.bank + 1}/${event.bankCount} (tracks ${firstTrack}-${firstTrack + 7})`);
+  });
+
   // Handle device connection
   midiHandler.on('connected', (event: ConnectedEvent) => {
     // Clear error log on successful connection to allow fresh error reporting
@@ -9,6 +9,19 @@ import type { IpcMain } from 'electron';
 import { IPC_INVOKE, IPC_EVENTS } from '@shared/ipc-protocol.js';
 import type {
   SendCCRequest,
+  SendControlRequest,
+  SetShiftRequest,
+  SetBankRequest,
+  RecallSceneRequest,
+  RecallSceneResponse,
+  SetCrossfadeRequest,
+  SetCrossfadeResponse,
+  QueryHardwareSceneResponse,
+  WriteHardwareSceneRequest,
+  WriteHardwareSceneResponse,
+  SetMonitoringRequest,
+  StartLearnRequest,
+  StartLearnResponse,
   ConnectRequest,
   ConnectResponse,
   GetPortsResponse,
@@ -20,15 +33,46 @@ import type {
   DeletePresetRequest,
   DeletePresetResponse,
   ListPresetsResponse,
+  ExportPresetsRequest,
+  ExportPresetsResponse,
+  ReadPresetImportRequest,
+  ReadPresetImportResponse,
+  ImportPresetsRequest,
+  ImportPresetsResponse,
   ApplyMappingRequest,
   ApplyMappingResponse,
   GetConfigResponse,
   UpdateConfigRequest,
   UpdateConfigResponse,
+  ListProfilesResponse,
+  StopRecordingRequest,
+  StopRecordingResponse,
+  ListTakesResponse,
+  DeleteTakeRequest,
+  DeleteTakeResponse,
+  StartReplayRequest,
+  StartReplayResponse,
+  ExportTakeMidiRequest,
+  ExportTakeMidiResponse,
+  ImportTakeMidiRequest,
+  ImportTakeMidiResponse,
 } from '@shared/ipc-protocol.js';
+import type { DeviceScoped } from '@shared/ipc-protocol.js';
+import { createTakeMetadata, safeValidatePreset, createDefaultMappingConfig } from '@shared/schemas.js';
 import { MidiManager } from './services/midi-manager.js';
 import { FileManager } from './services/file-manager.js';
 import { ConfigManager } from './services/config-manager.js';
+import { ProfileManager } from './services/profile-manager.js';
+import { writeMidiFile, readMidiFile } from './services/midi-file.js';
+import {
+  writePresetFile,
+  writeMappingFile,
+  writePresetBundle,
+  readPresetImport,
+  findPresetConflict,
+  resolvePresetImport,
+  toFileName,
+} from './services/preset-bundle.js';
 import { sendToRenderer } from './utils/renderer-bridge.js';
 
 // =============================================================================
@@ -38,6 +82,7 @@ import { sendToRenderer } from './utils/renderer-bridge.js';
 let midiManager: MidiManager | null = null;
 let fileManager: FileManager | null = null;
 let configManager: ConfigManager | null = null;
+let profileManager: ProfileManager | null = null;
 
 // =============================================================================
 // Initialization
@@ -53,8 +98,11 @@ function initializeServices(): void {
   // Initialize file manager for preset storage
   fileManager = new FileManager();
 
+  // Load device profiles before MIDI so units of every model are recognized
+  profileManager = new ProfileManager();
+
   // Initialize MIDI manager
-  midiManager = new MidiManager();
+  midiManager = new MidiManager(profileManager.getProfiles());
 
   // Set up MIDI event forwarding to renderer
   setupMidiEventForwarding();
@@ -70,6 +118,42 @@ function setupMidiEventForwarding(): void {
     sendToRenderer(IPC_EVENTS.MIDI_CC, event);
   });
 
+  midiManager.on('takeover', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_TAKEOVER, event);
+  });
+
+  midiManager.on('ledFeedback', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_LED_FEEDBACK, event);
+  });
+
+  midiManager.on('shift', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_SHIFT, event);
+  });
+
+  midiManager.on('bank', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_BANK, event);
+  });
+
+  midiManager.on('scene', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_SCENE, event);
+  });
+
+  midiManager.on('crossfade', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_CROSSFADE, event);
+  });
+
+  midiManager.on('monitor', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_MONITOR, event);
+  });
+
+  midiManager.on('automation', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_AUTOMATION, event);
+  });
+
+  midiManager.on('learn', (event) => {
+    sendToRenderer(IPC_EVENTS.MIDI_LEARN, event);
+  });
+
   midiManager.on('connected', (event) => {
     sendToRenderer(IPC_EVENTS.MIDI_CONNECTED, event);
   });
@@ -100,10 +184,20 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
 
   // MIDI handlers
   ipcMain.handle(IPC_INVOKE.MIDI_SEND, handleMidiSend);
+  ipcMain.handle(IPC_INVOKE.MIDI_SEND_CONTROL, handleMidiSendControl);
+  ipcMain.handle(IPC_INVOKE.MIDI_SET_SHIFT, handleMidiSetShift);
+  ipcMain.handle(IPC_INVOKE.MIDI_SET_BANK, handleMidiSetBank);
+  ipcMain.handle(IPC_INVOKE.MIDI_RECALL_SCENE, handleMidiRecallScene);
+  ipcMain.handle(IPC_INVOKE.MIDI_SET_CROSSFADE, handleMidiSetCrossfade);
   ipcMain.handle(IPC_INVOKE.MIDI_CONNECT, handleMidiConnect);
   ipcMain.handle(IPC_INVOKE.MIDI_DISCONNECT, handleMidiDisconnect);
   ipcMain.handle(IPC_INVOKE.MIDI_GET_PORTS, handleMidiGetPorts);
   ipcMain.handle(IPC_INVOKE.MIDI_GET_STATUS, handleMidiGetStatus);
+  ipcMain.handle(IPC_INVOKE.MIDI_LEARN_START, handleMidiLearnStart);
+  ipcMain.handle(IPC_INVOKE.MIDI_LEARN_CANCEL, handleMidiLearnCancel);
+  ipcMain.handle(IPC_INVOKE.MIDI_SET_MONITORING, handleMidiSetMonitoring);
+  ipcMain.handle(IPC_INVOKE.MIDI_QUERY_HARDWARE_SCENE, handleMidiQueryHardwareScene);
+  ipcMain.handle(IPC_INVOKE.MIDI_WRITE_HARDWARE_SCENE, handleMidiWriteHardwareScene);
 
   // Preset handlers
   ipcMain.handle(IPC_INVOKE.PRESET_LOAD, handlePresetLoad);
@@ -111,11 +205,27 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
   ipcMain.handle(IPC_INVOKE.PRESET_DELETE, handlePresetDelete);
   ipcMain.handle(IPC_INVOKE.PRESET_LIST, handlePresetList);
   ipcMain.handle(IPC_INVOKE.PRESET_APPLY, handlePresetApply);
+  ipcMain.handle(IPC_INVOKE.PRESET_EXPORT, handlePresetExport);
+  ipcMain.handle(IPC_INVOKE.PRESET_READ_IMPORT, handlePresetReadImport);
+  ipcMain.handle(IPC_INVOKE.PRESET_IMPORT, handlePresetImport);
 
   // Config handlers
   ipcMain.handle(IPC_INVOKE.CONFIG_GET, handleConfigGet);
   ipcMain.handle(IPC_INVOKE.CONFIG_UPDATE, handleConfigUpdate);
 
+  // Profile handlers
+  ipcMain.handle(IPC_INVOKE.PROFILE_LIST, handleProfileList);
+
+  // Automation take handlers
+  ipcMain.handle(IPC_INVOKE.TAKE_RECORD_START, handleTakeRecordStart);
+  ipcMain.handle(IPC_INVOKE.TAKE_RECORD_STOP, handleTakeRecordStop);
+  ipcMain.handle(IPC_INVOKE.TAKE_LIST, handleTakeList);
+  ipcMain.handle(IPC_INVOKE.TAKE_DELETE, handleTakeDelete);
+  ipcMain.handle(IPC_INVOKE.TAKE_REPLAY_START, handleTakeReplayStart);
+  ipcMain.handle(IPC_INVOKE.TAKE_REPLAY_STOP, handleTakeReplayStop);
+  ipcMain.handle(IPC_INVOKE.TAKE_EXPORT_MIDI, handleTakeExportMidi);
+  ipcMain.handle(IPC_INVOKE.TAKE_IMPORT_MIDI, handleTakeImportMidi);
+
   console.log('[ipc-handlers] All IPC handlers registered');
 
   // Apply saved config settings to MIDI manager
@@ -123,6 +233,12 @@ export function registerIpcHandlers(ipcMain: IpcMain): void {
   if (config && midiManager) {
     // Initialize LED mode from config
     midiManager.setLedMode(config.ledMode);
+    midiManager.setForceExternalLeds(config.forceExternalLeds);
+
+    // Initialize soft takeover from config
+    midiManager.setSoftTakeover(config.softTakeoverMode, config.softTakeoverThreshold);
+
+    midiManager.setSceneMorphRate(config.sceneMorphRate);
   }
 
   // Auto-connect if configured
@@ -143,20 +259,43 @@ export function cleanupIpcHandlers(ipcMain: IpcMain): void {
 
   // Deregister all IPC handlers to prevent memory leaks and stale references
   ipcMain.removeHandler(IPC_INVOKE.MIDI_SEND);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_SEND_CONTROL);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_SET_SHIFT);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_SET_BANK);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_RECALL_SCENE);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_SET_CROSSFADE);
   ipcMain.removeHandler(IPC_INVOKE.MIDI_CONNECT);
   ipcMain.removeHandler(IPC_INVOKE.MIDI_DISCONNECT);
   ipcMain.removeHandler(IPC_INVOKE.MIDI_GET_PORTS);
   ipcMain.removeHandler(IPC_INVOKE.MIDI_GET_STATUS);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_LEARN_START);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_LEARN_CANCEL);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_SET_MONITORING);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_QUERY_HARDWARE_SCENE);
+  ipcMain.removeHandler(IPC_INVOKE.MIDI_WRITE_HARDWARE_SCENE);
   ipcMain.removeHandler(IPC_INVOKE.PRESET_LOAD);
   ipcMain.removeHandler(IPC_INVOKE.PRESET_SAVE);
   ipcMain.removeHandler(IPC_INVOKE.PRESET_DELETE);
   ipcMain.removeHandler(IPC_INVOKE.PRESET_LIST);
   ipcMain.removeHandler(IPC_INVOKE.PRESET_APPLY);
+  ipcMain.removeHandler(IPC_INVOKE.PRESET_EXPORT);
+  ipcMain.removeHandler(IPC_INVOKE.PRESET_READ_IMPORT);
+  ipcMain.removeHandler(IPC_INVOKE.PRESET_IMPORT);
   ipcMain.removeHandler(IPC_INVOKE.CONFIG_GET);
   ipcMain.removeHandler(IPC_INVOKE.CONFIG_UPDATE);
+  ipcMain.removeHandler(IPC_INVOKE.PROFILE_LIST);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_RECORD_START);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_RECORD_STOP);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_LIST);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_DELETE);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_REPLAY_START);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_REPLAY_STOP);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_EXPORT_MIDI);
+  ipcMain.removeHandler(IPC_INVOKE.TAKE_IMPORT_MIDI);
 
   // Disconnect and cleanup MIDI
   if (midiManager) {
+    midiManager.stopReplay();
     midiManager.disconnect();
     midiManager = null;
   }
@@ -168,6 +307,7 @@ export function cleanupIpcHandlers(ipcMain: IpcMain): void {
   }
 
   fileManager = null;
+  profileManager = null;
 }
 
 // =============================================================================
@@ -178,7 +318,130 @@ async function handleMidiSend(_event: Electron.IpcMainInvokeEvent, request: Send
   if (!midiManager) {
     throw new Error('MIDI manager not initialized');
   }
-  midiManager.sendCC(request.channel, request.cc, request.value);
+  midiManager.sendCC(request.channel, request.cc, request.value, request.deviceId);
+}
+
+async function handleMidiSendControl(_event: Electron.IpcMainInvokeEvent, request: SendControlRequest): Promise<void> {
+  if (!midiManager) {
+    throw new Error('MIDI manager not initialized');
+  }
+  midiManager.sendControl(request.controlType, request.value, { press: request.press, cycleStep: request.cycleStep }, request.deviceId);
+}
+
+async function handleMidiSetShift(_event: Electron.IpcMainInvokeEvent, request: SetShiftRequest): Promise<void> {
+  if (!midiManager) {
+    throw new Error('MIDI manager not initialized');
+  }
+  midiManager.setShift(request.active, request.deviceId);
+}
+
+async function handleMidiSetBank(_event: Electron.IpcMainInvokeEvent, request: SetBankRequest): Promise<void> {
+  if (!midiManager) {
+    throw new Error('MIDI manager not initialized');
+  }
+  midiManager.setBank(request.bank, request.deviceId);
+}
+
+async function handleMidiRecallScene(
+  _event: Electron.IpcMainInvokeEvent,
+  request: RecallSceneRequest
+): Promise<RecallSceneResponse> {
+  if (!midiManager) {
+    return { success: false, error: 'MIDI manager not initialized' };
+  }
+
+  if (!midiManager.recallScene(request.scene, request.deviceId)) {
+    return { success: false, error: `Scene ${request.scene + 1} does not exist in the applied mapping` };
+  }
+  return { success: true };
+}
+
+async function handleMidiSetCrossfade(
+  _event: Electron.IpcMainInvokeEvent,
+  request: SetCrossfadeRequest
+): Promise<SetCrossfadeResponse> {
+  if (!midiManager) {
+    return { success: false, error: 'MIDI manager not initialized' };
+  }
+
+  if (request.fader !== null && (!request.a || !request.b)) {
+    return { success: false, error: 'Both slots need stored control values to crossfade' };
+  }
+
+  if (!midiManager.setCrossfade(request.fader, request.a, request.b, request.deviceId)) {
+    return { success: false, error: 'Device not found' };
+  }
+  return { success: true };
+}
+
+async function handleMidiQueryHardwareScene(
+  _event: Electron.IpcMainInvokeEvent,
+  request?: DeviceScoped
+): Promise<QueryHardwareSceneResponse> {
+  if (!midiManager) {
+    return { success: false, error: 'MIDI manager not initialized' };
+  }
+
+  try {
+    return { success: true, scene: await midiManager.queryHardwareScene(request?.deviceId) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleMidiWriteHardwareScene(
+  _event: Electron.IpcMainInvokeEvent,
+  request: WriteHardwareSceneRequest
+): Promise<WriteHardwareSceneResponse> {
+  if (!midiManager || !fileManager) {
+    return { success: false, error: 'Services not initialized' };
+  }
+
+  try {
+    let mapping = createDefaultMappingConfig();
+    if (request.presetId !== undefined) {
+      const response = await fileManager.loadPreset(request.presetId);
+      if (!response.success || !response.preset) {
+        return { success: false, error: response.error ?? 'Preset not found' };
+      }
+      mapping = response.preset.mapping;
+    }
+
+    const approximated = await midiManager.writeHardwareScene(mapping, request.ledMode, request.store ?? true, request.deviceId);
+    return { success: true, approximated };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleMidiLearnStart(
+  _event: Electron.IpcMainInvokeEvent,
+  request: StartLearnRequest
+): Promise<StartLearnResponse> {
+  if (!midiManager) {
+    return { success: false, error: 'MIDI manager not initialized' };
+  }
+
+  try {
+    midiManager.startLearn(request.target, request.port, request.deviceId);
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleMidiLearnCancel(): Promise<void> {
+  midiManager?.cancelLearn();
+}
+
+async function handleMidiSetMonitoring(
+  _event: Electron.IpcMainInvokeEvent,
+  request: SetMonitoringRequest
+): Promise<void> {
+  midiManager?.setMonitoring(request.enabled);
 }
 
 async function handleMidiConnect(_event: Electron.IpcMainInvokeEvent, request?: ConnectRequest): Promise<ConnectResponse> {
@@ -217,7 +480,9 @@ async function handleMidiGetStatus(): Promise<MidiStatusResponse> {
       inputPort: null,
       outputPort: null,
       virtualPort: 'nkEditor3 Out',
+      virtualInputPort: null,
       midiAvailable: false,
+      devices: [],
     };
   }
   return midiManager.getStatus();
@@ -261,7 +526,7 @@ async function handlePresetApply(_event: Electron.IpcMainInvokeEvent, request: A
   }
 
   try {
-    midiManager.loadMapping(request.mapping);
+    midiManager.loadMapping(request.mapping, request.deviceId);
     return { success: true };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -269,6 +534,113 @@ async function handlePresetApply(_event: Electron.IpcMainInvokeEvent, request: A
   }
 }
 
+async function handlePresetExport(
+  _event: Electron.IpcMainInvokeEvent,
+  request: ExportPresetsRequest
+): Promise<ExportPresetsResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+
+  try {
+    if (request.id !== undefined) {
+      const response = await fileManager.loadPreset(request.id);
+      if (!response.success || !response.preset) {
+        return { success: false, error: response.error ?? 'Preset not found' };
+      }
+      const baseName = toFileName(response.preset.metadata.name);
+      if (request.format === 'txt') {
+        return { success: true, fileName: `${baseName}.txt`, data: writeMappingFile(response.preset) };
+      }
+      return { success: true, fileName: `${baseName}.json`, data: writePresetFile(response.preset) };
+    }
+
+    const { presets: library } = await fileManager.listPresets();
+    const presets = [];
+    for (const metadata of library) {
+      const response = await fileManager.loadPreset(metadata.id);
+      if (response.success && response.preset) {
+        presets.push(response.preset);
+      }
+    }
+    const fileName = `nkEditor3 presets ${new Date().toISOString().slice(0, 10)}.zip`;
+    return { success: true, fileName, data: writePresetBundle(presets) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handlePresetReadImport(
+  _event: Electron.IpcMainInvokeEvent,
+  request: ReadPresetImportRequest
+): Promise<ReadPresetImportResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+
+  try {
+    const { presets, invalid } = readPresetImport(request.data, request.fileName);
+    const { presets: library } = await fileManager.listPresets();
+
+    const candidates = presets.map((preset) => {
+      const found = findPresetConflict(preset, library);
+      return found
+        ? { preset, conflict: found.conflict, existingName: found.existing.name }
+        : { preset, conflict: null };
+    });
+    return { success: true, candidates, invalid };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `${request.fileName}: ${message}` };
+  }
+}
+
+async function handlePresetImport(
+  _event: Electron.IpcMainInvokeEvent,
+  request: ImportPresetsRequest
+): Promise<ImportPresetsResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+
+  const library = [...(await fileManager.listPresets()).presets];
+  const imported: string[] = [];
+  const failed: string[] = [];
+  let skipped = 0;
+
+  // Resolve against the library as it grows, so presets of one bundle don't collide either
+  for (const { preset, resolution } of request.items) {
+    const validation = safeValidatePreset(preset);
+    if (!validation.success) {
+      failed.push(`${preset.metadata?.name ?? 'Unnamed preset'}: invalid preset`);
+      continue;
+    }
+
+    const resolved = resolvePresetImport(validation.data, resolution, library);
+    if (!resolved) {
+      skipped++;
+      continue;
+    }
+
+    const response = await fileManager.savePreset(resolved, resolution === 'overwrite');
+    if (!response.success) {
+      failed.push(`${resolved.metadata.name}: ${response.error ?? 'failed to save'}`);
+      continue;
+    }
+
+    const index = library.findIndex((existing) => existing.id === resolved.metadata.id);
+    if (index >= 0) {
+      library.splice(index, 1);
+    }
+    library.push(resolved.metadata);
+    imported.push(resolved.metadata.id);
+  }
+
+  console.log(`[ipc-handlers] Imported ${imported.length} presets (${skipped} skipped, ${failed.length} failed)`);
+  return { success: failed.length === 0, imported, skipped, failed };
+}
+
 // =============================================================================
 // Config Handlers
 // =============================================================================
@@ -293,9 +665,151 @@ async function handleConfigUpdate(_event: Electron.IpcMainInvokeEvent, request:
       midiManager.setLedMode(request.updates.ledMode);
     }
 
+    if (request.updates.forceExternalLeds !== undefined && midiManager) {
+      midiManager.setForceExternalLeds(config.forceExternalLeds);
+    }
+
+    // Propagate soft takeover changes to MIDI manager
+    if (
+      (request.updates.softTakeoverMode !== undefined || request.updates.softTakeoverThreshold !== undefined) &&
+      midiManager
+    ) {
+      midiManager.setSoftTakeover(config.softTakeoverMode, config.softTakeoverThreshold);
+    }
+
+    if (request.updates.sceneMorphRate !== undefined && midiManager) {
+      midiManager.setSceneMorphRate(config.sceneMorphRate);
+    }
+
     return { success: true, config };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return { success: false, error: message };
   }
 }
+
+// =============================================================================
+// Profile Handlers
+// =============================================================================
+
+async function handleProfileList(): Promise<ListProfilesResponse> {
+  if (!profileManager) {
+    throw new Error('Profile manager not initialized');
+  }
+  return { profiles: profileManager.getProfiles() };
+}
+
+// =============================================================================
+// Automation Take Handlers
+// =============================================================================
+
+async function handleTakeRecordStart(_event: Electron.IpcMainInvokeEvent, request?: DeviceScoped): Promise<void> {
+  if (!midiManager) {
+    throw new Error('MIDI manager not initialized');
+  }
+  midiManager.startRecording(request?.deviceId);
+}
+
+async function handleTakeRecordStop(
+  _event: Electron.IpcMainInvokeEvent,
+  request: StopRecordingRequest
+): Promise<StopRecordingResponse> {
+  if (!midiManager || !fileManager) {
+    return { success: false, error: 'Services not initialized' };
+  }
+
+  const recorded = midiManager.stopRecording();
+  if (!recorded) {
+    return { success: false, error: 'Not recording' };
+  }
+  if (recorded.events.length === 0) {
+    return { success: false, error: 'Nothing was recorded' };
+  }
+
+  try {
+    const metadata = createTakeMetadata(request.name, recorded.duration, recorded.events.length, request.presetId);
+    await fileManager.saveTake({ metadata, events: recorded.events });
+    return { success: true, take: metadata };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleTakeList(): Promise<ListTakesResponse> {
+  if (!fileManager) {
+    return { takes: [] };
+  }
+  return fileManager.listTakes();
+}
+
+async function handleTakeDelete(_event: Electron.IpcMainInvokeEvent, request: DeleteTakeRequest): Promise<DeleteTakeResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+  return fileManager.deleteTake(request.id);
+}
+
+async function handleTakeReplayStart(
+  _event: Electron.IpcMainInvokeEvent,
+  request: StartReplayRequest
+): Promise<StartReplayResponse> {
+  if (!midiManager || !fileManager) {
+    return { success: false, error: 'Services not initialized' };
+  }
+
+  try {
+    const take = await fileManager.loadTake(request.id);
+    midiManager.startReplay(take, request.options, request.deviceId);
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleTakeReplayStop(): Promise<void> {
+  midiManager?.stopReplay();
+}
+
+async function handleTakeExportMidi(
+  _event: Electron.IpcMainInvokeEvent,
+  request: ExportTakeMidiRequest
+): Promise<ExportTakeMidiResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+
+  try {
+    const take = await fileManager.loadTake(request.id);
+    const data = writeMidiFile(take.events, request.options, take.metadata.name);
+    const fileName = `${toFileName(take.metadata.name)}.mid`;
+    return { success: true, fileName, data };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
+
+async function handleTakeImportMidi(
+  _event: Electron.IpcMainInvokeEvent,
+  request: ImportTakeMidiRequest
+): Promise<ImportTakeMidiResponse> {
+  if (!fileManager) {
+    return { success: false, error: 'File manager not initialized' };
+  }
+
+  try {
+    const { events, duration } = readMidiFile(request.data);
+    if (events.length === 0) {
+      return { success: false, error: 'The MIDI file has no CC messages' };
+    }
+
+    const metadata = createTakeMetadata(request.name, duration, events.length);
+    await fileManager.saveTake({ metadata, events });
+    return { success: true, take: metadata };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: message };
+  }
+}
@@ -9,11 +9,33 @@ import { contextBridge, ipcRenderer } from 'electron';
 import { IPC_EVENTS, IPC_INVOKE } from '@shared/ipc-protocol.js';
 import type {
   MidiCCEvent,
+  MidiTakeoverEvent,
+  MidiLedFeedbackEvent,
+  MidiShiftEvent,
+  MidiBankEvent,
+  MidiSceneEvent,
+  MidiCrossfadeEvent,
+  MidiLearnEvent,
+  MidiMonitorEvent,
+  MidiAutomationEvent,
   MidiConnectedEvent,
   MidiDisconnectedEvent,
   MidiPortsChangedEvent,
   ErrorEvent,
   SendCCRequest,
+  SendControlRequest,
+  SetShiftRequest,
+  SetBankRequest,
+  RecallSceneRequest,
+  RecallSceneResponse,
+  SetCrossfadeRequest,
+  SetCrossfadeResponse,
+  QueryHardwareSceneResponse,
+  WriteHardwareSceneRequest,
+  WriteHardwareSceneResponse,
+  SetMonitoringRequest,
+  StartLearnRequest,
+  StartLearnResponse,
   ConnectRequest,
   ConnectResponse,
   GetPortsResponse,
@@ -25,11 +47,30 @@ import type {
   DeletePresetRequest,
   DeletePresetResponse,
   ListPresetsResponse,
+  ExportPresetsRequest,
+  ExportPresetsResponse,
+  ReadPresetImportRequest,
+  ReadPresetImportResponse,
+  ImportPresetsRequest,
+  ImportPresetsResponse,
   ApplyMappingRequest,
   ApplyMappingResponse,
   GetConfigResponse,
   UpdateConfigRequest,
   UpdateConfigResponse,
+  ListProfilesResponse,
+  DeviceScoped,
+  StopRecordingRequest,
+  StopRecordingResponse,
+  ListTakesResponse,
+  DeleteTakeRequest,
+  DeleteTakeResponse,
+  StartReplayRequest,
+  StartReplayResponse,
+  ExportTakeMidiRequest,
+  ExportTakeMidiResponse,
+  ImportTakeMidiRequest,
+  ImportTakeMidiResponse,
 } from '@shared/ipc-protocol.js';
 
 /**
@@ -47,6 +88,77 @@ const electronAPI = {
     return ipcRenderer.invoke(IPC_INVOKE.MIDI_SEND, request);
   },
 
+  /**
+   * Sends a control value through the main-process mapping engine.
+   * The engine applies the preset's output CC, channel, range and on/off values.
+   */
+  sendControl: (request: SendControlRequest): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_SEND_CONTROL, request);
+  },
+
+  /**
+   * Activates or deactivates the current mapping's shift layer.
+   */
+  setShift: (request: SetShiftRequest): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_SET_SHIFT, request);
+  },
+
+  /**
+   * Pages the physical track strips to a bank of the current mapping.
+   */
+  setBank: (request: SetBankRequest): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_SET_BANK, request);
+  },
+
+  /**
+   * Recalls a scene of the current mapping, morphing its knobs/sliders to the scene's values.
+   */
+  recallScene: (request: RecallSceneRequest): Promise<RecallSceneResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_RECALL_SCENE, request);
+  },
+
+  /**
+   * Makes a knob/slider the morph fader between two presets' control values, or turns it off.
+   */
+  setCrossfade: (request: SetCrossfadeRequest): Promise<SetCrossfadeResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_SET_CROSSFADE, request);
+  },
+
+  /**
+   * Starts MIDI Learn; the captured CC arrives as a midi:learn event.
+   */
+  startLearn: (request: StartLearnRequest): Promise<StartLearnResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_LEARN_START, request);
+  },
+
+  /**
+   * Cancels a pending MIDI Learn.
+   */
+  cancelLearn: (): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_LEARN_CANCEL);
+  },
+
+  /**
+   * Turns the midi:monitor event stream on or off (off by default).
+   */
+  setMonitoring: (request: SetMonitoringRequest): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_SET_MONITORING, request);
+  },
+
+  /**
+   * Reads the settings of the scene the nanoKONTROL2 is using, over SysEx.
+   */
+  queryHardwareScene: (request?: DeviceScoped): Promise<QueryHardwareSceneResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_QUERY_HARDWARE_SCENE, request);
+  },
+
+  /**
+   * Writes a preset's mapping (or the factory assignments) to the nanoKONTROL2 as its scene.
+   */
+  writeHardwareScene: (request: WriteHardwareSceneRequest): Promise<WriteHardwareSceneResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.MIDI_WRITE_HARDWARE_SCENE, request);
+  },
+
   /**
    * Connects to MIDI device.
    */
@@ -114,6 +226,27 @@ const electronAPI = {
     return ipcRenderer.invoke(IPC_INVOKE.PRESET_APPLY, request);
   },
 
+  /**
+   * Exports a preset as a .json file or a .txt mapping file, or the whole library as a .zip bundle.
+   */
+  exportPresets: (request: ExportPresetsRequest): Promise<ExportPresetsResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.PRESET_EXPORT, request);
+  },
+
+  /**
+   * Reads the presets of a .json, .txt, .nktrl2_data or .zip import file and their collisions with the library.
+   */
+  readPresetImport: (request: ReadPresetImportRequest): Promise<ReadPresetImportResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.PRESET_READ_IMPORT, request);
+  },
+
+  /**
+   * Stores imported presets, renaming, overwriting or skipping each as chosen.
+   */
+  importPresets: (request: ImportPresetsRequest): Promise<ImportPresetsResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.PRESET_IMPORT, request);
+  },
+
   // ==========================================================================
   // Configuration Operations
   // ==========================================================================
@@ -132,6 +265,77 @@ const electronAPI = {
     return ipcRenderer.invoke(IPC_INVOKE.CONFIG_UPDATE, request);
   },
 
+  // ==========================================================================
+  // Device Profile Operations
+  // ==========================================================================
+
+  /**
+   * Lists the device profiles controller units are recognized by.
+   */
+  listProfiles: (): Promise<ListProfilesResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.PROFILE_LIST);
+  },
+
+  // ==========================================================================
+  // Automation Take Operations
+  // ==========================================================================
+
+  /**
+   * Starts recording a unit's control movements.
+   */
+  startRecording: (request?: DeviceScoped): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_RECORD_START, request);
+  },
+
+  /**
+   * Stops recording and saves the take.
+   */
+  stopRecording: (request: StopRecordingRequest): Promise<StopRecordingResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_RECORD_STOP, request);
+  },
+
+  /**
+   * Lists all saved takes, newest first.
+   */
+  listTakes: (): Promise<ListTakesResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_LIST);
+  },
+
+  /**
+   * Deletes a take.
+   */
+  deleteTake: (request: DeleteTakeRequest): Promise<DeleteTakeResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_DELETE, request);
+  },
+
+  /**
+   * Replays a take to a unit's virtual output.
+   */
+  startReplay: (request: StartReplayRequest): Promise<StartReplayResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_REPLAY_START, request);
+  },
+
+  /**
+   * Stops the current replay.
+   */
+  stopReplay: (): Promise<void> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_REPLAY_STOP);
+  },
+
+  /**
+   * Writes a take as a Standard MIDI File.
+   */
+  exportTakeMidi: (request: ExportTakeMidiRequest): Promise<ExportTakeMidiResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_EXPORT_MIDI, request);
+  },
+
+  /**
+   * Imports the CC lanes of a Standard MIDI File as a take.
+   */
+  importTakeMidi: (request: ImportTakeMidiRequest): Promise<ImportTakeMidiResponse> => {
+    return ipcRenderer.invoke(IPC_INVOKE.TAKE_IMPORT_MIDI, request);
+  },
+
   // ==========================================================================
   // Event Listeners
   // ==========================================================================
@@ -145,6 +349,87 @@ const electronAPI = {
     return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_CC, listener);
   },
 
+  /**
+   * Subscribes to soft takeover state changes.
+   */
+  onMidiTakeover: (callback: (event: MidiTakeoverEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiTakeoverEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_TAKEOVER, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_TAKEOVER, listener);
+  },
+
+  /**
+   * Subscribes to LED feedback events (DAW LED state received on the virtual input).
+   */
+  onMidiLedFeedback: (callback: (event: MidiLedFeedbackEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiLedFeedbackEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_LED_FEEDBACK, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_LED_FEEDBACK, listener);
+  },
+
+  /**
+   * Subscribes to shift layer changes (shift button pressed or layer switched).
+   */
+  onMidiShift: (callback: (event: MidiShiftEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiShiftEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_SHIFT, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_SHIFT, listener);
+  },
+
+  /**
+   * Subscribes to MIDI Learn results.
+   */
+  onMidiLearn: (callback: (event: MidiLearnEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiLearnEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_LEARN, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_LEARN, listener);
+  },
+
+  /**
+   * Subscribes to monitored MIDI messages (while monitoring is on).
+   */
+  onMidiMonitor: (callback: (event: MidiMonitorEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiMonitorEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_MONITOR, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_MONITOR, listener);
+  },
+
+  /**
+   * Subscribes to take recording and replay state changes.
+   */
+  onMidiAutomation: (callback: (event: MidiAutomationEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiAutomationEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_AUTOMATION, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_AUTOMATION, listener);
+  },
+
+  /**
+   * Subscribes to track bank changes (track_left/track_right paging).
+   */
+  onMidiBank: (callback: (event: MidiBankEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiBankEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_BANK, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_BANK, listener);
+  },
+
+  /**
+   * Subscribes to scene morph steps and morph ends.
+   */
+  onMidiScene: (callback: (event: MidiSceneEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiSceneEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_SCENE, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_SCENE, listener);
+  },
+
+  /**
+   * Subscribes to the controls sent by movements of the A/B morph fader.
+   */
+  onMidiCrossfade: (callback: (event: MidiCrossfadeEvent) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, data: MidiCrossfadeEvent) => callback(data);
+    ipcRenderer.on(IPC_EVENTS.MIDI_CROSSFADE, listener);
+    return () => ipcRenderer.removeListener(IPC_EVENTS.MIDI_CROSSFADE, listener);
+  },
+
   /**
    * Subscribes to MIDI connected events.
    */
@@ -0,0 +1,224 @@
+/**
+ * Automation Recorder
+ *
+ * Records control movements of one unit as a take: the hardware input and
+ * the remapped output, timestamped from the start of the recording. Replays
+ * a take's output messages in time, with optional looping, speed change and
+ * quantizing to a time grid.
+ *
+ * Recording is fed the unit's 'monitor' events by the MidiManager; replayed
+ * messages are handed to a send callback.
+ */
+
+import type { AutomationEvent, MidiMonitorEvent, ReplayOptions } from '@shared/ipc-protocol.js';
+
+/** Maximum number of messages in a take; later messages are dropped */
+export const MAX_TAKE_EVENTS = 100000;
+
+/** Message types whose every message matters, so quantizing never drops them */
+const DISCRETE_TYPES = new Set(['note', 'program']);
+
+/** A finished recording */
+export interface RecordedTake {
+  /** Device the take was recorded from */
+  deviceId: string;
+  /** Length of the recording (ms) */
+  duration: number;
+  events: AutomationEvent[];
+}
+
+/** The part of a take needed for replay */
+export interface ReplayTake {
+  duration: number;
+  events: AutomationEvent[];
+}
+
+// =============================================================================
+// AutomationRecorder Class
+// =============================================================================
+
+/**
+ * AutomationRecorder records one take at a time and replays one take at a time.
+ */
+export class AutomationRecorder {
+  /** Take being recorded, or null */
+  private recording: { deviceId: string; startedAt: number; events: AutomationEvent[] } | null = null;
+  /** Timer of the next replay step, or null when not replaying */
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // ===========================================================================
+  // Recording
+  // ===========================================================================
+
+  /**
+   * Starts recording a device's messages, discarding a recording in progress.
+   */
+  startRecording(deviceId: string): void {
+    this.recording = { deviceId, startedAt: Date.now(), events: [] };
+  }
+
+  /**
+   * Adds a monitored message to the recording. Messages of other devices,
+   * LED updates and DAW feedback are ignored.
+   */
+  capture(event: MidiMonitorEvent): void {
+    const recording = this.recording;
+    if (!recording || (event.deviceId ?? '') !== recording.deviceId) return;
+    if (event.source !== 'input' && event.source !== 'output') return;
+    if (recording.events.length >= MAX_TAKE_EVENTS) return;
+
+    const recorded: AutomationEvent = {
+      time: Math.max(0, event.timestamp - recording.startedAt),
+      source: event.source,
+      messageType: event.messageType,
+      channel: event.channel,
+      number: event.number,
+      value: event.value,
+    };
+    if (event.controlType) {
+      recorded.controlType = event.controlType;
+    }
+    recording.events.push(recorded);
+  }
+
+  /**
+   * Stops recording.
+   *
+   * @returns The recorded take, or null if not recording
+   */
+  stopRecording(): RecordedTake | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.recording = null;
+    return {
+      deviceId: recording.deviceId,
+      duration: Date.now() - recording.startedAt,
+      events: recording.events,
+    };
+  }
+
+  /**
+   * Gets the device being recorded from, or null if not recording.
+   */
+  getRecordingDeviceId(): string | null {
+    return this.recording?.deviceId ?? null;
+  }
+
+  // ===========================================================================
+  // Replay
+  // ===========================================================================
+
+  /**
+   * Replays a take's output messages, stopping the current replay.
+   *
+   * Timing is kept against the start time, so timer jitter doesn't add up
+   * over a long take or many loops.
+   *
+   * @param send - Sends one message
+   * @param onEnd - Called when a replay without looping has sent its last message
+   * @throws If the take has no output messages or the speed isn't positive
+   */
+  startReplay(take: ReplayTake, options: ReplayOptions, send: (event: AutomationEvent) => void, onEnd: () => void): void {
+    if (!(options.speed > 0)) {
+      throw new Error(`Invalid replay speed: ${options.speed}`);
+    }
+
+    const events = quantizeEvents(
+      take.events.filter((event) => event.source === 'output'),
+      options.quantizeMs
+    );
+    if (events.length === 0) {
+      throw new Error('The take has no output messages to replay');
+    }
+
+    this.stopReplay();
+
+    const lastTime = events[events.length - 1]?.time ?? 0;
+    const loopLength = Math.max(quantizeTime(take.duration, options.quantizeMs), lastTime, 1);
+    let cycleStart = Date.now();
+    let index = 0;
+
+    const step = (): void => {
+      const position = (Date.now() - cycleStart) * options.speed;
+
+      for (let event = events[index]; event && event.time <= position; event = events[++index]) {
+        send(event);
+      }
+
+      if (index >= events.length) {
+        if (!options.loop) {
+          this.replayTimer = null;
+          onEnd();
+          return;
+        }
+        if (position >= loopLength) {
+          cycleStart += loopLength / options.speed;
+          index = 0;
+          step();
+          return;
+        }
+      }
+
+      const next = events[index]?.time ?? loopLength;
+      const delay = next / options.speed - (Date.now() - cycleStart);
+      this.replayTimer = setTimeout(step, Math.max(0, delay));
+    };
+
+    step();
+  }
+
+  /**
+   * Stops the current replay, if any.
+   */
+  stopReplay(): void {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  /**
+   * Returns whether a take is being replayed.
+   */
+  isReplaying(): boolean {
+    return this.replayTimer !== null;
+  }
+}
+
+// =============================================================================
+// Quantizing
+// =============================================================================
+
+/**
+ * Snaps a time to the nearest grid line (a grid of 0 leaves it unchanged).
+ */
+function quantizeTime(time: number, gridMs: number): number {
+  return gridMs > 0 ? Math.round(time / gridMs) * gridMs : time;
+}
+
+/**
+ * Snaps message times to a grid. Of the continuous messages landing on the
+ * same grid line for the same target, only the last is kept; notes and
+ * program changes are all kept. Messages stay in their recorded order.
+ *
+ * @param gridMs - Grid spacing (ms, 0 = no quantizing)
+ */
+export function quantizeEvents(events: AutomationEvent[], gridMs: number): AutomationEvent[] {
+  if (gridMs <= 0) {
+    return events;
+  }
+
+  const quantized = events.map((event) => ({ ...event, time: quantizeTime(event.time, gridMs) }));
+  const lastIndex = new Map<string, number>();
+  quantized.forEach((event, index) => {
+    if (!DISCRETE_TYPES.has(event.messageType)) {
+      lastIndex.set(`${event.time}:${event.messageType}:${event.channel}:${event.number}`, index);
+    }
+  });
+
+  return quantized.filter((event, index) =>
+    DISCRETE_TYPES.has(event.messageType) ||
+    lastIndex.get(`${event.time}:${event.messageType}:${event.channel}:${event.number}`) === index
+  );
+}
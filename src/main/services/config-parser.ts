@@ -5,14 +5,43 @@
  * - Comments: lines starting with #
  * - Blank lines: ignored
  * - Sections: [trackN] or [transport]
- * - Control mappings: controlType inputCC -> outputCC chN [behavior] ["label"]
+ * - Shift layer: [trackN.shift] and [transport.shift] sections hold alternate mappings, active while
+ *   the button marked with shift (or shift:hold / shift:latch) is held or latched
+ * - Track banks: [track9] to [track64] add complete banks of 8 tracks (9-16, 17-24, ...) that
+ *   track_left/track_right page the physical strips through; each bank track uses the input CCs of
+ *   the strip it is played on (track9 = track1's CCs)
+ * - Control mappings: controlType inputCC -> outputCC chN [behavior] [options] ["label"]
+ * - Options: range:MIN-MAX (knobs/sliders, MIN > MAX inverts), on:N / off:N (buttons)
+ * - Input channel: in:chN only accepts the input CC on channel N (default: any channel), for
+ *   controllers set to another global channel or sharing the input with another device
+ * - Button behaviors: toggle, momentary, trigger (on then off), cycle with values:V1,V2,...,
+ *   longpress / doubletap with alt:CC (output of the long press / double tap) and optional time:MS
+ * - Curves (knobs/sliders): curve:linear|log|exp|scurve, curve:stepped[:N] (N positions, default 8)
+ * - 14-bit output (knobs/sliders): out:cc14 (outputCC is the MSB, 0-31), out:nrpn:N, out:rpn:N,
+ *   with optional smooth:MS glide time
+ * - Other message types: out:note (buttons, outputCC is the note), out:program (buttons send
+ *   program outputCC, knobs/sliders send their value), out:pitchbend and out:aftertouch (knobs/sliders)
+ * - Additional outputs: lines of the form "+ -> outputCC [chN] [range:MIN-MAX] [curve:TYPE]"
+ *   add 7-bit CC targets to the control on the line above
+ * - Radio-button groups: a [groups] section with lines of the form "name = button button ...",
+ *   where buttons are toggle buttons like track1.solo or transport.play (track1-8.solo for a range);
+ *   turning one on turns the others off
+ * - Scenes: a [scenes] section with lines of the form
+ *   "name" = [morph:MS] [button:BUTTON] trackN.knob:VALUE trackN.slider:VALUE ...,
+ *   snapshots of knob/slider values recalled with an optional morph time and button
+ * - Device profiles: when parsed for a profile, controls, tracks and the transport section the
+ *   device has no hardware for may be left out; they get placeholder mappings the engine ignores.
+ *   A [controls] (and [controls.shift]) section maps the profile's controls by their own IDs
+ *   (e.g., "pad1 36 -> 36 ch10"), each through the slot the profile plays it on
  *
  * Example:
  * ```
  * [track1]
  * knob    16 -> 16 ch1 "Filter Cutoff"
- * slider   0 ->  0 ch1 "Volume"
- * solo    32 -> 32 ch1 toggle "Solo"
+ * slider   0 ->  0 ch1 range:20-100 curve:log "Volume"
+ * solo    32 -> 32 ch1 toggle on:100 off:10 "Solo"
+ * mute    48 -> 48 ch1
+ *   + -> 48 ch2
  * ```
  */
 
@@ -24,8 +53,29 @@ import type {
   ControlType,
   TransportControlType,
   ButtonBehavior,
+  ButtonGroup,
+  Scene,
+  CurveType,
+  OutputType,
+  OutputTarget,
+  ShiftLayer,
+  ShiftMode,
   ParseResult,
+  DeviceProfile,
 } from '@shared/types.js';
+import {
+  MIDI_14BIT_MAX,
+  CC14_MAX_MSB_CC,
+  MAX_SMOOTHING_MS,
+  MAX_OUTPUT_TARGETS,
+  MAX_TRACK_BANKS,
+  MAX_CYCLE_VALUES,
+  MAX_GESTURE_MS,
+  MAX_SCENES,
+  MAX_SCENE_MORPH_MS,
+} from '@shared/types.js';
+
+import { CURVE_TYPES, DEFAULT_CURVE_STEPS, MIN_CURVE_STEPS, MAX_CURVE_STEPS } from '@shared/curves.js';
 
 import {
   MIDI_VALUES,
@@ -35,6 +85,14 @@ import {
   TRANSPORT_CONTROL_TYPES,
   getDefaultBehavior,
   isContinuousControl,
+  isHighResOutputType,
+  isOutputTypeValidFor,
+  OUTPUT_TYPES,
+  BUTTON_BEHAVIORS,
+  getControlMapping,
+  HARDWARE_CC,
+  hasProfileControl,
+  getProfileControlSlot,
 } from '@shared/constants.js';
 
 // =============================================================================
@@ -59,11 +117,24 @@ export class ParseError extends Error {
 // Internal Types
 // =============================================================================
 
-type SectionType = 'track' | 'transport';
+type SectionType = 'track' | 'transport' | 'groups' | 'scenes' | 'controls';
 
 interface CurrentSection {
   type: SectionType;
-  trackNumber?: number; // 1-8 for track sections
+  trackNumber?: number; // 1-64 for track sections (9+ are track banks)
+  shift?: boolean; // true for [trackN.shift] / [transport.shift]
+}
+
+interface GroupLine {
+  group: ButtonGroup;
+  lineNumber: number;
+  line: string;
+}
+
+interface SceneLine {
+  scene: Scene;
+  lineNumber: number;
+  line: string;
 }
 
 interface PartialTrackMapping {
@@ -118,6 +189,60 @@ function validateChannelRange(channel: number, lineNumber: number, lineContent:
   }
 }
 
+/**
+ * Parses a 0-127 value from an option token (e.g., the "100" in "on:100").
+ */
+function parseOptionValue(valueStr: string, fieldName: string, lineNumber: number, lineContent: string): number {
+  const value = parseInt(valueStr, 10);
+  if (isNaN(value) || String(value) !== valueStr) {
+    throw new ParseError(`Invalid ${fieldName}: ${valueStr}`, lineNumber, lineContent);
+  }
+  validateCCRange(value, fieldName, lineNumber, lineContent);
+  return value;
+}
+
+/**
+ * Parses a curve token (curve:TYPE or curve:stepped:N).
+ * Returns null if the token is not a curve token.
+ */
+function parseCurveToken(
+  part: string,
+  lineNumber: number,
+  lineContent: string
+): { curve: CurveType; steps: number | undefined } | null {
+  const curveMatch = part.match(/^curve:([a-z]+)(?::(\d+))?$/i);
+  if (!curveMatch) {
+    return null;
+  }
+
+  const curveName = curveMatch[1]?.toLowerCase() ?? '';
+  if (!(CURVE_TYPES as readonly string[]).includes(curveName)) {
+    throw new ParseError(
+      `Invalid curve: ${curveName}. Must be one of: ${CURVE_TYPES.join(', ')}`,
+      lineNumber,
+      lineContent
+    );
+  }
+  const curve = curveName as CurveType;
+
+  if (curveMatch[2] === undefined) {
+    return { curve, steps: curve === 'stepped' ? DEFAULT_CURVE_STEPS : undefined };
+  }
+
+  if (curve !== 'stepped') {
+    throw new ParseError('Step count is only valid for the stepped curve', lineNumber, lineContent);
+  }
+  const steps = parseInt(curveMatch[2], 10);
+  if (steps < MIN_CURVE_STEPS || steps > MAX_CURVE_STEPS) {
+    throw new ParseError(
+      `Step count must be an integer between ${MIN_CURVE_STEPS} and ${MAX_CURVE_STEPS}, got: ${steps}`,
+      lineNumber,
+      lineContent
+    );
+  }
+  return { curve, steps };
+}
+
 /**
  * Validates that a control type is valid for a track section.
  */
@@ -136,7 +261,7 @@ function isValidTransportControlType(controlType: string): controlType is Transp
  * Validates that a behavior is valid.
  */
 function isValidBehavior(behavior: string): behavior is ButtonBehavior {
-  return behavior === 'toggle' || behavior === 'momentary';
+  return (BUTTON_BEHAVIORS as readonly string[]).includes(behavior);
 }
 
 // =============================================================================
@@ -144,7 +269,7 @@ function isValidBehavior(behavior: string): behavior is ButtonBehavior {
 // =============================================================================
 
 /**
- * Parses a section header line like [track1] or [transport].
+ * Parses a section header line like [track1], [transport] or [track1.shift].
  * Returns null if the line is not a section header.
  */
 function parseSectionHeader(line: string, lineNumber: number): CurrentSection | null {
@@ -154,13 +279,19 @@ function parseSectionHeader(line: string, lineNumber: number): CurrentSection |
     return null;
   }
 
-  const sectionName = trimmed.slice(1, -1).toLowerCase();
+  const fullName = trimmed.slice(1, -1).toLowerCase();
+  if (fullName === 'groups' || fullName === 'scenes') {
+    return { type: fullName };
+  }
 
-  if (sectionName === 'transport') {
-    return { type: 'transport' };
+  const shift = fullName.endsWith('.shift');
+  const sectionName = shift ? fullName.slice(0, -'.shift'.length) : fullName;
+
+  if (sectionName === 'transport' || sectionName === 'controls') {
+    return shift ? { type: sectionName, shift } : { type: sectionName };
   }
 
-  // Match track1 through track8
+  // Match track1 through track64 (tracks above 8 belong to banks)
   const trackMatch = sectionName.match(/^track(\d+)$/);
   if (trackMatch) {
     const capturedNumber = trackMatch[1];
@@ -168,18 +299,21 @@ function parseSectionHeader(line: string, lineNumber: number): CurrentSection |
       throw new ParseError('Failed to parse track number', lineNumber, line);
     }
     const trackNumber = parseInt(capturedNumber, 10);
-    if (trackNumber >= TRACK_CONSTANTS.FIRST && trackNumber <= TRACK_CONSTANTS.LAST) {
-      return { type: 'track', trackNumber };
+    const lastTrack = shift ? TRACK_CONSTANTS.LAST : MAX_TRACK_BANKS * TRACK_CONSTANTS.COUNT;
+    if (trackNumber >= TRACK_CONSTANTS.FIRST && trackNumber <= lastTrack) {
+      return shift ? { type: 'track', trackNumber, shift } : { type: 'track', trackNumber };
     }
     throw new ParseError(
-      `Invalid track number: ${trackNumber}. Must be between ${TRACK_CONSTANTS.FIRST} and ${TRACK_CONSTANTS.LAST}`,
+      shift
+        ? `Invalid shift track number: ${trackNumber}. Shift sections are only allowed for tracks ${TRACK_CONSTANTS.FIRST}-${TRACK_CONSTANTS.LAST} and apply to every bank`
+        : `Invalid track number: ${trackNumber}. Must be between ${TRACK_CONSTANTS.FIRST} and ${lastTrack}`,
       lineNumber,
       line
     );
   }
 
   throw new ParseError(
-    `Unknown section: ${sectionName}. Expected [trackN] (1-8) or [transport]`,
+    `Unknown section: ${fullName}. Expected [trackN] (1-64), [transport], [trackN.shift], [transport.shift], [groups], [scenes] or [controls]`,
     lineNumber,
     line
   );
@@ -188,18 +322,33 @@ function parseSectionHeader(line: string, lineNumber: number): CurrentSection |
 /**
  * Parses a control mapping line.
  *
- * Format: controlType inputCC -> outputCC [chN] [behavior] ["label"]
+ * Format: controlType inputCC -> outputCC [chN] [behavior] [options] ["label"]
  *
  * Examples:
  * - knob 16 -> 16 ch1 "Filter Cutoff"
  * - solo 32 -> 32 ch1 toggle "Solo Button"
  * - slider 0 -> 0
+ * - slider 0 -> 7 range:127-0 "Inverted Volume"
+ * - solo 32 -> 32 on:100 off:20
+ * - knob 16 -> 74 curve:exp "Cutoff"
+ * - knob 17 -> 70 curve:stepped:8 "Waveform"
+ * - slider 0 -> 1 out:cc14 smooth:40 "Mod Wheel (14-bit)"
+ * - slider 1 -> 0 out:nrpn:1234 "Osc Detune"
+ * - play 41 -> 36 out:note "Kick"
+ * - slider 7 -> 0 out:pitchbend "Bend"
+ * - rec 64 -> 64 trigger "Capture"
+ * - solo 32 -> 20 cycle values:0,32,64,96 "Scene"
+ * - play 41 -> 41 longpress alt:40 time:800 "Play / Loop"
+ * - knob 16 -> 16 ch1 in:ch2 "Second unit knob"
+ *
+ * @param slotControl - Control type the line maps instead of its first token (a profile control's slot)
  */
 function parseControlLine(
   line: string,
   lineNumber: number,
-  currentSection: CurrentSection | null
-): { controlType: string; entry: MappingEntry } {
+  currentSection: CurrentSection | null,
+  slotControl?: string
+): { controlType: string; entry: MappingEntry; shiftMode: ShiftMode | undefined } {
   if (!currentSection) {
     throw new ParseError(
       'Control mapping found outside of a section. Add a [trackN] or [transport] header first',
@@ -248,7 +397,7 @@ function parseControlLine(
     );
   }
 
-  const controlType = controlTypeRaw.toLowerCase();
+  const controlType = slotControl ?? controlTypeRaw.toLowerCase();
 
   // Validate arrow
   if (arrow !== '->') {
@@ -275,7 +424,21 @@ function parseControlLine(
 
   // Parse optional channel and behavior from remaining parts
   let channel: number = MIDI_CHANNELS.DEFAULT;
+  let inputChannel: number | undefined;
   let behavior: ButtonBehavior | undefined;
+  let minValue: number | undefined;
+  let maxValue: number | undefined;
+  let onValue: number | undefined;
+  let offValue: number | undefined;
+  let curve: CurveType | undefined;
+  let steps: number | undefined;
+  let outputType: OutputType | undefined;
+  let parameter: number | undefined;
+  let smoothingMs: number | undefined;
+  let shiftMode: ShiftMode | undefined;
+  let cycleValues: number[] | undefined;
+  let altOutputCC: number | undefined;
+  let gestureMs: number | undefined;
 
   for (let i = 4; i < parts.length; i++) {
     const part = parts[i];
@@ -294,16 +457,139 @@ function parseControlLine(
       continue;
     }
 
-    // Behavior: toggle or momentary
+    // Input channel: in:chN
+    const inputChannelMatch = part.match(/^in:ch(\d+)$/i);
+    if (inputChannelMatch) {
+      inputChannel = parseInt(inputChannelMatch[1] ?? '', 10);
+      validateChannelRange(inputChannel, lineNumber, line);
+      continue;
+    }
+
+    // Behavior: toggle, momentary, trigger, cycle, longpress or doubletap
     const partLower = part.toLowerCase();
     if (isValidBehavior(partLower)) {
       behavior = partLower;
       continue;
     }
 
+    // Value range: range:MIN-MAX
+    const rangeMatch = part.match(/^range:(\d+)-(\d+)$/i);
+    if (rangeMatch) {
+      minValue = parseOptionValue(rangeMatch[1] ?? '', 'Range minimum', lineNumber, line);
+      maxValue = parseOptionValue(rangeMatch[2] ?? '', 'Range maximum', lineNumber, line);
+      continue;
+    }
+
+    // Button on/off values: on:N or off:N
+    const buttonValueMatch = part.match(/^(on|off):(\d+)$/i);
+    if (buttonValueMatch) {
+      const key = buttonValueMatch[1]?.toLowerCase();
+      const value = parseOptionValue(buttonValueMatch[2] ?? '', `${key} value`, lineNumber, line);
+      if (key === 'on') {
+        onValue = value;
+      } else {
+        offValue = value;
+      }
+      continue;
+    }
+
+    // Cycle values: values:V1,V2,...
+    const valuesMatch = part.match(/^values:([\d,]+)$/i);
+    if (valuesMatch) {
+      cycleValues = (valuesMatch[1] ?? '')
+        .split(',')
+        .map((valueStr) => parseOptionValue(valueStr, 'Cycle value', lineNumber, line));
+      if (cycleValues.length < 2 || cycleValues.length > MAX_CYCLE_VALUES) {
+        throw new ParseError(`values must list between 2 and ${MAX_CYCLE_VALUES} values`, lineNumber, line);
+      }
+      continue;
+    }
+
+    // Long-press / double-tap output: alt:CC
+    const altMatch = part.match(/^alt:(\d+)$/i);
+    if (altMatch) {
+      altOutputCC = parseInt(altMatch[1] ?? '', 10);
+      validateCCRange(altOutputCC, 'Alternate output CC', lineNumber, line);
+      continue;
+    }
+
+    // Long-press threshold / double-tap window: time:MS
+    const timeMatch = part.match(/^time:(\d+)$/i);
+    if (timeMatch) {
+      gestureMs = parseInt(timeMatch[1] ?? '', 10);
+      if (gestureMs < 1 || gestureMs > MAX_GESTURE_MS) {
+        throw new ParseError(
+          `time must be an integer between 1 and ${MAX_GESTURE_MS} ms, got: ${gestureMs}`,
+          lineNumber,
+          line
+        );
+      }
+      continue;
+    }
+
+    // Response curve: curve:TYPE or curve:stepped:N
+    const parsedCurve = parseCurveToken(part, lineNumber, line);
+    if (parsedCurve) {
+      curve = parsedCurve.curve;
+      steps = parsedCurve.steps;
+      continue;
+    }
+
+    // Output message type: out:TYPE or out:nrpn:N / out:rpn:N
+    const outMatch = part.match(/^out:([a-z0-9]+)(?::(\d+))?$/i);
+    if (outMatch) {
+      const typeName = outMatch[1]?.toLowerCase() ?? '';
+      if (!(OUTPUT_TYPES as readonly string[]).includes(typeName)) {
+        throw new ParseError(
+          `Invalid output type: ${typeName}. Must be one of: ${OUTPUT_TYPES.join(', ')}`,
+          lineNumber,
+          line
+        );
+      }
+      outputType = typeName as OutputType;
+
+      if (outputType === 'nrpn' || outputType === 'rpn') {
+        if (outMatch[2] === undefined) {
+          throw new ParseError(`${outputType} requires a parameter number (e.g., out:${outputType}:1234)`, lineNumber, line);
+        }
+        parameter = parseInt(outMatch[2], 10);
+        if (parameter > MIDI_14BIT_MAX) {
+          throw new ParseError(
+            `Parameter number must be an integer between 0 and ${MIDI_14BIT_MAX}, got: ${parameter}`,
+            lineNumber,
+            line
+          );
+        }
+      } else if (outMatch[2] !== undefined) {
+        throw new ParseError('Parameter number is only valid for nrpn and rpn outputs', lineNumber, line);
+      }
+      continue;
+    }
+
+    // Smoothing glide time: smooth:MS
+    const smoothMatch = part.match(/^smooth:(\d+)$/i);
+    if (smoothMatch) {
+      smoothingMs = parseInt(smoothMatch[1] ?? '', 10);
+      if (smoothingMs > MAX_SMOOTHING_MS) {
+        throw new ParseError(
+          `Smoothing must be an integer between 0 and ${MAX_SMOOTHING_MS} ms, got: ${smoothingMs}`,
+          lineNumber,
+          line
+        );
+      }
+      continue;
+    }
+
+    // Shift button: shift, shift:hold or shift:latch
+    const shiftMatch = part.match(/^shift(?::(hold|latch))?$/i);
+    if (shiftMatch) {
+      shiftMode = (shiftMatch[1]?.toLowerCase() ?? 'hold') as ShiftMode;
+      continue;
+    }
+
     // Unknown token
     throw new ParseError(
-      `Unknown token: ${part}. Expected chN (channel) or toggle/momentary (behavior)`,
+      `Unknown token: ${part}. Expected chN (channel), ${BUTTON_BEHAVIORS.join('/')} (behavior), range:MIN-MAX, curve:TYPE, out:TYPE, smooth:MS, on:N/off:N, values:V1,V2,..., alt:CC, time:MS or shift[:hold|latch]`,
       lineNumber,
       line
     );
@@ -342,21 +628,333 @@ function parseControlLine(
     );
   }
 
+  // Curves and value ranges only apply to continuous controls, on/off values only to buttons
+  if (!isContinuousControl(controlType) && curve !== undefined) {
+    throw new ParseError(
+      `curve is only valid for knobs and sliders, not: ${controlType}`,
+      lineNumber,
+      line
+    );
+  }
+  if (shiftMode !== undefined && isContinuousControl(controlType)) {
+    throw new ParseError(`shift is only valid for buttons, not: ${controlType}`, lineNumber, line);
+  }
+  if (shiftMode !== undefined && currentSection.shift) {
+    throw new ParseError('The shift button must be marked in a base section, not a .shift section', lineNumber, line);
+  }
+  if (!isOutputTypeValidFor(controlType, outputType)) {
+    throw new ParseError(
+      `${outputType} output is not valid for control type: ${controlType}`,
+      lineNumber,
+      line
+    );
+  }
+  if (outputType === 'cc14' && outputCC > CC14_MAX_MSB_CC) {
+    throw new ParseError(
+      `cc14 output CC must be between 0 and ${CC14_MAX_MSB_CC} (LSB is sent on CC + 32), got: ${outputCC}`,
+      lineNumber,
+      line
+    );
+  }
+  if (smoothingMs !== undefined && !isHighResOutputType(outputType)) {
+    throw new ParseError('smooth is only valid with out:cc14, out:nrpn, out:rpn or out:pitchbend', lineNumber, line);
+  }
+  if (!isContinuousControl(controlType) && minValue !== undefined) {
+    throw new ParseError(
+      `range is only valid for knobs and sliders, not: ${controlType}`,
+      lineNumber,
+      line
+    );
+  }
+  if (isContinuousControl(controlType) && (onValue !== undefined || offValue !== undefined)) {
+    throw new ParseError(
+      `on/off values are only valid for buttons, not: ${controlType}`,
+      lineNumber,
+      line
+    );
+  }
+
+  // Behavior options: cycle needs its values, long-press/double-tap their alternate output
+  if (cycleValues !== undefined && behavior !== 'cycle') {
+    throw new ParseError('values is only valid for cycle buttons', lineNumber, line);
+  }
+  if (behavior === 'cycle') {
+    if (cycleValues === undefined) {
+      throw new ParseError('cycle buttons require values:V1,V2,...', lineNumber, line);
+    }
+    if (outputType !== undefined && outputType !== 'cc') {
+      throw new ParseError(`cycle buttons only support CC output, not: ${outputType}`, lineNumber, line);
+    }
+    if (onValue !== undefined || offValue !== undefined) {
+      throw new ParseError('on/off values are not used by cycle buttons (use values:V1,V2,...)', lineNumber, line);
+    }
+  }
+  const isGesture = behavior === 'longpress' || behavior === 'doubletap';
+  if ((altOutputCC !== undefined || gestureMs !== undefined) && !isGesture) {
+    throw new ParseError('alt and time are only valid for longpress and doubletap buttons', lineNumber, line);
+  }
+  if (isGesture && altOutputCC === undefined) {
+    throw new ParseError(`${behavior} buttons require alt:CC (the output of the ${behavior === 'longpress' ? 'long press' : 'double tap'})`, lineNumber, line);
+  }
+
   const entry: MappingEntry = {
     inputCC,
     outputCC,
     channel,
   };
 
+  if (inputChannel !== undefined) {
+    entry.inputChannel = inputChannel;
+  }
+
+  if (minValue !== undefined && maxValue !== undefined) {
+    entry.minValue = minValue;
+    entry.maxValue = maxValue;
+  }
+
+  if (curve !== undefined && curve !== 'linear') {
+    entry.curve = curve;
+  }
+
+  if (steps !== undefined) {
+    entry.steps = steps;
+  }
+
+  if (outputType !== undefined && outputType !== 'cc') {
+    entry.outputType = outputType;
+  }
+
+  if (parameter !== undefined) {
+    entry.parameter = parameter;
+  }
+
+  if (smoothingMs !== undefined && smoothingMs > 0) {
+    entry.smoothingMs = smoothingMs;
+  }
+
+  if (onValue !== undefined) {
+    entry.onValue = onValue;
+  }
+
+  if (offValue !== undefined) {
+    entry.offValue = offValue;
+  }
+
   if (behavior !== undefined) {
     entry.behavior = behavior;
   }
 
+  if (cycleValues !== undefined) {
+    entry.cycleValues = cycleValues;
+  }
+
+  if (altOutputCC !== undefined) {
+    entry.altOutputCC = altOutputCC;
+  }
+
+  if (gestureMs !== undefined) {
+    entry.gestureMs = gestureMs;
+  }
+
   if (label !== undefined) {
     entry.label = label;
   }
 
-  return { controlType, entry };
+  return { controlType, entry, shiftMode };
+}
+
+/**
+ * Parses an additional output target line, which adds a target to the
+ * control defined on the previous line.
+ * Format: + -> outputCC [chN] [range:MIN-MAX] [curve:TYPE]
+ *
+ * Examples:
+ * - + -> 74 ch2
+ * - + -> 71 ch1 range:127-0 curve:log
+ */
+function parseTargetLine(line: string, lineNumber: number, controlType: string): OutputTarget {
+  const parts = line.trim().split(/\s+/);
+  const arrow = parts[1];
+  const outputCCStr = parts[2];
+
+  if (arrow !== '->' || outputCCStr === undefined) {
+    throw new ParseError(
+      'Invalid output target format. Expected: + -> outputCC [chN] [range:MIN-MAX] [curve:TYPE]',
+      lineNumber,
+      line
+    );
+  }
+
+  const outputCC = parseInt(outputCCStr, 10);
+  if (isNaN(outputCC)) {
+    throw new ParseError(`Invalid output CC: ${outputCCStr}`, lineNumber, line);
+  }
+  validateCCRange(outputCC, 'Output CC', lineNumber, line);
+
+  const target: OutputTarget = { outputCC, channel: MIDI_CHANNELS.DEFAULT };
+
+  for (const part of parts.slice(3)) {
+    const channelMatch = part.match(/^ch(\d+)$/i);
+    if (channelMatch) {
+      target.channel = parseInt(channelMatch[1] ?? '', 10);
+      validateChannelRange(target.channel, lineNumber, line);
+      continue;
+    }
+
+    const rangeMatch = part.match(/^range:(\d+)-(\d+)$/i);
+    const parsedCurve = rangeMatch ? null : parseCurveToken(part, lineNumber, line);
+    if ((rangeMatch || parsedCurve) && !isContinuousControl(controlType)) {
+      throw new ParseError(
+        `Target range and curve are only valid for knobs and sliders, not: ${controlType}`,
+        lineNumber,
+        line
+      );
+    }
+
+    if (rangeMatch) {
+      target.minValue = parseOptionValue(rangeMatch[1] ?? '', 'Range minimum', lineNumber, line);
+      target.maxValue = parseOptionValue(rangeMatch[2] ?? '', 'Range maximum', lineNumber, line);
+      continue;
+    }
+
+    if (parsedCurve) {
+      if (parsedCurve.curve !== 'linear') {
+        target.curve = parsedCurve.curve;
+      }
+      if (parsedCurve.steps !== undefined) {
+        target.steps = parsedCurve.steps;
+      }
+      continue;
+    }
+
+    throw new ParseError(
+      `Unknown token: ${part}. Expected chN (channel), range:MIN-MAX or curve:TYPE`,
+      lineNumber,
+      line
+    );
+  }
+
+  return target;
+}
+
+/**
+ * Resolves the profile control named by a line of the [controls] section to
+ * the section and control type of the slot the profile plays it on.
+ *
+ * Example: "pad1 36 -> 36 ch10" with pad1 on slot track1.solo -> [track1], solo
+ */
+function resolveProfileControlLine(
+  line: string,
+  lineNumber: number,
+  profile: DeviceProfile,
+  shift: boolean | undefined
+): { section: CurrentSection; slotControl: string } {
+  const id = line.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+  const control = profile.controls[id];
+  if (!control) {
+    throw new ParseError(`Unknown ${profile.name} control: ${id}`, lineNumber, line);
+  }
+
+  const [sectionName, slotControl] = getProfileControlSlot(id, control).split('.');
+  const trackNumber = parseInt(sectionName?.match(/^track(\d+)$/)?.[1] ?? '', 10);
+  const section: CurrentSection = isNaN(trackNumber) ? { type: 'transport' } : { type: 'track', trackNumber };
+  if (shift) {
+    section.shift = shift;
+  }
+  return { section, slotControl: slotControl ?? '' };
+}
+
+/**
+ * Parses a radio-button group line of the [groups] section.
+ *
+ * Format: name = button button ...
+ *
+ * Examples:
+ * - track_select = track1-8.solo
+ * - scenes = track1.rec track2.rec track3.rec track4.rec
+ * - transport_mode = transport.play transport.record transport.cycle
+ */
+function parseGroupLine(line: string, lineNumber: number): ButtonGroup {
+  const match = line.trim().match(/^([A-Za-z0-9_-]+)\s*=\s*(.+)$/);
+  if (!match || match[1] === undefined || match[2] === undefined) {
+    throw new ParseError('Invalid group format. Expected: name = button button ...', lineNumber, line);
+  }
+
+  const buttons: string[] = [];
+  for (const token of match[2].trim().split(/\s+/)) {
+    const lower = token.toLowerCase();
+    const rangeMatch = lower.match(/^track(\d+)-(\d+)\.(\w+)$/);
+    if (rangeMatch && rangeMatch[1] !== undefined && rangeMatch[2] !== undefined) {
+      const first = parseInt(rangeMatch[1], 10);
+      const last = parseInt(rangeMatch[2], 10);
+      if (first >= last) {
+        throw new ParseError(`Invalid track range in group: ${token}. The first track must be lower than the last`, lineNumber, line);
+      }
+      for (let trackNumber = first; trackNumber <= last; trackNumber++) {
+        buttons.push(`track${trackNumber}.${rangeMatch[3]}`);
+      }
+    } else {
+      buttons.push(lower);
+    }
+  }
+
+  return { name: match[1], buttons };
+}
+
+/**
+ * Parses a scene line of the [scenes] section.
+ *
+ * Format: "name" = [morph:MS] [button:BUTTON] control:VALUE ...
+ * Names without spaces may be written without quotes. The morph time defaults to 0 (jump).
+ *
+ * Examples:
+ * - "Verse" = morph:2000 button:transport.marker_set track1.knob:64 track1.slider:100
+ * - breakdown = track9.slider:0 track10.slider:0
+ */
+function parseSceneLine(line: string, lineNumber: number): Scene {
+  const match = line.trim().match(/^(?:"([^"]*)"|([A-Za-z0-9_-]+))\s*=(.*)$/);
+  const name = match?.[1] ?? match?.[2];
+  if (!match || name === undefined) {
+    throw new ParseError('Invalid scene format. Expected: "name" = [morph:MS] [button:BUTTON] control:VALUE ...', lineNumber, line);
+  }
+  if (name.length < 1 || name.length > 50) {
+    throw new ParseError('Scene names must be 1-50 characters long', lineNumber, line);
+  }
+
+  const scene: Scene = { name, values: {}, morphMs: 0 };
+  for (const part of (match[3] ?? '').trim().split(/\s+/).filter(Boolean)) {
+    const lower = part.toLowerCase();
+
+    const morphMatch = lower.match(/^morph:(\d+)$/);
+    if (morphMatch) {
+      const morphMs = parseInt(morphMatch[1] ?? '', 10);
+      if (morphMs > MAX_SCENE_MORPH_MS) {
+        throw new ParseError(`Invalid morph time: ${morphMs}. Must be between 0 and ${MAX_SCENE_MORPH_MS} ms`, lineNumber, line);
+      }
+      scene.morphMs = morphMs;
+      continue;
+    }
+
+    const buttonMatch = lower.match(/^button:(track[1-8]\.(?:solo|mute|rec)|transport\.[a-z_]+)$/);
+    if (buttonMatch?.[1] !== undefined) {
+      scene.button = buttonMatch[1];
+      continue;
+    }
+
+    const valueMatch = lower.match(/^(track\d+\.(?:knob|slider)):(\d+)$/);
+    if (valueMatch?.[1] !== undefined) {
+      scene.values[valueMatch[1]] = parseOptionValue(valueMatch[2] ?? '', `value of ${valueMatch[1]}`, lineNumber, line);
+      continue;
+    }
+
+    throw new ParseError(
+      `Unknown token in scene ${name}: ${part}. Expected morph:MS, button:BUTTON (tracks 1-8 or transport) or trackN.knob/slider:VALUE`,
+      lineNumber,
+      line
+    );
+  }
+
+  return scene;
 }
 
 // =============================================================================
@@ -370,6 +968,59 @@ function createEmptyPartialTrack(): PartialTrackMapping {
   return {};
 }
 
+/**
+ * Creates the placeholder mapping of a control the device profile has no hardware for.
+ * It passes the nanoKONTROL2 CC of the slot through; the engine ignores it for the device.
+ */
+function createPlaceholderEntry(controlType: string, strip?: number): MappingEntry {
+  const cc =
+    strip === undefined
+      ? HARDWARE_CC.TRANSPORT[controlType.toUpperCase() as keyof typeof HARDWARE_CC.TRANSPORT]
+      : {
+          knob: HARDWARE_CC.KNOBS,
+          slider: HARDWARE_CC.SLIDERS,
+          solo: HARDWARE_CC.SOLO,
+          mute: HARDWARE_CC.MUTE,
+          rec: HARDWARE_CC.REC,
+        }[controlType as ControlType][strip] ?? 0;
+
+  const entry: MappingEntry = { inputCC: cc, outputCC: cc, channel: MIDI_CHANNELS.MIN };
+  if (!isContinuousControl(controlType)) {
+    entry.behavior = getDefaultBehavior(controlType);
+  }
+  return entry;
+}
+
+/**
+ * Fills in the controls of a track the device profile has no hardware for.
+ * Bank tracks copy the input of their strip so the bank stays consistent.
+ */
+function fillPlaceholderTrackControls(
+  partial: PartialTrackMapping,
+  trackNumber: number,
+  profile: DeviceProfile,
+  stripTrack: TrackMapping | undefined
+): void {
+  const strip = (trackNumber - 1) % TRACK_CONSTANTS.COUNT;
+  for (const controlType of TRACK_CONTROL_TYPES) {
+    if (partial[controlType] || hasProfileControl(profile, `track${trackNumber}.${controlType}`)) continue;
+    const base = stripTrack?.[controlType];
+    partial[controlType] = base
+      ? { ...createPlaceholderEntry(controlType, strip), inputCC: base.inputCC, inputChannel: base.inputChannel }
+      : createPlaceholderEntry(controlType, strip);
+  }
+}
+
+/**
+ * Fills in the transport controls the device profile has no hardware for.
+ */
+function fillPlaceholderTransportControls(partial: PartialTransportMapping, profile: DeviceProfile): void {
+  for (const controlType of TRANSPORT_CONTROL_TYPES) {
+    if (partial[controlType] || hasProfileControl(profile, `transport.${controlType}`)) continue;
+    partial[controlType] = createPlaceholderEntry(controlType);
+  }
+}
+
 /**
  * Validates that a partial track mapping has all required controls.
  */
@@ -405,6 +1056,147 @@ function validateTrackMapping(
   };
 }
 
+/**
+ * Describes the input channel of a mapping entry for error messages.
+ */
+function describeInputChannel(entry: MappingEntry): string {
+  return entry.inputChannel !== undefined ? `in:ch${entry.inputChannel}` : 'any channel';
+}
+
+/**
+ * Checks that every shift layer entry uses the input CC and channel of the base control it replaces.
+ * Returns an error message, or null if the layer is consistent.
+ */
+function findShiftInputMismatch(config: MappingConfig, shift: ShiftLayer): string | null {
+  const check = (name: string, base: MappingEntry, override: MappingEntry | undefined): string | null => {
+    if (override && override.inputCC !== base.inputCC) {
+      return `Shift layer ${name} must use the same input CC as the base mapping (${base.inputCC}), got: ${override.inputCC}`;
+    }
+    if (override && override.inputChannel !== base.inputChannel) {
+      return `Shift layer ${name} must use the same input channel as the base mapping (${describeInputChannel(base)}), got: ${describeInputChannel(override)}`;
+    }
+    return null;
+  };
+
+  for (let i = 0; i < config.tracks.length; i++) {
+    const track = config.tracks[i];
+    const shiftTrack = shift.tracks[i];
+    if (!track || !shiftTrack) continue;
+    for (const controlType of TRACK_CONTROL_TYPES) {
+      const error = check(`track${i + 1}.${controlType}`, track[controlType], shiftTrack[controlType]);
+      if (error) return error;
+    }
+  }
+
+  for (const controlType of TRANSPORT_CONTROL_TYPES) {
+    const error = check(`transport.${controlType}`, config.transport[controlType], shift.transport[controlType]);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Checks that every bank track uses the input CCs and channels of the physical strip it is played on.
+ * Returns an error message, or null if the banks are consistent.
+ */
+function findBankInputMismatch(config: MappingConfig): string | null {
+  const banks = config.banks ?? [];
+
+  for (let bank = 0; bank < banks.length; bank++) {
+    const bankTracks = banks[bank] ?? [];
+    for (let strip = 0; strip < bankTracks.length; strip++) {
+      const baseTrack = config.tracks[strip];
+      const bankTrack = bankTracks[strip];
+      if (!baseTrack || !bankTrack) continue;
+
+      const trackNumber = (bank + 1) * TRACK_CONSTANTS.COUNT + strip + 1;
+      for (const controlType of TRACK_CONTROL_TYPES) {
+        const base = baseTrack[controlType];
+        const entry = bankTrack[controlType];
+        if (entry.inputCC !== base.inputCC) {
+          return `track${trackNumber}.${controlType} must use the same input CC as track${strip + 1}.${controlType} (${base.inputCC}), got: ${entry.inputCC}`;
+        }
+        if (entry.inputChannel !== base.inputChannel) {
+          return `track${trackNumber}.${controlType} must use the same input channel as track${strip + 1}.${controlType} (${describeInputChannel(base)}), got: ${describeInputChannel(entry)}`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the radio-button groups against the built config.
+ * Members must be existing toggle buttons, and each button can be in one group only.
+ */
+function validateButtonGroups(config: MappingConfig, groupLines: GroupLine[]): void {
+  const groupNames = new Set<string>();
+  const memberGroups = new Map<string, string>();
+  const pagingButtons = config.banks ? ['transport.track_left', 'transport.track_right'] : [];
+
+  for (const { group, lineNumber, line } of groupLines) {
+    if (groupNames.has(group.name)) {
+      throw new ParseError(`Duplicate group name: ${group.name}`, lineNumber, line);
+    }
+    groupNames.add(group.name);
+
+    for (const button of group.buttons) {
+      const mapping = getControlMapping(config, button);
+      if (!mapping || isContinuousControl(button.split('.')[1] ?? '')) {
+        throw new ParseError(`Unknown button in group ${group.name}: ${button}`, lineNumber, line);
+      }
+      if (mapping.behavior !== 'toggle') {
+        throw new ParseError(`${button} in group ${group.name} must be a toggle button`, lineNumber, line);
+      }
+      if (button === config.shift?.button || pagingButtons.includes(button)) {
+        throw new ParseError(
+          `${button} is the ${button === config.shift?.button ? 'shift button' : 'track bank paging button'} and cannot be in group ${group.name}`,
+          lineNumber,
+          line
+        );
+      }
+
+      const otherGroup = memberGroups.get(button);
+      if (otherGroup !== undefined) {
+        throw new ParseError(`${button} is already in group ${otherGroup}`, lineNumber, line);
+      }
+      memberGroups.set(button, group.name);
+    }
+  }
+}
+
+/**
+ * Validates the scenes against the built config.
+ * Stored controls must be mapped, and each scene needs its own mapped button.
+ */
+function validateScenes(config: MappingConfig, sceneLines: SceneLine[]): void {
+  const sceneButtons = new Map<string, string>();
+
+  sceneLines.forEach(({ scene, lineNumber, line }, index) => {
+    if (index >= MAX_SCENES) {
+      throw new ParseError(`A mapping can have at most ${MAX_SCENES} scenes`, lineNumber, line);
+    }
+
+    for (const controlType of Object.keys(scene.values)) {
+      if (!getControlMapping(config, controlType)) {
+        throw new ParseError(`Unknown control in scene ${scene.name}: ${controlType}`, lineNumber, line);
+      }
+    }
+
+    if (scene.button === undefined) return;
+    if (!getControlMapping(config, scene.button) || isContinuousControl(scene.button.split('.')[1] ?? '')) {
+      throw new ParseError(`Unknown button of scene ${scene.name}: ${scene.button}`, lineNumber, line);
+    }
+    const otherScene = sceneButtons.get(scene.button);
+    if (otherScene !== undefined) {
+      throw new ParseError(`${scene.button} already recalls scene ${otherScene}`, lineNumber, line);
+    }
+    sceneButtons.set(scene.button, scene.name);
+  });
+}
+
 /**
  * Validates that a partial transport mapping has all required controls.
  */
@@ -469,6 +1261,7 @@ function validateTransportMapping(partial: PartialTransportMapping): TransportMa
  * Parses a mapping configuration file content and returns a MappingConfig.
  *
  * @param content - The raw string content of the mapping file
+ * @param profile - Device profile the mapping is for; without one, every nanoKONTROL2 control is required
  * @returns ParseResult indicating success with config or failure with error message
  *
  * @example
@@ -482,7 +1275,7 @@ function validateTransportMapping(partial: PartialTransportMapping): TransportMa
  * }
  * ```
  */
-export function parseMapping(content: string): ParseResult {
+export function parseMapping(content: string, profile?: DeviceProfile): ParseResult {
   try {
     const lines = content.split('\n');
 
@@ -493,7 +1286,21 @@ export function parseMapping(content: string): ParseResult {
     }
 
     const transport: PartialTransportMapping = {};
+
+    // Shift layer sections are partial: controls they leave out keep their base mapping
+    const shiftTracks: Map<number, PartialTrackMapping> = new Map();
+    for (let i = 1; i <= TRACK_CONSTANTS.COUNT; i++) {
+      shiftTracks.set(i, createEmptyPartialTrack());
+    }
+    const shiftTransport: PartialTransportMapping = {};
+    let hasShiftSection = false;
+    let shiftButton: { button: string; mode: ShiftMode } | null = null;
+
+    const groupLines: GroupLine[] = [];
+    const sceneLines: SceneLine[] = [];
+
     let currentSection: CurrentSection | null = null;
+    let lastControl: { controlType: string; entry: MappingEntry } | null = null;
     let hasTransportSection = false;
     const definedTracks = new Set<number>();
 
@@ -517,8 +1324,14 @@ export function parseMapping(content: string): ParseResult {
       // Check for section header
       const sectionHeader = parseSectionHeader(trimmed, lineNumber);
       if (sectionHeader) {
+        if (sectionHeader.type === 'controls' && !profile) {
+          throw new ParseError('A [controls] section maps the controls of a device profile, and needs one', lineNumber, line);
+        }
         currentSection = sectionHeader;
-        if (sectionHeader.type === 'transport') {
+        lastControl = null;
+        if (sectionHeader.shift) {
+          hasShiftSection = true;
+        } else if (sectionHeader.type === 'transport') {
           hasTransportSection = true;
         } else if (sectionHeader.trackNumber !== undefined) {
           definedTracks.add(sectionHeader.trackNumber);
@@ -526,20 +1339,73 @@ export function parseMapping(content: string): ParseResult {
         continue;
       }
 
+      if (currentSection?.type === 'groups') {
+        groupLines.push({ group: parseGroupLine(line, lineNumber), lineNumber, line });
+        continue;
+      }
+
+      if (currentSection?.type === 'scenes') {
+        sceneLines.push({ scene: parseSceneLine(line, lineNumber), lineNumber, line });
+        continue;
+      }
+
+      // Additional output target for the control on the previous line
+      if (trimmed.startsWith('+')) {
+        if (!lastControl) {
+          throw new ParseError('Output target found without a control mapping line above it', lineNumber, line);
+        }
+        const targets = lastControl.entry.targets ?? [];
+        if (targets.length >= MAX_OUTPUT_TARGETS) {
+          throw new ParseError(`A control can have at most ${MAX_OUTPUT_TARGETS} output targets`, lineNumber, line);
+        }
+        targets.push(parseTargetLine(line, lineNumber, lastControl.controlType));
+        lastControl.entry.targets = targets;
+        continue;
+      }
+
+      // Lines of the [controls] section map a profile control through its slot's section
+      let section = currentSection;
+      let slotControl: string | undefined;
+      if (currentSection?.type === 'controls' && profile) {
+        ({ section, slotControl } = resolveProfileControlLine(line, lineNumber, profile, currentSection.shift));
+        if (section.trackNumber !== undefined && !section.shift) {
+          definedTracks.add(section.trackNumber);
+        } else if (!section.shift) {
+          hasTransportSection = true;
+        }
+      }
+
       // Parse control mapping line
-      const { controlType, entry } = parseControlLine(line, lineNumber, currentSection);
+      const { controlType, entry, shiftMode } = parseControlLine(line, lineNumber, section, slotControl);
+      lastControl = { controlType, entry };
 
-      if (currentSection === null) {
+      if (section === null) {
         // This should not happen due to check in parseControlLine, but TypeScript needs it
         throw new ParseError('Internal error: no current section', lineNumber, line);
       }
 
+      if (shiftMode !== undefined) {
+        if (shiftButton) {
+          throw new ParseError(`Only one shift button is allowed (already: ${shiftButton.button})`, lineNumber, line);
+        }
+        if ((section.trackNumber ?? 0) > TRACK_CONSTANTS.LAST) {
+          throw new ParseError('The shift button must be in tracks 1-8 or the transport section', lineNumber, line);
+        }
+        const sectionName = section.type === 'track' ? `track${section.trackNumber}` : 'transport';
+        shiftButton = { button: `${sectionName}.${controlType}`, mode: shiftMode };
+      }
+
+      const sectionSuffix = section.shift ? '.shift' : '';
+
       // Store the mapping in the appropriate structure
-      if (currentSection.type === 'track' && currentSection.trackNumber !== undefined) {
-        const trackMapping = tracks.get(currentSection.trackNumber);
+      if (section.type === 'track' && section.trackNumber !== undefined) {
+        if (!section.shift && !tracks.has(section.trackNumber)) {
+          tracks.set(section.trackNumber, createEmptyPartialTrack());
+        }
+        const trackMapping = (section.shift ? shiftTracks : tracks).get(section.trackNumber);
         if (!trackMapping) {
           throw new ParseError(
-            `Internal error: track ${currentSection.trackNumber} not initialized`,
+            `Internal error: track ${section.trackNumber} not initialized`,
             lineNumber,
             line
           );
@@ -551,51 +1417,65 @@ export function parseMapping(content: string): ParseResult {
         // Check for duplicate control definitions
         if (trackMapping[trackControl] !== undefined) {
           throw new ParseError(
-            `Duplicate ${controlType} definition in track${currentSection.trackNumber}`,
+            `Duplicate ${controlType} definition in track${section.trackNumber}${sectionSuffix}`,
             lineNumber,
             line
           );
         }
 
         trackMapping[trackControl] = entry;
-      } else if (currentSection.type === 'transport') {
+      } else if (section.type === 'transport') {
         // Type-safe assignment for transport controls
         const transportControl = controlType as TransportControlType;
 
+        const transportMapping = section.shift ? shiftTransport : transport;
+
         // Check for duplicate control definitions
-        if (transport[transportControl] !== undefined) {
+        if (transportMapping[transportControl] !== undefined) {
           throw new ParseError(
-            `Duplicate ${controlType} definition in transport section`,
+            `Duplicate ${controlType} definition in transport${sectionSuffix} section`,
             lineNumber,
             line
           );
         }
 
-        transport[transportControl] = entry;
+        transportMapping[transportControl] = entry;
       }
     }
 
-    // Validate all tracks are defined
-    for (let i = 1; i <= TRACK_CONSTANTS.COUNT; i++) {
-      if (!definedTracks.has(i)) {
+    // Tracks and the transport section are required where the device has hardware controls
+    const hasControlIn = (section: string) =>
+      !profile ||
+      Object.entries(profile.controls).some(([id, control]) => getProfileControlSlot(id, control).startsWith(`${section}.`));
+
+    // Validate all tracks are defined (every bank is complete)
+    const bankCount = Math.ceil(Math.max(...definedTracks, TRACK_CONSTANTS.COUNT) / TRACK_CONSTANTS.COUNT);
+    for (let i = 1; i <= bankCount * TRACK_CONSTANTS.COUNT; i++) {
+      const strip = ((i - 1) % TRACK_CONSTANTS.COUNT) + 1;
+      if (!definedTracks.has(i) && hasControlIn(`track${strip}`)) {
+        const bankStart = i - ((i - 1) % TRACK_CONSTANTS.COUNT);
         return {
           success: false,
-          error: `Track ${i} is not defined. All 8 tracks (track1-track8) must be present`,
+          error: i <= TRACK_CONSTANTS.COUNT
+            ? profile
+              ? `Track ${i} is not defined. Every track with ${profile.name} controls must be present`
+              : `Track ${i} is not defined. All 8 tracks (track1-track8) must be present`
+            : `Track ${i} is not defined. Track banks must be complete (track${bankStart}-track${bankStart + TRACK_CONSTANTS.COUNT - 1})`,
         };
       }
     }
 
     // Validate transport section is defined
-    if (!hasTransportSection) {
+    if (!hasTransportSection && hasControlIn('transport')) {
       return {
         success: false,
         error: 'Transport section is not defined. A [transport] section is required',
       };
     }
 
-    // Validate and build final track mappings
+    // Validate and build final track mappings (all banks)
     const finalTracks: TrackMapping[] = [];
-    for (let i = 1; i <= TRACK_CONSTANTS.COUNT; i++) {
+    for (let i = 1; i <= bankCount * TRACK_CONSTANTS.COUNT; i++) {
       const partial = tracks.get(i);
       if (!partial) {
         return {
@@ -604,6 +1484,11 @@ export function parseMapping(content: string): ParseResult {
         };
       }
 
+      if (profile) {
+        const stripTrack = i > TRACK_CONSTANTS.COUNT ? finalTracks[(i - 1) % TRACK_CONSTANTS.COUNT] : undefined;
+        fillPlaceholderTrackControls(partial, i, profile, stripTrack);
+      }
+
       try {
         finalTracks.push(validateTrackMapping(partial, i));
       } catch (err) {
@@ -616,6 +1501,9 @@ export function parseMapping(content: string): ParseResult {
 
     // Validate and build final transport mapping
     let finalTransport: TransportMapping;
+    if (profile) {
+      fillPlaceholderTransportControls(transport, profile);
+    }
     try {
       finalTransport = validateTransportMapping(transport);
     } catch (err) {
@@ -625,12 +1513,66 @@ export function parseMapping(content: string): ParseResult {
       };
     }
 
+    const config: MappingConfig = {
+      tracks: finalTracks.slice(0, TRACK_CONSTANTS.COUNT),
+      transport: finalTransport,
+    };
+
+    // Build the track banks
+    if (bankCount > 1) {
+      config.banks = [];
+      for (let bank = 1; bank < bankCount; bank++) {
+        config.banks.push(finalTracks.slice(bank * TRACK_CONSTANTS.COUNT, (bank + 1) * TRACK_CONSTANTS.COUNT));
+      }
+
+      const mismatch = findBankInputMismatch(config);
+      if (mismatch) {
+        return { success: false, error: mismatch };
+      }
+      if (shiftButton?.button === 'transport.track_left' || shiftButton?.button === 'transport.track_right') {
+        return {
+          success: false,
+          error: `${shiftButton.button} pages the track banks and cannot be the shift button`,
+        };
+      }
+    }
+
+    // Build the shift layer
+    if (hasShiftSection && !shiftButton) {
+      return {
+        success: false,
+        error: 'Shift sections are defined but no button is marked as the shift button (add shift to a button line)',
+      };
+    }
+    if (shiftButton) {
+      const shift: ShiftLayer = {
+        button: shiftButton.button,
+        mode: shiftButton.mode,
+        tracks: Array.from({ length: TRACK_CONSTANTS.COUNT }, (_, i) => ({ ...shiftTracks.get(i + 1) })),
+        transport: { ...shiftTransport },
+      };
+
+      const mismatch = findShiftInputMismatch(config, shift);
+      if (mismatch) {
+        return { success: false, error: mismatch };
+      }
+      config.shift = shift;
+    }
+
+    // Validate the radio-button groups (needs the shift button and banks)
+    if (groupLines.length > 0) {
+      validateButtonGroups(config, groupLines);
+      config.groups = groupLines.map(({ group }) => group);
+    }
+
+    if (sceneLines.length > 0) {
+      validateScenes(config, sceneLines);
+      config.scenes = sceneLines.map(({ scene }) => scene);
+    }
+
     return {
       success: true,
-      config: {
-        tracks: finalTracks,
-        transport: finalTransport,
-      },
+      config,
     };
   } catch (err) {
     if (err instanceof ParseError) {
@@ -650,8 +1592,8 @@ export function parseMapping(content: string): ParseResult {
  * Convenience function that parses and throws on error.
  * Use this when you want exceptions rather than result objects.
  */
-export function parseMappingOrThrow(content: string): MappingConfig {
-  const result = parseMapping(content);
+export function parseMappingOrThrow(content: string, profile?: DeviceProfile): MappingConfig {
+  const result = parseMapping(content, profile);
   if (result.success) {
     return result.config;
   }
@@ -0,0 +1,245 @@
+/**
+ * Serializer for human-readable mapping configuration files.
+ *
+ * Writes a MappingConfig in the text format read by the config parser, so
+ * a mapping edited in the GUI can be run headless with the CLI and read
+ * back into the GUI. Options are written with the parser's token spellings
+ * and left out where they hold the parser's defaults (default behavior,
+ * linear curve, CC output), so parsing the text gives the same mapping.
+ *
+ * Labels and scene names cannot contain double quotes in the text format;
+ * they are written with single quotes.
+ */
+
+import type { MappingConfig, MappingEntry, OutputTarget, TrackMapping, TransportMapping } from '@shared/types.js';
+import { MIDI_VALUE_OFF, MIDI_VALUE_ON } from '@shared/types.js';
+import { DEFAULT_CURVE_STEPS } from '@shared/curves.js';
+import {
+  TRACK_CONTROL_TYPES,
+  TRANSPORT_CONTROL_TYPES,
+  getDefaultBehavior,
+  isContinuousControl,
+  isHighResOutputType,
+  isOutputTypeValidFor,
+} from '@shared/constants.js';
+
+/** Width of the control type column, per section type */
+const CONTROL_COLUMN_WIDTH = {
+  TRACK: Math.max(...TRACK_CONTROL_TYPES.map((controlType) => controlType.length)),
+  TRANSPORT: Math.max(...TRANSPORT_CONTROL_TYPES.map((controlType) => controlType.length)),
+} as const;
+
+// =============================================================================
+// Line Writing
+// =============================================================================
+
+/**
+ * Quotes a label or scene name, which cannot contain double quotes or line breaks.
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Writes the range and curve options shared by control and target lines.
+ * A range with one end set is written with the engine's default (0 or 127) for the other.
+ */
+function writeRangeAndCurve(mapping: MappingEntry | OutputTarget): string[] {
+  const tokens: string[] = [];
+
+  if (mapping.minValue !== undefined || mapping.maxValue !== undefined) {
+    tokens.push(`range:${mapping.minValue ?? MIDI_VALUE_OFF}-${mapping.maxValue ?? MIDI_VALUE_ON}`);
+  }
+  if (mapping.curve === 'stepped') {
+    tokens.push(`curve:stepped:${mapping.steps ?? DEFAULT_CURVE_STEPS}`);
+  } else if (mapping.curve !== undefined && mapping.curve !== 'linear') {
+    tokens.push(`curve:${mapping.curve}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Writes the options of a control line, leaving out the ones that do not
+ * apply to the control type (the parser would reject them).
+ */
+function writeOptions(controlType: string, entry: MappingEntry): string[] {
+  const tokens = [`ch${entry.channel}`];
+
+  if (entry.inputChannel !== undefined) {
+    tokens.push(`in:ch${entry.inputChannel}`);
+  }
+
+  if (isContinuousControl(controlType)) {
+    tokens.push(...writeRangeAndCurve(entry));
+  } else if (entry.behavior !== undefined && entry.behavior !== getDefaultBehavior(controlType)) {
+    tokens.push(entry.behavior);
+  }
+
+  if (entry.outputType !== undefined && entry.outputType !== 'cc' && isOutputTypeValidFor(controlType, entry.outputType)) {
+    tokens.push(
+      entry.outputType === 'nrpn' || entry.outputType === 'rpn'
+        ? `out:${entry.outputType}:${entry.parameter ?? 0}`
+        : `out:${entry.outputType}`
+    );
+    if (entry.smoothingMs !== undefined && entry.smoothingMs > 0 && isHighResOutputType(entry.outputType)) {
+      tokens.push(`smooth:${entry.smoothingMs}`);
+    }
+  }
+
+  if (!isContinuousControl(controlType)) {
+    if (entry.behavior === 'cycle') {
+      tokens.push(`values:${(entry.cycleValues ?? []).join(',')}`);
+    } else {
+      if (entry.onValue !== undefined) tokens.push(`on:${entry.onValue}`);
+      if (entry.offValue !== undefined) tokens.push(`off:${entry.offValue}`);
+    }
+
+    if (entry.behavior === 'longpress' || entry.behavior === 'doubletap') {
+      tokens.push(`alt:${entry.altOutputCC ?? entry.outputCC}`);
+      if (entry.gestureMs !== undefined) tokens.push(`time:${entry.gestureMs}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Writes a control line and the lines of its additional output targets.
+ *
+ * @param extraTokens - Tokens appended before the label (e.g., the shift button mark)
+ */
+function writeControl(
+  controlType: string,
+  entry: MappingEntry,
+  columnWidth: number,
+  extraTokens: string[] = []
+): string[] {
+  const parts = [
+    `${controlType.padEnd(columnWidth)} ${String(entry.inputCC).padStart(3)} -> ${String(entry.outputCC).padStart(3)}`,
+    ...writeOptions(controlType, entry),
+    ...extraTokens,
+  ];
+  if (entry.label !== undefined) {
+    parts.push(quote(entry.label));
+  }
+
+  const lines = [parts.join(' ')];
+  for (const target of entry.targets ?? []) {
+    const targetParts = ['  + ->', String(target.outputCC), `ch${target.channel}`];
+    if (isContinuousControl(controlType)) {
+      targetParts.push(...writeRangeAndCurve(target));
+    }
+    lines.push(targetParts.join(' '));
+  }
+  return lines;
+}
+
+/**
+ * Writes a section: its header and the controls it maps, in control order.
+ *
+ * @param shiftMark - Control type of the shift button and its token, when it is in this section
+ */
+function writeSection(
+  header: string,
+  controlTypes: readonly string[],
+  mappings: Partial<TrackMapping> | Partial<TransportMapping>,
+  columnWidth: number,
+  shiftMark?: { controlType: string; token: string }
+): string[] {
+  const lines = [`[${header}]`];
+  for (const controlType of controlTypes) {
+    const entry = (mappings as Record<string, MappingEntry | undefined>)[controlType];
+    if (!entry) continue;
+    const extraTokens = shiftMark?.controlType === controlType ? [shiftMark.token] : [];
+    lines.push(...writeControl(controlType, entry, columnWidth, extraTokens));
+  }
+  lines.push('');
+  return lines;
+}
+
+// =============================================================================
+// Main Serializer
+// =============================================================================
+
+/**
+ * Writes a mapping configuration in the text mapping format.
+ *
+ * @param config - The mapping to write
+ * @param title - Optional title written as a comment at the top (e.g., the preset name)
+ * @returns The content of a mapping file that parses back to the same mapping
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('mappings/live.txt', serializeMapping(preset.mapping, preset.metadata.name));
+ * ```
+ */
+export function serializeMapping(config: MappingConfig, title?: string): string {
+  const lines: string[] = [];
+
+  if (title !== undefined) {
+    lines.push(`# ${title.replace(/[\r\n]+/g, ' ')}`);
+  }
+  lines.push('# Format: controlType inputCC -> outputCC chN [behavior] [options] ["label"]', '');
+
+  // The shift button is marked on its line in the base sections
+  const [shiftSection, shiftControl] = config.shift?.button.split('.') ?? [];
+  const shiftMark =
+    config.shift && shiftControl !== undefined
+      ? { controlType: shiftControl, token: config.shift.mode === 'latch' ? 'shift:latch' : 'shift' }
+      : undefined;
+
+  // Tracks 1-8, then the tracks of the banks (9-16, 17-24, ...)
+  const tracks = [...config.tracks, ...(config.banks ?? []).flat()];
+  tracks.forEach((track, i) => {
+    const header = `track${i + 1}`;
+    lines.push(
+      ...writeSection(header, TRACK_CONTROL_TYPES, track, CONTROL_COLUMN_WIDTH.TRACK, shiftSection === header ? shiftMark : undefined)
+    );
+  });
+
+  lines.push(
+    ...writeSection(
+      'transport',
+      TRANSPORT_CONTROL_TYPES,
+      config.transport,
+      CONTROL_COLUMN_WIDTH.TRANSPORT,
+      shiftSection === 'transport' ? shiftMark : undefined
+    )
+  );
+
+  // Shift sections hold only the controls the layer remaps
+  if (config.shift) {
+    config.shift.tracks.forEach((track, i) => {
+      if (Object.values(track).some(Boolean)) {
+        lines.push(...writeSection(`track${i + 1}.shift`, TRACK_CONTROL_TYPES, track, CONTROL_COLUMN_WIDTH.TRACK));
+      }
+    });
+    if (Object.values(config.shift.transport).some(Boolean)) {
+      lines.push(
+        ...writeSection('transport.shift', TRANSPORT_CONTROL_TYPES, config.shift.transport, CONTROL_COLUMN_WIDTH.TRANSPORT)
+      );
+    }
+  }
+
+  if (config.groups && config.groups.length > 0) {
+    lines.push('[groups]');
+    for (const group of config.groups) {
+      lines.push(`${group.name.replace(/[^A-Za-z0-9_-]/g, '_')} = ${group.buttons.join(' ')}`);
+    }
+    lines.push('');
+  }
+
+  if (config.scenes && config.scenes.length > 0) {
+    lines.push('[scenes]');
+    for (const scene of config.scenes) {
+      const parts = [quote(scene.name), '=', `morph:${scene.morphMs}`];
+      if (scene.button !== undefined) parts.push(`button:${scene.button}`);
+      parts.push(...Object.entries(scene.values).map(([controlType, value]) => `${controlType}:${value}`));
+      lines.push(parts.join(' '));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
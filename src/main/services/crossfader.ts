@@ -0,0 +1,180 @@
+/**
+ * Crossfader Service
+ *
+ * Turns one continuous control into a morph fader between two sets of
+ * stored control values (the presets in the A and B comparison slots).
+ * Knobs and sliders are interpolated with the fader position; button states
+ * switch from A to B when the fader crosses its midpoint.
+ */
+
+import { TRACK_CONSTANTS } from '@shared/constants.js';
+import { MIDI_VALUE_ON } from '@shared/types.js';
+import type { ControlValues, TrackControlValues } from '@shared/ipc-protocol.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Control values of one end of the fader, by control type.
+ */
+export interface CrossfadeSide {
+  /** Knob/slider input values (0-127), e.g. 'track9.knob' -> 64 */
+  values: Record<string, number>;
+  /** Button states, e.g. 'track1.solo' -> true */
+  buttons: Record<string, boolean>;
+}
+
+/**
+ * Controls changed by a fader movement.
+ */
+export interface CrossfadeResult {
+  /** Knob/slider values that changed */
+  values: Record<string, number>;
+  /** Button states that switched */
+  buttons: Record<string, boolean>;
+}
+
+/** Track buttons stored in ControlValues */
+const TRACK_BUTTONS = ['solo', 'mute', 'rec'] as const;
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Flattens stored control values into values and button states by control type.
+ * Labels are ignored.
+ *
+ * @param controlValues - Control values of a preset
+ * @returns The values of every bank's tracks and the transport buttons
+ */
+export function toCrossfadeSide(controlValues: ControlValues): CrossfadeSide {
+  const side: CrossfadeSide = { values: {}, buttons: {} };
+
+  const banks: TrackControlValues[][] = [controlValues.tracks, ...(controlValues.banks ?? [])];
+  banks.forEach((tracks, bank) => {
+    tracks.forEach((track, strip) => {
+      const prefix = `track${bank * TRACK_CONSTANTS.COUNT + strip + 1}`;
+      side.values[`${prefix}.knob`] = track.knob;
+      side.values[`${prefix}.slider`] = track.slider;
+      for (const button of TRACK_BUTTONS) {
+        side.buttons[`${prefix}.${button}`] = track[button];
+      }
+    });
+  });
+
+  for (const [key, value] of Object.entries(controlValues.transport)) {
+    if (typeof value === 'boolean') {
+      side.buttons[`transport.${key}`] = value;
+    }
+  }
+
+  return side;
+}
+
+// =============================================================================
+// Crossfader Class
+// =============================================================================
+
+/**
+ * Crossfader computes the controls to send for each fader position.
+ *
+ * Only values that changed since the last position are returned, and only
+ * buttons whose state differs between A and B are switched, so buttons both
+ * sides agree on (e.g. transport play) are never sent.
+ *
+ * @example
+ * const crossfader = new Crossfader();
+ * crossfader.configure('track8.slider', toCrossfadeSide(presetA.controlValues), toCrossfadeSide(presetB.controlValues));
+ * const { values, buttons } = crossfader.process(64);
+ */
+export class Crossfader {
+  /** Control type of the fader, or null when off */
+  private fader: string | null = null;
+
+  private sideA: CrossfadeSide = { values: {}, buttons: {} };
+  private sideB: CrossfadeSide = { values: {}, buttons: {} };
+
+  /** Last values returned: control type -> value */
+  private lastValues: Map<string, number> = new Map();
+
+  /** Side the buttons were last switched to, or null before the first movement */
+  private buttonSide: 'A' | 'B' | null = null;
+
+  /**
+   * Makes a control the fader between two sets of values.
+   * The fader control itself is left out of the interpolation.
+   *
+   * @param fader - Control type of the fader (e.g., 'track8.slider')
+   * @param a - Values at the fader's minimum
+   * @param b - Values at the fader's maximum
+   */
+  configure(fader: string, a: CrossfadeSide, b: CrossfadeSide): void {
+    this.fader = fader;
+    this.sideA = a;
+    this.sideB = b;
+    this.lastValues.clear();
+    this.buttonSide = null;
+  }
+
+  /**
+   * Turns the crossfader off; the fader control goes back to its own mapping.
+   */
+  clear(): void {
+    this.fader = null;
+    this.sideA = { values: {}, buttons: {} };
+    this.sideB = { values: {}, buttons: {} };
+    this.lastValues.clear();
+    this.buttonSide = null;
+  }
+
+  /**
+   * Gets the control type of the fader, or null when the crossfader is off.
+   */
+  getFader(): string | null {
+    return this.fader;
+  }
+
+  /**
+   * Computes the controls that change at a fader position.
+   *
+   * @param position - Fader input value (0 = A, 127 = B)
+   * @returns Changed knob/slider values and switched button states
+   */
+  process(position: number): CrossfadeResult {
+    const result: CrossfadeResult = { values: {}, buttons: {} };
+    if (this.fader === null) {
+      return result;
+    }
+
+    const amount = Math.min(Math.max(position / MIDI_VALUE_ON, 0), 1);
+    const controlTypes = new Set([...Object.keys(this.sideA.values), ...Object.keys(this.sideB.values)]);
+    controlTypes.delete(this.fader);
+
+    for (const controlType of controlTypes) {
+      const from = this.sideA.values[controlType] ?? this.sideB.values[controlType] ?? 0;
+      const to = this.sideB.values[controlType] ?? from;
+      const value = Math.round(from + (to - from) * amount);
+      if (this.lastValues.get(controlType) !== value) {
+        this.lastValues.set(controlType, value);
+        result.values[controlType] = value;
+      }
+    }
+
+    const side = amount < 0.5 ? 'A' : 'B';
+    if (side !== this.buttonSide) {
+      this.buttonSide = side;
+      const buttons = new Set([...Object.keys(this.sideA.buttons), ...Object.keys(this.sideB.buttons)]);
+      for (const controlType of buttons) {
+        const isOnA = this.sideA.buttons[controlType] ?? false;
+        const isOnB = this.sideB.buttons[controlType] ?? false;
+        if (isOnA !== isOnB) {
+          result.buttons[controlType] = side === 'A' ? isOnA : isOnB;
+        }
+      }
+    }
+
+    return result;
+  }
+}
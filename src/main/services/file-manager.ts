@@ -2,7 +2,8 @@
  * File Manager Service
  *
  * Handles preset storage, loading, and management.
- * Stores presets as JSON files in the user's data directory.
+ * Stores presets as JSON files in the user's data directory, and recorded
+ * automation takes in a takes folder next to the presets.
  */
 
 import { app } from 'electron';
@@ -15,8 +16,11 @@ import type {
   LoadPresetResponse,
   DeletePresetResponse,
   ListPresetsResponse,
+  AutomationTake,
+  ListTakesResponse,
+  DeleteTakeResponse,
 } from '@shared/ipc-protocol.js';
-import { validatePreset, safeValidatePreset, createSamplePresets } from '@shared/schemas.js';
+import { validatePreset, safeValidatePreset, safeValidateTake, createSamplePresets } from '@shared/schemas.js';
 
 // =============================================================================
 // FileManager Class
@@ -27,6 +31,7 @@ import { validatePreset, safeValidatePreset, createSamplePresets } from '@shared
  */
 export class FileManager {
   private readonly presetsDir: string;
+  private readonly takesDir: string;
   private presetCache: Map<string, PresetMetadata> = new Map();
   private cacheInitialized = false;
   private samplePresetsInitialized = false;
@@ -35,6 +40,7 @@ export class FileManager {
     // Use Electron's user data path for cross-platform compatibility
     const userDataPath = app.getPath('userData');
     this.presetsDir = join(userDataPath, 'presets');
+    this.takesDir = join(userDataPath, 'takes');
 
     // Ensure presets directory exists
     this.ensurePresetsDir();
@@ -145,6 +151,87 @@ export class FileManager {
     return this.presetCache.get(id) ?? null;
   }
 
+  // ===========================================================================
+  // Automation Takes
+  // ===========================================================================
+
+  /**
+   * Saves a take to disk.
+   */
+  async saveTake(take: AutomationTake): Promise<void> {
+    await fs.mkdir(this.takesDir, { recursive: true });
+    await fs.writeFile(this.getTakePath(take.metadata.id), JSON.stringify(take), 'utf-8');
+  }
+
+  /**
+   * Loads a take from disk.
+   *
+   * @throws If the take doesn't exist or is invalid
+   */
+  async loadTake(id: string): Promise<AutomationTake> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getTakePath(id), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Take not found');
+      }
+      throw error;
+    }
+
+    const result = safeValidateTake(JSON.parse(content));
+    if (!result.success) {
+      throw new Error(`Invalid take format: ${result.error}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Lists all takes, newest first. Invalid files are logged and skipped.
+   */
+  async listTakes(): Promise<ListTakesResponse> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.takesDir);
+    } catch {
+      return { takes: [] };
+    }
+
+    const takes: ListTakesResponse['takes'] = [];
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(join(this.takesDir, file), 'utf-8');
+        const result = safeValidateTake(JSON.parse(content));
+        if (result.success) {
+          takes.push(result.data.metadata);
+        } else {
+          console.warn(`[file-manager] Invalid take file: ${file}`);
+        }
+      } catch (error) {
+        console.warn(`[file-manager] Failed to read take file: ${file}`, error);
+      }
+    }
+
+    takes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { takes };
+  }
+
+  /**
+   * Deletes a take from disk.
+   */
+  async deleteTake(id: string): Promise<DeleteTakeResponse> {
+    try {
+      await fs.unlink(this.getTakePath(id));
+      return { success: true };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { success: false, error: 'Take not found' };
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
@@ -158,6 +245,15 @@ export class FileManager {
     return join(this.presetsDir, `${safeId}.json`);
   }
 
+  /**
+   * Gets the file path for a take ID.
+   */
+  private getTakePath(id: string): string {
+    // Sanitize ID to prevent path traversal
+    const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return join(this.takesDir, `${safeId}.json`);
+  }
+
   /**
    * Ensures the presets directory exists.
    * Uses synchronous operations to avoid race conditions during construction.
@@ -0,0 +1,552 @@
+/**
+ * nanoKONTROL2 Scene Data
+ *
+ * Reads and writes the scene data of the Korg nanoKONTROL2: the CC/note
+ * assignments, MIDI channels, value ranges, button behaviors and LED mode
+ * the unit itself sends with. Scene data comes from KORG KONTROL Editor
+ * data files (.nktrl2_data, a header followed by the scene parameters) or
+ * from a scene data dump of the unit (SysEx, see korg-sysex). A scene
+ * converts into a mapping that reproduces it in software on a unit at its
+ * factory assignments, and a mapping converts into a scene that makes the
+ * unit send the mapping's output by itself. The LED mode of a connected
+ * unit's scene can also be set on its own.
+ *
+ * Scene parameters (339 bytes, per the nanoKONTROL2 MIDI implementation):
+ * - 0: global MIDI channel (0-15), 1: control mode (0 = CC mode), 2: LED mode (0 = internal, 1 = external)
+ * - 3-250: groups 1-8, 31 bytes each: MIDI channel (16 = global), then slider,
+ *   knob, solo, mute and rec assignments of 6 bytes each
+ * - 251-317: transport MIDI channel, then 6 bytes for each transport button
+ * - 318-338: reserved
+ */
+
+import type { MappingConfig, MappingEntry, TransportControlType } from '@shared/types.js';
+import { TRACK_CONSTANTS, TRACK_CONTROL_TYPES, TRANSPORT_CONTROL_TYPES, isContinuousControl } from '@shared/constants.js';
+import { createDefaultMappingConfig } from '@shared/schemas.js';
+import { SCENE_DATA_SIZE, parseKorgReply } from './korg-sysex.js';
+
+/** Offsets of the scene parameters */
+const SCENE_OFFSET = {
+  GLOBAL_CHANNEL: 0,
+  CONTROL_MODE: 1,
+  LED_MODE: 2,
+  GROUPS: 3,
+  TRANSPORT: 251,
+} as const;
+
+/** Size of the parameters of a group (track strip) */
+const GROUP_SIZE = 31;
+
+/** Offsets of the parameters of a group */
+const GROUP_OFFSET = {
+  CHANNEL: 0,
+  SLIDER: 1,
+  KNOB: 7,
+  SOLO: 13,
+  MUTE: 19,
+  REC: 25,
+} as const;
+
+/** Size of the parameters of a button, knob or slider */
+const ASSIGN_SIZE = 6;
+
+/** Channel value that stands for the global MIDI channel */
+const GLOBAL_CHANNEL = 16;
+
+/** Transport buttons in scene data order */
+const TRANSPORT_ORDER: readonly TransportControlType[] = [
+  'track_left',
+  'track_right',
+  'cycle',
+  'marker_set',
+  'marker_left',
+  'marker_right',
+  'rewind',
+  'forward',
+  'stop',
+  'play',
+  'record',
+];
+
+/** Control modes of the unit; the scene's assignments are used in CC mode */
+export const CONTROL_MODES = ['CC', 'Cubase', 'Digital Performer', 'Live', 'Pro Tools', 'SONAR'] as const;
+
+/** How the unit lights its button LEDs: by itself, or as set by the host */
+export type KorgLedMode = 'internal' | 'external';
+
+/** Assignment of a knob or slider */
+export interface KorgContinuousAssign {
+  enabled: boolean;
+  cc: number;
+  min: number;
+  max: number;
+}
+
+/** Assignment of a button */
+export interface KorgButtonAssign {
+  type: 'none' | 'cc' | 'note';
+  behavior: 'momentary' | 'toggle';
+  /** CC or note number */
+  number: number;
+  offValue: number;
+  onValue: number;
+}
+
+/** Parameters of a group (track strip) */
+export interface KorgGroup {
+  /** MIDI channel (1-16), or null for the global channel */
+  channel: number | null;
+  slider: KorgContinuousAssign;
+  knob: KorgContinuousAssign;
+  solo: KorgButtonAssign;
+  mute: KorgButtonAssign;
+  rec: KorgButtonAssign;
+}
+
+/** Decoded nanoKONTROL2 scene */
+export interface KorgScene {
+  /** Global MIDI channel (1-16) */
+  globalChannel: number;
+  /** Index into CONTROL_MODES */
+  controlMode: number;
+  ledMode: KorgLedMode;
+  /** Groups 1-8 */
+  groups: KorgGroup[];
+  /** MIDI channel (1-16) of the transport buttons, or null for the global channel */
+  transportChannel: number | null;
+  transport: Record<TransportControlType, KorgButtonAssign>;
+}
+
+/** A mapping converted into a scene */
+export interface MappingScene {
+  scene: KorgScene;
+  /** What of the mapping the unit can't do by itself, per control (e.g., 'track1.knob: log curve') */
+  approximated: string[];
+}
+
+/** Reads and loads the scene of a unit (e.g., a MidiHandler or SysexSession) */
+export interface SceneDataPort {
+  requestSceneData(): Promise<Uint8Array>;
+  writeSceneData(data: Uint8Array, store?: boolean): Promise<void>;
+}
+
+/** A scene converted into a mapping */
+export interface KorgSceneMapping {
+  mapping: MappingConfig;
+  /** Controls without an assignment in the scene, which keep their factory CC (e.g., 'track1.knob') */
+  unassigned: string[];
+}
+
+// =============================================================================
+// Scene Data
+// =============================================================================
+
+/**
+ * Reads a byte of the scene parameters, checking it against its largest value.
+ *
+ * @throws If the byte is out of range
+ */
+function readByte(data: Uint8Array, offset: number, max: number, name: string): number {
+  const value = data[offset] ?? 0;
+  if (value > max) {
+    throw new Error(`Not nanoKONTROL2 scene data: ${name} is ${value} (at most ${max})`);
+  }
+  return value;
+}
+
+/**
+ * Reads a MIDI channel parameter (0-15, 16 = global).
+ */
+function readChannel(data: Uint8Array, offset: number, name: string): number | null {
+  const value = readByte(data, offset, GLOBAL_CHANNEL, name);
+  return value === GLOBAL_CHANNEL ? null : value + 1;
+}
+
+/**
+ * Reads the assignment of a knob or slider.
+ */
+function readContinuousAssign(data: Uint8Array, offset: number, name: string): KorgContinuousAssign {
+  return {
+    enabled: readByte(data, offset, 1, `${name} assign type`) === 1,
+    cc: readByte(data, offset + 2, 127, `${name} CC`),
+    min: readByte(data, offset + 3, 127, `${name} minimum`),
+    max: readByte(data, offset + 4, 127, `${name} maximum`),
+  };
+}
+
+/**
+ * Reads the assignment of a button.
+ */
+function readButtonAssign(data: Uint8Array, offset: number, name: string): KorgButtonAssign {
+  const type = readByte(data, offset, 2, `${name} assign type`);
+  return {
+    type: type === 0 ? 'none' : type === 1 ? 'cc' : 'note',
+    behavior: readByte(data, offset + 1, 1, `${name} behavior`) === 1 ? 'toggle' : 'momentary',
+    number: readByte(data, offset + 2, 127, `${name} CC/note`),
+    offValue: readByte(data, offset + 3, 127, `${name} off value`),
+    onValue: readByte(data, offset + 4, 127, `${name} on value`),
+  };
+}
+
+/**
+ * Decodes the 339 scene parameter bytes.
+ *
+ * @throws If the data is too short or a parameter is out of range
+ */
+export function decodeScene(data: Uint8Array): KorgScene {
+  if (data.length < SCENE_DATA_SIZE) {
+    throw new Error(`Not nanoKONTROL2 scene data: ${data.length} bytes (expected ${SCENE_DATA_SIZE})`);
+  }
+
+  const groups: KorgGroup[] = [];
+  for (let i = 0; i < TRACK_CONSTANTS.COUNT; i++) {
+    const offset = SCENE_OFFSET.GROUPS + i * GROUP_SIZE;
+    const name = `group ${i + 1}`;
+    groups.push({
+      channel: readChannel(data, offset + GROUP_OFFSET.CHANNEL, `${name} channel`),
+      slider: readContinuousAssign(data, offset + GROUP_OFFSET.SLIDER, `${name} slider`),
+      knob: readContinuousAssign(data, offset + GROUP_OFFSET.KNOB, `${name} knob`),
+      solo: readButtonAssign(data, offset + GROUP_OFFSET.SOLO, `${name} solo`),
+      mute: readButtonAssign(data, offset + GROUP_OFFSET.MUTE, `${name} mute`),
+      rec: readButtonAssign(data, offset + GROUP_OFFSET.REC, `${name} rec`),
+    });
+  }
+
+  const transport = {} as Record<TransportControlType, KorgButtonAssign>;
+  TRANSPORT_ORDER.forEach((controlType, i) => {
+    const offset = SCENE_OFFSET.TRANSPORT + 1 + i * ASSIGN_SIZE;
+    transport[controlType] = readButtonAssign(data, offset, controlType);
+  });
+
+  return {
+    globalChannel: readByte(data, SCENE_OFFSET.GLOBAL_CHANNEL, 15, 'global channel') + 1,
+    controlMode: readByte(data, SCENE_OFFSET.CONTROL_MODE, CONTROL_MODES.length - 1, 'control mode'),
+    ledMode: readByte(data, SCENE_OFFSET.LED_MODE, 1, 'LED mode') === 1 ? 'external' : 'internal',
+    groups,
+    transportChannel: readChannel(data, SCENE_OFFSET.TRANSPORT, 'transport channel'),
+    transport,
+  };
+}
+
+/**
+ * Writes a MIDI channel parameter (null = global).
+ */
+function writeChannel(data: Uint8Array, offset: number, channel: number | null): void {
+  data[offset] = channel === null ? GLOBAL_CHANNEL : channel - 1;
+}
+
+/**
+ * Writes the assignment of a knob or slider, keeping its reserved bytes.
+ */
+function writeContinuousAssign(data: Uint8Array, offset: number, assign: KorgContinuousAssign): void {
+  data[offset] = assign.enabled ? 1 : 0;
+  data[offset + 2] = assign.cc;
+  data[offset + 3] = assign.min;
+  data[offset + 4] = assign.max;
+}
+
+/**
+ * Writes the assignment of a button, keeping its reserved byte.
+ */
+function writeButtonAssign(data: Uint8Array, offset: number, assign: KorgButtonAssign): void {
+  data.set(
+    [
+      assign.type === 'none' ? 0 : assign.type === 'cc' ? 1 : 2,
+      assign.behavior === 'toggle' ? 1 : 0,
+      assign.number,
+      assign.offValue,
+      assign.onValue,
+    ],
+    offset
+  );
+}
+
+/**
+ * Encodes a scene as the 339 scene parameter bytes.
+ *
+ * @param base - Scene parameters whose reserved bytes are kept (e.g., the unit's current scene)
+ */
+export function encodeScene(scene: KorgScene, base?: Uint8Array): Uint8Array {
+  const data = new Uint8Array(SCENE_DATA_SIZE);
+  if (base) {
+    data.set(base.subarray(0, SCENE_DATA_SIZE));
+  }
+
+  data[SCENE_OFFSET.GLOBAL_CHANNEL] = scene.globalChannel - 1;
+  data[SCENE_OFFSET.CONTROL_MODE] = scene.controlMode;
+  data[SCENE_OFFSET.LED_MODE] = scene.ledMode === 'external' ? 1 : 0;
+
+  scene.groups.slice(0, TRACK_CONSTANTS.COUNT).forEach((group, i) => {
+    const offset = SCENE_OFFSET.GROUPS + i * GROUP_SIZE;
+    writeChannel(data, offset + GROUP_OFFSET.CHANNEL, group.channel);
+    writeContinuousAssign(data, offset + GROUP_OFFSET.SLIDER, group.slider);
+    writeContinuousAssign(data, offset + GROUP_OFFSET.KNOB, group.knob);
+    writeButtonAssign(data, offset + GROUP_OFFSET.SOLO, group.solo);
+    writeButtonAssign(data, offset + GROUP_OFFSET.MUTE, group.mute);
+    writeButtonAssign(data, offset + GROUP_OFFSET.REC, group.rec);
+  });
+
+  writeChannel(data, SCENE_OFFSET.TRANSPORT, scene.transportChannel);
+  TRANSPORT_ORDER.forEach((controlType, i) => {
+    writeButtonAssign(data, SCENE_OFFSET.TRANSPORT + 1 + i * ASSIGN_SIZE, scene.transport[controlType]);
+  });
+
+  return data;
+}
+
+/**
+ * Finds the scene parameters of a scene data dump in SysEx data.
+ *
+ * @returns The decoded parameters, or null if the data holds no scene data dump
+ */
+function findSceneDump(data: Uint8Array): Uint8Array | null {
+  for (let start = data.indexOf(0xf0); start !== -1; start = data.indexOf(0xf0, start + 1)) {
+    const end = data.indexOf(0xf7, start);
+    if (end === -1) break;
+    const reply = parseKorgReply(Array.from(data.subarray(start, end + 1)));
+    if (reply?.type === 'sceneDump') {
+      return reply.data;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a nanoKONTROL2 scene file: a KORG KONTROL Editor data file
+ * (.nktrl2_data), whose scene parameters follow a header at the end of the
+ * file, or a SysEx file holding a scene data dump.
+ *
+ * @throws If the file holds no valid scene data
+ */
+export function readSceneFile(data: Uint8Array): KorgScene {
+  const dump = findSceneDump(data);
+  if (dump) {
+    return decodeScene(dump);
+  }
+  if (data.length < SCENE_DATA_SIZE) {
+    throw new Error(`Not a nanoKONTROL2 scene file: ${data.length} bytes is too short for scene data`);
+  }
+  return decodeScene(data.subarray(data.length - SCENE_DATA_SIZE));
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Applies a knob or slider assignment to the entry of the control's factory CC.
+ */
+function applyContinuousAssign(entry: MappingEntry, assign: KorgContinuousAssign, channel: number): boolean {
+  if (!assign.enabled) return false;
+
+  entry.outputCC = assign.cc;
+  entry.channel = channel;
+  if (assign.min !== 0 || assign.max !== 127) {
+    entry.minValue = assign.min;
+    entry.maxValue = assign.max;
+  }
+  return true;
+}
+
+/**
+ * Applies a button assignment to the entry of the button's factory CC.
+ */
+function applyButtonAssign(entry: MappingEntry, assign: KorgButtonAssign, channel: number): boolean {
+  if (assign.type === 'none') return false;
+
+  entry.outputCC = assign.number;
+  entry.channel = channel;
+  entry.behavior = assign.behavior;
+  if (assign.type === 'note') {
+    entry.outputType = 'note';
+  }
+  if (assign.onValue !== 127) {
+    entry.onValue = assign.onValue;
+  }
+  if (assign.offValue !== 0) {
+    entry.offValue = assign.offValue;
+  }
+  return true;
+}
+
+/**
+ * Converts a scene into a mapping from the unit's factory CCs to the
+ * scene's assignments, channels, ranges and button behaviors. Controls the
+ * scene leaves unassigned keep their factory CC on the scene's channel.
+ */
+export function sceneToMapping(scene: KorgScene): KorgSceneMapping {
+  const mapping = createDefaultMappingConfig();
+  const unassigned: string[] = [];
+
+  scene.groups.forEach((group, i) => {
+    const track = mapping.tracks[i];
+    if (!track) return;
+
+    const channel = group.channel ?? scene.globalChannel;
+    const assigned = {
+      knob: applyContinuousAssign(track.knob, group.knob, channel),
+      slider: applyContinuousAssign(track.slider, group.slider, channel),
+      solo: applyButtonAssign(track.solo, group.solo, channel),
+      mute: applyButtonAssign(track.mute, group.mute, channel),
+      rec: applyButtonAssign(track.rec, group.rec, channel),
+    };
+    for (const [controlType, isAssigned] of Object.entries(assigned)) {
+      if (!isAssigned) {
+        track[controlType as keyof typeof assigned].channel = channel;
+        unassigned.push(`track${i + 1}.${controlType}`);
+      }
+    }
+  });
+
+  const transportChannel = scene.transportChannel ?? scene.globalChannel;
+  for (const controlType of TRANSPORT_CONTROL_TYPES) {
+    const entry = mapping.transport[controlType];
+    if (!applyButtonAssign(entry, scene.transport[controlType], transportChannel)) {
+      entry.channel = transportChannel;
+      unassigned.push(`transport.${controlType}`);
+    }
+  }
+
+  return { mapping, unassigned };
+}
+
+/**
+ * Gets the channel most of the entries use (the first one on a tie).
+ */
+function getCommonChannel(entries: MappingEntry[]): number {
+  const counts = new Map<number, number>();
+  for (const entry of entries) {
+    counts.set(entry.channel, (counts.get(entry.channel) ?? 0) + 1);
+  }
+  let common = entries[0]?.channel ?? 1;
+  for (const [channel, count] of counts) {
+    if (count > (counts.get(common) ?? 0)) common = channel;
+  }
+  return common;
+}
+
+/**
+ * Notes what of a control's mapping the unit can't do by itself.
+ */
+function describeApproximations(name: string, controlType: string, entry: MappingEntry, channel: number): string[] {
+  const notes: string[] = [];
+  const add = (note: string) => notes.push(`${name}: ${note}`);
+
+  if (entry.channel !== channel) {
+    add(`channel ${entry.channel} (the strip sends on channel ${channel})`);
+  }
+  const outputType = entry.outputType ?? 'cc';
+  if (outputType !== 'cc' && !(outputType === 'note' && !isContinuousControl(controlType))) {
+    add(`${outputType} output (sent as CC ${entry.outputCC})`);
+  }
+  if (entry.curve !== undefined && entry.curve !== 'linear') {
+    add(`${entry.curve} curve (sent linear)`);
+  }
+  if (entry.behavior !== undefined && entry.behavior !== 'toggle' && entry.behavior !== 'momentary') {
+    add(`${entry.behavior} behavior (sent as momentary)`);
+  }
+  if (entry.targets && entry.targets.length > 0) {
+    add('additional output targets (not sent)');
+  }
+  return notes;
+}
+
+/**
+ * Converts a knob or slider mapping into its assignment.
+ */
+function toContinuousAssign(entry: MappingEntry): KorgContinuousAssign {
+  return { enabled: true, cc: entry.outputCC, min: entry.minValue ?? 0, max: entry.maxValue ?? 127 };
+}
+
+/**
+ * Converts a button mapping into its assignment.
+ */
+function toButtonAssign(entry: MappingEntry): KorgButtonAssign {
+  return {
+    type: entry.outputType === 'note' ? 'note' : 'cc',
+    behavior: entry.behavior === 'toggle' ? 'toggle' : 'momentary',
+    number: entry.outputCC,
+    offValue: entry.offValue ?? 0,
+    onValue: entry.onValue ?? 127,
+  };
+}
+
+/**
+ * Converts a mapping into a scene that makes the unit send the mapping's
+ * output (tracks 1-8 and the transport) by itself, in CC mode. Each track
+ * strip sends on one channel, the one most of its controls use. What the
+ * unit can't do (other message types, curves, gestures, extra targets,
+ * the shift layer and banks) is approximated and noted.
+ *
+ * @param base - The scene whose global channel is kept (e.g., the unit's current scene)
+ * @param ledMode - LED mode of the scene
+ */
+export function mappingToScene(mapping: MappingConfig, base: KorgScene, ledMode: KorgLedMode): MappingScene {
+  const approximated: string[] = [];
+
+  const groups = mapping.tracks.slice(0, TRACK_CONSTANTS.COUNT).map((track, i): KorgGroup => {
+    const channel = getCommonChannel(TRACK_CONTROL_TYPES.map((controlType) => track[controlType]));
+    for (const controlType of TRACK_CONTROL_TYPES) {
+      approximated.push(...describeApproximations(`track${i + 1}.${controlType}`, controlType, track[controlType], channel));
+    }
+    return {
+      channel,
+      slider: toContinuousAssign(track.slider),
+      knob: toContinuousAssign(track.knob),
+      solo: toButtonAssign(track.solo),
+      mute: toButtonAssign(track.mute),
+      rec: toButtonAssign(track.rec),
+    };
+  });
+
+  const transportChannel = getCommonChannel(TRANSPORT_CONTROL_TYPES.map((controlType) => mapping.transport[controlType]));
+  const transport = {} as Record<TransportControlType, KorgButtonAssign>;
+  for (const controlType of TRANSPORT_CONTROL_TYPES) {
+    const entry = mapping.transport[controlType];
+    approximated.push(...describeApproximations(`transport.${controlType}`, controlType, entry, transportChannel));
+    transport[controlType] = toButtonAssign(entry);
+  }
+
+  if (mapping.shift) approximated.push('shift layer (not available without nkEditor3)');
+  if (mapping.banks && mapping.banks.length > 0) approximated.push('track banks (only tracks 1-8 are written)');
+
+  return {
+    scene: {
+      globalChannel: base.globalChannel,
+      controlMode: 0,
+      ledMode,
+      groups,
+      transportChannel,
+      transport,
+    },
+    approximated,
+  };
+}
+
+// =============================================================================
+// Unit Settings
+// =============================================================================
+
+/**
+ * Sets the LED mode of the unit's scene, keeping its other parameters, and
+ * reads the scene back to check the unit took it. Does nothing if the unit
+ * is already in that mode.
+ *
+ * @param store - Whether to also write the scene to the unit's memory
+ * @returns True if the LED mode was changed
+ * @throws If the unit doesn't answer, or still reports the old LED mode
+ */
+export async function setHardwareLedMode(unit: SceneDataPort, ledMode: KorgLedMode, store = true): Promise<boolean> {
+  const current = await unit.requestSceneData();
+  const scene = decodeScene(current);
+  if (scene.ledMode === ledMode) {
+    return false;
+  }
+
+  await unit.writeSceneData(encodeScene({ ...scene, ledMode }, current), store);
+
+  const written = decodeScene(await unit.requestSceneData());
+  if (written.ledMode !== ledMode) {
+    throw new Error(`The nanoKONTROL2 still reports ${written.ledMode} LED mode after the scene change`);
+  }
+  return true;
+}
@@ -11,7 +11,8 @@
  * - Turn all LEDs off on disconnect/shutdown
  *
  * LED Protocol:
- * - LEDs use the same CC numbers as their corresponding buttons
+ * - LEDs use the same CC numbers as their corresponding buttons (other devices
+ *   may use different LED CCs, given by their device profile)
  * - Value 127 = LED on, Value 0 = LED off
  * - Messages are sent on MIDI channel 1 (0-indexed: channel 0)
  */
@@ -19,6 +20,8 @@
 import type { MidiHandler } from './midi-handler.js';
 import type { MappingEngine } from './mapping-engine.js';
 import { hasLed, MIDI_VALUE_ON, MIDI_VALUE_OFF } from '@shared/types.js';
+import type { DeviceProfile } from '@shared/types.js';
+import { getProfileLedCC, getProfileLedCCs } from '@shared/constants.js';
 
 // =============================================================================
 // LedController Class
@@ -46,16 +49,30 @@ export class LedController {
   /** MIDI handler for sending LED messages to hardware */
   private readonly midiHandler: MidiHandler;
 
-  /** Current LED states: CC number -> isOn */
+  /** Current LED states: button CC number -> isOn */
   private ledStates: Map<number, boolean> = new Map();
 
+  /** Device profile giving the LED CCs (undefined = nanoKONTROL2 LEDs) */
+  private profile: DeviceProfile | undefined;
+
   /**
    * Creates a new LedController.
    *
    * @param midiHandler - The MidiHandler instance for hardware communication
+   * @param profile - Profile of the device whose LEDs are driven (default: nanoKONTROL2)
    */
-  constructor(midiHandler: MidiHandler) {
+  constructor(midiHandler: MidiHandler, profile?: DeviceProfile) {
     this.midiHandler = midiHandler;
+    this.profile = profile;
+  }
+
+  /**
+   * Switches the device profile. LED states are forgotten, since they
+   * belong to the previous device's buttons.
+   */
+  setProfile(profile: DeviceProfile | undefined): void {
+    this.profile = profile;
+    this.ledStates.clear();
   }
 
   /**
@@ -64,12 +81,12 @@ export class LedController {
    * Only CCs that correspond to buttons with LEDs will be sent.
    * The state is tracked internally to avoid redundant hardware updates.
    *
-   * @param cc - The CC number for the LED (same as button CC)
+   * @param cc - The CC number of the button
    * @param isOn - True to turn LED on, false to turn off
    */
   setLed(cc: number, isOn: boolean): void {
     // Only process CCs that have LEDs
-    if (!hasLed(cc)) {
+    if (this.getLedCC(cc) === undefined) {
       return;
     }
 
@@ -122,8 +139,8 @@ export class LedController {
     // Also turn off all possible LED CCs even if not tracked
     // This ensures a clean state even if some LEDs were set externally
     const allLedCCs = this.getAllLedCCs();
-    for (const cc of allLedCCs) {
-      this.sendLedUpdate(cc, false);
+    for (const ledCC of allLedCCs) {
+      this.midiHandler.sendLedCC(ledCC, MIDI_VALUE_OFF);
     }
 
     // Clear internal state
@@ -159,7 +176,7 @@ export class LedController {
    * @param isOn - Desired LED state
    */
   forceUpdate(cc: number, isOn: boolean): void {
-    if (!hasLed(cc)) {
+    if (this.getLedCC(cc) === undefined) {
       return;
     }
 
@@ -174,20 +191,39 @@ export class LedController {
   /**
    * Sends an LED update to the hardware via the MIDI handler.
    *
-   * @param cc - The CC number for the LED
+   * @param cc - The CC number of the button
    * @param isOn - Desired LED state
    */
   private sendLedUpdate(cc: number, isOn: boolean): void {
+    const ledCC = this.getLedCC(cc);
+    if (ledCC === undefined) {
+      return;
+    }
     const value = isOn ? MIDI_VALUE_ON : MIDI_VALUE_OFF;
-    this.midiHandler.sendLedCC(cc, value);
+    this.midiHandler.sendLedCC(ledCC, value);
+  }
+
+  /**
+   * Gets the LED CC of a button, or undefined if the button has no LED.
+   *
+   * @param cc - The CC number of the button
+   */
+  private getLedCC(cc: number): number | undefined {
+    if (this.profile) {
+      return getProfileLedCC(this.profile, cc);
+    }
+    return hasLed(cc) ? cc : undefined;
   }
 
   /**
-   * Gets all CC numbers that have LEDs on the nanoKONTROL2.
+   * Gets all CC numbers that have LEDs on the device.
    *
    * @returns Array of all LED CC numbers
    */
   private getAllLedCCs(): number[] {
+    if (this.profile) {
+      return getProfileLedCCs(this.profile);
+    }
     return [
       // Solo buttons (Track 1-8)
       32, 33, 34, 35, 36, 37, 38, 39,
@@ -0,0 +1,1047 @@
+/**
+ * MIDI Device Service
+ *
+ * One controller unit in the Electron main process, with its own
+ * MidiHandler (hardware and virtual ports), MappingEngine and LedController,
+ * driven by the device profile of the unit's model (default: nanoKONTROL2).
+ * The MidiManager runs one MidiDevice per connected unit.
+ *
+ * Provides:
+ * - Connection/disconnection of the unit
+ * - CC message processing and remapping
+ * - Soft takeover for knobs/sliders set from the GUI or a preset
+ * - Scene recall, morphing knobs/sliders to the scene's values
+ * - LED synchronization, including DAW feedback via the virtual input port
+ * - Event forwarding to the MidiManager
+ */
+
+import { EventEmitter } from 'events';
+import { MidiHandler } from './midi-handler.js';
+import { MappingEngine, isButtonOutputOn, shouldSendOutput } from './mapping-engine.js';
+import { LedController } from './led-controller.js';
+import { SoftTakeover } from './soft-takeover.js';
+import { ValueSmoother } from './value-smoother.js';
+import { SceneMorpher } from './scene-morpher.js';
+import { Crossfader, toCrossfadeSide } from './crossfader.js';
+import { CONTROL_MODES, decodeScene, encodeScene, mappingToScene, setHardwareLedMode } from './korg-scene.js';
+import type { SoftTakeoverMode } from './soft-takeover.js';
+import { TRACK_CONSTANTS, deriveControlTypeFromCC, getControlMapping } from '@shared/constants.js';
+import { createDefaultMappingConfig } from '@shared/schemas.js';
+import { NANOKONTROL2_PROFILE } from '@shared/profiles.js';
+import type { MappingConfig, CCMessage, MidiHandlerOptions, DeviceProfile, OutputType } from '@shared/types.js';
+import { MIDI_VALUE_ON, MIDI_VALUE_OFF, DEFAULT_SCENE_MORPH_RATE } from '@shared/types.js';
+import type { ProcessedMessage, BankChangeEvent, SceneRecallEvent, ControlSetOptions } from './mapping-engine.js';
+import type {
+  MidiCCEvent,
+  MidiConnectedEvent,
+  MidiDisconnectedEvent,
+  MidiPortsChangedEvent,
+  MidiTakeoverEvent,
+  MidiLedFeedbackEvent,
+  MidiShiftEvent,
+  MidiBankEvent,
+  MidiSceneEvent,
+  MidiCrossfadeEvent,
+  MidiLearnEvent,
+  MidiMonitorEvent,
+  MonitorSource,
+  LearnTarget,
+  ErrorEvent,
+  MidiDeviceInfo,
+  ControlValues,
+  HardwareSceneInfo,
+} from '@shared/ipc-protocol.js';
+
+// =============================================================================
+// MidiDevice Class
+// =============================================================================
+
+/**
+ * MidiDevice handles the MIDI operations of one controller unit.
+ *
+ * A device is identified by the hardware input port it is bound to or
+ * last connected to (see getId).
+ *
+ * Events:
+ * - 'cc': CC message processed (MidiCCEvent)
+ * - 'connected': Device connected (MidiConnectedEvent)
+ * - 'disconnected': Device disconnected (MidiDisconnectedEvent)
+ * - 'portsChanged': Available ports changed (MidiPortsChangedEvent)
+ * - 'takeover': Soft takeover state of a control changed (MidiTakeoverEvent)
+ * - 'ledFeedback': DAW set a button LED via the virtual input (MidiLedFeedbackEvent)
+ * - 'shift': Shift layer activated/deactivated (MidiShiftEvent)
+ * - 'bank': Track strips paged to another bank (MidiBankEvent)
+ * - 'scene': Values sent by a scene morph step, and the end of the morph (MidiSceneEvent)
+ * - 'crossfade': Controls sent by a movement of the A/B morph fader (MidiCrossfadeEvent)
+ * - 'learn': MIDI Learn captured a CC (MidiLearnEvent)
+ * - 'monitor': MIDI message received or sent, while monitoring is on (MidiMonitorEvent)
+ * - 'error': Error occurred (ErrorEvent)
+ */
+export class MidiDevice extends EventEmitter {
+  private midiHandler: MidiHandler;
+  /** Hardware input port the device is bound to or was last connected to */
+  private portName: string | null;
+  /** Profile of the unit's controller model */
+  private profile: DeviceProfile;
+  private mappingEngine: MappingEngine | null = null;
+  private ledController: LedController;
+  /** LED mode: 'internal' = LEDs reflect button state, 'external' = LEDs controlled by DAW */
+  private ledMode: 'internal' | 'external' = 'internal';
+  /** Soft takeover state for knobs/sliders */
+  private softTakeover: SoftTakeover = new SoftTakeover();
+  /** Glides 14-bit outputs between 7-bit input steps */
+  private valueSmoother: ValueSmoother = new ValueSmoother();
+  /** Glides knobs/sliders to the values of a recalled scene */
+  private sceneMorpher: SceneMorpher = new SceneMorpher();
+  /** Values sent per second for each control while a scene morphs */
+  private sceneMorphRate = DEFAULT_SCENE_MORPH_RATE;
+  /** Morphs every control between the A and B slot values with one fader */
+  private crossfader: Crossfader = new Crossfader();
+  /** Pending MIDI Learn: the next CC on the hardware ('input') or virtual ('output') input is captured */
+  private learnTarget: LearnTarget | null = null;
+  /** Whether every message received or sent is emitted as a 'monitor' event */
+  private monitoring = false;
+
+  /**
+   * Creates a device. Without hardware ports it auto-detects the first nanoKONTROL2.
+   *
+   * @param options - Hardware ports to bind to and names of the device's virtual ports
+   * @param profile - Profile of the unit's controller model
+   */
+  constructor(options: MidiHandlerOptions, profile: DeviceProfile = NANOKONTROL2_PROFILE) {
+    super();
+
+    // Initialize MIDI handler
+    this.midiHandler = new MidiHandler(options);
+    this.portName = options.inputPort || null;
+    this.profile = profile;
+
+    // Initialize LED controller (uses MIDI handler for output)
+    this.ledController = new LedController(this.midiHandler, profile);
+
+    // Initialize default identity mapping engine so physical controls work immediately
+    // Without this, incoming CCs would be dropped (no raw CC forwarding to prevent
+    // hardware CC conflicts like slider CC 0-7 colliding with MIDI Volume CC 7)
+    this.mappingEngine = new MappingEngine(createDefaultMappingConfig(), profile);
+    this.setupMappingEngineEvents();
+
+    // Set up event forwarding from MIDI handler
+    this.setupEventHandlers();
+  }
+
+  // ===========================================================================
+  // Connection Management
+  // ===========================================================================
+
+  /**
+   * Gets the device ID: the hardware input port it is bound to or was last
+   * connected to, or an empty string if it never found a unit.
+   */
+  getId(): string {
+    return this.portName ?? '';
+  }
+
+  /**
+   * Binds the device to a unit's ports, so it only ever reconnects to that unit.
+   */
+  bindToPorts(inputPort: string, outputPort: string): void {
+    this.midiHandler.bindToPorts(inputPort, outputPort);
+    this.portName = inputPort;
+  }
+
+  /**
+   * Connects to the unit (auto-detected, bound, or the given ports).
+   */
+  connect(inputPort?: string, outputPort?: string): boolean {
+    const success = this.midiHandler.connect(inputPort, outputPort);
+
+    if (success && this.mappingEngine) {
+      // Sync LED states on connect
+      this.ledController.syncFromEngine(this.mappingEngine);
+    }
+
+    return success;
+  }
+
+  /**
+   * Disconnects from the unit.
+   */
+  disconnect(): void {
+    // Turn off all LEDs before disconnecting
+    this.ledController.allOff();
+    this.mappingEngine?.cancelTimedOutputs();
+    this.valueSmoother.reset();
+    this.sceneMorpher.stop();
+    this.midiHandler.disconnect();
+  }
+
+  /**
+   * Returns connection status.
+   */
+  isConnected(): boolean {
+    return this.midiHandler.isConnected();
+  }
+
+  /**
+   * Gets the device's connection status.
+   */
+  getInfo(): MidiDeviceInfo {
+    const ports = this.midiHandler.getCurrentPorts();
+    return {
+      id: this.getId(),
+      connected: this.midiHandler.isConnected(),
+      inputPort: ports.input,
+      outputPort: ports.output,
+      virtualPort: this.midiHandler.getVirtualPortName(),
+      virtualInputPort: this.midiHandler.hasVirtualInput() ? this.midiHandler.getVirtualInputPortName() : null,
+      profileId: this.profile.id,
+    };
+  }
+
+  /**
+   * Gets the profile of the unit's controller model.
+   */
+  getProfile(): DeviceProfile {
+    return this.profile;
+  }
+
+  /**
+   * Switches the device to another controller model, before it connects to a unit of that model.
+   */
+  setProfile(profile: DeviceProfile): void {
+    this.profile = profile;
+    this.ledController.setProfile(profile);
+    this.mappingEngine?.setProfile(profile);
+  }
+
+  /**
+   * Checks whether the MIDI subsystem is available to this device.
+   */
+  isMidiAvailable(): boolean {
+    return this.midiHandler.isMidiSubsystemAvailable();
+  }
+
+  /**
+   * Gets current hardware port names.
+   */
+  getCurrentPorts(): { input: string | null; output: string | null } {
+    return this.midiHandler.getCurrentPorts();
+  }
+
+  // ===========================================================================
+  // Hotplug Detection
+  // ===========================================================================
+
+  /**
+   * Starts hotplug detection.
+   */
+  startHotplugDetection(intervalMs?: number): void {
+    this.midiHandler.startHotplugDetection(intervalMs);
+  }
+
+  /**
+   * Stops hotplug detection.
+   */
+  stopHotplugDetection(): void {
+    this.midiHandler.stopHotplugDetection();
+  }
+
+  // ===========================================================================
+  // Mapping Configuration
+  // ===========================================================================
+
+  /**
+   * Loads a mapping configuration.
+   */
+  loadMapping(config: MappingConfig): void {
+    // Controls may be remapped to different CCs, so pending pickups and glides no longer apply
+    this.releaseAllTakeovers();
+    this.valueSmoother.reset();
+    this.sceneMorpher.stop();
+
+    if (this.mappingEngine) {
+      this.mappingEngine.updateConfig(config);
+    } else {
+      this.mappingEngine = new MappingEngine(config, this.profile);
+      this.setupMappingEngineEvents();
+    }
+
+    // Sync LEDs with new mapping
+    if (this.midiHandler.isConnected()) {
+      this.ledController.syncFromEngine(this.mappingEngine);
+    }
+  }
+
+  /**
+   * Gets the current mapping configuration.
+   */
+  getMapping(): MappingConfig | null {
+    return this.mappingEngine?.getConfig() ?? null;
+  }
+
+  // ===========================================================================
+  // CC Operations
+  // ===========================================================================
+
+  /**
+   * Sends a CC message to the virtual output.
+   */
+  sendCC(channel: number, cc: number, value: number): void {
+    this.midiHandler.sendCC(channel, cc, value);
+    this.emitMonitor('output', 'cc', channel + 1, cc, value);
+  }
+
+  /**
+   * Sends a message of any output type to the virtual output (e.g., a replayed take).
+   *
+   * @param channel - MIDI channel (1-16)
+   * @param number - CC, note or NRPN/RPN parameter number
+   * @param value - Value (0-127, or 0-16383 for 14-bit message types)
+   */
+  sendOutput(channel: number, outputType: OutputType, number: number, value: number): void {
+    this.midiHandler.sendOutput(channel - 1, outputType, number, value);
+    this.emitMonitor('output', outputType, channel, number, value);
+  }
+
+  /**
+   * Sends a control value set from the GUI through the mapping engine,
+   * so it is transformed exactly like the equivalent hardware input.
+   *
+   * Knobs and sliders are armed for soft takeover: the physical control
+   * won't send until it picks up the new value.
+   *
+   * @param controlType - Control type identifier (e.g., 'track1.knob')
+   * @param value - Control value (0-127), or button state (> 0 = on) for buttons
+   * @param options - GUI click or cycle position (see MappingEngine.processControl)
+   * @returns True if the control is mapped and a message was sent
+   */
+  sendControl(controlType: string, value: number, options: ControlSetOptions = {}): boolean {
+    if (!this.mappingEngine) {
+      return false;
+    }
+
+    if (controlType === this.crossfader.getFader()) {
+      this.applyCrossfade(value);
+      return true;
+    }
+
+    const processed = this.mappingEngine.processControl(controlType, value, options);
+    if (!processed) {
+      return false;
+    }
+
+    this.sendProcessed(processed);
+    this.emitReleasedButtons(processed);
+
+    if (!processed.isButton) {
+      this.softTakeover.arm(controlType, value);
+      this.emitTakeover(controlType);
+    }
+
+    return true;
+  }
+
+  /**
+   * Activates or deactivates the mapping's shift layer (e.g., from the editor's layer switcher).
+   * Does nothing if the mapping has no shift layer.
+   */
+  setShift(active: boolean): void {
+    this.mappingEngine?.setShiftActive(active);
+  }
+
+  /**
+   * Pages the physical track strips to a bank (e.g., from the header's bank buttons).
+   * Does nothing if the mapping has no such bank.
+   */
+  setBank(bank: number): void {
+    this.mappingEngine?.setBank(bank);
+  }
+
+  /**
+   * Sends an LED update to the hardware.
+   */
+  setLed(cc: number, isOn: boolean): void {
+    this.ledController.setLed(cc, isOn);
+  }
+
+  // ===========================================================================
+  // LED Mode Configuration
+  // ===========================================================================
+
+  /**
+   * Sets the LED mode.
+   * - 'internal': LEDs reflect button state (updated on button press)
+   * - 'external': LEDs are controlled by incoming MIDI from DAW (button presses don't update LEDs).
+   *   The DAW sends LED state to the device's virtual input port (e.g., "nkEditor3 In") using the mapped output CC/channel.
+   */
+  setLedMode(mode: 'internal' | 'external'): void {
+    this.ledMode = mode;
+  }
+
+  /**
+   * Gets the current LED mode.
+   */
+  getLedMode(): 'internal' | 'external' {
+    return this.ledMode;
+  }
+
+  // ===========================================================================
+  // Soft Takeover Configuration
+  // ===========================================================================
+
+  /**
+   * Sets the soft takeover mode and threshold.
+   * - 'catch': Physical control sends once it is within threshold of the stored value
+   * - 'pickup': Physical control sends once it crosses the stored value
+   * - 'jump': Physical control always sends (no soft takeover)
+   */
+  setSoftTakeover(mode: SoftTakeoverMode, threshold: number): void {
+    this.softTakeover.setMode(mode, threshold);
+    if (mode === 'jump') {
+      this.releaseAllTakeovers();
+    }
+  }
+
+  /**
+   * Checks if a control is waiting for its physical counterpart to pick up.
+   */
+  isWaitingForPickup(controlType: string): boolean {
+    return this.softTakeover.isWaiting(controlType);
+  }
+
+  // ===========================================================================
+  // Scenes
+  // ===========================================================================
+
+  /**
+   * Sets how many values are sent per second for each control while a scene morphs.
+   */
+  setSceneMorphRate(rate: number): void {
+    this.sceneMorphRate = rate;
+  }
+
+  /**
+   * Recalls a scene of the mapping: each of its knobs/sliders glides from its
+   * current value to the scene's value over the scene's morph time, sent
+   * through the mapping like GUI changes. The physical controls wait to pick
+   * up the scene values, and moving one during the morph takes it out of the morph.
+   *
+   * @param index - Index of the scene in the mapping's scenes
+   * @returns False if the mapping has no such scene
+   */
+  recallScene(index: number): boolean {
+    const engine = this.mappingEngine;
+    const scene = engine?.getConfig().scenes?.[index];
+    if (!engine || !scene) {
+      return false;
+    }
+
+    const from: Record<string, number> = {};
+    for (const [controlType, value] of Object.entries(scene.values)) {
+      const current = engine.getControlValue(controlType);
+      if (current !== undefined) {
+        from[controlType] = current;
+      }
+      this.softTakeover.arm(controlType, value);
+      this.emitTakeover(controlType);
+    }
+
+    engine.setActiveScene(index);
+    console.log(`[midi-device] ${this.getId()}: scene ${index + 1} "${scene.name}", morph ${scene.morphMs} ms`);
+
+    this.sceneMorpher.start(
+      from,
+      scene.values,
+      scene.morphMs,
+      this.sceneMorphRate,
+      (values) => {
+        for (const [controlType, value] of Object.entries(values)) {
+          const processed = engine.processControl(controlType, value);
+          if (processed) {
+            this.sendProcessed(processed);
+          }
+        }
+        this.emitScene(index, true, values);
+      },
+      () => this.emitScene(index, false, {})
+    );
+    return true;
+  }
+
+  // ===========================================================================
+  // Crossfader
+  // ===========================================================================
+
+  /**
+   * Makes a knob/slider the morph fader between two sets of control values
+   * (the presets in the A and B slots), or turns the fader off.
+   *
+   * While set, the fader no longer sends its own output: moving it sends every
+   * other knob/slider at its value interpolated between A and B, and switches
+   * the buttons whose state differs between A and B at the fader's midpoint.
+   *
+   * @param fader - Control type of the fader (e.g., 'track8.slider'), or null to turn it off
+   * @param a - Control values at the fader's minimum
+   * @param b - Control values at the fader's maximum
+   */
+  setCrossfade(fader: string | null, a?: ControlValues, b?: ControlValues): void {
+    if (fader === null || !a || !b) {
+      this.crossfader.clear();
+      console.log(`[midi-device] ${this.getId()}: crossfader off`);
+      return;
+    }
+
+    this.crossfader.configure(fader, toCrossfadeSide(a), toCrossfadeSide(b));
+    console.log(`[midi-device] ${this.getId()}: crossfader on ${fader}`);
+  }
+
+  // ===========================================================================
+  // Hardware Scene
+  // ===========================================================================
+
+  /**
+   * Reads the settings of the scene the unit is using, over SysEx.
+   *
+   * @throws If the unit isn't a connected nanoKONTROL2 or doesn't answer
+   */
+  async queryHardwareScene(): Promise<HardwareSceneInfo> {
+    const identity = await this.midiHandler.requestIdentity();
+    const scene = decodeScene(await this.midiHandler.requestSceneData());
+    return {
+      firmware: identity.version,
+      globalChannel: scene.globalChannel,
+      controlMode: CONTROL_MODES[scene.controlMode] ?? `mode ${scene.controlMode}`,
+      ledMode: scene.ledMode,
+    };
+  }
+
+  /**
+   * Writes a mapping to the unit as its scene, over SysEx: the unit then sends
+   * the mapping's output CCs, channels, ranges and button behaviors by itself.
+   * The parameters the mapping doesn't cover keep the unit's current values.
+   *
+   * @param store - Whether to also write the scene to the unit's memory
+   * @returns What of the mapping the unit can't do by itself (see mappingToScene)
+   * @throws If the unit isn't a connected nanoKONTROL2, doesn't answer or rejects the scene
+   */
+  async writeHardwareScene(mapping: MappingConfig, ledMode: 'internal' | 'external', store = true): Promise<string[]> {
+    this.requireNanoKontrol2();
+
+    const current = await this.midiHandler.requestSceneData();
+    const { scene, approximated } = mappingToScene(mapping, decodeScene(current), ledMode);
+    await this.midiHandler.writeSceneData(encodeScene(scene, current), store);
+
+    console.log(`[midi-device] ${this.getId()}: wrote hardware scene (${approximated.length} approximated)`);
+    return approximated;
+  }
+
+  /**
+   * Sets the LED mode of the unit's own scene, over SysEx, and checks it with
+   * a scene dump. In external mode the unit no longer lights its LEDs on button
+   * presses, leaving them to the LED controller.
+   *
+   * @returns True if the LED mode was changed, false if the unit was already in it
+   * @throws If the unit isn't a connected nanoKONTROL2, doesn't answer or keeps its LED mode
+   */
+  async setHardwareLedMode(ledMode: 'internal' | 'external'): Promise<boolean> {
+    this.requireNanoKontrol2();
+
+    const changed = await setHardwareLedMode(this.midiHandler, ledMode);
+    console.log(`[midi-device] ${this.getId()}: hardware LED mode ${changed ? 'set to' : 'already'} ${ledMode}`);
+    return changed;
+  }
+
+  // ===========================================================================
+  // Monitoring
+  // ===========================================================================
+
+  /**
+   * Turns the 'monitor' events for the MIDI monitor and take recording on or off.
+   */
+  setMonitoring(enabled: boolean): void {
+    this.monitoring = enabled;
+  }
+
+  // ===========================================================================
+  // MIDI Learn
+  // ===========================================================================
+
+  /**
+   * Captures the next CC received instead of processing it: from the hardware
+   * for 'input', or from the virtual input port (DAW/synth) for 'output'.
+   *
+   * @throws If the port to learn from isn't available
+   */
+  startLearn(target: LearnTarget): void {
+    if (target === 'input' && !this.midiHandler.isConnected()) {
+      throw new Error('No controller connected to learn from');
+    }
+    if (target === 'output' && !this.midiHandler.hasVirtualInput()) {
+      throw new Error(`Virtual input port "${this.midiHandler.getVirtualInputPortName()}" is not available`);
+    }
+    this.learnTarget = target;
+  }
+
+  /**
+   * Cancels a pending MIDI Learn.
+   */
+  cancelLearn(): void {
+    this.learnTarget = null;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Throws unless the unit is a nanoKONTROL2, the only model whose scene is handled.
+   */
+  private requireNanoKontrol2(): void {
+    if (this.profile.id !== NANOKONTROL2_PROFILE.id) {
+      throw new Error(`Hardware scenes are only supported on a nanoKONTROL2 (profile is ${this.profile.name})`);
+    }
+  }
+
+  /**
+   * Sets up event handlers from MIDI handler.
+   */
+  private setupEventHandlers(): void {
+    // Forward CC messages (process through mapping engine if available)
+    this.midiHandler.on('cc', (msg: CCMessage) => {
+      this.handleIncomingCC(msg);
+    });
+
+    // LED feedback from the DAW on the virtual input port
+    this.midiHandler.on('feedback', (msg: CCMessage) => {
+      this.handleLedFeedback(msg);
+    });
+
+    this.midiHandler.on('ledSent', (msg: CCMessage) => {
+      const controlType = this.mappingEngine?.getControlType(msg.controller) ?? undefined;
+      this.emitMonitor('led', 'cc', msg.channel + 1, msg.controller, msg.value, controlType);
+    });
+
+    // Forward connection events
+    this.midiHandler.on('connected', ({ inputPort, outputPort }) => {
+      this.portName = inputPort;
+      const event: MidiConnectedEvent = {
+        inputPort,
+        outputPort,
+        virtualPort: this.midiHandler.getVirtualPortName(),
+      };
+      this.emit('connected', event);
+
+      // Sync LEDs on reconnect
+      if (this.mappingEngine) {
+        this.ledController.syncFromEngine(this.mappingEngine);
+      }
+    });
+
+    this.midiHandler.on('disconnected', ({ reason }) => {
+      const event: MidiDisconnectedEvent = { reason };
+      this.emit('disconnected', event);
+    });
+
+    this.midiHandler.on('portsChanged', ({ inputs, outputs }) => {
+      const event: MidiPortsChangedEvent = { inputs, outputs };
+      this.emit('portsChanged', event);
+    });
+
+    this.midiHandler.on('error', ({ message }) => {
+      const event: ErrorEvent = { message };
+      this.emit('error', event);
+    });
+  }
+
+  /**
+   * Sets up event handlers from mapping engine.
+   */
+  private setupMappingEngineEvents(): void {
+    if (!this.mappingEngine) return;
+
+    // Sync LED when button state changes (only in internal mode)
+    this.mappingEngine.on('buttonStateChanged', ({ cc, isOn }) => {
+      // In external mode, LEDs are controlled by incoming MIDI from DAW,
+      // so we don't update them based on button presses
+      if (this.ledMode === 'internal') {
+        this.ledController.setLed(cc, isOn);
+      }
+    });
+
+    // Forward shift layer changes; knobs/sliders now drive different targets,
+    // so pending pickups no longer apply
+    this.mappingEngine.on('shiftChanged', ({ active }) => {
+      this.releaseAllTakeovers();
+      const event: MidiShiftEvent = { active };
+      this.emit('shift', event);
+    });
+
+    this.mappingEngine.on('bankChanged', (event: BankChangeEvent) => {
+      this.handleBankChanged(event);
+    });
+
+    this.mappingEngine.on('sceneRecall', ({ scene }: SceneRecallEvent) => {
+      this.recallScene(scene);
+    });
+
+    // Trigger releases, long presses and single taps are decided by engine timers
+    this.mappingEngine.on('timedOutput', (processed: ProcessedMessage) => {
+      this.sendProcessed(processed);
+      this.emitButtonEvent(processed);
+    });
+  }
+
+  /**
+   * Handles the track strips being paged to another bank.
+   *
+   * The physical knobs/sliders are still where the previous bank left them,
+   * so each control of the new bank waits to pick up its last value. In
+   * external LED mode the LEDs show the DAW feedback last received for the bank.
+   */
+  private handleBankChanged({ bank, previousBank, bankCount }: BankChangeEvent): void {
+    if (!this.mappingEngine) return;
+
+    // Release before announcing the bank, so the renderer still shows the strips being released
+    this.releaseAllTakeovers();
+
+    console.log(`[midi-device] ${this.getId()}: track bank ${bank + 1}/${bankCount}`);
+    const event: MidiBankEvent = { bank, bankCount, values: this.mappingEngine.getBankValues() };
+    this.emit('bank', event);
+
+    for (let strip = 1; strip <= TRACK_CONSTANTS.COUNT; strip++) {
+      for (const control of ['knob', 'slider']) {
+        const controlType = `track${bank * TRACK_CONSTANTS.COUNT + strip}.${control}`;
+        const previousControlType = `track${previousBank * TRACK_CONSTANTS.COUNT + strip}.${control}`;
+        const value = this.mappingEngine.getControlValue(controlType);
+        if (value === undefined) continue;
+
+        const physicalValue = this.softTakeover.getPhysicalValue(previousControlType);
+        this.softTakeover.arm(controlType, value, physicalValue ?? undefined);
+        this.emitTakeover(controlType);
+      }
+    }
+
+    if (this.ledMode === 'external' && this.midiHandler.isConnected()) {
+      this.ledController.syncFromEngine(this.mappingEngine);
+    }
+  }
+
+  /**
+   * Handles incoming CC message from hardware.
+   *
+   * IMPORTANT: Only mapped CCs are forwarded to the virtual output.
+   * Raw/unmapped CCs are NOT forwarded because hardware CC numbers may conflict
+   * with standard MIDI CCs (e.g., nanoKONTROL2 sliders use CC 0-7, where CC 7
+   * is MIDI Volume - forwarding raw slider values would silence synths).
+   *
+   * During input learning the message is captured instead.
+   */
+  private handleIncomingCC(msg: CCMessage): void {
+    if (this.monitoring) {
+      const controlType =
+        this.mappingEngine?.getControlType(msg.controller, msg.channel + 1) ??
+        deriveControlTypeFromCC(msg.controller, this.profile);
+      this.emitMonitor('input', 'cc', msg.channel + 1, msg.controller, msg.value, controlType ?? undefined);
+    }
+
+    if (this.learnTarget === 'input') {
+      this.emitLearned(msg);
+      return;
+    }
+
+    // If no mapping engine, only update GUI - do NOT forward raw CCs to synth
+    // (This branch should rarely execute since we initialize a default mapping engine,
+    // but we keep it for safety)
+    if (!this.mappingEngine) {
+      const controlType = deriveControlTypeFromCC(msg.controller, this.profile);
+      const event: MidiCCEvent = {
+        channel: msg.channel,
+        controller: msg.controller,
+        value: msg.value,
+        controlType: controlType ?? undefined,
+      };
+      this.emit('cc', event);
+      return;
+    }
+
+    const mappedControlType = this.mappingEngine.getControlType(msg.controller, msg.channel + 1);
+
+    // The crossfader's fader morphs the other controls instead of sending its own output
+    if (mappedControlType && mappedControlType === this.crossfader.getFader()) {
+      this.applyCrossfade(msg.value);
+      const event: MidiCCEvent = {
+        channel: msg.channel,
+        controller: msg.controller,
+        value: msg.value,
+        controlType: mappedControlType,
+      };
+      this.emit('cc', event);
+      return;
+    }
+
+    // Soft takeover: block knob/slider movements until they pick up the stored value
+    if (mappedControlType && !this.mappingEngine.isButtonCC(msg.controller, msg.channel + 1)) {
+      const takeover = this.softTakeover.process(mappedControlType, msg.value);
+      if (takeover.released || !takeover.pass) {
+        this.emitTakeover(mappedControlType);
+      }
+      if (!takeover.pass) {
+        return;
+      }
+      // The hand on the control wins over a scene morph
+      this.sceneMorpher.release(mappedControlType);
+    }
+
+    // Process through mapping engine
+    const processed = this.mappingEngine.processCC(msg.channel, msg.controller, msg.value);
+
+    if (!processed) {
+      // CC not mapped in current preset - do NOT forward to synth
+      // Only update the GUI to reflect physical control movements
+      const controlType = deriveControlTypeFromCC(msg.controller, this.profile);
+      const event: MidiCCEvent = {
+        channel: msg.channel,
+        controller: msg.controller,
+        value: msg.value,
+        controlType: controlType ?? undefined,
+      };
+      this.emit('cc', event);
+      return;
+    }
+
+    // Send REMAPPED message to virtual output (safe - uses configured output CC)
+    this.sendProcessed(processed);
+    this.emitReleasedButtons(processed);
+
+    // Emit processed message to renderer
+    const event: MidiCCEvent = {
+      channel: msg.channel,
+      controller: msg.controller,
+      value: msg.value,
+      outputCC: processed.outputCC,
+      outputChannel: processed.channel,
+      controlType: processed.controlType,
+      cycleStep: processed.cycleStep,
+    };
+    this.emit('cc', event);
+  }
+
+  /**
+   * Handles a CC message received from the DAW on the virtual input port.
+   *
+   * Only used in external LED mode. The message is reverse-mapped through the
+   * current mapping (output CC/channel -> hardware button CC), then drives the
+   * hardware LED and the button state so the next toggle press flips from the
+   * DAW's state. During output learning the message is captured instead.
+   */
+  private handleLedFeedback(msg: CCMessage): void {
+    this.emitMonitor('feedback', 'cc', msg.channel + 1, msg.controller, msg.value);
+
+    if (this.learnTarget === 'output') {
+      this.emitLearned(msg);
+      return;
+    }
+
+    if (this.ledMode !== 'external' || !this.mappingEngine) {
+      return;
+    }
+
+    // easymidi channels are 0-indexed, mappings use 1-16
+    const buttons = this.mappingEngine.findButtonsByOutput(msg.channel + 1, msg.controller);
+
+    for (const { inputCC, inputChannel, controlType, mapping } of buttons) {
+      const isOn = isButtonOutputOn(mapping, msg.value);
+
+      this.mappingEngine.setButtonState(inputCC, isOn, inputChannel);
+      this.ledController.setLed(inputCC, isOn);
+
+      const event: MidiLedFeedbackEvent = { controlType, cc: inputCC, isOn };
+      this.emit('ledFeedback', event);
+    }
+  }
+
+  /**
+   * Emits a message for the MIDI monitor, labelled from the current mapping.
+   *
+   * @param channel - MIDI channel (1-16)
+   */
+  private emitMonitor(
+    source: MonitorSource,
+    messageType: OutputType,
+    channel: number,
+    number: number,
+    value: number,
+    controlType?: string
+  ): void {
+    if (!this.monitoring) return;
+
+    const config = this.mappingEngine?.getConfig();
+    const event: MidiMonitorEvent = {
+      source,
+      timestamp: Date.now(),
+      messageType,
+      channel,
+      number,
+      value,
+      controlType,
+      label: config && controlType ? getControlMapping(config, controlType)?.label : undefined,
+    };
+    this.emit('monitor', event);
+  }
+
+  /**
+   * Sends the controls changed by a crossfader position through the mapping.
+   * Interpolated knobs/sliders leave any scene morph and wait for their
+   * physical control to pick them up, like GUI changes.
+   *
+   * @param position - Fader input value (0 = A, 127 = B)
+   */
+  private applyCrossfade(position: number): void {
+    const engine = this.mappingEngine;
+    const fader = this.crossfader.getFader();
+    if (!engine || fader === null) return;
+
+    const { values, buttons } = this.crossfader.process(position);
+
+    for (const [controlType, value] of Object.entries(values)) {
+      const processed = engine.processControl(controlType, value);
+      if (!processed) continue;
+
+      this.sendProcessed(processed);
+      this.sceneMorpher.release(controlType);
+
+      // Only notify when the pickup state changes, not on every fader step
+      const wasWaiting = this.softTakeover.isWaiting(controlType);
+      this.softTakeover.arm(controlType, value);
+      if (this.softTakeover.isWaiting(controlType) !== wasWaiting) {
+        this.emitTakeover(controlType);
+      }
+    }
+
+    for (const [controlType, isOn] of Object.entries(buttons)) {
+      const processed = engine.processControl(controlType, isOn ? MIDI_VALUE_ON : MIDI_VALUE_OFF);
+      if (processed) {
+        this.sendProcessed(processed);
+        this.emitReleasedButtons(processed);
+      }
+    }
+
+    const event: MidiCrossfadeEvent = { fader, position, values, buttons };
+    this.emit('crossfade', event);
+  }
+
+  /**
+   * Emits the values sent by a scene morph step, or the end of the morph.
+   */
+  private emitScene(scene: number, morphing: boolean, values: Record<string, number>): void {
+    const event: MidiSceneEvent = { scene, morphing, values };
+    this.emit('scene', event);
+  }
+
+  /**
+   * Ends MIDI Learn with the captured message.
+   */
+  private emitLearned(msg: CCMessage): void {
+    if (!this.learnTarget) return;
+
+    // easymidi channels are 0-indexed, mappings use 1-16
+    const event: MidiLearnEvent = { target: this.learnTarget, cc: msg.controller, channel: msg.channel + 1 };
+    this.learnTarget = null;
+    this.emit('learn', event);
+  }
+
+  /**
+   * Notifies the renderer of the buttons a radio group turned off.
+   */
+  private emitReleasedButtons(processed: ProcessedMessage): void {
+    for (const released of processed.released ?? []) {
+      this.emitButtonEvent(released);
+    }
+  }
+
+  /**
+   * Notifies the renderer of a button output that wasn't caused by a hardware
+   * message, with the button's new state as the value.
+   */
+  private emitButtonEvent(processed: ProcessedMessage): void {
+    const event: MidiCCEvent = {
+      channel: 0,
+      controller: processed.inputCC,
+      value: processed.buttonState ? MIDI_VALUE_ON : MIDI_VALUE_OFF,
+      outputCC: processed.outputCC,
+      outputChannel: processed.channel,
+      controlType: processed.controlType,
+      cycleStep: processed.cycleStep,
+    };
+    this.emit('cc', event);
+  }
+
+  /**
+   * Emits the current soft takeover state of a control.
+   */
+  private emitTakeover(controlType: string): void {
+    const event: MidiTakeoverEvent = {
+      controlType,
+      waiting: this.softTakeover.isWaiting(controlType),
+      target: this.softTakeover.getTarget(controlType),
+      physicalValue: this.softTakeover.getPhysicalValue(controlType),
+    };
+    this.emit('takeover', event);
+  }
+
+  /**
+   * Releases all controls waiting for pickup and notifies the renderer.
+   */
+  private releaseAllTakeovers(): void {
+    for (const controlType of this.softTakeover.releaseAll()) {
+      this.emitTakeover(controlType);
+    }
+  }
+
+  /**
+   * Sends a processed message to the virtual output.
+   * 14-bit outputs (cc14/NRPN/RPN/Pitch Bend) are glided when the mapping enables smoothing.
+   * Program Change buttons are only sent on press; additional targets (7-bit CC) are always sent.
+   * Buttons released by a radio group are sent first.
+   * Note: processed.channel is 1-indexed, sendOutput expects 0-indexed.
+   */
+  private sendProcessed(processed: ProcessedMessage): void {
+    for (const released of processed.released ?? []) {
+      this.sendProcessed(released);
+    }
+
+    for (const target of processed.targets ?? []) {
+      this.midiHandler.sendCC(target.channel - 1, target.outputCC, target.value);
+      this.emitMonitor('output', 'cc', target.channel, target.outputCC, target.value, processed.controlType);
+    }
+
+    if (!shouldSendOutput(processed)) {
+      return;
+    }
+
+    // Glides are logged once, with the value they glide to
+    this.emitMonitor(
+      'output',
+      processed.outputType,
+      processed.channel,
+      processed.parameter ?? processed.outputCC,
+      processed.highResValue ?? processed.value,
+      processed.controlType
+    );
+
+    const channel = processed.channel - 1;
+
+    if (processed.highResValue === undefined) {
+      this.midiHandler.sendOutput(channel, processed.outputType, processed.outputCC, processed.value);
+      return;
+    }
+
+    const number = processed.parameter ?? processed.outputCC;
+    this.valueSmoother.send(
+      processed.controlType,
+      processed.highResValue,
+      processed.smoothingMs ?? 0,
+      (value) => this.midiHandler.sendOutput(channel, processed.outputType, number, value)
+    );
+  }
+}
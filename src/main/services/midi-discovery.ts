@@ -2,7 +2,8 @@
  * MIDI Port Discovery Module
  *
  * Handles detection and enumeration of MIDI ports on Linux systems.
- * Specifically designed to locate the Korg nanoKONTROL2 controller.
+ * Specifically designed to locate the Korg nanoKONTROL2 controller, and
+ * other controllers by the port-name pattern of their device profile.
  *
  * Linux port names typically follow the format:
  * "nanoKONTROL2:nanoKONTROL2 MIDI 1 24:0"
@@ -16,7 +17,8 @@
  */
 
 import easymidi from 'easymidi';
-import type { MidiPorts, NanoKontrol2Ports } from '@shared/types.js';
+import type { MidiPorts, NanoKontrol2Ports, DeviceProfile } from '@shared/types.js';
+import { getProfilePortPattern } from '@shared/constants.js';
 
 /**
  * Regular expression pattern to match nanoKONTROL2 MIDI ports on Linux.
@@ -310,6 +312,67 @@ export function findNanoKontrol2(): NanoKontrol2Ports {
   };
 }
 
+/**
+ * Finds the ports of every connected nanoKONTROL2.
+ *
+ * Each unit appears as one input and one output port, listed in the same
+ * order, so the n-th matching input is paired with the n-th matching output.
+ * Used to run several units side by side.
+ *
+ * @returns Input and output port names of each unit, in port order (empty if none found)
+ *
+ * @example
+ * for (const { input, output } of findAllNanoKontrol2()) {
+ *   console.log(`nanoKONTROL2: ${input} / ${output}`);
+ * }
+ */
+export function findAllNanoKontrol2(): Array<{ input: string; output: string }> {
+  return pairMatchingPorts(getAvailablePorts(), NANOKONTROL2_PATTERN);
+}
+
+/**
+ * Finds the ports of every connected controller matching one of the device
+ * profiles (by their port-name patterns), like findAllNanoKontrol2.
+ *
+ * @param profiles - Profiles to look for, in priority order; a unit matching several belongs to the first
+ * @returns Input and output port names and the profile of each unit (empty if none found)
+ */
+export function findAllControllers(
+  profiles: readonly DeviceProfile[]
+): Array<{ input: string; output: string; profile: DeviceProfile }> {
+  const ports = getAvailablePorts();
+  const claimed = new Set<string>();
+  const units: Array<{ input: string; output: string; profile: DeviceProfile }> = [];
+
+  for (const profile of profiles) {
+    const available = {
+      inputs: ports.inputs.filter((portName) => !claimed.has(portName)),
+      outputs: ports.outputs.filter((portName) => !claimed.has(portName)),
+    };
+    for (const { input, output } of pairMatchingPorts(available, getProfilePortPattern(profile))) {
+      claimed.add(input).add(output);
+      units.push({ input, output, profile });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Pairs the n-th input with the n-th output port matching a pattern
+ * (each unit appears as one input and one output port, in the same order).
+ */
+function pairMatchingPorts(ports: MidiPorts, pattern: RegExp): Array<{ input: string; output: string }> {
+  const outputs = ports.outputs.filter((portName) => pattern.test(portName));
+
+  return ports.inputs
+    .filter((portName) => pattern.test(portName))
+    .flatMap((input, index) => {
+      const output = outputs[index];
+      return output !== undefined ? [{ input, output }] : [];
+    });
+}
+
 /**
  * Searches a list of port names for one matching the nanoKONTROL2 pattern.
  *
@@ -0,0 +1,401 @@
+/**
+ * Standard MIDI File Support
+ *
+ * Writes the output messages of a take as a Standard MIDI File (type 0 or 1)
+ * for DAWs and other tools, and reads the CC lanes of a .mid file back into
+ * take messages that can be replayed through the virtual output.
+ *
+ * Message times are converted between milliseconds and ticks with the
+ * file's tempo; 14-bit outputs are written as the CC sequences the virtual
+ * output sends for them.
+ */
+
+import type { AutomationEvent, MidiFileOptions } from '@shared/ipc-protocol.js';
+import { CC14_LSB_OFFSET, MIDI_14BIT_MAX, PARAMETER_CC } from '@shared/types.js';
+
+/** Tempo of files without a tempo event (microseconds per quarter note, 120 BPM) */
+const DEFAULT_TEMPO = 500000;
+
+/** Status bytes of the channel messages written (channel in the low nibble) */
+const STATUS = {
+  NOTE_OFF: 0x80,
+  NOTE_ON: 0x90,
+  CONTROL_CHANGE: 0xb0,
+  PROGRAM_CHANGE: 0xc0,
+  CHANNEL_AFTERTOUCH: 0xd0,
+  PITCH_BEND: 0xe0,
+} as const;
+
+/** Meta event types used */
+const META = {
+  TRACK_NAME: 0x03,
+  END_OF_TRACK: 0x2f,
+  TEMPO: 0x51,
+} as const;
+
+/** CC lanes read from a file */
+export interface MidiFileContent {
+  /** CC messages, in time order */
+  events: AutomationEvent[];
+  /** Time of the last event of any kind, including end of track (ms) */
+  duration: number;
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Writes a take's output messages as a Standard MIDI File.
+ *
+ * Type 0 puts everything on one track. Type 1 has a tempo track followed
+ * by one track per MIDI channel or per control, in order of first use.
+ *
+ * @param events - Take messages; input messages are skipped
+ * @param name - Name of the (first) track
+ * @throws If the tempo or PPQ is out of range
+ */
+export function writeMidiFile(events: AutomationEvent[], options: MidiFileOptions, name = 'nkEditor3'): Uint8Array {
+  if (!(options.bpm >= 1 && options.bpm <= 999)) {
+    throw new Error(`Invalid tempo: ${options.bpm} BPM`);
+  }
+  if (!Number.isInteger(options.ppq) || options.ppq < 1 || options.ppq > 0x7fff) {
+    throw new Error(`Invalid PPQ: ${options.ppq}`);
+  }
+
+  const outputs = events.filter((event) => event.source === 'output');
+  const ticksPerMs = (options.bpm / 60000) * options.ppq;
+  const toTick = (time: number) => Math.round(time * ticksPerMs);
+  const tempo = Math.round(60000000 / options.bpm);
+  const tempoEvent: TrackEvent = { tick: 0, data: [0xff, META.TEMPO, 3, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff] };
+
+  const tracks: TrackEvent[][] = [];
+  if (options.format === 0) {
+    const track = [trackName(name), tempoEvent];
+    for (const event of outputs) {
+      track.push(...encodeEvent(event, toTick(event.time)));
+    }
+    tracks.push(track);
+  } else {
+    tracks.push([trackName(name), tempoEvent]);
+
+    const lanes = new Map<string, TrackEvent[]>();
+    for (const event of outputs) {
+      const key = options.trackPer === 'channel' ? `Channel ${event.channel}` : getControlTrackName(event);
+      let lane = lanes.get(key);
+      if (!lane) {
+        lane = [trackName(key)];
+        lanes.set(key, lane);
+        tracks.push(lane);
+      }
+      lane.push(...encodeEvent(event, toTick(event.time)));
+    }
+  }
+
+  const bytes: number[] = [];
+  writeChunk(bytes, 'MThd', [
+    0, options.format,
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (options.ppq >> 8) & 0x7f, options.ppq & 0xff,
+  ]);
+
+  for (const track of tracks) {
+    writeChunk(bytes, 'MTrk', encodeTrack(track));
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/** A track event at an absolute tick */
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+/**
+ * Gets the track name of a control lane: the control, or the message type and number.
+ */
+function getControlTrackName(event: AutomationEvent): string {
+  if (event.controlType) {
+    return event.controlType;
+  }
+  const number = event.messageType === 'program' || event.messageType === 'pitchbend' || event.messageType === 'aftertouch'
+    ? ''
+    : ` ${event.number}`;
+  return `${event.messageType.toUpperCase()}${number} ch${event.channel}`;
+}
+
+/**
+ * Creates a track name meta event.
+ */
+function trackName(name: string): TrackEvent {
+  const text = Array.from(Buffer.from(name, 'utf-8'));
+  return { tick: 0, data: [0xff, META.TRACK_NAME, ...writeVariableLength(text.length), ...text] };
+}
+
+/**
+ * Encodes one take message as the MIDI messages sent for it.
+ */
+function encodeEvent(event: AutomationEvent, tick: number): TrackEvent[] {
+  const channel = (event.channel - 1) & 0x0f;
+  const cc = (controller: number, value: number): TrackEvent => ({
+    tick,
+    data: [STATUS.CONTROL_CHANGE | channel, controller & 0x7f, value & 0x7f],
+  });
+  const value14 = Math.min(Math.max(Math.round(event.value), 0), MIDI_14BIT_MAX);
+
+  switch (event.messageType) {
+    case 'cc':
+      return [cc(event.number, event.value)];
+    case 'cc14':
+      return [cc(event.number, value14 >> 7), cc(event.number + CC14_LSB_OFFSET, value14)];
+    case 'nrpn':
+    case 'rpn': {
+      const isNrpn = event.messageType === 'nrpn';
+      return [
+        cc(isNrpn ? PARAMETER_CC.NRPN_MSB : PARAMETER_CC.RPN_MSB, event.number >> 7),
+        cc(isNrpn ? PARAMETER_CC.NRPN_LSB : PARAMETER_CC.RPN_LSB, event.number),
+        cc(PARAMETER_CC.DATA_ENTRY_MSB, value14 >> 7),
+        cc(PARAMETER_CC.DATA_ENTRY_LSB, value14),
+      ];
+    }
+    case 'note':
+      return [{
+        tick,
+        data: [(event.value > 0 ? STATUS.NOTE_ON : STATUS.NOTE_OFF) | channel, event.number & 0x7f, event.value & 0x7f],
+      }];
+    case 'program':
+      return [{ tick, data: [STATUS.PROGRAM_CHANGE | channel, event.value & 0x7f] }];
+    case 'pitchbend':
+      return [{ tick, data: [STATUS.PITCH_BEND | channel, value14 & 0x7f, value14 >> 7] }];
+    case 'aftertouch':
+      return [{ tick, data: [STATUS.CHANNEL_AFTERTOUCH | channel, event.value & 0x7f] }];
+  }
+}
+
+/**
+ * Encodes a track's events with delta times, ending it with an end-of-track event.
+ */
+function encodeTrack(events: TrackEvent[]): number[] {
+  const bytes: number[] = [];
+  let lastTick = 0;
+
+  for (const event of [...events].sort((a, b) => a.tick - b.tick)) {
+    bytes.push(...writeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  bytes.push(0, 0xff, META.END_OF_TRACK, 0);
+
+  return bytes;
+}
+
+/**
+ * Appends a chunk: its 4-character type, 32-bit length and data.
+ */
+function writeChunk(bytes: number[], type: string, data: number[]): void {
+  bytes.push(...Array.from(type, (char) => char.charCodeAt(0)));
+  const length = data.length;
+  bytes.push((length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+  for (const byte of data) {
+    bytes.push(byte);
+  }
+}
+
+/**
+ * Encodes a variable-length quantity (7 bits per byte, most significant first).
+ */
+function writeVariableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >>> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  return bytes;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Reads the CC messages of a Standard MIDI File (type 0, 1 or 2) as take
+ * output messages, with times from the file's tempo map.
+ *
+ * @throws If the data isn't a Standard MIDI File or uses SMPTE timing
+ */
+export function readMidiFile(data: Uint8Array): MidiFileContent {
+  const reader = new ByteReader(data);
+
+  if (reader.readString(4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File');
+  }
+  const headerLength = reader.readUint32();
+  reader.readUint16(); // format: every track is read the same way
+  const trackCount = reader.readUint16();
+  const division = reader.readUint16();
+  reader.skip(headerLength - 6);
+
+  if (division & 0x8000) {
+    throw new Error('MIDI files with SMPTE timing are not supported');
+  }
+
+  const tempos: { tick: number; tempo: number }[] = [];
+  const controls: { tick: number; channel: number; number: number; value: number }[] = [];
+  let lastTick = 0;
+
+  for (let track = 0; track < trackCount && !reader.isAtEnd(); track++) {
+    const type = reader.readString(4);
+    const length = reader.readUint32();
+    const end = reader.position + length;
+    if (type !== 'MTrk') {
+      reader.seek(end);
+      continue;
+    }
+
+    let tick = 0;
+    let runningStatus = 0;
+    while (reader.position < end) {
+      tick += reader.readVariableLength();
+
+      let status = reader.peek();
+      if (status & 0x80) {
+        reader.skip(1);
+      } else if (runningStatus) {
+        status = runningStatus;
+      } else {
+        throw new Error('Invalid MIDI track data');
+      }
+
+      if (status === 0xff) {
+        const metaType = reader.readByte();
+        const length = reader.readVariableLength();
+        if (metaType === META.TEMPO && length === 3) {
+          tempos.push({ tick, tempo: (reader.readByte() << 16) | (reader.readByte() << 8) | reader.readByte() });
+        } else {
+          reader.skip(length);
+        }
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        reader.skip(reader.readVariableLength());
+        continue;
+      }
+
+      runningStatus = status;
+      const kind = status & 0xf0;
+      const first = reader.readByte();
+      const second = kind === STATUS.PROGRAM_CHANGE || kind === STATUS.CHANNEL_AFTERTOUCH ? 0 : reader.readByte();
+
+      if (kind === STATUS.CONTROL_CHANGE) {
+        controls.push({ tick, channel: (status & 0x0f) + 1, number: first, value: second });
+      }
+    }
+
+    lastTick = Math.max(lastTick, tick);
+    reader.seek(end);
+  }
+
+  const toTime = createTickConverter(tempos, division);
+  const events = controls
+    .sort((a, b) => a.tick - b.tick)
+    .map(({ tick, channel, number, value }): AutomationEvent => ({
+      time: toTime(tick),
+      source: 'output',
+      messageType: 'cc',
+      channel,
+      number,
+      value,
+    }));
+
+  return { events, duration: toTime(lastTick) };
+}
+
+/**
+ * Creates a tick to milliseconds converter for a tempo map (rounded to whole milliseconds).
+ */
+function createTickConverter(tempos: { tick: number; tempo: number }[], ppq: number): (tick: number) => number {
+  const changes = [...tempos].sort((a, b) => a.tick - b.tick);
+
+  return (tick) => {
+    let time = 0;
+    let lastTick = 0;
+    let tempo = DEFAULT_TEMPO;
+
+    for (const change of changes) {
+      if (change.tick >= tick) break;
+      time += ((change.tick - lastTick) * tempo) / ppq / 1000;
+      lastTick = change.tick;
+      tempo = change.tempo;
+    }
+
+    return Math.round(time + ((tick - lastTick) * tempo) / ppq / 1000);
+  };
+}
+
+/**
+ * Reads big-endian values from a byte array, throwing when data runs out.
+ */
+class ByteReader {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  isAtEnd(): boolean {
+    return this.position >= this.data.length;
+  }
+
+  peek(): number {
+    return this.byteAt(this.position);
+  }
+
+  readByte(): number {
+    return this.byteAt(this.position++);
+  }
+
+  readUint16(): number {
+    return (this.readByte() << 8) | this.readByte();
+  }
+
+  readUint32(): number {
+    return ((this.readByte() << 24) >>> 0) + (this.readByte() << 16) + (this.readByte() << 8) + this.readByte();
+  }
+
+  readString(length: number): string {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      text += String.fromCharCode(this.readByte());
+    }
+    return text;
+  }
+
+  readVariableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readByte();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new Error('Invalid MIDI file: variable-length value too long');
+  }
+
+  skip(count: number): void {
+    this.seek(this.position + count);
+  }
+
+  seek(position: number): void {
+    if (position > this.data.length) {
+      throw new Error('Invalid MIDI file: unexpected end of data');
+    }
+    this.position = position;
+  }
+
+  private byteAt(index: number): number {
+    const byte = this.data[index];
+    if (byte === undefined) {
+      throw new Error('Invalid MIDI file: unexpected end of data');
+    }
+    return byte;
+  }
+}
@@ -2,33 +2,59 @@
  * MIDI Manager Service
  *
  * High-level orchestrator for MIDI functionality in the Electron main process.
- * Wraps Phase 1 modules: MidiHandler, MappingEngine, LedController.
+ * Runs one MidiDevice (MidiHandler, MappingEngine, LedController) per
+ * connected controller, so several units can be used side by side. Units
+ * are recognized by the port-name patterns of the device profiles.
  *
  * Provides a unified interface for:
  * - Device connection/disconnection
- * - CC message processing and remapping
- * - LED synchronization
- * - Event forwarding to renderer
+ * - Routing GUI requests to a device by ID (default: the first device)
+ * - LED and soft takeover settings shared by all devices
+ * - Recording and replaying takes of control movements
+ * - Event forwarding to renderer, tagged with the device ID
  */
 
 import { EventEmitter } from 'events';
-import { MidiHandler } from './midi-handler.js';
-import { MappingEngine } from './mapping-engine.js';
-import { LedController } from './led-controller.js';
-import { getAvailablePorts, findNanoKontrol2 } from './midi-discovery.js';
-import { deriveControlTypeFromCC } from '@shared/constants.js';
-import { createDefaultMappingConfig } from '@shared/schemas.js';
-import type { MappingConfig, CCMessage } from '@shared/types.js';
+import { MidiDevice } from './midi-device.js';
+import { AutomationRecorder } from './automation-recorder.js';
+import type { RecordedTake } from './automation-recorder.js';
+import type { SoftTakeoverMode } from './soft-takeover.js';
+import type { ControlSetOptions } from './mapping-engine.js';
+import { listenForFirstCC } from './midi-handler.js';
+import { getAvailablePorts, findNanoKontrol2, findAllControllers } from './midi-discovery.js';
+import { DEFAULT_VIRTUAL_PORT_NAME, DEFAULT_VIRTUAL_INPUT_PORT_NAME } from '@shared/types.js';
+import type { MappingConfig, DeviceProfile } from '@shared/types.js';
+import { getProfilePortPattern } from '@shared/constants.js';
+import { BUILT_IN_PROFILES, NANOKONTROL2_PROFILE } from '@shared/profiles.js';
 import type {
-  MidiCCEvent,
-  MidiConnectedEvent,
-  MidiDisconnectedEvent,
-  MidiPortsChangedEvent,
-  ErrorEvent,
   GetPortsResponse,
   MidiStatusResponse,
+  DeviceScoped,
+  LearnTarget,
+  MidiLearnEvent,
+  MidiMonitorEvent,
+  MidiAutomationEvent,
+  AutomationTake,
+  ReplayOptions,
+  ControlValues,
+  HardwareSceneInfo,
+  ErrorEvent,
 } from '@shared/ipc-protocol.js';
 
+/** Device events forwarded to the renderer, tagged with the device ID */
+const FORWARDED_DEVICE_EVENTS = [
+  'cc',
+  'takeover',
+  'ledFeedback',
+  'shift',
+  'bank',
+  'scene',
+  'crossfade',
+  'learn',
+  'connected',
+  'disconnected',
+] as const;
+
 // =============================================================================
 // MidiManager Class
 // =============================================================================
@@ -36,39 +62,56 @@ import type {
 /**
  * MidiManager orchestrates MIDI operations for the application.
  *
+ * The first device always exists and auto-detects a nanoKONTROL2; further
+ * devices are added when connecting finds more units (of any profile). Device-specific events
+ * carry the device's ID (its hardware input port name) as deviceId.
+ *
  * Events:
  * - 'cc': CC message processed (MidiCCEvent)
  * - 'connected': Device connected (MidiConnectedEvent)
  * - 'disconnected': Device disconnected (MidiDisconnectedEvent)
  * - 'portsChanged': Available ports changed (MidiPortsChangedEvent)
+ * - 'takeover': Soft takeover state of a control changed (MidiTakeoverEvent)
+ * - 'ledFeedback': DAW set a button LED via the virtual input (MidiLedFeedbackEvent)
+ * - 'shift': Shift layer activated/deactivated (MidiShiftEvent)
+ * - 'bank': Track strips paged to another bank (MidiBankEvent)
+ * - 'scene': Values sent by a scene morph step, and the end of the morph (MidiSceneEvent)
+ * - 'learn': MIDI Learn captured a CC (MidiLearnEvent)
+ * - 'monitor': MIDI message received or sent, while monitoring is on (MidiMonitorEvent)
+ * - 'automation': Take recording or replay started or stopped (MidiAutomationEvent)
  * - 'error': Error occurred (ErrorEvent)
  */
 export class MidiManager extends EventEmitter {
-  private midiHandler: MidiHandler;
-  private mappingEngine: MappingEngine | null = null;
-  private ledController: LedController;
-  /** LED mode: 'internal' = LEDs reflect button state, 'external' = LEDs controlled by DAW */
+  /** Device profiles units are recognized by, in priority order */
+  private readonly profiles: readonly DeviceProfile[];
+  /** Managed devices, the first one first */
+  private devices: MidiDevice[] = [];
+  /** LED mode applied to every device */
   private ledMode: 'internal' | 'external' = 'internal';
+  /** Whether connected nanoKONTROL2s are switched to external LED mode over SysEx */
+  private forceExternalLeds = false;
+  /** Soft takeover settings applied to every device, or null for the defaults */
+  private softTakeover: { mode: SoftTakeoverMode; threshold: number } | null = null;
+  /** Scene morph rate applied to every device, or null for the default */
+  private sceneMorphRate: number | null = null;
+  /** Hot-plug polling interval while detection runs (undefined = default), or null when stopped */
+  private hotplugIntervalMs: number | undefined | null = null;
+  /** Whether 'monitor' events are emitted */
+  private monitoring = false;
+  /** Records and replays takes of control movements */
+  private readonly recorder = new AutomationRecorder();
+  /** ID of the take last started replaying */
+  private replayTakeId: string | null = null;
+  /** Stops the pending MIDI Learn, or null when not learning */
+  private stopLearn: (() => void) | null = null;
 
-  constructor() {
+  /**
+   * @param profiles - Device profiles units are recognized by (default: the built-in profiles)
+   */
+  constructor(profiles: readonly DeviceProfile[] = BUILT_IN_PROFILES) {
     super();
-
-    // Initialize MIDI handler
-    this.midiHandler = new MidiHandler({
-      virtualPortName: 'nkEditor3 Out',
-    });
-
-    // Initialize LED controller (uses MIDI handler for output)
-    this.ledController = new LedController(this.midiHandler);
-
-    // Initialize default identity mapping engine so physical controls work immediately
-    // Without this, incoming CCs would be dropped (no raw CC forwarding to prevent
-    // hardware CC conflicts like slider CC 0-7 colliding with MIDI Volume CC 7)
-    this.mappingEngine = new MappingEngine(createDefaultMappingConfig());
-    this.setupMappingEngineEvents();
-
-    // Set up event forwarding from MIDI handler
-    this.setupEventHandlers();
+    this.profiles = profiles;
+    this.addDevice();
   }
 
   // ===========================================================================
@@ -76,54 +119,85 @@ export class MidiManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Connects to MIDI device.
+   * Connects to MIDI devices.
+   *
+   * With ports, connects the device bound to them (or the first device if it
+   * isn't connected, or a new device). Without ports, connects every
+   * controller found, one device per unit.
+   *
+   * @returns True if at least one device connected
    */
   connect(inputPort?: string, outputPort?: string): boolean {
-    const success = this.midiHandler.connect(inputPort, outputPort);
+    if (inputPort && outputPort) {
+      const device = this.getDeviceForPorts(inputPort, outputPort, this.getProfileForPort(inputPort));
+      return device.connect(inputPort, outputPort);
+    }
+
+    const units = findAllControllers(this.profiles);
+    const [onlyUnit] = units;
+    if (units.length === 0 || (units.length === 1 && onlyUnit?.profile.id === this.getFirstDevice().getProfile().id)) {
+      // Single unit of the first device's model (or none): the first device auto-detects it as before
+      return this.getFirstDevice().connect(inputPort, outputPort);
+    }
 
-    if (success && this.mappingEngine) {
-      // Sync LED states on connect
-      this.ledController.syncFromEngine(this.mappingEngine);
+    let success = false;
+    for (const { input, output, profile } of units) {
+      const device = this.getDeviceForPorts(input, output, profile);
+      device.bindToPorts(input, output);
+      if (device.isConnected() || device.connect()) {
+        success = true;
+      }
     }
 
+    console.log(`[midi-manager] ${units.length} controller units found`);
     return success;
   }
 
   /**
-   * Disconnects from MIDI device.
+   * Disconnects a device, or every device if no ID is given.
    */
-  disconnect(): void {
-    // Turn off all LEDs before disconnecting
-    this.ledController.allOff();
-    this.midiHandler.disconnect();
+  disconnect(deviceId?: string): void {
+    const devices = deviceId !== undefined ? [this.getDevice(deviceId)] : this.devices;
+    for (const device of devices) {
+      device?.disconnect();
+    }
   }
 
   /**
-   * Returns connection status.
+   * Returns whether any device is connected.
    */
   isConnected(): boolean {
-    return this.midiHandler.isConnected();
+    return this.devices.some((device) => device.isConnected());
   }
 
   /**
-   * Gets current MIDI status.
+   * Gets current MIDI status: the first device's ports and every device's state.
    */
   getStatus(): MidiStatusResponse {
-    const ports = this.midiHandler.getCurrentPorts();
+    const first = this.getFirstDevice().getInfo();
     return {
-      connected: this.midiHandler.isConnected(),
-      inputPort: ports.input,
-      outputPort: ports.output,
-      virtualPort: this.midiHandler.getVirtualPortName(),
-      midiAvailable: this.midiHandler.isMidiSubsystemAvailable(),
+      connected: this.isConnected(),
+      inputPort: first.inputPort,
+      outputPort: first.outputPort,
+      virtualPort: first.virtualPort,
+      virtualInputPort: first.virtualInputPort,
+      midiAvailable: this.getFirstDevice().isMidiAvailable(),
+      devices: this.devices.map((device) => device.getInfo()),
     };
   }
 
   /**
-   * Gets current hardware port names.
+   * Gets the current hardware port names of a device (default: the first device).
    */
-  getCurrentPorts(): { input: string | null; output: string | null } {
-    return this.midiHandler.getCurrentPorts();
+  getCurrentPorts(deviceId?: string): { input: string | null; output: string | null } {
+    return this.getDevice(deviceId)?.getCurrentPorts() ?? { input: null, output: null };
+  }
+
+  /**
+   * Gets the device profiles units are recognized by.
+   */
+  getProfiles(): readonly DeviceProfile[] {
+    return this.profiles;
   }
 
   /**
@@ -145,17 +219,23 @@ export class MidiManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Starts hotplug detection.
+   * Starts hotplug detection on every device.
    */
   startHotplugDetection(intervalMs?: number): void {
-    this.midiHandler.startHotplugDetection(intervalMs);
+    this.hotplugIntervalMs = intervalMs;
+    for (const device of this.devices) {
+      device.startHotplugDetection(intervalMs);
+    }
   }
 
   /**
-   * Stops hotplug detection.
+   * Stops hotplug detection on every device.
    */
   stopHotplugDetection(): void {
-    this.midiHandler.stopHotplugDetection();
+    this.hotplugIntervalMs = null;
+    for (const device of this.devices) {
+      device.stopHotplugDetection();
+    }
   }
 
   // ===========================================================================
@@ -163,27 +243,17 @@ export class MidiManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Loads a mapping configuration.
+   * Loads a mapping configuration into a device (default: the first device).
    */
-  loadMapping(config: MappingConfig): void {
-    if (this.mappingEngine) {
-      this.mappingEngine.updateConfig(config);
-    } else {
-      this.mappingEngine = new MappingEngine(config);
-      this.setupMappingEngineEvents();
-    }
-
-    // Sync LEDs with new mapping
-    if (this.midiHandler.isConnected()) {
-      this.ledController.syncFromEngine(this.mappingEngine);
-    }
+  loadMapping(config: MappingConfig, deviceId?: string): void {
+    this.requireDevice(deviceId).loadMapping(config);
   }
 
   /**
-   * Gets the current mapping configuration.
+   * Gets the current mapping configuration of a device (default: the first device).
    */
-  getMapping(): MappingConfig | null {
-    return this.mappingEngine?.getConfig() ?? null;
+  getMapping(deviceId?: string): MappingConfig | null {
+    return this.getDevice(deviceId)?.getMapping() ?? null;
   }
 
   // ===========================================================================
@@ -191,17 +261,74 @@ export class MidiManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Sends a CC message to the virtual output.
+   * Sends a CC message to a device's virtual output.
+   */
+  sendCC(channel: number, cc: number, value: number, deviceId?: string): void {
+    this.requireDevice(deviceId).sendCC(channel, cc, value);
+  }
+
+  /**
+   * Sends a control value set from the GUI through a device's mapping engine.
+   * See MidiDevice.sendControl.
+   *
+   * @returns True if the control is mapped and a message was sent
    */
-  sendCC(channel: number, cc: number, value: number): void {
-    this.midiHandler.sendCC(channel, cc, value);
+  sendControl(controlType: string, value: number, options: ControlSetOptions = {}, deviceId?: string): boolean {
+    return this.getDevice(deviceId)?.sendControl(controlType, value, options) ?? false;
   }
 
   /**
-   * Sends an LED update to the hardware.
+   * Activates or deactivates a device's shift layer.
    */
-  setLed(cc: number, isOn: boolean): void {
-    this.ledController.setLed(cc, isOn);
+  setShift(active: boolean, deviceId?: string): void {
+    this.getDevice(deviceId)?.setShift(active);
+  }
+
+  /**
+   * Pages a device's track strips to a bank.
+   */
+  setBank(bank: number, deviceId?: string): void {
+    this.getDevice(deviceId)?.setBank(bank);
+  }
+
+  /**
+   * Recalls a scene of a device's mapping. See MidiDevice.recallScene.
+   *
+   * @returns False if the device or the scene doesn't exist
+   */
+  recallScene(scene: number, deviceId?: string): boolean {
+    return this.getDevice(deviceId)?.recallScene(scene) ?? false;
+  }
+
+  /**
+   * Sets the scene morph rate (values per second for each control) of every device.
+   */
+  setSceneMorphRate(rate: number): void {
+    this.sceneMorphRate = rate;
+    for (const device of this.devices) {
+      device.setSceneMorphRate(rate);
+    }
+  }
+
+  /**
+   * Sets or turns off the A/B morph fader of a device. See MidiDevice.setCrossfade.
+   *
+   * @returns False if the device doesn't exist
+   */
+  setCrossfade(fader: string | null, a?: ControlValues, b?: ControlValues, deviceId?: string): boolean {
+    const device = this.getDevice(deviceId);
+    if (!device) {
+      return false;
+    }
+    device.setCrossfade(fader, a, b);
+    return true;
+  }
+
+  /**
+   * Sends an LED update to a device's hardware.
+   */
+  setLed(cc: number, isOn: boolean, deviceId?: string): void {
+    this.getDevice(deviceId)?.setLed(cc, isOn);
   }
 
   // ===========================================================================
@@ -209,12 +336,13 @@ export class MidiManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Sets the LED mode.
-   * - 'internal': LEDs reflect button state (updated on button press)
-   * - 'external': LEDs are controlled by incoming MIDI from DAW (button presses don't update LEDs)
+   * Sets the LED mode of every device. See MidiDevice.setLedMode.
    */
   setLedMode(mode: 'internal' | 'external'): void {
     this.ledMode = mode;
+    for (const device of this.devices) {
+      device.setLedMode(mode);
+    }
     console.log(`[midi-manager] LED mode set to: ${mode}`);
   }
 
@@ -225,120 +353,335 @@ export class MidiManager extends EventEmitter {
     return this.ledMode;
   }
 
+  /**
+   * Sets whether each nanoKONTROL2 is switched to external LED mode when it
+   * connects (and connected ones right away), so it doesn't light its LEDs
+   * by itself against the LED controller. See MidiDevice.setHardwareLedMode.
+   */
+  setForceExternalLeds(enabled: boolean): void {
+    this.forceExternalLeds = enabled;
+    if (enabled) {
+      for (const device of this.devices.filter((d) => d.isConnected())) {
+        this.applyExternalLeds(device);
+      }
+    }
+    console.log(`[midi-manager] Force external LED mode ${enabled ? 'on' : 'off'}`);
+  }
+
+  // ===========================================================================
+  // Hardware Scene
+  // ===========================================================================
+
+  /**
+   * Reads the scene settings of a device's unit. See MidiDevice.queryHardwareScene.
+   *
+   * @throws If the device is unknown, or its unit doesn't answer as a nanoKONTROL2
+   */
+  async queryHardwareScene(deviceId?: string): Promise<HardwareSceneInfo> {
+    return this.requireDevice(deviceId).queryHardwareScene();
+  }
+
+  /**
+   * Writes a mapping to a device's unit as its scene. See MidiDevice.writeHardwareScene.
+   *
+   * @returns What of the mapping the unit can't do by itself
+   * @throws If the device is unknown, or the write fails
+   */
+  async writeHardwareScene(
+    mapping: MappingConfig,
+    ledMode: 'internal' | 'external',
+    store = true,
+    deviceId?: string
+  ): Promise<string[]> {
+    return this.requireDevice(deviceId).writeHardwareScene(mapping, ledMode, store);
+  }
+
+  // ===========================================================================
+  // Soft Takeover Configuration
+  // ===========================================================================
+
+  /**
+   * Sets the soft takeover mode and threshold of every device. See MidiDevice.setSoftTakeover.
+   */
+  setSoftTakeover(mode: SoftTakeoverMode, threshold: number): void {
+    this.softTakeover = { mode, threshold };
+    for (const device of this.devices) {
+      device.setSoftTakeover(mode, threshold);
+    }
+    console.log(`[midi-manager] Soft takeover set to: ${mode} (threshold ${threshold})`);
+  }
+
+  /**
+   * Checks if a control of a device is waiting for its physical counterpart to pick up.
+   */
+  isWaitingForPickup(controlType: string, deviceId?: string): boolean {
+    return this.getDevice(deviceId)?.isWaitingForPickup(controlType) ?? false;
+  }
+
+  // ===========================================================================
+  // Monitoring
+  // ===========================================================================
+
+  /**
+   * Turns the 'monitor' events of every device on or off.
+   */
+  setMonitoring(enabled: boolean): void {
+    this.monitoring = enabled;
+    this.updateDeviceMonitoring();
+    console.log(`[midi-manager] Monitoring ${enabled ? 'on' : 'off'}`);
+  }
+
+  // ===========================================================================
+  // Automation Takes
+  // ===========================================================================
+
+  /**
+   * Starts recording a device's hardware input and remapped output,
+   * discarding a recording in progress.
+   *
+   * @throws If the device is unknown
+   */
+  startRecording(deviceId?: string): void {
+    const device = this.requireDevice(deviceId);
+    this.recorder.startRecording(device.getId());
+    this.updateDeviceMonitoring();
+    this.emitAutomationState();
+    console.log(`[midi-manager] Recording from: ${device.getId() || 'first device'}`);
+  }
+
+  /**
+   * Stops recording.
+   *
+   * @returns The recorded take, or null if not recording
+   */
+  stopRecording(): RecordedTake | null {
+    const take = this.recorder.stopRecording();
+    this.updateDeviceMonitoring();
+    this.emitAutomationState();
+    if (take) {
+      console.log(`[midi-manager] Recorded ${take.events.length} messages in ${take.duration} ms`);
+    }
+    return take;
+  }
+
+  /**
+   * Replays a take's output messages to a device's virtual output,
+   * replacing the current replay. See AutomationRecorder.startReplay.
+   *
+   * @throws If the device is unknown or the take can't be replayed
+   */
+  startReplay(take: AutomationTake, options: ReplayOptions, deviceId?: string): void {
+    const device = this.requireDevice(deviceId);
+    this.recorder.startReplay(
+      { duration: take.metadata.duration, events: take.events },
+      options,
+      (event) => device.sendOutput(event.channel, event.messageType, event.number, event.value),
+      () => this.emitAutomationState()
+    );
+    this.replayTakeId = take.metadata.id;
+    this.emitAutomationState();
+    console.log(`[midi-manager] Replaying take: ${take.metadata.name}`);
+  }
+
+  /**
+   * Stops the current replay, if any.
+   */
+  stopReplay(): void {
+    this.recorder.stopReplay();
+    this.emitAutomationState();
+  }
+
+  /**
+   * Gets whether a take is being recorded or replayed.
+   */
+  getAutomationState(): MidiAutomationEvent {
+    return {
+      recording: this.recorder.getRecordingDeviceId() !== null,
+      replayingTakeId: this.recorder.isReplaying() ? this.replayTakeId : null,
+    };
+  }
+
+  // ===========================================================================
+  // MIDI Learn
+  // ===========================================================================
+
+  /**
+   * Starts MIDI Learn for a device, replacing any pending learn. The first CC
+   * received is emitted as a 'learn' event instead of being processed.
+   *
+   * @param target - 'input' learns from the unit's hardware, 'output' from a DAW or synth
+   * @param port - Input port to learn outputs from (default: the unit's virtual input)
+   * @param deviceId - Device to learn for (default: the first device)
+   * @throws If the device is unknown or the port to learn from isn't available
+   */
+  startLearn(target: LearnTarget, port?: string, deviceId?: string): void {
+    this.cancelLearn();
+    const device = this.requireDevice(deviceId);
+
+    if (target === 'output' && port) {
+      this.stopLearn = listenForFirstCC(port, (msg) => {
+        this.stopLearn = null;
+        const event: MidiLearnEvent = {
+          target,
+          cc: msg.controller,
+          channel: msg.channel + 1,
+          deviceId: device.getId(),
+        };
+        this.emit('learn', event);
+      });
+    } else {
+      device.startLearn(target);
+      this.stopLearn = () => device.cancelLearn();
+    }
+    console.log(`[midi-manager] Learning ${target} from: ${port ?? (target === 'output' ? 'virtual input' : 'hardware')}`);
+  }
+
+  /**
+   * Cancels the pending MIDI Learn, if any.
+   */
+  cancelLearn(): void {
+    this.stopLearn?.();
+    this.stopLearn = null;
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
 
   /**
-   * Sets up event handlers from MIDI handler.
+   * Creates a device with the next virtual port names ("nkEditor3 Out",
+   * "nkEditor3 Out 2", ...), applies the shared settings and forwards its events.
    */
-  private setupEventHandlers(): void {
-    // Forward CC messages (process through mapping engine if available)
-    this.midiHandler.on('cc', (msg: CCMessage) => {
-      this.handleIncomingCC(msg);
-    });
+  private addDevice(inputPort?: string, outputPort?: string, profile?: DeviceProfile): MidiDevice {
+    const suffix = this.devices.length > 0 ? ` ${this.devices.length + 1}` : '';
+    const device = new MidiDevice({
+      inputPort,
+      outputPort,
+      virtualPortName: `${DEFAULT_VIRTUAL_PORT_NAME}${suffix}`,
+      virtualInputPortName: `${DEFAULT_VIRTUAL_INPUT_PORT_NAME}${suffix}`,
+    }, profile);
+
+    device.setLedMode(this.ledMode);
+    if (this.softTakeover) {
+      device.setSoftTakeover(this.softTakeover.mode, this.softTakeover.threshold);
+    }
+    if (this.sceneMorphRate !== null) {
+      device.setSceneMorphRate(this.sceneMorphRate);
+    }
 
-    // Forward connection events
-    this.midiHandler.on('connected', ({ inputPort, outputPort }) => {
-      const event: MidiConnectedEvent = {
-        inputPort,
-        outputPort,
-        virtualPort: this.midiHandler.getVirtualPortName(),
-      };
-      this.emit('connected', event);
-
-      // Sync LEDs on reconnect
-      if (this.mappingEngine) {
-        this.ledController.syncFromEngine(this.mappingEngine);
+    for (const eventName of FORWARDED_DEVICE_EVENTS) {
+      device.on(eventName, (event: DeviceScoped) => {
+        this.emit(eventName, { ...event, deviceId: device.getId() });
+      });
+    }
+    device.on('monitor', (event: MidiMonitorEvent) => {
+      const tagged = { ...event, deviceId: device.getId() };
+      this.recorder.capture(tagged);
+      if (this.monitoring) {
+        this.emit('monitor', tagged);
       }
     });
-
-    this.midiHandler.on('disconnected', ({ reason }) => {
-      const event: MidiDisconnectedEvent = { reason };
-      this.emit('disconnected', event);
+    device.on('connected', () => {
+      if (this.forceExternalLeds) {
+        this.applyExternalLeds(device);
+      }
     });
+    device.on('portsChanged', (event) => this.emit('portsChanged', event));
+    device.on('error', (event) => this.emit('error', event));
 
-    this.midiHandler.on('portsChanged', ({ inputs, outputs }) => {
-      const event: MidiPortsChangedEvent = { inputs, outputs };
-      this.emit('portsChanged', event);
-    });
+    this.devices.push(device);
+    this.updateDeviceMonitoring();
+    if (this.hotplugIntervalMs !== null) {
+      device.startHotplugDetection(this.hotplugIntervalMs);
+    }
 
-    this.midiHandler.on('error', ({ message }) => {
-      const event: ErrorEvent = { message };
-      this.emit('error', event);
-    });
+    return device;
   }
 
   /**
-   * Sets up event handlers from mapping engine.
+   * Turns on the 'monitor' events of the devices that are monitored or recorded.
    */
-  private setupMappingEngineEvents(): void {
-    if (!this.mappingEngine) return;
+  private updateDeviceMonitoring(): void {
+    const recordingId = this.recorder.getRecordingDeviceId();
+    for (const device of this.devices) {
+      device.setMonitoring(this.monitoring || device.getId() === recordingId);
+    }
+  }
 
-    // Sync LED when button state changes (only in internal mode)
-    this.mappingEngine.on('buttonStateChanged', ({ cc, isOn }) => {
-      // In external mode, LEDs are controlled by incoming MIDI from DAW,
-      // so we don't update them based on button presses
-      if (this.ledMode === 'internal') {
-        this.ledController.setLed(cc, isOn);
-      }
-    });
+  /**
+   * Emits the current recording and replay state.
+   */
+  private emitAutomationState(): void {
+    this.emit('automation', this.getAutomationState());
   }
 
   /**
-   * Handles incoming CC message from hardware.
-   *
-   * IMPORTANT: Only mapped CCs are forwarded to the virtual output.
-   * Raw/unmapped CCs are NOT forwarded because hardware CC numbers may conflict
-   * with standard MIDI CCs (e.g., nanoKONTROL2 sliders use CC 0-7, where CC 7
-   * is MIDI Volume - forwarding raw slider values would silence synths).
-   */
-  private handleIncomingCC(msg: CCMessage): void {
-    // If no mapping engine, only update GUI - do NOT forward raw CCs to synth
-    // (This branch should rarely execute since we initialize a default mapping engine,
-    // but we keep it for safety)
-    if (!this.mappingEngine) {
-      const controlType = deriveControlTypeFromCC(msg.controller);
-      const event: MidiCCEvent = {
-        channel: msg.channel,
-        controller: msg.controller,
-        value: msg.value,
-        controlType: controlType ?? undefined,
-      };
-      this.emit('cc', event);
-      return;
+   * Gets the first device (it always exists).
+   */
+  private getFirstDevice(): MidiDevice {
+    return this.devices[0] ?? this.addDevice();
+  }
+
+  /**
+   * Gets a device by ID, or the first device if no ID is given.
+   */
+  private getDevice(deviceId?: string): MidiDevice | undefined {
+    if (!deviceId) {
+      return this.getFirstDevice();
     }
+    return this.devices.find((device) => device.getId() === deviceId);
+  }
 
-    // Process through mapping engine
-    const processed = this.mappingEngine.processCC(msg.channel, msg.controller, msg.value);
-
-    if (!processed) {
-      // CC not mapped in current preset - do NOT forward to synth
-      // Only update the GUI to reflect physical control movements
-      const controlType = deriveControlTypeFromCC(msg.controller);
-      const event: MidiCCEvent = {
-        channel: msg.channel,
-        controller: msg.controller,
-        value: msg.value,
-        controlType: controlType ?? undefined,
-      };
-      this.emit('cc', event);
+  /**
+   * Gets a device by ID, throwing if there is no such device.
+   */
+  private requireDevice(deviceId?: string): MidiDevice {
+    const device = this.getDevice(deviceId);
+    if (!device) {
+      throw new Error(`Unknown MIDI device: ${deviceId}`);
+    }
+    return device;
+  }
+
+  /**
+   * Switches a device's nanoKONTROL2 to external LED mode in the background,
+   * reporting a failure as an 'error' event. Other models are left alone.
+   */
+  private applyExternalLeds(device: MidiDevice): void {
+    if (device.getProfile().id !== NANOKONTROL2_PROFILE.id) {
       return;
     }
 
-    // Send REMAPPED message to virtual output (safe - uses configured output CC)
-    // Note: processed.channel is 1-indexed, sendCC expects 0-indexed
-    this.midiHandler.sendCC(processed.channel - 1, processed.outputCC, processed.value);
-
-    // Emit processed message to renderer
-    const event: MidiCCEvent = {
-      channel: msg.channel,
-      controller: msg.controller,
-      value: msg.value,
-      outputCC: processed.outputCC,
-      outputChannel: processed.channel,
-      controlType: processed.controlType,
-    };
-    this.emit('cc', event);
+    device.setHardwareLedMode('external').catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      const errorEvent: ErrorEvent = { message: `Could not set external LED mode on ${device.getId()}: ${message}` };
+      this.emit('error', errorEvent);
+    });
+  }
+
+  /**
+   * Gets the device for a unit's ports: the one bound to them, else the
+   * first device if it has no unit yet (switched to the unit's profile),
+   * else a new device.
+   */
+  private getDeviceForPorts(inputPort: string, outputPort: string, profile: DeviceProfile): MidiDevice {
+    const bound = this.getDevice(inputPort);
+    if (bound) {
+      return bound;
+    }
+
+    const first = this.getFirstDevice();
+    if (!first.isConnected() && !first.getId()) {
+      first.setProfile(profile);
+      return first;
+    }
+    return this.addDevice(inputPort, outputPort, profile);
+  }
+
+  /**
+   * Gets the profile whose port pattern matches a port name (default: nanoKONTROL2).
+   */
+  private getProfileForPort(portName: string): DeviceProfile {
+    return this.profiles.find((profile) => getProfilePortPattern(profile).test(portName)) ?? NANOKONTROL2_PROFILE;
   }
 }
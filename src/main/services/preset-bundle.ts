@@ -0,0 +1,512 @@
+/**
+ * Preset Bundle Support
+ *
+ * Reads and writes presets as portable files: a single preset as a .json
+ * file, or the whole library as a .zip bundle of preset files with a
+ * manifest. A preset's mapping can also be written as a text mapping file
+ * for the CLI, and text mapping files and KORG KONTROL Editor scene files
+ * are imported as new presets. Imported presets are validated with the preset schema and
+ * checked for ID and name collisions with the library, which are resolved
+ * per preset by renaming, overwriting or skipping.
+ *
+ * The zip support covers what bundles need: stored or deflated entries
+ * without encryption or zip64 extensions.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import {
+  presetSchema,
+  presetBundleManifestSchema,
+  generatePresetId,
+  generateDuplicateName,
+  createDefaultPresetMetadata,
+} from '@shared/schemas.js';
+import type { PresetBundleManifest } from '@shared/schemas.js';
+import type { Preset, PresetMetadata, PresetConflict, PresetImportResolution } from '@shared/ipc-protocol.js';
+import { parseMapping } from './config-parser.js';
+import { serializeMapping } from './config-serializer.js';
+import { readSceneFile, sceneToMapping, CONTROL_MODES } from './korg-scene.js';
+
+/** Path of the manifest inside a bundle */
+export const BUNDLE_MANIFEST_FILE = 'manifest.json';
+
+/** Unassigned controls listed by name in the description of an imported scene */
+const MAX_LISTED_UNASSIGNED = 8;
+
+/** Longest preset description (characters) */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/** Largest uncompressed zip entry read (bytes) */
+const MAX_ENTRY_SIZE = 16 * 1024 * 1024;
+
+/** Record signatures of the zip format */
+const SIGNATURE = {
+  LOCAL_FILE: 0x04034b50,
+  CENTRAL_DIRECTORY: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+} as const;
+
+/** Compression methods of zip entries */
+const METHOD = {
+  STORED: 0,
+  DEFLATED: 8,
+} as const;
+
+/** General purpose flags of zip entries */
+const FLAG = {
+  ENCRYPTED: 0x0001,
+  UTF8_NAME: 0x0800,
+} as const;
+
+/** Zip format version needed to extract the entries written (2.0: deflate) */
+const ZIP_VERSION = 20;
+
+/** A file inside a zip archive */
+export interface ZipEntry {
+  /** Path inside the archive, with '/' separators */
+  name: string;
+  data: Uint8Array;
+}
+
+/** Presets read from an import file */
+export interface PresetImportContent {
+  /** Valid presets, in file order */
+  presets: Preset[];
+  /** Files of the bundle that are not valid presets, with the reason */
+  invalid: string[];
+}
+
+// =============================================================================
+// Zip Archives
+// =============================================================================
+
+/** CRC-32 lookup table (polynomial 0xEDB88320) */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Computes the CRC-32 of data, as stored in zip entries.
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to the MS-DOS time and date fields of zip entries.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Writes files as a zip archive, deflating each entry.
+ *
+ * @param entries - Files to store, in order
+ * @param modified - Modification time stored for every entry
+ */
+export function writeZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  const { time, date } = toDosDateTime(modified);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(SIGNATURE.LOCAL_FILE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(FLAG.UTF8_NAME, 6);
+    local.writeUInt16LE(METHOD.DEFLATED, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(SIGNATURE.CENTRAL_DIRECTORY, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(FLAG.UTF8_NAME, 8);
+    central.writeUInt16LE(METHOD.DEFLATED, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(SIGNATURE.END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]));
+}
+
+/**
+ * Reads the files of a zip archive. Directory entries are skipped.
+ *
+ * @throws If the data is not a zip archive, or an entry is encrypted, uses an
+ *   unsupported compression method, is too large or is corrupt
+ */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === SIGNATURE.END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a zip file');
+  }
+
+  const count = buffer.readUInt16LE(end + 10);
+  let position = buffer.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > buffer.length || buffer.readUInt32LE(position) !== SIGNATURE.CENTRAL_DIRECTORY) {
+      throw new Error('Corrupt zip file: invalid central directory');
+    }
+
+    const flags = buffer.readUInt16LE(position + 8);
+    const method = buffer.readUInt16LE(position + 10);
+    const crc = buffer.readUInt32LE(position + 16);
+    const compressedSize = buffer.readUInt32LE(position + 20);
+    const size = buffer.readUInt32LE(position + 24);
+    const nameLength = buffer.readUInt16LE(position + 28);
+    const extraLength = buffer.readUInt16LE(position + 30);
+    const commentLength = buffer.readUInt16LE(position + 32);
+    const localOffset = buffer.readUInt32LE(position + 42);
+    const name = buffer.toString('utf-8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & FLAG.ENCRYPTED) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (size > MAX_ENTRY_SIZE) {
+      throw new Error(`Zip entry too large: ${name}`);
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== SIGNATURE.LOCAL_FILE) {
+      throw new Error(`Corrupt zip file: invalid entry ${name}`);
+    }
+
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(start, start + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD.STORED) {
+      content = compressed;
+    } else if (method === METHOD.DEFLATED) {
+      content = inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_SIZE });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+    }
+
+    if (content.length !== size || crc32(content) !== crc) {
+      throw new Error(`Corrupt zip file: checksum mismatch in ${name}`);
+    }
+    entries.push({ name, data: new Uint8Array(content) });
+  }
+
+  return entries;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Makes a name safe to use as a file name.
+ */
+export function toFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_ -]/g, '_');
+}
+
+/**
+ * Writes a preset as a .json file.
+ */
+export function writePresetFile(preset: Preset): Uint8Array {
+  return new Uint8Array(Buffer.from(JSON.stringify(preset, null, 2), 'utf-8'));
+}
+
+/**
+ * Writes the mapping of a preset as a text mapping file, titled with the preset name.
+ */
+export function writeMappingFile(preset: Preset): Uint8Array {
+  return new Uint8Array(Buffer.from(serializeMapping(preset.mapping, preset.metadata.name), 'utf-8'));
+}
+
+/**
+ * Writes presets as a .zip bundle: one .json file per preset in a 'presets'
+ * folder, and a manifest listing them.
+ *
+ * @param presets - Presets to bundle, in manifest order
+ * @param exportedAt - Export time stored in the manifest and the zip entries
+ */
+export function writePresetBundle(presets: Preset[], exportedAt = new Date()): Uint8Array {
+  const manifest: PresetBundleManifest = {
+    format: 'nkeditor3-presets',
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    presets: [],
+  };
+  const entries: ZipEntry[] = [];
+
+  for (const preset of presets) {
+    // Preset IDs are unique, and sanitized the way FileManager names preset files
+    const file = `presets/${preset.metadata.id.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+    manifest.presets.push({ id: preset.metadata.id, name: preset.metadata.name, file });
+    entries.push({ name: file, data: writePresetFile(preset) });
+  }
+
+  const manifestData = new Uint8Array(Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'));
+  return writeZip([{ name: BUNDLE_MANIFEST_FILE, data: manifestData }, ...entries], exportedAt);
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Parses the JSON text of a file, ignoring a byte order mark.
+ *
+ * @throws If the file is not valid JSON
+ */
+function parseJson(data: Uint8Array): unknown {
+  return JSON.parse(Buffer.from(data).toString('utf-8').replace(/^\uFEFF/, ''));
+}
+
+/**
+ * Validates a preset, describing the first problem found.
+ */
+function validateImportedPreset(data: unknown): { preset: Preset } | { error: string } {
+  const result = presetSchema.safeParse(data);
+  if (result.success) {
+    return { preset: result.data };
+  }
+  const issue = result.error.issues[0];
+  return { error: issue ? `${issue.path.join('.') || 'preset'}: ${issue.message}` : 'invalid preset' };
+}
+
+/**
+ * Reads a text mapping file as a new preset named after the file.
+ *
+ * @throws If the file is not a valid mapping
+ */
+function readMappingImport(data: Uint8Array, fileName: string): Preset {
+  const result = parseMapping(Buffer.from(data).toString('utf-8').replace(/^\uFEFF/, ''));
+  if (!result.success) {
+    throw new Error(`Invalid mapping file: ${result.error}`);
+  }
+
+  const name = fileName.replace(/\.txt$/i, '').trim() || 'Imported mapping';
+  const validation = validateImportedPreset({ metadata: createDefaultPresetMetadata(name), mapping: result.config });
+  if ('error' in validation) {
+    throw new Error(`Invalid mapping file: ${validation.error}`);
+  }
+  return validation.preset;
+}
+
+/**
+ * Reads a KORG KONTROL Editor scene file as a new preset named after the
+ * file. The description notes what the mapping cannot hold: the scene's LED
+ * mode and control mode, and the controls it leaves unassigned.
+ *
+ * @throws If the file holds no valid scene data
+ */
+function readSceneImport(data: Uint8Array, fileName: string): Preset {
+  const scene = readSceneFile(data);
+  const { mapping, unassigned } = sceneToMapping(scene);
+
+  const notes = [`Imported from ${fileName}.`, `LED mode: ${scene.ledMode}.`];
+  if (scene.controlMode !== 0) {
+    notes.push(`Control mode: ${CONTROL_MODES[scene.controlMode]} (its CC mode assignments were imported).`);
+  }
+  if (unassigned.length > 0) {
+    const listed = unassigned.slice(0, MAX_LISTED_UNASSIGNED).join(', ');
+    const more = unassigned.length > MAX_LISTED_UNASSIGNED ? ` and ${unassigned.length - MAX_LISTED_UNASSIGNED} more` : '';
+    notes.push(`Not assigned in the scene, kept at their factory CC: ${listed}${more}.`);
+  }
+
+  const name = fileName.replace(/\.nktrl2_data$/i, '').trim() || 'Imported scene';
+  const metadata = createDefaultPresetMetadata(name);
+  metadata.description = notes.join(' ').slice(0, MAX_DESCRIPTION_LENGTH);
+  metadata.tags = ['korg-scene'];
+
+  const validation = validateImportedPreset({ metadata, mapping });
+  if ('error' in validation) {
+    throw new Error(`Invalid scene file: ${validation.error}`);
+  }
+  return validation.preset;
+}
+
+/**
+ * Reads the presets of an import file: a text mapping file or a KORG
+ * KONTROL Editor scene file (recognized by their .txt and .nktrl2_data
+ * extensions), a .zip bundle (recognized by its content) or a
+ * single preset .json file.
+ *
+ * Invalid presets of a bundle are reported and skipped, so the valid ones
+ * can still be imported.
+ *
+ * @param fileName - Name of the file, which names the preset of a text mapping or scene file
+ * @throws If the file is neither a mapping file, a scene file, a bundle nor a valid preset file
+ */
+export function readPresetImport(data: Uint8Array, fileName = ''): PresetImportContent {
+  if (/\.txt$/i.test(fileName)) {
+    return { presets: [readMappingImport(data, fileName)], invalid: [] };
+  }
+  if (/\.nktrl2_data$/i.test(fileName)) {
+    return { presets: [readSceneImport(data, fileName)], invalid: [] };
+  }
+
+  const isZip = data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b;
+  if (!isZip) {
+    let json: unknown;
+    try {
+      json = parseJson(data);
+    } catch {
+      throw new Error('Not a preset file: the file is neither JSON nor a .zip bundle');
+    }
+    const result = validateImportedPreset(json);
+    if ('error' in result) {
+      throw new Error(`Invalid preset: ${result.error}`);
+    }
+    return { presets: [result.preset], invalid: [] };
+  }
+
+  const entries = new Map(readZip(data).map((entry) => [entry.name, entry.data]));
+  const manifestData = entries.get(BUNDLE_MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error(`Not a preset bundle: ${BUNDLE_MANIFEST_FILE} is missing`);
+  }
+
+  let manifest: PresetBundleManifest;
+  try {
+    manifest = presetBundleManifestSchema.parse(parseJson(manifestData));
+  } catch {
+    throw new Error(`Not a preset bundle: ${BUNDLE_MANIFEST_FILE} is invalid`);
+  }
+
+  const content: PresetImportContent = { presets: [], invalid: [] };
+  for (const { name, file } of manifest.presets) {
+    const fileData = entries.get(file);
+    if (!fileData) {
+      content.invalid.push(`${name} (${file}): missing from the bundle`);
+      continue;
+    }
+
+    let json: unknown;
+    try {
+      json = parseJson(fileData);
+    } catch {
+      content.invalid.push(`${name} (${file}): not valid JSON`);
+      continue;
+    }
+
+    const result = validateImportedPreset(json);
+    if ('error' in result) {
+      content.invalid.push(`${name} (${file}): ${result.error}`);
+    } else {
+      content.presets.push(result.preset);
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Finds the library preset an imported preset collides with: one with the
+ * same ID, or else one with the same name (ignoring case).
+ *
+ * @returns The kind of collision and the colliding preset, or null
+ */
+export function findPresetConflict(
+  preset: Preset,
+  library: PresetMetadata[]
+): { conflict: PresetConflict; existing: PresetMetadata } | null {
+  const sameId = library.find((existing) => existing.id === preset.metadata.id);
+  if (sameId) {
+    return { conflict: 'id', existing: sameId };
+  }
+
+  const name = preset.metadata.name.toLowerCase();
+  const sameName = library.find((existing) => existing.name.toLowerCase() === name);
+  return sameName ? { conflict: 'name', existing: sameName } : null;
+}
+
+/**
+ * Gets the preset to store for an imported preset.
+ *
+ * - 'rename' gives a preset whose ID is taken a new ID, and one whose name
+ *   is taken a free name (e.g., 'Bass copy')
+ * - 'overwrite' takes the ID of the colliding preset, so storing it replaces that preset
+ * - 'skip' stores nothing
+ *
+ * @param library - Presets in the library, including ones imported before this one
+ * @returns The preset to store, or null to skip it
+ */
+export function resolvePresetImport(
+  preset: Preset,
+  resolution: PresetImportResolution,
+  library: PresetMetadata[]
+): Preset | null {
+  if (resolution === 'skip') {
+    return null;
+  }
+
+  const found = findPresetConflict(preset, library);
+  if (!found) {
+    return preset;
+  }
+
+  if (resolution === 'overwrite') {
+    return { ...preset, metadata: { ...preset.metadata, id: found.existing.id } };
+  }
+
+  const metadata = { ...preset.metadata };
+  if (library.some((existing) => existing.id === metadata.id)) {
+    metadata.id = generatePresetId();
+  }
+  const names = library.map((existing) => existing.name);
+  if (names.some((name) => name.toLowerCase() === metadata.name.toLowerCase())) {
+    metadata.name = generateDuplicateName(metadata.name, names);
+  }
+  return { ...preset, metadata };
+}
@@ -0,0 +1,89 @@
+/**
+ * Profile Manager Service
+ *
+ * Loads device profiles: the built-in ones plus JSON files from the
+ * profiles folder in the user's data directory. A user profile with the
+ * ID of a built-in profile replaces it.
+ */
+
+import { app } from 'electron';
+import { readFileSync, readdirSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import type { DeviceProfile } from '@shared/types.js';
+import { safeValidateDeviceProfile } from '@shared/schemas.js';
+import { BUILT_IN_PROFILES } from '@shared/profiles.js';
+
+// =============================================================================
+// ProfileManager Class
+// =============================================================================
+
+/**
+ * ProfileManager provides the device profiles units are recognized by.
+ */
+export class ProfileManager {
+  private readonly profilesDir: string;
+  private profiles: DeviceProfile[];
+
+  constructor() {
+    // Use Electron's user data path for cross-platform compatibility
+    const userDataPath = app.getPath('userData');
+    this.profilesDir = join(userDataPath, 'profiles');
+
+    this.profiles = this.load();
+  }
+
+  // ===========================================================================
+  // Public Methods
+  // ===========================================================================
+
+  /**
+   * Gets all profiles, built-in ones first.
+   */
+  getProfiles(): DeviceProfile[] {
+    return this.profiles;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Loads the built-in profiles and the valid user profile files.
+   * Invalid files are logged and skipped.
+   */
+  private load(): DeviceProfile[] {
+    const profiles = [...BUILT_IN_PROFILES];
+
+    try {
+      if (!existsSync(this.profilesDir)) {
+        mkdirSync(this.profilesDir, { recursive: true });
+        return profiles;
+      }
+
+      for (const file of readdirSync(this.profilesDir).filter((name) => name.endsWith('.json')).sort()) {
+        try {
+          const data = JSON.parse(readFileSync(join(this.profilesDir, file), 'utf-8'));
+          const result = safeValidateDeviceProfile(data);
+          if (!result.success) {
+            console.warn(`[profile-manager] Invalid profile file: ${file}`, result.error);
+            continue;
+          }
+
+          const index = profiles.findIndex((profile) => profile.id === result.data.id);
+          if (index !== -1) {
+            profiles[index] = result.data;
+          } else {
+            profiles.push(result.data);
+          }
+          console.log(`[profile-manager] Loaded profile: ${result.data.name}`);
+        } catch (error) {
+          console.warn(`[profile-manager] Failed to read profile file: ${file}`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[profile-manager] Failed to load profiles:', error);
+    }
+
+    return profiles;
+  }
+}
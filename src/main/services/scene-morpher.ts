@@ -0,0 +1,162 @@
+/**
+ * Scene Morpher Service
+ *
+ * Glides a set of knob/slider values from their current values to the
+ * values stored in a scene. Each step sends only the controls whose value
+ * changed, at a fixed number of steps per second, so a long morph over
+ * many controls doesn't flood the virtual output.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Start and end value of one control in a morph.
+ */
+interface MorphLane {
+  /** Value when the morph started */
+  from: number;
+  /** Value the morph ends on */
+  to: number;
+  /** Most recently sent value */
+  current: number;
+}
+
+// =============================================================================
+// SceneMorpher Class
+// =============================================================================
+
+/**
+ * SceneMorpher interpolates control values linearly over the morph time.
+ *
+ * Controls without a known current value jump to their scene value on the
+ * first step. A control moved by hand during the morph can be released, so
+ * the morph no longer fights the physical control.
+ *
+ * @example
+ * const morpher = new SceneMorpher();
+ * morpher.start({ 'track1.knob': 0 }, { 'track1.knob': 127 }, 2000, 50, (values) => {
+ *   for (const [controlType, value] of Object.entries(values)) {
+ *     device.sendControl(controlType, value);
+ *   }
+ * }, () => console.log('morph done'));
+ */
+export class SceneMorpher {
+  /** Controls still morphing: control type -> lane */
+  private lanes: Map<string, MorphLane> = new Map();
+
+  /** Interval timer driving the morph, or null when idle */
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Starts a morph, replacing any morph in progress.
+   * The first step is sent immediately; a morph time of 0 sends the scene values
+   * and ends at once.
+   *
+   * @param from - Current values by control type; controls missing here jump
+   * @param to - Scene values by control type
+   * @param morphMs - Morph time in ms
+   * @param rate - Steps per second (> 0)
+   * @param send - Called with the values changed by each step
+   * @param onEnd - Called when the morph reaches the scene values (not when stopped)
+   * @throws Error if the rate is not positive
+   */
+  start(
+    from: Record<string, number>,
+    to: Record<string, number>,
+    morphMs: number,
+    rate: number,
+    send: (values: Record<string, number>) => void,
+    onEnd: () => void
+  ): void {
+    if (!(rate > 0)) {
+      throw new Error(`Invalid morph rate: ${rate}`);
+    }
+
+    this.stop();
+
+    const jumps: Record<string, number> = {};
+    for (const [controlType, target] of Object.entries(to)) {
+      const start = from[controlType];
+      if (start === undefined || morphMs <= 0) {
+        jumps[controlType] = target;
+      } else if (start !== target) {
+        this.lanes.set(controlType, { from: start, to: target, current: start });
+      }
+    }
+
+    if (Object.keys(jumps).length > 0) {
+      send(jumps);
+    }
+
+    if (this.lanes.size === 0) {
+      onEnd();
+      return;
+    }
+
+    const startTime = Date.now();
+    this.timer = setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startTime) / morphMs);
+      this.step(progress, send);
+
+      if (progress >= 1) {
+        this.stop();
+        onEnd();
+      }
+    }, 1000 / rate);
+  }
+
+  /**
+   * Removes a control from the morph in progress, leaving it at its last sent value.
+   * Call when the physical control is moved during the morph.
+   *
+   * @param controlType - Control type identifier (e.g., 'track1.knob')
+   */
+  release(controlType: string): void {
+    this.lanes.delete(controlType);
+  }
+
+  /**
+   * Stops the morph in progress, leaving every control at its last sent value.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.lanes.clear();
+  }
+
+  /**
+   * Checks whether a morph is in progress.
+   */
+  isMorphing(): boolean {
+    return this.timer !== null;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Sends the values of all lanes at a point of the morph.
+   *
+   * @param progress - Position in the morph (0-1)
+   */
+  private step(progress: number, send: (values: Record<string, number>) => void): void {
+    const values: Record<string, number> = {};
+
+    for (const [controlType, lane] of this.lanes) {
+      const value = Math.round(lane.from + (lane.to - lane.from) * progress);
+      if (value !== lane.current) {
+        lane.current = value;
+        values[controlType] = value;
+      }
+    }
+
+    if (Object.keys(values).length > 0) {
+      send(values);
+    }
+  }
+}
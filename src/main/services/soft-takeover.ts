@@ -0,0 +1,210 @@
+/**
+ * Soft Takeover Service
+ *
+ * Tracks per-control takeover state for continuous controls (knobs/sliders).
+ *
+ * When a control's value is set from outside the hardware (GUI drag, preset
+ * load, randomize), the physical control no longer matches the value the
+ * synth has received. Until the physical control "picks up" the stored value,
+ * its movements are blocked so the parameter doesn't jump.
+ *
+ * Modes:
+ * - 'catch': Pass once the physical value is within the threshold of the target
+ * - 'pickup': Pass once the physical value crosses the target (or is within threshold)
+ * - 'jump': No soft takeover - physical values always pass
+ */
+
+import type { AppConfig } from '@shared/ipc-protocol.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Soft takeover mode (see module docs) */
+export type SoftTakeoverMode = AppConfig['softTakeoverMode'];
+
+/**
+ * Result of checking a physical value against the takeover state.
+ */
+export interface TakeoverResult {
+  /** Whether the value should be forwarded to the mapping engine */
+  pass: boolean;
+  /** Whether this value released a control that was waiting for pickup */
+  released: boolean;
+}
+
+/**
+ * Takeover state for a control that is waiting for pickup.
+ */
+interface PendingTakeover {
+  /** The value set from outside the hardware (0-127) */
+  target: number;
+}
+
+// =============================================================================
+// SoftTakeover Class
+// =============================================================================
+
+/**
+ * SoftTakeover decides whether physical control movements are forwarded.
+ *
+ * @example
+ * const takeover = new SoftTakeover('catch', 3);
+ * takeover.arm('track1.knob', 100);               // preset sets knob to 100
+ * takeover.process('track1.knob', 20).pass;       // false - still waiting
+ * takeover.process('track1.knob', 98).pass;       // true - caught
+ */
+export class SoftTakeover {
+  private mode: SoftTakeoverMode;
+  private threshold: number;
+
+  /** Controls waiting for pickup: controlType -> state */
+  private pending: Map<string, PendingTakeover> = new Map();
+
+  /** Last known physical value: controlType -> value */
+  private physicalValues: Map<string, number> = new Map();
+
+  /**
+   * Creates a new SoftTakeover tracker.
+   *
+   * @param mode - Takeover mode
+   * @param threshold - How close (in CC steps) the physical value must be to catch
+   */
+  constructor(mode: SoftTakeoverMode = 'catch', threshold = 3) {
+    this.mode = mode;
+    this.threshold = threshold;
+  }
+
+  /**
+   * Updates the takeover mode and threshold.
+   * Switching to 'jump' releases all pending controls.
+   */
+  setMode(mode: SoftTakeoverMode, threshold: number): void {
+    this.mode = mode;
+    this.threshold = threshold;
+
+    if (mode === 'jump') {
+      this.pending.clear();
+    }
+  }
+
+  /**
+   * Gets the current takeover mode.
+   */
+  getMode(): SoftTakeoverMode {
+    return this.mode;
+  }
+
+  /**
+   * Records a value set from outside the hardware.
+   * The control waits for pickup unless the physical control is already
+   * known to be within the threshold of the new value.
+   *
+   * @param controlType - Control type identifier (e.g., 'track1.knob')
+   * @param target - The value that was sent (0-127)
+   * @param physicalValue - Position of the physical control when it was last seen under
+   *   another control type (e.g., the same strip in the previous track bank)
+   * @returns True if the control is now waiting for pickup
+   */
+  arm(controlType: string, target: number, physicalValue?: number): boolean {
+    if (physicalValue !== undefined) {
+      this.physicalValues.set(controlType, physicalValue);
+    }
+    const physical = this.physicalValues.get(controlType);
+
+    if (this.mode === 'jump' || (physical !== undefined && this.isWithinThreshold(physical, target))) {
+      this.pending.delete(controlType);
+      return false;
+    }
+
+    this.pending.set(controlType, { target });
+    return true;
+  }
+
+  /**
+   * Checks a physical value against the control's takeover state.
+   *
+   * @param controlType - Control type identifier (e.g., 'track1.knob')
+   * @param value - Physical control value (0-127)
+   * @returns Whether to forward the value, and whether the control was released
+   */
+  process(controlType: string, value: number): TakeoverResult {
+    const previous = this.physicalValues.get(controlType);
+    this.physicalValues.set(controlType, value);
+
+    const state = this.pending.get(controlType);
+    if (!state) {
+      return { pass: true, released: false };
+    }
+
+    if (this.hasCaught(state.target, value, previous)) {
+      this.pending.delete(controlType);
+      return { pass: true, released: true };
+    }
+
+    return { pass: false, released: false };
+  }
+
+  /**
+   * Checks if a control is waiting for pickup.
+   */
+  isWaiting(controlType: string): boolean {
+    return this.pending.has(controlType);
+  }
+
+  /**
+   * Gets the target value a waiting control must reach.
+   *
+   * @returns The target value, or null if the control is not waiting
+   */
+  getTarget(controlType: string): number | null {
+    return this.pending.get(controlType)?.target ?? null;
+  }
+
+  /**
+   * Gets the last known physical value of a control.
+   *
+   * @returns The physical value, or null if the control hasn't moved yet
+   */
+  getPhysicalValue(controlType: string): number | null {
+    return this.physicalValues.get(controlType) ?? null;
+  }
+
+  /**
+   * Releases all waiting controls.
+   *
+   * @returns Control types that were waiting
+   */
+  releaseAll(): string[] {
+    const released = Array.from(this.pending.keys());
+    this.pending.clear();
+    return released;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Determines whether a physical value has caught the target.
+   */
+  private hasCaught(target: number, value: number, previous: number | undefined): boolean {
+    if (this.mode === 'jump' || this.isWithinThreshold(value, target)) {
+      return true;
+    }
+
+    // Pickup also catches when the control moves across the target between messages
+    if (this.mode === 'pickup' && previous !== undefined) {
+      return (previous - target) * (value - target) <= 0;
+    }
+
+    return false;
+  }
+
+  /**
+   * Checks if two values are within the takeover threshold.
+   */
+  private isWithinThreshold(a: number, b: number): boolean {
+    return Math.abs(a - b) <= this.threshold;
+  }
+}
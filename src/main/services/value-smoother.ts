@@ -0,0 +1,127 @@
+/**
+ * Value Smoother Service
+ *
+ * Interpolates 14-bit output values (cc14/NRPN/RPN) between successive
+ * input values. The nanoKONTROL2 only sends 7-bit values, so without
+ * smoothing a 14-bit output moves in steps of 128. Gliding from the
+ * previous value to the new one over a short time fills in the extra
+ * resolution.
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Interval between interpolated values (ms) */
+const SMOOTHING_TICK_MS = 5;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An in-progress glide for one control.
+ */
+interface Glide {
+  /** Interval timer driving the glide */
+  timer: NodeJS.Timeout;
+  /** Most recently emitted value */
+  current: number;
+}
+
+// =============================================================================
+// ValueSmoother Class
+// =============================================================================
+
+/**
+ * ValueSmoother glides each control's output towards its latest target value.
+ *
+ * A new target for a control that is still gliding restarts the glide from
+ * the value last emitted, so fast movements behave like a short lag filter.
+ *
+ * @example
+ * const smoother = new ValueSmoother();
+ * smoother.send('track1.slider', 16383, 40, (value) => {
+ *   midiHandler.sendOutput(0, 'nrpn', 1234, value);
+ * });
+ */
+export class ValueSmoother {
+  /** Active glides: key -> glide state */
+  private glides: Map<string, Glide> = new Map();
+
+  /** Last emitted value: key -> value */
+  private lastValues: Map<string, number> = new Map();
+
+  /**
+   * Sends a value, gliding from the key's previous value if smoothing is enabled.
+   *
+   * @param key - Identifies the output (e.g., control type)
+   * @param target - Value to reach
+   * @param durationMs - Glide time (0 sends immediately)
+   * @param emit - Called with each value to send
+   */
+  send(key: string, target: number, durationMs: number, emit: (value: number) => void): void {
+    const start = this.glides.get(key)?.current ?? this.lastValues.get(key);
+    this.stop(key);
+
+    if (durationMs <= 0 || start === undefined || start === target) {
+      this.emitValue(key, target, emit);
+      return;
+    }
+
+    const steps = Math.max(1, Math.ceil(durationMs / SMOOTHING_TICK_MS));
+    const increment = (target - start) / steps;
+    let step = 0;
+
+    const timer = setInterval(() => {
+      step++;
+      const value = step >= steps ? target : Math.round(start + increment * step);
+      this.emitValue(key, value, emit);
+
+      const glide = this.glides.get(key);
+      if (glide) {
+        glide.current = value;
+      }
+
+      if (step >= steps) {
+        this.stop(key);
+      }
+    }, SMOOTHING_TICK_MS);
+
+    this.glides.set(key, { timer, current: start });
+  }
+
+  /**
+   * Stops all glides and forgets previous values.
+   * Call when the mapping changes or the device disconnects.
+   */
+  reset(): void {
+    for (const key of Array.from(this.glides.keys())) {
+      this.stop(key);
+    }
+    this.lastValues.clear();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Stops the glide for a key, leaving the last emitted value in place.
+   */
+  private stop(key: string): void {
+    const glide = this.glides.get(key);
+    if (glide) {
+      clearInterval(glide.timer);
+      this.glides.delete(key);
+    }
+  }
+
+  /**
+   * Emits a value and records it as the key's last value.
+   */
+  private emitValue(key: string, value: number, emit: (value: number) => void): void {
+    this.lastValues.set(key, value);
+    emit(value);
+  }
+}
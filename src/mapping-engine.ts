@@ -6,8 +6,17 @@
  * and transforms them according to the loaded mapping configuration.
  *
  * Key responsibilities:
- * - Map input CCs to output CCs and channels
- * - Handle toggle vs momentary button behaviors
+ * - Map input CCs (on any or a specific input channel) to output CCs and channels
+ * - Shape continuous values with the configured curve and output range
+ * - Handle button behaviors (toggle, momentary, trigger, cycle, long-press,
+ *   double-tap) and custom on/off values
+ * - Adapt values to the output message type (CC, Note, Program Change, ...)
+ * - Fan a control out to its additional output targets
+ * - Switch between the base and shift mapping layers
+ * - Page the physical track strips between track banks
+ * - Turn off the other buttons of a radio-button group
+ * - Announce presses of scene buttons, lighting the recalled scene's button
+ * - Ignore mapping slots the device profile has no hardware control for
  * - Track button states for toggle buttons
  * - Emit events for processed messages and state changes
  */
@@ -19,11 +28,34 @@ import type {
   TrackMapping,
   TransportMapping,
   ButtonBehavior,
+  OutputType,
+  ShiftLayer,
   ControlType,
   TransportControlType,
+  DeviceProfile,
 } from './types.js';
-import { MIDI_VALUE_ON, MIDI_VALUE_OFF, hasLed } from './types.js';
-import { isContinuousControl } from './constants.js';
+import {
+  MIDI_VALUE_ON,
+  MIDI_VALUE_OFF,
+  DEFAULT_LONG_PRESS_MS,
+  DEFAULT_DOUBLE_TAP_MS,
+  TRIGGER_PULSE_MS,
+  hasLed,
+} from './types.js';
+import {
+  TRACK_CONSTANTS,
+  isContinuousControl,
+  isHighResOutputType,
+  getBankCount,
+  getBankTracks,
+  getBankPosition,
+  getControlMapping,
+  hasProfileControl,
+  getProfileLedCC,
+} from './constants.js';
+import { transformContinuousValue, transformContinuousValue14 } from './curves.js';
+
+export { scaleToRange, applyCurve } from './curves.js';
 
 // =============================================================================
 // Types
@@ -37,20 +69,57 @@ import { isContinuousControl } from './constants.js';
 export interface ProcessedMessage {
   /** Original input CC number from hardware */
   inputCC: number;
-  /** Remapped output CC number */
+  /** Remapped output CC number (note number for note outputs) */
   outputCC: number;
   /** Output MIDI channel (1-indexed for display/sending) */
   channel: number;
-  /** CC value to send (0-127) */
+  /** Value to send (0-127): velocity for note outputs (0 = Note Off), program number for program outputs */
   value: number;
+  /** Output message type */
+  outputType: OutputType;
+  /** 14-bit value to send (0-16383), only for cc14/nrpn/rpn/pitchbend output types */
+  highResValue?: number | undefined;
+  /** NRPN/RPN parameter number, only for nrpn/rpn output types */
+  parameter?: number | undefined;
+  /** Glide time for 14-bit outputs (ms, 0 = off) */
+  smoothingMs?: number | undefined;
   /** Full control type identifier (e.g., 'track1.slider', 'transport.play') */
   controlType: string;
   /** Whether this control is a button */
   isButton: boolean;
   /** For toggle buttons, the new state after processing */
   buttonState?: boolean | undefined;
+  /** For cycle buttons, the new position in the cycle's values */
+  cycleStep?: number | undefined;
   /** Optional label from mapping configuration */
   label?: string | undefined;
+  /** Additional 7-bit CC outputs, from the mapping's targets */
+  targets?: ProcessedTarget[] | undefined;
+  /** Off messages for the buttons of the control's radio group it turned off, to send before this one */
+  released?: ProcessedMessage[] | undefined;
+}
+
+/**
+ * An additional output of a processed message (one-to-many mapping).
+ */
+export interface ProcessedTarget {
+  /** Output CC number */
+  outputCC: number;
+  /** Output MIDI channel (1-indexed) */
+  channel: number;
+  /** CC value to send (0-127) */
+  value: number;
+}
+
+/**
+ * How a control value set from outside the hardware is applied (see
+ * MappingEngine.processControl).
+ */
+export interface ControlSetOptions {
+  /** A click in the GUI: trigger, long-press and double-tap buttons fire as if tapped on the hardware */
+  press?: boolean | undefined;
+  /** Position of a cycle button in its values to go to (e.g., saved in a preset) */
+  cycleStep?: number | undefined;
 }
 
 /**
@@ -65,6 +134,34 @@ export interface ButtonStateChangeEvent {
   controlType: string;
 }
 
+/**
+ * Event emitted when the shift layer is activated or deactivated.
+ */
+export interface ShiftChangeEvent {
+  /** Whether the shift layer is now active */
+  active: boolean;
+}
+
+/**
+ * Event emitted when the physical strips are paged to another track bank.
+ */
+export interface BankChangeEvent {
+  /** Active bank (0 = tracks 1-8) */
+  bank: number;
+  /** Bank that was active before */
+  previousBank: number;
+  /** Number of banks in the mapping */
+  bankCount: number;
+}
+
+/**
+ * Event emitted when a scene button is pressed.
+ */
+export interface SceneRecallEvent {
+  /** Index of the scene in the mapping's scenes */
+  scene: number;
+}
+
 /**
  * Internal structure for fast CC lookup.
  * Maps input CC to its mapping entry and metadata.
@@ -80,6 +177,74 @@ interface MappingLookupEntry {
   behavior?: ButtonBehavior | undefined;
 }
 
+// =============================================================================
+// Value Transformation
+// =============================================================================
+
+/**
+ * Gets the CC value a button sends for a given state.
+ * Uses the mapping's onValue/offValue if configured, otherwise 127/0.
+ *
+ * @param mapping - The button's mapping entry
+ * @param isOn - The button state
+ * @returns Output value (0-127)
+ */
+export function getButtonOutputValue(mapping: MappingEntry, isOn: boolean): number {
+  const value = isOn ? mapping.onValue ?? MIDI_VALUE_ON : mapping.offValue ?? MIDI_VALUE_OFF;
+  return Math.max(MIDI_VALUE_OFF, Math.min(MIDI_VALUE_ON, value));
+}
+
+/**
+ * Checks whether a processed message's primary output should be sent.
+ * Program Change buttons send only on press; every other message is sent.
+ * Additional targets are always sent.
+ *
+ * @param processed - The processed message
+ * @returns True if the message should be sent
+ */
+export function shouldSendOutput(processed: ProcessedMessage): boolean {
+  return !(processed.outputType === 'program' && processed.isButton && processed.buttonState === false);
+}
+
+/**
+ * Interprets a CC value received from the DAW as a button state.
+ * A value equal to the mapping's off value (default 0) means off; anything else is on.
+ *
+ * @param mapping - The button's mapping entry
+ * @param value - CC value received from the DAW (0-127)
+ * @returns True if the value represents the ON state
+ */
+export function isButtonOutputOn(mapping: MappingEntry, value: number): boolean {
+  return value !== (mapping.offValue ?? MIDI_VALUE_OFF) && value > MIDI_VALUE_OFF;
+}
+
+// =============================================================================
+// Input Keys
+// =============================================================================
+
+/** Number of CCs per channel, used to give each (channel, CC) pair its own key */
+const CC_COUNT = 128;
+
+/**
+ * Gets the key a control's input is looked up by.
+ * Controls that accept any channel are keyed by their CC alone (0-127);
+ * controls bound to one channel get a key per (channel, CC) pair.
+ *
+ * @param inputCC - Input CC number (0-127)
+ * @param inputChannel - Expected input channel (1-16), or undefined for any channel
+ * @returns Lookup key
+ */
+function getInputKey(inputCC: number, inputChannel?: number): number {
+  return inputChannel === undefined ? inputCC : inputChannel * CC_COUNT + inputCC;
+}
+
+/**
+ * Gets the input key of a mapping entry.
+ */
+function getMappingInputKey(mapping: MappingEntry): number {
+  return getInputKey(mapping.inputCC, mapping.inputChannel);
+}
+
 // =============================================================================
 // MappingEngine Class
 // =============================================================================
@@ -90,6 +255,11 @@ interface MappingLookupEntry {
  * Events emitted:
  * - 'output': Remapped CC ready to send (ProcessedMessage)
  * - 'buttonStateChanged': Button toggle state changed (ButtonStateChangeEvent)
+ * - 'shiftChanged': Shift layer activated/deactivated (ShiftChangeEvent)
+ * - 'bankChanged': Track strips paged to another bank (BankChangeEvent)
+ * - 'sceneRecall': Scene button pressed (SceneRecallEvent)
+ * - 'timedOutput': Button output produced by a timer (trigger release, long
+ *   press, single tap) rather than returned by processCC (ProcessedMessage)
  *
  * @example
  * const engine = new MappingEngine(config);
@@ -111,82 +281,193 @@ export class MappingEngine extends EventEmitter {
   /** Current mapping configuration */
   private config: MappingConfig;
 
-  /** Button toggle states: inputCC -> isOn */
+  /** Device profile; slots without a hardware control are skipped (undefined = nanoKONTROL2 layout) */
+  private profile: DeviceProfile | undefined;
+
+  /** Button toggle states of the active layer: input key -> isOn */
   private buttonStates: Map<number, boolean> = new Map();
 
-  /** Fast lookup map: inputCC -> mapping info */
-  private ccToMapping: Map<number, MappingLookupEntry> = new Map();
+  /** Button toggle states of the inactive layer, swapped in when the layer changes */
+  private inactiveButtonStates: Map<number, boolean> = new Map();
+
+  /** Fast lookup map: input key (see getInputKey) -> mapping info */
+  private inputToMapping: Map<number, MappingLookupEntry> = new Map();
+
+  /** Shift layer lookup map: input key -> mapping info (only controls the layer overrides) */
+  private shiftInputToMapping: Map<number, MappingLookupEntry> = new Map();
+
+  /** Input key of the shift button, or null if the config has no shift layer */
+  private shiftKey: number | null = null;
+
+  /** Whether the shift layer is active */
+  private shiftActive = false;
+
+  /** Reverse lookup map: control type (e.g., 'track1.knob') -> input key */
+  private controlTypeToInput: Map<string, number> = new Map();
+
+  /** Active track bank (0 = tracks 1-8) */
+  private bank = 0;
+
+  /** Track button states of inactive banks: bank -> (input key -> isOn) */
+  private bankButtonStates: Map<number, Map<number, boolean>> = new Map();
+
+  /** Last input value of each knob/slider across all banks: control type (e.g., 'track9.knob') -> value */
+  private controlValues: Map<string, number> = new Map();
+
+  /** Input keys of track_left/track_right while the mapping pages banks, otherwise null */
+  private pageLeftKey: number | null = null;
+  private pageRightKey: number | null = null;
+
+  /** Radio-button groups: member control type -> control types of the group's other buttons */
+  private groupPeers: Map<string, string[]> = new Map();
+
+  /** Scene buttons: input key -> scene index */
+  private sceneKeys: Map<number, number> = new Map();
+
+  /** Pending long-press / double-tap detection and trigger pulses: input key -> timer */
+  private gestureTimers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  /** Trigger pulses waiting for their off value: input key -> ends the pulse now */
+  private pulseEnds: Map<number, () => void> = new Map();
+
+  /** Long-press buttons held past their threshold (sending their alternate output) */
+  private longPressed: Set<number> = new Set();
+
+  /** Current position of each cycle button in its values: control type -> index */
+  private cycleIndexes: Map<string, number> = new Map();
 
   /**
    * Creates a new MappingEngine with the given configuration.
    *
    * @param config - The mapping configuration to use
+   * @param profile - Profile of the device the engine runs for (default: nanoKONTROL2 layout)
    */
-  constructor(config: MappingConfig) {
+  constructor(config: MappingConfig, profile?: DeviceProfile) {
     super();
     this.config = config;
+    this.profile = profile;
     this.buildLookupMap();
   }
 
   /**
    * Processes an incoming CC message from hardware.
    *
-   * Looks up the mapping for the input CC, applies any transformations
-   * (toggle behavior, channel remapping), and emits the processed result.
+   * Looks up the mapping for the input channel and CC, applies any transformations
+   * (curve shaping, value range scaling, toggle behavior, button on/off values, channel
+   * remapping), and emits the processed result. A control bound to the message's
+   * channel takes precedence over one that accepts any channel.
    *
    * @param channel - Input MIDI channel (0-indexed from easymidi)
    * @param cc - Input CC number (0-127)
    * @param value - Input CC value (0-127)
-   * @returns ProcessedMessage if CC is mapped, null if not mapped
+   * @returns ProcessedMessage if CC is mapped, null if not mapped or it is the shift, a paging or a scene button
    */
-  processCC(_channel: number, cc: number, value: number): ProcessedMessage | null {
-    const lookupEntry = this.ccToMapping.get(cc);
+  processCC(channel: number, cc: number, value: number): ProcessedMessage | null {
+    const key = this.findInputKey(cc, channel + 1);
+    if (key === undefined) {
+      // CC is not mapped on this channel - ignore it
+      return null;
+    }
+
+    if (key === this.pageLeftKey || key === this.pageRightKey) {
+      if (value >= 64) {
+        this.setBank(this.bank + (key === this.pageLeftKey ? -1 : 1));
+      }
+      return null;
+    }
+
+    if (key === this.shiftKey) {
+      this.processShiftInput(value);
+      return null;
+    }
+
+    const scene = this.sceneKeys.get(key);
+    if (scene !== undefined) {
+      if (value >= 64) {
+        const event: SceneRecallEvent = { scene };
+        this.emit('sceneRecall', event);
+      }
+      return null;
+    }
+
+    const lookupEntry = this.getLookupEntry(key);
 
     if (!lookupEntry) {
-      // CC is not mapped - ignore it
       return null;
     }
 
-    const { mapping, controlType, isButton, behavior } = lookupEntry;
+    if (!lookupEntry.isButton) {
+      return this.emitContinuousOutput(lookupEntry, value);
+    }
 
-    let outputValue = value;
-    let buttonState: boolean | undefined;
+    return this.processButtonInput(key, value, lookupEntry);
+  }
 
-    if (isButton) {
-      const processedButton = this.processButtonInput(cc, value, behavior);
-      if (processedButton === null) {
-        // Button input should be ignored (e.g., release on toggle button)
-        return null;
-      }
-      outputValue = processedButton.outputValue;
-      buttonState = processedButton.buttonState;
+  /**
+   * Processes a value set from outside the hardware (e.g., the GUI or a
+   * preset load) for a control identified by its control type.
+   *
+   * Continuous controls are scaled exactly as hardware input would be.
+   * For buttons the value is the desired state (> 0 = on) rather than a
+   * press/release, so toggle logic is bypassed and the state is set directly.
+   *
+   * Tracks of inactive banks (e.g., 'track9.knob' while tracks 1-8 are
+   * active) are sent with their own mapping and their state is kept for
+   * when the bank is paged in.
+   *
+   * Turning on a button of a radio group turns the group's other buttons off.
+   * Trigger, long-press and double-tap buttons have no state to set, so they
+   * only fire when the value comes from a GUI click (options.press), as a tap
+   * on the hardware would. Cycle buttons go to options.cycleStep if given,
+   * else to their second value (> 0) or their first value (0); they never
+   * step forward, so restoring a state is repeatable.
+   *
+   * @param controlType - Full control type identifier (e.g., 'track1.knob', 'transport.play')
+   * @param value - Control value (0-127), or button state for buttons
+   * @returns ProcessedMessage if the control is mapped, null otherwise
+   */
+  processControl(controlType: string, value: number, options: ControlSetOptions = {}): ProcessedMessage | null {
+    const key = this.controlTypeToInput.get(controlType);
+    const lookupEntry = key !== undefined ? this.getLookupEntry(key) : undefined;
+
+    if (key === undefined || !lookupEntry) {
+      return this.processInactiveBankControl(controlType, value, options);
     }
 
-    const processedMessage: ProcessedMessage = {
-      inputCC: cc,
-      outputCC: mapping.outputCC,
-      channel: mapping.channel,
-      value: outputValue,
-      controlType,
-      isButton,
-      buttonState,
-      label: mapping.label,
-    };
+    if (key === this.shiftKey || key === this.pageLeftKey || key === this.pageRightKey || this.sceneKeys.has(key)) {
+      return null;
+    }
 
-    // Emit the processed message
-    this.emit('output', processedMessage);
+    if (!lookupEntry.isButton) {
+      return this.emitContinuousOutput(lookupEntry, value);
+    }
 
-    return processedMessage;
+    const isOn = value > 0;
+    switch (lookupEntry.behavior) {
+      case 'trigger':
+      case 'longpress':
+      case 'doubletap':
+        return options.press ? this.processTap(key, lookupEntry) : null;
+      case 'cycle':
+        return this.emitCycleValue(key, lookupEntry, options.cycleStep ?? (isOn ? 1 : 0));
+    }
+
+    this.setKeyState(key, isOn);
+
+    const released = isOn ? this.releaseGroupPeers(lookupEntry.controlType) : undefined;
+    return this.emitButtonOutput(lookupEntry, isOn, released);
   }
 
   /**
    * Gets the current state of a toggle button.
    *
    * @param inputCC - The input CC number to check
+   * @param channel - Input channel (1-16) the button listens on, if it is bound to one
    * @returns True if button is on, false if off or not a tracked button
    */
-  getButtonState(inputCC: number): boolean {
-    return this.buttonStates.get(inputCC) ?? false;
+  getButtonState(inputCC: number, channel?: number): boolean {
+    const key = this.findInputKey(inputCC, channel);
+    return key !== undefined ? this.buttonStates.get(key) ?? false : false;
   }
 
   /**
@@ -195,23 +476,12 @@ export class MappingEngine extends EventEmitter {
    *
    * @param inputCC - The input CC number
    * @param isOn - The new state
+   * @param channel - Input channel (1-16) the button listens on, if it is bound to one
    */
-  setButtonState(inputCC: number, isOn: boolean): void {
-    const lookupEntry = this.ccToMapping.get(inputCC);
-    if (!lookupEntry?.isButton) {
-      return;
-    }
-
-    const previousState = this.buttonStates.get(inputCC) ?? false;
-    this.buttonStates.set(inputCC, isOn);
-
-    if (previousState !== isOn) {
-      const event: ButtonStateChangeEvent = {
-        cc: inputCC,
-        isOn,
-        controlType: lookupEntry.controlType,
-      };
-      this.emit('buttonStateChanged', event);
+  setButtonState(inputCC: number, isOn: boolean, channel?: number): void {
+    const key = this.findInputKey(inputCC, channel);
+    if (key !== undefined) {
+      this.setKeyState(key, isOn);
     }
   }
 
@@ -220,13 +490,13 @@ export class MappingEngine extends EventEmitter {
    * Useful when reconnecting to ensure consistent state.
    */
   resetButtonStates(): void {
-    for (const [cc, wasOn] of this.buttonStates) {
+    for (const [key, wasOn] of this.buttonStates) {
       if (wasOn) {
-        this.buttonStates.set(cc, false);
-        const lookupEntry = this.ccToMapping.get(cc);
+        this.buttonStates.set(key, false);
+        const lookupEntry = this.getLookupEntry(key);
         if (lookupEntry) {
           const event: ButtonStateChangeEvent = {
-            cc,
+            cc: lookupEntry.mapping.inputCC,
             isOn: false,
             controlType: lookupEntry.controlType,
           };
@@ -236,42 +506,236 @@ export class MappingEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Cancels pending long-press/double-tap gestures and trigger pulses,
+   * so no 'timedOutput' follows (e.g., when the unit disconnects).
+   */
+  cancelTimedOutputs(): void {
+    for (const timer of this.gestureTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.gestureTimers.clear();
+    this.pulseEnds.clear();
+  }
+
   /**
    * Gets all button CC numbers that have LEDs.
    *
    * @returns Array of input CC numbers for buttons with LEDs
    */
   getButtonCCs(): number[] {
-    const buttonCCs: number[] = [];
+    const buttonCCs = new Set<number>();
 
-    for (const [cc, entry] of this.ccToMapping) {
-      if (entry.isButton && hasLed(cc)) {
-        buttonCCs.push(cc);
+    for (const entry of this.inputToMapping.values()) {
+      const { inputCC } = entry.mapping;
+      const hasLedCC = this.profile ? getProfileLedCC(this.profile, inputCC) !== undefined : hasLed(inputCC);
+      if (entry.isButton && hasLedCC) {
+        buttonCCs.add(entry.mapping.inputCC);
       }
     }
 
-    return buttonCCs;
+    return [...buttonCCs];
   }
 
   /**
    * Updates the mapping configuration.
    * Rebuilds the lookup map and preserves button states where possible.
+   * Stays on the active bank unless the new config no longer has it.
    *
    * @param config - The new mapping configuration
    */
   updateConfig(config: MappingConfig): void {
-    // Save current button states for any CCs that still exist
-    const previousStates = new Map(this.buttonStates);
+    // Save current button states (per layer) for any CCs that still exist
+    const wasShiftActive = this.shiftActive;
+    const previousStates = new Map(wasShiftActive ? this.inactiveButtonStates : this.buttonStates);
+    const previousShiftStates = new Map(wasShiftActive ? this.buttonStates : this.inactiveButtonStates);
+    const previousBank = this.bank;
+    const previousBankCount = getBankCount(this.config);
 
     this.config = config;
+    const bankCount = getBankCount(config);
+    if (this.bank >= bankCount) {
+      this.bank = 0;
+    }
+    for (const bank of this.bankButtonStates.keys()) {
+      if (bank >= bankCount) {
+        this.bankButtonStates.delete(bank);
+      }
+    }
     this.buildLookupMap();
 
     // Restore button states for CCs that still exist in new config
-    for (const [cc, wasOn] of previousStates) {
-      if (this.ccToMapping.has(cc) && this.ccToMapping.get(cc)?.isButton) {
-        this.buttonStates.set(cc, wasOn);
+    for (const [key, wasOn] of previousStates) {
+      if (this.inputToMapping.get(key)?.isButton && key !== this.shiftKey) {
+        this.buttonStates.set(key, wasOn);
+      }
+    }
+    for (const [key, wasOn] of previousShiftStates) {
+      if (this.inputToMapping.get(key)?.isButton && key !== this.shiftKey) {
+        this.inactiveButtonStates.set(key, wasOn);
+      }
+    }
+
+    if (this.bank !== previousBank) {
+      this.restoreTrackButtonStates();
+      this.inactiveButtonStates = new Map(this.buttonStates);
+    }
+
+    // Stay on the shift layer if the new config still has one
+    if (wasShiftActive && this.bank === previousBank) {
+      this.setShiftActive(true);
+    }
+
+    if (this.bank !== previousBank || bankCount !== previousBankCount) {
+      const event: BankChangeEvent = { bank: this.bank, previousBank, bankCount };
+      this.emit('bankChanged', event);
+    }
+  }
+
+  /**
+   * Switches the device profile, e.g. when the device is bound to another model.
+   * Rebuilds the lookup map like updateConfig.
+   */
+  setProfile(profile: DeviceProfile | undefined): void {
+    this.profile = profile;
+    this.updateConfig(this.config);
+  }
+
+  /**
+   * Activates or deactivates the shift layer.
+   * Button LEDs are refreshed for buttons whose state differs between layers.
+   * Does nothing if the config has no shift layer.
+   *
+   * @param active - Whether the shift layer should be active
+   */
+  setShiftActive(active: boolean): void {
+    if (this.shiftKey === null || active === this.shiftActive) {
+      return;
+    }
+
+    this.shiftActive = active;
+    const previousStates = this.buttonStates;
+    this.buttonStates = this.inactiveButtonStates;
+    this.inactiveButtonStates = previousStates;
+
+    for (const [key, isOn] of this.buttonStates) {
+      const lookupEntry = this.getLookupEntry(key);
+      if (key !== this.shiftKey && lookupEntry && (previousStates.get(key) ?? false) !== isOn) {
+        const event: ButtonStateChangeEvent = { cc: lookupEntry.mapping.inputCC, isOn, controlType: lookupEntry.controlType };
+        this.emit('buttonStateChanged', event);
       }
     }
+
+    // The shift button's own state (and LED) follows the layer
+    this.setKeyState(this.shiftKey, active);
+    this.inactiveButtonStates.set(this.shiftKey, active);
+
+    const event: ShiftChangeEvent = { active };
+    this.emit('shiftChanged', event);
+  }
+
+  /**
+   * Checks whether the shift layer is active.
+   *
+   * @returns True if shift is held or latched
+   */
+  isShiftActive(): boolean {
+    return this.shiftActive;
+  }
+
+  /**
+   * Pages the physical track strips to a bank.
+   * The bank's stored button states are restored (refreshing their LEDs)
+   * and the shift layer is released. Does nothing if the bank doesn't exist.
+   *
+   * @param bank - Bank index (0 = tracks 1-8)
+   */
+  setBank(bank: number): void {
+    if (bank === this.bank || bank < 0 || !getBankTracks(this.config, bank)) {
+      return;
+    }
+
+    this.setShiftActive(false);
+
+    const previousBank = this.bank;
+    const previousStates = new Map(this.buttonStates);
+    this.bankButtonStates.set(previousBank, this.getTrackButtonStates());
+
+    this.bank = bank;
+    this.buildLookupMap();
+
+    for (const [key, wasOn] of previousStates) {
+      if (this.inputToMapping.get(key)?.isButton) {
+        this.buttonStates.set(key, wasOn);
+      }
+    }
+    this.restoreTrackButtonStates();
+    this.inactiveButtonStates = new Map(this.buttonStates);
+
+    for (const [key, isOn] of this.getTrackButtonStates()) {
+      const lookupEntry = this.inputToMapping.get(key);
+      if (lookupEntry && (previousStates.get(key) ?? false) !== isOn) {
+        const event: ButtonStateChangeEvent = { cc: lookupEntry.mapping.inputCC, isOn, controlType: lookupEntry.controlType };
+        this.emit('buttonStateChanged', event);
+      }
+    }
+
+    const event: BankChangeEvent = { bank, previousBank, bankCount: getBankCount(this.config) };
+    this.emit('bankChanged', event);
+  }
+
+  /**
+   * Gets the active track bank.
+   *
+   * @returns Bank index (0 = tracks 1-8)
+   */
+  getBank(): number {
+    return this.bank;
+  }
+
+  /**
+   * Lights the button of the recalled scene and turns the other scene buttons off.
+   *
+   * @param scene - Index of the recalled scene, or null for none
+   */
+  setActiveScene(scene: number | null): void {
+    for (const [key, index] of this.sceneKeys) {
+      this.setKeyState(key, index === scene);
+    }
+  }
+
+  /**
+   * Gets the last known values of the active bank's track controls.
+   * Buttons report 127/0; knobs/sliders that were never moved or set are omitted.
+   *
+   * @returns Values by control type (e.g., 'track9.knob' -> 64)
+   */
+  getBankValues(): Record<string, number> {
+    const values: Record<string, number> = {};
+
+    for (const [key, entry] of this.inputToMapping) {
+      if (!entry.controlType.startsWith('track')) {
+        continue;
+      }
+      const value = entry.isButton
+        ? this.buttonStates.get(key) ? MIDI_VALUE_ON : MIDI_VALUE_OFF
+        : this.controlValues.get(entry.controlType);
+      if (value !== undefined) {
+        values[entry.controlType] = value;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Gets the last value received for a knob or slider, in any bank.
+   *
+   * @param controlType - Full control type identifier (e.g., 'track9.knob')
+   * @returns The input value (0-127), or undefined if the control hasn't been moved or set
+   */
+  getControlValue(controlType: string): number | undefined {
+    return this.controlValues.get(controlType);
   }
 
   /**
@@ -289,7 +753,63 @@ export class MappingEngine extends EventEmitter {
    * @returns Number of CC mappings
    */
   getMappingCount(): number {
-    return this.ccToMapping.size;
+    return this.inputToMapping.size;
+  }
+
+  /**
+   * Gets the control type mapped to an input CC.
+   *
+   * @param inputCC - The input CC number
+   * @param channel - Input channel (1-16) the CC was received on; omit to match any channel
+   * @returns Full control type identifier (e.g., 'track1.knob'), or null if not mapped
+   */
+  getControlType(inputCC: number, channel?: number): string | null {
+    const key = this.findInputKey(inputCC, channel);
+    return key !== undefined ? this.inputToMapping.get(key)?.controlType ?? null : null;
+  }
+
+  /**
+   * Finds the button controls whose output matches a CC sent back by the DAW.
+   * Only the active layer is searched. Used to reverse-map LED feedback from the output CC/channel to the hardware CC.
+   *
+   * @param channel - MIDI channel (1-16)
+   * @param outputCC - The output CC number
+   * @returns Mapping info for each matching button (input CC and channel, control type, entry)
+   */
+  findButtonsByOutput(
+    channel: number,
+    outputCC: number
+  ): Array<{ inputCC: number; inputChannel?: number | undefined; controlType: string; mapping: MappingEntry }> {
+    const matches: Array<{ inputCC: number; inputChannel?: number | undefined; controlType: string; mapping: MappingEntry }> = [];
+
+    for (const key of this.inputToMapping.keys()) {
+      const entry = this.getLookupEntry(key);
+      if (!entry || key === this.shiftKey || this.sceneKeys.has(key)) {
+        continue;
+      }
+      if (entry.isButton && entry.mapping.channel === channel && entry.mapping.outputCC === outputCC) {
+        matches.push({
+          inputCC: entry.mapping.inputCC,
+          inputChannel: entry.mapping.inputChannel,
+          controlType: entry.controlType,
+          mapping: entry.mapping,
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Checks if an input CC is mapped to a button.
+   *
+   * @param inputCC - The input CC number
+   * @param channel - Input channel (1-16) the CC was received on; omit to match any channel
+   * @returns True if the CC is mapped to a button control
+   */
+  isButtonCC(inputCC: number, channel?: number): boolean {
+    const key = this.findInputKey(inputCC, channel);
+    return key !== undefined ? this.inputToMapping.get(key)?.isButton ?? false : false;
   }
 
   // ===========================================================================
@@ -298,23 +818,288 @@ export class MappingEngine extends EventEmitter {
 
   /**
    * Builds the fast lookup map from the configuration.
-   * Creates O(1) lookup from input CC to mapping info.
+   * Creates O(1) lookup from input key to mapping info.
    */
   private buildLookupMap(): void {
-    this.ccToMapping.clear();
+    // Pending gestures and trigger pulses belong to the old mappings
+    this.cancelTimedOutputs();
+    this.longPressed.clear();
+
+    this.inputToMapping.clear();
+    this.shiftInputToMapping.clear();
+    this.controlTypeToInput.clear();
     this.buttonStates.clear();
+    this.shiftKey = null;
+    this.shiftActive = false;
 
-    // Process track mappings
-    for (let trackIndex = 0; trackIndex < this.config.tracks.length; trackIndex++) {
-      const track = this.config.tracks[trackIndex];
+    // Process the active bank's track mappings (tracks 9-16 for bank 1, ...)
+    const tracks = getBankTracks(this.config, this.bank) ?? this.config.tracks;
+    for (let trackIndex = 0; trackIndex < tracks.length; trackIndex++) {
+      const track = tracks[trackIndex];
       if (!track) continue;
 
-      const trackNumber = trackIndex + 1;
+      const trackNumber = this.bank * TRACK_CONSTANTS.COUNT + trackIndex + 1;
       this.addTrackMappings(track, trackNumber);
     }
 
     // Process transport mappings
     this.addTransportMappings(this.config.transport);
+
+    // With banks, track_left/track_right page instead of sending
+    const isPaging = getBankCount(this.config) > 1;
+    this.pageLeftKey = isPaging ? this.controlTypeToInput.get('transport.track_left') ?? null : null;
+    this.pageRightKey = isPaging ? this.controlTypeToInput.get('transport.track_right') ?? null : null;
+
+    // Process the shift layer
+    if (this.config.shift) {
+      this.addShiftMappings(this.config.shift);
+    }
+    this.inactiveButtonStates = new Map(this.buttonStates);
+
+    // Process the radio-button groups
+    this.groupPeers.clear();
+    for (const group of this.config.groups ?? []) {
+      for (const button of group.buttons) {
+        this.groupPeers.set(button, group.buttons.filter((peer) => peer !== button));
+      }
+    }
+
+    // Process the scene buttons
+    this.sceneKeys.clear();
+    (this.config.scenes ?? []).forEach((scene, index) => {
+      if (!scene.button) return;
+
+      const key = this.controlTypeToInput.get(scene.button);
+      const isFree = key !== this.shiftKey && key !== this.pageLeftKey && key !== this.pageRightKey;
+      if (key === undefined || !this.inputToMapping.get(key)?.isButton || !isFree || this.sceneKeys.has(key)) {
+        console.warn(`[mapping-engine] Scene button ${scene.button} is not a free mapped button, ignoring it`);
+        return;
+      }
+      this.sceneKeys.set(key, index);
+    });
+  }
+
+  /**
+   * Adds the shift layer's overrides to the shift lookup map.
+   * Entries are keyed by the base control's input key, since the layer
+   * remaps the same physical controls.
+   */
+  private addShiftMappings(shift: ShiftLayer): void {
+    const shiftKey = this.controlTypeToInput.get(shift.button);
+    if (shiftKey === undefined || !this.inputToMapping.get(shiftKey)?.isButton) {
+      console.warn(`[mapping-engine] Shift button ${shift.button} is not a mapped button, ignoring shift layer`);
+      return;
+    }
+    this.shiftKey = shiftKey;
+
+    // Track overrides apply to the strips of whichever bank is active
+    const overrides: Array<[string, MappingEntry | undefined]> = [];
+    shift.tracks.forEach((track, index) => {
+      const trackNumber = this.bank * TRACK_CONSTANTS.COUNT + index + 1;
+      for (const [controlType, mapping] of Object.entries(track)) {
+        overrides.push([`track${trackNumber}.${controlType}`, mapping]);
+      }
+    });
+    for (const [controlType, mapping] of Object.entries(shift.transport)) {
+      overrides.push([`transport.${controlType}`, mapping]);
+    }
+
+    for (const [controlType, mapping] of overrides) {
+      const key = this.controlTypeToInput.get(controlType);
+      const baseEntry = key !== undefined ? this.inputToMapping.get(key) : undefined;
+      if (!mapping || key === undefined || !baseEntry) {
+        continue;
+      }
+      this.shiftInputToMapping.set(key, {
+        mapping,
+        controlType,
+        isButton: baseEntry.isButton,
+        behavior: mapping.behavior,
+      });
+    }
+  }
+
+  /**
+   * Finds the input key a CC received on a channel is mapped under.
+   * A control bound to the channel wins over one that accepts any channel.
+   * Without a channel, the control that accepts any channel is preferred,
+   * then the first control bound to some channel.
+   *
+   * @param cc - Input CC number (0-127)
+   * @param channel - Input channel (1-16), or undefined if unknown
+   * @returns The input key, or undefined if the CC is not mapped
+   */
+  private findInputKey(cc: number, channel?: number): number | undefined {
+    if (channel !== undefined) {
+      const key = getInputKey(cc, channel);
+      if (this.inputToMapping.has(key)) {
+        return key;
+      }
+      return this.inputToMapping.has(cc) ? cc : undefined;
+    }
+
+    if (this.inputToMapping.has(cc)) {
+      return cc;
+    }
+    for (const key of this.inputToMapping.keys()) {
+      if (key % CC_COUNT === cc) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Sets the state of a button by its input key, emitting the change.
+   */
+  private setKeyState(key: number, isOn: boolean): void {
+    const lookupEntry = this.getLookupEntry(key);
+    if (!lookupEntry?.isButton) {
+      return;
+    }
+
+    const previousState = this.buttonStates.get(key) ?? false;
+    this.buttonStates.set(key, isOn);
+
+    if (previousState !== isOn) {
+      const event: ButtonStateChangeEvent = {
+        cc: lookupEntry.mapping.inputCC,
+        isOn,
+        controlType: lookupEntry.controlType,
+      };
+      this.emit('buttonStateChanged', event);
+    }
+  }
+
+  /**
+   * Looks up the mapping for an input key in the active layer.
+   * Controls the shift layer doesn't override fall back to the base mapping.
+   */
+  private getLookupEntry(key: number): MappingLookupEntry | undefined {
+    return (this.shiftActive ? this.shiftInputToMapping.get(key) : undefined) ?? this.inputToMapping.get(key);
+  }
+
+  /**
+   * Handles a press/release of the shift button according to the layer's mode.
+   */
+  private processShiftInput(value: number): void {
+    const isPress = value >= 64;
+
+    if (this.config.shift?.mode === 'latch') {
+      if (isPress) {
+        this.setShiftActive(!this.shiftActive);
+      }
+      return;
+    }
+
+    this.setShiftActive(isPress);
+  }
+
+  /**
+   * Gets the button states of the active bank's track strips.
+   */
+  private getTrackButtonStates(): Map<number, boolean> {
+    const states = new Map<number, boolean>();
+    for (const [key, entry] of this.inputToMapping) {
+      if (entry.isButton && entry.controlType.startsWith('track')) {
+        states.set(key, this.buttonStates.get(key) ?? false);
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Restores the active bank's stored track button states (off if never set).
+   */
+  private restoreTrackButtonStates(): void {
+    const stored = this.bankButtonStates.get(this.bank);
+    for (const key of this.getTrackButtonStates().keys()) {
+      this.buttonStates.set(key, stored?.get(key) ?? false);
+    }
+    this.bankButtonStates.delete(this.bank);
+  }
+
+  /**
+   * Sends a track control of an inactive bank with that bank's mapping.
+   * Button states are stored until the bank is paged in.
+   */
+  private processInactiveBankControl(controlType: string, value: number, options: ControlSetOptions): ProcessedMessage | null {
+    const match = /^track(\d+)\.(\w+)$/.exec(controlType);
+    if (!match) {
+      return null;
+    }
+
+    const { bank, strip } = getBankPosition(parseInt(match[1] ?? '', 10));
+    const control = match[2] as ControlType;
+    const mapping = getBankTracks(this.config, bank)?.[strip]?.[control];
+    if (bank === this.bank || !mapping) {
+      return null;
+    }
+
+    const isButton = !isContinuousControl(control);
+    const lookupEntry: MappingLookupEntry = { mapping, controlType, isButton, behavior: mapping.behavior };
+    if (!isButton) {
+      return this.emitContinuousOutput(lookupEntry, value);
+    }
+
+    // Timed buttons can only be tapped on the strips
+    if (mapping.behavior === 'trigger' || mapping.behavior === 'longpress' || mapping.behavior === 'doubletap') {
+      return null;
+    }
+
+    const states = this.bankButtonStates.get(bank) ?? new Map<number, boolean>();
+    this.bankButtonStates.set(bank, states);
+
+    if (mapping.behavior === 'cycle') {
+      const { step, value: cycleValue } = this.setCycleStep(controlType, mapping, options.cycleStep ?? (value > 0 ? 1 : 0));
+      states.set(getMappingInputKey(mapping), step > 0);
+      return this.emitCycleOutput(lookupEntry, cycleValue, step);
+    }
+
+    const isOn = value > 0;
+    states.set(getMappingInputKey(mapping), isOn);
+
+    const released = isOn ? this.releaseGroupPeers(controlType) : undefined;
+    return this.emitButtonOutput(lookupEntry, isOn, released);
+  }
+
+  /**
+   * Turns off the other buttons of a control's radio group, in the active
+   * layer or the bank they belong to. Each released button emits its off
+   * output and, if it is on the strips, its state change (for the LED).
+   *
+   * @returns Off messages for the released buttons, or undefined if none were on
+   */
+  private releaseGroupPeers(controlType: string): ProcessedMessage[] | undefined {
+    const released: ProcessedMessage[] = [];
+
+    for (const peer of this.groupPeers.get(controlType) ?? []) {
+      const key = this.controlTypeToInput.get(peer);
+      const lookupEntry = key !== undefined ? this.getLookupEntry(key) : undefined;
+      if (key === this.shiftKey || key === this.pageLeftKey || key === this.pageRightKey) {
+        continue;
+      }
+
+      if (key !== undefined && lookupEntry) {
+        if (this.buttonStates.get(key)) {
+          this.setKeyState(key, false);
+          released.push(this.emitButtonOutput(lookupEntry, false));
+        }
+        continue;
+      }
+
+      // Member on a bank that isn't paged in
+      const { bank } = getBankPosition(parseInt(/^track(\d+)\./.exec(peer)?.[1] ?? '', 10));
+      const mapping = getControlMapping(this.config, peer);
+      if (mapping && this.bankButtonStates.get(bank)?.get(getMappingInputKey(mapping))) {
+        const processed = this.processInactiveBankControl(peer, 0, {});
+        if (processed) {
+          released.push(processed);
+        }
+      }
+    }
+
+    return released.length > 0 ? released : undefined;
   }
 
   /**
@@ -327,8 +1112,11 @@ export class MappingEngine extends EventEmitter {
       const mapping = track[controlType];
       const isButton = !isContinuousControl(controlType);
       const fullControlType = `track${trackNumber}.${controlType}`;
+      if (this.profile && !hasProfileControl(this.profile, fullControlType)) {
+        continue;
+      }
 
-      this.ccToMapping.set(mapping.inputCC, {
+      const key = this.addLookupEntry({
         mapping,
         controlType: fullControlType,
         isButton,
@@ -337,7 +1125,7 @@ export class MappingEngine extends EventEmitter {
 
       // Initialize button state to off
       if (isButton) {
-        this.buttonStates.set(mapping.inputCC, false);
+        this.buttonStates.set(key, false);
       }
     }
   }
@@ -354,9 +1142,12 @@ export class MappingEngine extends EventEmitter {
     for (const controlType of transportControls) {
       const mapping = transport[controlType];
       const fullControlType = `transport.${controlType}`;
+      if (this.profile && !hasProfileControl(this.profile, fullControlType)) {
+        continue;
+      }
 
       // All transport controls are buttons
-      this.ccToMapping.set(mapping.inputCC, {
+      const key = this.addLookupEntry({
         mapping,
         controlType: fullControlType,
         isButton: true,
@@ -364,77 +1155,368 @@ export class MappingEngine extends EventEmitter {
       });
 
       // Initialize button state to off
-      this.buttonStates.set(mapping.inputCC, false);
+      this.buttonStates.set(key, false);
     }
   }
 
+  /**
+   * Adds a control to the lookup maps under its input key.
+   * Warns if another control already receives the same channel and CC;
+   * the later control wins.
+   *
+   * @returns The control's input key
+   */
+  private addLookupEntry(lookupEntry: MappingLookupEntry): number {
+    const { mapping, controlType } = lookupEntry;
+    const key = getMappingInputKey(mapping);
+
+    const existing = this.inputToMapping.get(key);
+    if (existing) {
+      const channel = mapping.inputChannel !== undefined ? `channel ${mapping.inputChannel}` : 'any channel';
+      console.warn(
+        `[mapping-engine] ${controlType} and ${existing.controlType} both receive CC ${mapping.inputCC} on ${channel}, ${existing.controlType} is ignored`
+      );
+    }
+
+    this.inputToMapping.set(key, lookupEntry);
+    this.controlTypeToInput.set(controlType, key);
+    return key;
+  }
+
+  /**
+   * Transforms a continuous control value (curve + range) and emits it.
+   * 14-bit output types also get a full-resolution value. Each additional
+   * target applies its own curve and range to the same control value.
+   * The input value is remembered so it survives bank paging.
+   */
+  private emitContinuousOutput(
+    lookupEntry: MappingLookupEntry,
+    value: number
+  ): ProcessedMessage {
+    const { mapping } = lookupEntry;
+    this.controlValues.set(lookupEntry.controlType, value);
+
+    const highResValue = isHighResOutputType(mapping.outputType)
+      ? transformContinuousValue14(value, mapping)
+      : undefined;
+    const targets = mapping.targets?.map((target) => ({
+      outputCC: target.outputCC,
+      channel: target.channel,
+      value: transformContinuousValue(value, target),
+    }));
+
+    return this.emitOutput(lookupEntry, transformContinuousValue(value, mapping), undefined, highResValue, targets);
+  }
+
+  /**
+   * Emits a button's on/off value for a state, to the primary output and
+   * every additional target.
+   */
+  private emitButtonOutput(
+    lookupEntry: MappingLookupEntry,
+    isOn: boolean,
+    released?: ProcessedMessage[]
+  ): ProcessedMessage {
+    const { mapping } = lookupEntry;
+    const value = getButtonOutputValue(mapping, isOn);
+    const targets = mapping.targets?.map((target) => ({
+      outputCC: target.outputCC,
+      channel: target.channel,
+      value,
+    }));
+
+    return this.emitOutput(lookupEntry, value, isOn, undefined, targets, released);
+  }
+
+  /**
+   * Builds a ProcessedMessage for a mapped control and emits it.
+   */
+  private emitOutput(
+    lookupEntry: MappingLookupEntry,
+    value: number,
+    buttonState?: boolean,
+    highResValue?: number,
+    targets?: ProcessedTarget[],
+    released?: ProcessedMessage[],
+    cycleStep?: number
+  ): ProcessedMessage {
+    const { mapping, controlType, isButton } = lookupEntry;
+    const outputType = mapping.outputType ?? 'cc';
+
+    // Buttons: Note outputs release with a Note Off, Program outputs select the program in outputCC
+    let outputValue = value;
+    if (isButton && outputType === 'note' && !buttonState) {
+      outputValue = MIDI_VALUE_OFF;
+    } else if (isButton && outputType === 'program') {
+      outputValue = mapping.outputCC;
+    }
+
+    const processedMessage: ProcessedMessage = {
+      inputCC: mapping.inputCC,
+      outputCC: mapping.outputCC,
+      channel: mapping.channel,
+      value: outputValue,
+      outputType,
+      highResValue,
+      parameter: outputType === 'nrpn' || outputType === 'rpn' ? mapping.parameter ?? 0 : undefined,
+      smoothingMs: highResValue !== undefined ? mapping.smoothingMs : undefined,
+      controlType,
+      isButton,
+      buttonState,
+      label: mapping.label,
+      targets: targets && targets.length > 0 ? targets : undefined,
+      released,
+      cycleStep,
+    };
+
+    // Emit the processed message
+    this.emit('output', processedMessage);
+
+    return processedMessage;
+  }
+
   /**
    * Processes button input according to its behavior mode.
    *
-   * Toggle buttons: On value >= 64, flip state and output 127 or 0
-   * Momentary buttons: Pass through value (127 on press, 0 on release)
+   * Toggle buttons: On value >= 64, flip state
+   * Momentary buttons: On while pressed, off on release
+   * Trigger buttons: On press, send on then (after a short pulse) off
+   * Cycle buttons: On press, send the next value of the cycle
+   * Long-press buttons: Released before the threshold, trigger the output;
+   *   held past it, send the alternate output until released
+   * Double-tap buttons: A second press within the window triggers the
+   *   alternate output, otherwise the output is triggered when the window ends
    *
-   * @param cc - Button CC number
+   * Outputs decided later by a timer are emitted as 'timedOutput' events.
+   *
+   * @param key - Button input key
    * @param value - Input value (0-127)
-   * @param behavior - Button behavior mode
-   * @returns Processed value and state, or null if input should be ignored
+   * @param lookupEntry - The button's mapping info
+   * @returns ProcessedMessage to send now, or null if input should be ignored
    */
   private processButtonInput(
-    cc: number,
+    key: number,
     value: number,
-    behavior: ButtonBehavior | undefined
-  ): { outputValue: number; buttonState: boolean } | null {
+    lookupEntry: MappingLookupEntry
+  ): ProcessedMessage | null {
     const isPress = value >= 64;
 
-    if (behavior === 'toggle') {
+    switch (lookupEntry.behavior) {
+      case 'trigger':
+        return isPress ? this.emitTrigger(key, lookupEntry) : null;
+      case 'cycle':
+        return isPress ? this.emitCycleValue(key, lookupEntry, (this.cycleIndexes.get(lookupEntry.controlType) ?? 0) + 1) : null;
+      case 'longpress':
+        return this.processLongPressInput(key, lookupEntry, isPress);
+      case 'doubletap':
+        return isPress ? this.processDoubleTapInput(key, lookupEntry) : null;
+    }
+
+    if (lookupEntry.behavior === 'toggle') {
       // Toggle buttons only respond to press events
       if (!isPress) {
         return null;
       }
 
       // Flip the state
-      const currentState = this.buttonStates.get(cc) ?? false;
+      const currentState = this.buttonStates.get(key) ?? false;
       const newState = !currentState;
-      this.buttonStates.set(cc, newState);
+      this.buttonStates.set(key, newState);
 
       // Emit state change event
-      const lookupEntry = this.ccToMapping.get(cc);
-      if (lookupEntry) {
-        const event: ButtonStateChangeEvent = {
-          cc,
-          isOn: newState,
-          controlType: lookupEntry.controlType,
-        };
-        this.emit('buttonStateChanged', event);
-      }
-
-      return {
-        outputValue: newState ? MIDI_VALUE_ON : MIDI_VALUE_OFF,
-        buttonState: newState,
+      const event: ButtonStateChangeEvent = {
+        cc: lookupEntry.mapping.inputCC,
+        isOn: newState,
+        controlType: lookupEntry.controlType,
       };
+      this.emit('buttonStateChanged', event);
+
+      const released = newState ? this.releaseGroupPeers(lookupEntry.controlType) : undefined;
+      return this.emitButtonOutput(lookupEntry, newState, released);
     }
 
-    // Momentary behavior: pass through with normalized values
-    const outputValue = isPress ? MIDI_VALUE_ON : MIDI_VALUE_OFF;
+    // Momentary behavior: on while pressed
     const buttonState = isPress;
 
     // Update button state (for LED tracking on momentary buttons)
-    this.buttonStates.set(cc, buttonState);
+    this.buttonStates.set(key, buttonState);
 
     // Emit state change for momentary buttons too (for LED feedback)
-    const lookupEntry = this.ccToMapping.get(cc);
-    if (lookupEntry) {
-      const event: ButtonStateChangeEvent = {
-        cc,
-        isOn: buttonState,
-        controlType: lookupEntry.controlType,
-      };
-      this.emit('buttonStateChanged', event);
+    const event: ButtonStateChangeEvent = {
+      cc: lookupEntry.mapping.inputCC,
+      isOn: buttonState,
+      controlType: lookupEntry.controlType,
+    };
+    this.emit('buttonStateChanged', event);
+
+    const released = buttonState ? this.releaseGroupPeers(lookupEntry.controlType) : undefined;
+    return this.emitButtonOutput(lookupEntry, buttonState, released);
+  }
+
+  /**
+   * Sends a button's on value now and its off value after TRIGGER_PULSE_MS
+   * (as a 'timedOutput'). The button (and LED) is on in between.
+   *
+   * @param alternate - Send to the mapping's altOutputCC instead of its output
+   */
+  private emitTrigger(key: number, lookupEntry: MappingLookupEntry, alternate = false): ProcessedMessage {
+    const outputEntry = alternate ? this.getAlternateEntry(lookupEntry) : lookupEntry;
+
+    // A new pulse replaces a pending one, which then sends no off value
+    this.clearPulse(key);
+    this.setTimedButtonState(key, lookupEntry, true);
+    const end = (): void => {
+      this.clearPulse(key);
+      this.setTimedButtonState(key, lookupEntry, false);
+      this.emit('timedOutput', this.emitButtonOutput(outputEntry, false));
+    };
+    this.gestureTimers.set(key, setTimeout(end, TRIGGER_PULSE_MS));
+    this.pulseEnds.set(key, end);
+
+    return this.emitButtonOutput(outputEntry, true);
+  }
+
+  /**
+   * Moves a cycle button to a position in its values (wrapping past the last
+   * one) and sends that value. The button (and LED) is on away from the first value.
+   */
+  private emitCycleValue(key: number, lookupEntry: MappingLookupEntry, step: number): ProcessedMessage {
+    const { step: index, value } = this.setCycleStep(lookupEntry.controlType, lookupEntry.mapping, step);
+    this.setKeyState(key, index > 0);
+    return this.emitCycleOutput(lookupEntry, value, index);
+  }
+
+  /**
+   * Records the position of a cycle button, wrapped into its values.
+   *
+   * @returns The position and the value at it
+   */
+  private setCycleStep(controlType: string, mapping: MappingEntry, step: number): { step: number; value: number } {
+    const values = mapping.cycleValues ?? [MIDI_VALUE_OFF, MIDI_VALUE_ON];
+    const index = step % values.length;
+    this.cycleIndexes.set(controlType, index);
+    return { step: index, value: values[index] ?? MIDI_VALUE_OFF };
+  }
+
+  /**
+   * Builds the output of a cycle button at a position, with its targets.
+   */
+  private emitCycleOutput(lookupEntry: MappingLookupEntry, value: number, step: number): ProcessedMessage {
+    const targets = lookupEntry.mapping.targets?.map((target) => ({ outputCC: target.outputCC, channel: target.channel, value }));
+    return this.emitOutput(lookupEntry, value, step > 0, undefined, targets, undefined, step);
+  }
+
+  /**
+   * Taps a trigger, long-press or double-tap button: a press then a release,
+   * as on the hardware. Outputs decided later arrive as 'timedOutput' events.
+   *
+   * @returns The output sent right away, or null if it is decided later
+   */
+  private processTap(key: number, lookupEntry: MappingLookupEntry): ProcessedMessage | null {
+    const pressed = this.processButtonInput(key, MIDI_VALUE_ON, lookupEntry);
+    const released = this.processButtonInput(key, MIDI_VALUE_OFF, lookupEntry);
+    return pressed ?? released;
+  }
+
+  /**
+   * Handles a press/release of a long-press button. The press only starts
+   * the threshold timer; the release decides unless the timer fired first.
+   */
+  private processLongPressInput(key: number, lookupEntry: MappingLookupEntry, isPress: boolean): ProcessedMessage | null {
+    this.endPulse(key);
+
+    if (isPress) {
+      this.clearGestureTimer(key);
+      this.longPressed.delete(key);
+      const timer = setTimeout(() => {
+        this.gestureTimers.delete(key);
+        this.longPressed.add(key);
+        this.setTimedButtonState(key, lookupEntry, true);
+        this.emit('timedOutput', this.emitButtonOutput(this.getAlternateEntry(lookupEntry), true));
+      }, lookupEntry.mapping.gestureMs ?? DEFAULT_LONG_PRESS_MS);
+      this.gestureTimers.set(key, timer);
+      return null;
+    }
+
+    if (this.longPressed.delete(key)) {
+      this.setTimedButtonState(key, lookupEntry, false);
+      return this.emitButtonOutput(this.getAlternateEntry(lookupEntry), false);
     }
 
+    // Short press (ignore a release whose press wasn't seen)
+    return this.clearGestureTimer(key) ? this.emitTrigger(key, lookupEntry) : null;
+  }
+
+  /**
+   * Handles a press of a double-tap button. The first press opens the
+   * window; a single tap is only triggered once it has passed.
+   */
+  private processDoubleTapInput(key: number, lookupEntry: MappingLookupEntry): ProcessedMessage | null {
+    // A press during the single tap's pulse starts a new gesture
+    this.endPulse(key);
+
+    if (this.clearGestureTimer(key)) {
+      return this.emitTrigger(key, lookupEntry, true);
+    }
+
+    const timer = setTimeout(() => {
+      this.gestureTimers.delete(key);
+      this.emit('timedOutput', this.emitTrigger(key, lookupEntry));
+    }, lookupEntry.mapping.gestureMs ?? DEFAULT_DOUBLE_TAP_MS);
+    this.gestureTimers.set(key, timer);
+    return null;
+  }
+
+  /**
+   * Cancels a button's pending long-press/double-tap timer.
+   *
+   * @returns True if a timer was pending
+   */
+  private clearGestureTimer(key: number): boolean {
+    const timer = this.gestureTimers.get(key);
+    if (timer === undefined) {
+      return false;
+    }
+    clearTimeout(timer);
+    this.gestureTimers.delete(key);
+    return true;
+  }
+
+  /**
+   * Sends the off value of a button's pending trigger pulse now.
+   */
+  private endPulse(key: number): void {
+    this.pulseEnds.get(key)?.();
+  }
+
+  /**
+   * Cancels a button's pending trigger pulse, without sending its off value.
+   */
+  private clearPulse(key: number): void {
+    if (this.pulseEnds.delete(key)) {
+      this.clearGestureTimer(key);
+    }
+  }
+
+  /**
+   * Gets a lookup entry that sends to the mapping's altOutputCC (without
+   * additional targets), for long presses and double taps.
+   */
+  private getAlternateEntry(lookupEntry: MappingLookupEntry): MappingLookupEntry {
+    const { mapping } = lookupEntry;
     return {
-      outputValue,
-      buttonState,
+      ...lookupEntry,
+      mapping: { ...mapping, outputCC: mapping.altOutputCC ?? mapping.outputCC, targets: undefined },
     };
   }
+
+  /**
+   * Sets a button state from a timed behavior, unless the button has been
+   * remapped since (e.g., paged to another bank or shift layer).
+   */
+  private setTimedButtonState(key: number, lookupEntry: MappingLookupEntry, isOn: boolean): void {
+    if (this.getLookupEntry(key) === lookupEntry) {
+      this.setKeyState(key, isOn);
+    }
+  }
 }
@@ -5,7 +5,9 @@
  * Handles:
  * - Hardware input from nanoKONTROL2 (receiving CC messages)
  * - Hardware output to nanoKONTROL2 (controlling LEDs)
+ * - SysEx exchanges with the nanoKONTROL2 (identity, scene dump and write)
  * - Virtual MIDI output port (for remapped CC messages to DAWs)
+ * - Virtual MIDI input port (for LED feedback CC messages from DAWs)
  * - Hot-plug detection for device connect/disconnect
  *
  * This module uses easymidi for all MIDI operations, which wraps
@@ -33,15 +35,23 @@ import {
   getAvailablePorts,
   isMidiAvailable,
 } from './midi-discovery.js';
+import { SysexSession } from './korg-sysex.js';
+import type { DeviceIdentity } from './korg-sysex.js';
 import {
   DEFAULT_VIRTUAL_PORT_NAME,
+  DEFAULT_VIRTUAL_INPUT_PORT_NAME,
   DEFAULT_HOTPLUG_INTERVAL_MS,
   HOTPLUG_DEBOUNCE_MS,
   MIDI_VALUE_ON,
   MIDI_VALUE_OFF,
+  MIDI_14BIT_MAX,
+  CC14_LSB_OFFSET,
+  CC14_MAX_MSB_CC,
+  PARAMETER_CC,
 } from './types.js';
 import type {
   MidiHandlerOptions,
+  OutputType,
   CCMessage,
   MidiPorts,
   ConnectedEvent,
@@ -81,6 +91,8 @@ const HEARTBEAT_CC = 127;
  *
  * Events emitted:
  * - 'cc': CC message received from hardware { channel, controller, value }
+ * - 'feedback': CC message received on the virtual input from a DAW { channel, controller, value }
+ * - 'ledSent': LED CC message sent to the hardware { channel, controller, value }
  * - 'connected': Device connected { inputPort, outputPort }
  * - 'disconnected': Device disconnected { reason }
  * - 'portsChanged': Available ports changed { inputs, outputs }
@@ -111,6 +123,9 @@ export class MidiHandler extends EventEmitter {
   /** Virtual MIDI output port (for remapped CC messages) */
   private virtualOutput: easymidi.Output | null = null;
 
+  /** Virtual MIDI input port (for LED feedback from DAWs) */
+  private virtualInput: easymidi.Input | null = null;
+
   /** Timer for hot-plug detection polling */
   private pollInterval: NodeJS.Timeout | null = null;
 
@@ -145,6 +160,9 @@ export class MidiHandler extends EventEmitter {
    */
   private virtualPortCreationFailed = false;
 
+  /** SysEx exchanges with the hardware, over the hardware ports */
+  private readonly sysex = new SysexSession((bytes) => this.sendSysex(bytes));
+
   /**
    * Creates a new MidiHandler instance.
    *
@@ -156,6 +174,7 @@ export class MidiHandler extends EventEmitter {
    * @param options.inputPort - Specific hardware input port name (auto-detect if not specified)
    * @param options.outputPort - Specific hardware output port name (auto-detect if not specified)
    * @param options.virtualPortName - Name for the virtual output port
+   * @param options.virtualInputPortName - Name for the virtual input port
    */
   constructor(options?: MidiHandlerOptions) {
     super();
@@ -164,6 +183,7 @@ export class MidiHandler extends EventEmitter {
       inputPort: options?.inputPort ?? '',
       outputPort: options?.outputPort ?? '',
       virtualPortName: options?.virtualPortName ?? DEFAULT_VIRTUAL_PORT_NAME,
+      virtualInputPortName: options?.virtualInputPortName ?? DEFAULT_VIRTUAL_INPUT_PORT_NAME,
     };
 
     // Start with empty lastKnownPorts - the baseline will be established
@@ -179,7 +199,8 @@ export class MidiHandler extends EventEmitter {
    *
    * If input/output ports are not specified, attempts to auto-detect
    * the nanoKONTROL2 device. Creates a virtual output port for remapped
-   * MIDI messages that other applications (DAWs) can connect to.
+   * MIDI messages that other applications (DAWs) can connect to, and a
+   * virtual input port the DAW can send LED feedback to.
    *
    * IMPORTANT: This method will NEVER throw. If MIDI is unavailable,
    * it returns false and emits an 'error' event. The handler can continue
@@ -284,10 +305,26 @@ export class MidiHandler extends EventEmitter {
     return true;
   }
 
+  /**
+   * Binds the handler to specific hardware ports.
+   *
+   * Replaces the ports given to the constructor, so later reconnects
+   * (including hot-plug reconnects) only open these ports instead of
+   * auto-detecting the first nanoKONTROL2. Used when several units are
+   * connected side by side. Does not connect by itself.
+   *
+   * @param inputPort - Hardware input port name
+   * @param outputPort - Hardware output port name
+   */
+  bindToPorts(inputPort: string, outputPort: string): void {
+    this.options.inputPort = inputPort;
+    this.options.outputPort = outputPort;
+  }
+
   /**
    * Disconnects from all MIDI ports and cleans up resources.
    *
-   * Closes hardware input/output ports and the virtual output port.
+   * Closes hardware input/output ports and the virtual ports.
    * Stops hot-plug detection if running. Safe to call multiple times.
    */
   disconnect(): void {
@@ -339,6 +376,71 @@ export class MidiHandler extends EventEmitter {
     }
   }
 
+  /**
+   * Sends a value to the virtual output port as the given message type.
+   *
+   * - cc: Single CC (value 0-127)
+   * - cc14: MSB on `number` (0-31), then LSB on `number + 32` (value 0-16383)
+   * - nrpn: CC 99/98 select parameter `number`, then data entry CC 6/38 (value 0-16383)
+   * - rpn: CC 101/100 select parameter `number`, then data entry CC 6/38 (value 0-16383)
+   * - note: Note On for note `number` with velocity `value`, or Note Off when `value` is 0
+   * - program: Program Change to program `value` (`number` is ignored)
+   * - pitchbend: Pitch Bend (value 0-16383, `number` is ignored)
+   * - aftertouch: Channel Pressure (value 0-127, `number` is ignored)
+   *
+   * @param channel - MIDI channel (0-15, 0-indexed as easymidi expects)
+   * @param outputType - Message type to send
+   * @param number - Controller number (cc/cc14), parameter number (nrpn/rpn) or note number (note)
+   * @param value - 14-bit value for cc14/nrpn/rpn/pitchbend, 7-bit value for all other types
+   *
+   * @example
+   * // Send NRPN parameter 1234 at mid-scale on channel 1 (0-indexed)
+   * handler.sendOutput(0, 'nrpn', 1234, 8192);
+   */
+  sendOutput(channel: number, outputType: OutputType, number: number, value: number): void {
+    const clampedChannel = clampValue(channel, 0, 15);
+
+    switch (outputType) {
+      case 'cc':
+        this.sendCC(channel, number, value);
+        return;
+      case 'note':
+        this.sendMessage(value > 0 ? 'noteon' : 'noteoff', {
+          channel: clampedChannel,
+          note: clampValue(number, 0, 127),
+          velocity: clampValue(value, 0, 127),
+        });
+        return;
+      case 'program':
+        this.sendMessage('program', { channel: clampedChannel, number: clampValue(value, 0, 127) });
+        return;
+      case 'pitchbend':
+        this.sendMessage('pitch', { channel: clampedChannel, value: clampValue(Math.round(value), 0, MIDI_14BIT_MAX) });
+        return;
+      case 'aftertouch':
+        this.sendMessage('channel aftertouch', { channel: clampedChannel, pressure: clampValue(value, 0, 127) });
+        return;
+    }
+
+    const clampedValue = clampValue(Math.round(value), 0, MIDI_14BIT_MAX);
+    const valueMsb = clampedValue >> 7;
+    const valueLsb = clampedValue & 0x7f;
+
+    if (outputType === 'cc14') {
+      const msbCC = clampValue(number, 0, CC14_MAX_MSB_CC);
+      this.sendCC(channel, msbCC, valueMsb);
+      this.sendCC(channel, msbCC + CC14_LSB_OFFSET, valueLsb);
+      return;
+    }
+
+    const parameter = clampValue(number, 0, MIDI_14BIT_MAX);
+    const isNrpn = outputType === 'nrpn';
+    this.sendCC(channel, isNrpn ? PARAMETER_CC.NRPN_MSB : PARAMETER_CC.RPN_MSB, parameter >> 7);
+    this.sendCC(channel, isNrpn ? PARAMETER_CC.NRPN_LSB : PARAMETER_CC.RPN_LSB, parameter & 0x7f);
+    this.sendCC(channel, PARAMETER_CC.DATA_ENTRY_MSB, valueMsb);
+    this.sendCC(channel, PARAMETER_CC.DATA_ENTRY_LSB, valueLsb);
+  }
+
   /**
    * Sends a CC message to the hardware output port for LED control.
    *
@@ -370,12 +472,46 @@ export class MidiHandler extends EventEmitter {
         controller: clampedCC,
         value: clampedValue,
       });
+      const ccMessage: CCMessage = { channel: LED_CHANNEL, controller: clampedCC, value: clampedValue };
+      this.emit('ledSent', ccMessage);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.emitError(`Failed to send LED CC to hardware: ${message}`);
     }
   }
 
+  /**
+   * Asks the connected nanoKONTROL2 for its identity (global channel and
+   * firmware version).
+   *
+   * @throws If no device is connected, or it doesn't answer as a nanoKONTROL2
+   */
+  requestIdentity(): Promise<DeviceIdentity> {
+    return this.sysex.requestIdentity();
+  }
+
+  /**
+   * Asks the connected nanoKONTROL2 for a dump of its current scene.
+   *
+   * @returns The 339 scene parameter bytes (see korg-scene.ts for the layout)
+   * @throws If no device is connected or it doesn't answer
+   */
+  requestSceneData(): Promise<Uint8Array> {
+    return this.sysex.requestSceneData();
+  }
+
+  /**
+   * Loads a scene into the connected nanoKONTROL2, changing the CCs,
+   * behaviors and LED mode of its controls.
+   *
+   * @param data - The 339 scene parameter bytes
+   * @param store - Whether to also write the scene to the unit's memory (default: true)
+   * @throws If no device is connected, or it doesn't answer or reports an error
+   */
+  writeSceneData(data: Uint8Array, store = true): Promise<void> {
+    return this.sysex.writeSceneData(data, store);
+  }
+
   /**
    * Starts polling for device connect/disconnect events.
    *
@@ -424,6 +560,15 @@ export class MidiHandler extends EventEmitter {
     return this.connected;
   }
 
+  /**
+   * Returns the name of the virtual input port.
+   *
+   * @returns Virtual input port name
+   */
+  getVirtualInputPortName(): string {
+    return this.options.virtualInputPortName;
+  }
+
   /**
    * Returns the name of the virtual output port.
    *
@@ -491,10 +636,21 @@ export class MidiHandler extends EventEmitter {
     return this.virtualOutput !== null;
   }
 
+  /**
+   * Returns whether a virtual input port is available for receiving
+   * LED feedback from DAWs.
+   *
+   * @returns True if virtual input is available, false otherwise
+   */
+  hasVirtualInput(): boolean {
+    return this.virtualInput !== null;
+  }
+
   /**
    * Sets up event handlers for the hardware input port.
    *
-   * Listens for CC messages and forwards them to listeners via the 'cc' event.
+   * Listens for CC messages and forwards them to listeners via the 'cc' event,
+   * and passes SysEx messages to the SysEx session.
    */
   private setupInputEventHandlers(): void {
     if (!this.input) {
@@ -509,6 +665,22 @@ export class MidiHandler extends EventEmitter {
       };
       this.emit('cc', ccMessage);
     });
+
+    this.input.on('sysex', (msg: { bytes: number[] }) => {
+      this.sysex.handleMessage(msg.bytes);
+    });
+  }
+
+  /**
+   * Sends a SysEx message to the hardware.
+   *
+   * @throws If the hardware output port is not connected
+   */
+  private sendSysex(bytes: number[]): void {
+    if (!this.output) {
+      throw new Error('Cannot send SysEx: Hardware output port not connected');
+    }
+    this.output.send('sysex', bytes);
   }
 
   /**
@@ -517,6 +689,8 @@ export class MidiHandler extends EventEmitter {
    * Does not close the virtual output port, which persists across reconnections.
    */
   private closeHardwarePorts(): void {
+    this.sysex.cancel('Device disconnected');
+
     if (this.input) {
       try {
         this.input.close();
@@ -540,7 +714,7 @@ export class MidiHandler extends EventEmitter {
   }
 
   /**
-   * Closes the virtual output port.
+   * Closes the virtual output and input ports.
    */
   private closeVirtualPort(): void {
     if (this.virtualOutput) {
@@ -551,6 +725,15 @@ export class MidiHandler extends EventEmitter {
       }
       this.virtualOutput = null;
     }
+
+    if (this.virtualInput) {
+      try {
+        this.virtualInput.close();
+      } catch {
+        // Ignore errors when closing
+      }
+      this.virtualInput = null;
+    }
   }
 
   /**
@@ -731,6 +914,27 @@ export class MidiHandler extends EventEmitter {
     }
   }
 
+  /**
+   * Sends a non-CC channel message to the virtual output port.
+   *
+   * @param type - easymidi message type (e.g., 'noteon', 'program', 'pitch')
+   * @param msg - Message fields, already clamped to valid ranges
+   */
+  private sendMessage(type: string, msg: object): void {
+    if (!this.virtualOutput) {
+      this.emitError(`Cannot send ${type}: Virtual output port not connected`);
+      return;
+    }
+
+    try {
+      // Type assertion needed as easymidi types may not be fully accurate
+      (this.virtualOutput as { send(type: string, msg: object): void }).send(type, msg);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emitError(`Failed to send ${type} to virtual output: ${message}`);
+    }
+  }
+
   /**
    * Emits an error event with the given message.
    *
@@ -828,6 +1032,9 @@ export class MidiHandler extends EventEmitter {
    * non-fatal - the handler can still operate without a virtual port, just
    * without the ability to send remapped CC messages to DAWs.
    *
+   * The virtual input port is created alongside it so DAWs can send LED
+   * feedback. Its failure is likewise non-fatal.
+   *
    * If creation fails, sets virtualPortCreationFailed flag to prevent
    * repeated failed attempts.
    */
@@ -842,10 +1049,64 @@ export class MidiHandler extends EventEmitter {
         `Failed to create virtual MIDI port "${this.options.virtualPortName}": ${message}. ` +
         `Remapped CC messages will not be available to other applications.`
       );
+      return;
+    }
+
+    try {
+      this.virtualInput = new easymidi.Input(this.options.virtualInputPortName, true);
+      this.virtualInput.on('cc', (msg: { channel: number; controller: number; value: number }) => {
+        const ccMessage: CCMessage = {
+          channel: msg.channel,
+          controller: msg.controller,
+          value: msg.value,
+        };
+        this.emit('feedback', ccMessage);
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emitError(
+        `Failed to create virtual MIDI port "${this.options.virtualInputPortName}": ${message}. ` +
+        `LED feedback from other applications will not be available.`
+      );
     }
   }
 }
 
+/**
+ * Listens on an input port until the first CC message arrives, for MIDI Learn.
+ * The port is closed after that message, or earlier by calling the returned function.
+ *
+ * @param portName - Name of the input port to open
+ * @param onMessage - Called with the first CC message
+ * @returns Function that stops listening
+ * @throws If the port can't be opened
+ */
+export function listenForFirstCC(portName: string, onMessage: (msg: CCMessage) => void): () => void {
+  const input = new easymidi.Input(portName);
+  let listening = true;
+
+  const stop = (): void => {
+    if (!listening) return;
+    listening = false;
+    // Close outside the port's own message callback
+    setImmediate(() => {
+      try {
+        input.close();
+      } catch {
+        // Ignore errors when closing - port may already be invalid
+      }
+    });
+  };
+
+  input.on('cc', (msg: { channel: number; controller: number; value: number }) => {
+    if (!listening) return;
+    stop();
+    onMessage({ channel: msg.channel, controller: msg.controller, value: msg.value });
+  });
+
+  return stop;
+}
+
 /**
  * Clamps a numeric value to the specified range.
  *
@@ -2,23 +2,28 @@
  * App Component
  *
  * Root component for the nkEditor3 application.
- * Manages layout and navigation between Editor, Librarian, Settings, and Help views.
+ * Manages layout and navigation between Editor, Librarian, Monitor, Settings, and Help views.
  */
 
 import React, { useState, useEffect } from 'react';
 import { Header } from './components/Header';
 import { EditorView } from './components/Editor/EditorView';
 import { LibrarianView } from './components/Librarian/LibrarianView';
+import { MonitorView } from './components/Monitor/MonitorView';
 import { SettingsView } from './components/Settings/SettingsView';
 import { HelpView } from './components/Help/HelpView';
 import { useConnectionStore } from './stores/connection';
 import { useSettingsStore } from './stores/settings';
 import { useControlsStore } from './stores/controls';
 import { usePresetStore } from './stores/preset';
+import { useMonitorStore } from './stores/monitor';
+import { useAutomationStore } from './stores/automation';
+import { useScenesStore } from './stores/scenes';
+import { useCrossfadeStore } from './stores/crossfade';
 import { DEFAULT_THEME_COLORS } from '@shared/ipc-protocol';
 import type { ThemeColors } from '@shared/ipc-protocol';
 
-type TabId = 'editor' | 'librarian' | 'settings' | 'help';
+type TabId = 'editor' | 'librarian' | 'monitor' | 'settings' | 'help';
 
 function App(): React.ReactElement {
   const [activeTab, setActiveTab] = useState<TabId>('editor');
@@ -28,6 +33,10 @@ function App(): React.ReactElement {
   const initConnection = useConnectionStore((state) => state.initialize);
   const initSettings = useSettingsStore((state) => state.initialize);
   const initControls = useControlsStore((state) => state.initialize);
+  const initMonitor = useMonitorStore((state) => state.initialize);
+  const initAutomation = useAutomationStore((state) => state.initialize);
+  const initScenes = useScenesStore((state) => state.initialize);
+  const initCrossfade = useCrossfadeStore((state) => state.initialize);
   const loadPresets = usePresetStore((state) => state.loadPresets);
   const loadPreset = usePresetStore((state) => state.loadPreset);
 
@@ -35,6 +44,10 @@ function App(): React.ReactElement {
     initConnection();
     initSettings();
     initControls();
+    initMonitor();
+    initAutomation();
+    initScenes();
+    initCrossfade();
 
     // Load presets on startup and auto-load the first one
     const initPresets = async () => {
@@ -45,7 +58,7 @@ function App(): React.ReactElement {
       }
     };
     initPresets();
-  }, [initConnection, initSettings, initControls, loadPresets, loadPreset]);
+  }, [initConnection, initSettings, initControls, initMonitor, initAutomation, initScenes, initCrossfade, loadPresets, loadPreset]);
 
   // Apply theme colors, font, and UI scale from settings
   const config = useSettingsStore((state) => state.config);
@@ -93,8 +106,10 @@ function App(): React.ReactElement {
 
       {/* Main content area */}
       <main className="flex-1 overflow-hidden">
-        {/* Settings and Help views take full width regardless of layout */}
-        {activeTab === 'settings' ? (
+        {/* Monitor, Settings and Help views take full width regardless of layout */}
+        {activeTab === 'monitor' ? (
+          <MonitorView />
+        ) : activeTab === 'settings' ? (
           <div className="h-full overflow-auto">
             <SettingsView />
           </div>
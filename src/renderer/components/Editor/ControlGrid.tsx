@@ -0,0 +1,144 @@
+/**
+ * Control Grid Component
+ *
+ * A grid section of a device profile's layout (e.g., the pads of a nanoPAD2).
+ * Shows the listed hardware controls row by row, each as the knob, slider or
+ * button of the mapping slot it is played through.
+ *
+ * When GUI controls are manipulated, this component:
+ * 1. Updates the local store state for UI reflection
+ * 2. Sends the control value to the main-process mapping engine, which applies
+ *    the preset's output CC, channel, range and on/off values
+ */
+
+import React from 'react';
+import { Knob } from './Knob';
+import { Slider } from './Slider';
+import { Button } from './Button';
+import { useControlsStore } from '../../stores/controls';
+import type { TrackState, TransportState } from '../../stores/controls';
+import { usePresetStore } from '../../stores/preset';
+import { getActiveDeviceId, useActiveProfile } from '../../stores/connection';
+import { getProfileControlSlot } from '@shared/constants';
+import type { ElectronAPI } from '../../../main/preload';
+
+// Retrieve electronAPI from window for MIDI output
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+interface ControlGridProps {
+  /** Section label (e.g., 'Pads') */
+  label?: string | undefined;
+  /** Number of controls per row */
+  columns: number;
+  /** Control IDs of the device profile, row by row */
+  controls: string[];
+}
+
+export function ControlGrid({ label, columns, controls }: ControlGridProps): React.ReactElement {
+  const tracks = useControlsStore((state) => state.tracks);
+  const transport = useControlsStore((state) => state.transport);
+  const bank = useControlsStore((state) => state.bank);
+  const bankCount = useControlsStore((state) => state.bankCount);
+  const setBank = useControlsStore((state) => state.setBank);
+  const updateControl = useControlsStore((state) => state.updateControl);
+  const clickButton = useControlsStore((state) => state.clickButton);
+  const profile = useActiveProfile();
+
+  const handleValueChange = (controlType: string, value: number) => {
+    // Update local store state for UI
+    updateControl(controlType, value);
+
+    // Send through the mapping engine to the virtual output port
+    getElectronAPI()?.sendControl({ controlType, value, deviceId: getActiveDeviceId() });
+
+    // Mark preset as having unsaved changes
+    usePresetStore.getState().markUnsavedChanges();
+  };
+
+  const handleButtonClick = (controlType: string, active: boolean) => {
+    // With track banks, the track buttons page the strips instead of sending
+    if (bankCount > 1 && (controlType === 'transport.track_left' || controlType === 'transport.track_right')) {
+      setBank(bank + (controlType === 'transport.track_left' ? -1 : 1));
+      return;
+    }
+
+    // Update local store state for UI
+    clickButton(controlType, !active);
+
+    // Send through the mapping engine (applies the configured on/off values)
+    getElectronAPI()?.sendControl({ controlType, value: active ? 0 : 127, press: true, deviceId: getActiveDeviceId() });
+
+    // Mark preset as having unsaved changes
+    usePresetStore.getState().markUnsavedChanges();
+  };
+
+  /** Renders a hardware control as the control of its slot */
+  const renderControl = (id: string) => {
+    const hardware = profile.controls[id];
+    if (!hardware) return null;
+
+    const [section, control] = getProfileControlSlot(id, hardware).split('.');
+    const stripMatch = section?.match(/^track(\d+)$/);
+    if (control === undefined) return null;
+
+    if (section === 'transport') {
+      const state = transport[control as keyof TransportState];
+      const controlType = `transport.${control}`;
+      return (
+        <Button
+          key={id}
+          type="transport"
+          active={state.active}
+          label={state.label ?? hardware.label}
+          controlId={controlType}
+          onClick={() => handleButtonClick(controlType, state.active)}
+        />
+      );
+    }
+
+    // Track slots follow the displayed bank, like the track strips
+    const strip = parseInt(stripMatch?.[1] ?? '', 10);
+    const track = tracks[strip - 1];
+    if (!track) return null;
+    const controlType = `track${bank * 8 + strip}.${control}`;
+
+    if (control === 'knob' || control === 'slider') {
+      const state = track[control];
+      const ControlComponent = control === 'knob' ? Knob : Slider;
+      return (
+        <ControlComponent
+          key={id}
+          value={state.value}
+          label={state.label ?? hardware.label}
+          controlId={controlType}
+          onValueChange={(value) => handleValueChange(controlType, value)}
+          waitingForPickup={state.locked ?? false}
+          physicalValue={state.physicalValue ?? null}
+        />
+      );
+    }
+
+    const state = track[control as keyof Omit<TrackState, 'knob' | 'slider'>];
+    return (
+      <Button
+        key={id}
+        type={control as 'solo' | 'mute' | 'rec'}
+        active={state.active}
+        label={state.label ?? hardware.label}
+        controlId={controlType}
+        onClick={() => handleButtonClick(controlType, state.active)}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 p-4 mb-6 bg-nk-dark rounded-lg border border-nk-border">
+      {label && <span className="text-xs text-gray-500">{label}</span>}
+      <div className="grid gap-3 justify-items-center" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {controls.map(renderControl)}
+      </div>
+    </div>
+  );
+}
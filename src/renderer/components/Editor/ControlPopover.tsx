@@ -3,6 +3,14 @@
  *
  * A popover that appears when clicking on a control (knob, slider, button).
  * Allows editing the output CC number, output channel, and label for the control.
+ * Knobs and sliders also get an output range, a response curve editor with
+ * a preview graph, and 14-bit output (cc14/NRPN/RPN) settings. Buttons get
+ * a behavior (toggle, momentary, trigger, cycle, long-press, double-tap) with
+ * its options, and toggle buttons can be put in a radio group.
+ *
+ * MIDI Learn fills in the output CC and channel from the first CC a DAW or
+ * synth sends (on the virtual input or a chosen input port), or rebinds the
+ * hardware input to the next control moved on the unit.
  *
  * Changes are stored in the current preset's mapping configuration and can be
  * persisted by saving the preset.
@@ -12,8 +20,46 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { usePresetStore } from '../../stores/preset';
 import { useControlsStore } from '../../stores/controls';
 import { useSettingsStore } from '../../stores/settings';
-import type { MappingEntry, ButtonBehavior, TrackMapping, TransportMapping } from '@shared/types';
-import type { Preset } from '@shared/ipc-protocol';
+import { getActiveDeviceId, isActiveDeviceEvent, useConnectionStore } from '../../stores/connection';
+import type { ElectronAPI } from '../../../main/preload';
+import type {
+  MappingConfig,
+  MappingEntry,
+  ButtonBehavior,
+  CurveType,
+  OutputType,
+  OutputTarget,
+  TrackMapping,
+  TransportMapping,
+} from '@shared/types';
+import {
+  MIDI_14BIT_MAX,
+  CC14_MAX_MSB_CC,
+  MAX_SMOOTHING_MS,
+  MAX_OUTPUT_TARGETS,
+  MAX_TRACK_BANKS,
+  MAX_CYCLE_VALUES,
+  MAX_GESTURE_MS,
+  DEFAULT_LONG_PRESS_MS,
+  DEFAULT_DOUBLE_TAP_MS,
+} from '@shared/types';
+import {
+  BUTTON_BEHAVIORS,
+  BUTTON_OUTPUT_TYPES,
+  CONTINUOUS_OUTPUT_TYPES,
+  isHighResOutputType,
+  getBankTracks,
+  getBankPosition,
+  findButtonGroup,
+  getBankCount,
+} from '@shared/constants';
+import { CURVE_TYPES, DEFAULT_CURVE_STEPS, MIN_CURVE_STEPS, MAX_CURVE_STEPS, transformContinuousValue } from '@shared/curves';
+import type { Preset, LearnTarget } from '@shared/ipc-protocol';
+
+// Retrieve electronAPI from window for MIDI Learn
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
 
 // =============================================================================
 // Types
@@ -47,6 +93,7 @@ interface ParsedControlId {
 /**
  * Parses a control ID string into its components.
  * Examples: "track1.knob" -> { section: 'track', trackNumber: 1, controlType: 'knob' }
+ *           "track9.knob" -> { section: 'track', trackNumber: 9, controlType: 'knob' } (bank 2)
  *           "transport.play" -> { section: 'transport', controlType: 'play' }
  */
 function parseControlId(controlId: string): ParsedControlId | null {
@@ -58,7 +105,7 @@ function parseControlId(controlId: string): ParsedControlId | null {
 
   if (section.startsWith('track')) {
     const trackNumber = parseInt(section.replace('track', ''), 10);
-    if (isNaN(trackNumber) || trackNumber < 1 || trackNumber > 8) return null;
+    if (isNaN(trackNumber) || trackNumber < 1 || trackNumber > MAX_TRACK_BANKS * 8) return null;
     return { section: 'track', trackNumber, controlType };
   }
 
@@ -74,16 +121,20 @@ function parseControlId(controlId: string): ParsedControlId | null {
  */
 function getMappingEntry(
   controlId: string,
-  preset: Preset | null
+  preset: Preset | null,
+  shiftLayer = false
 ): MappingEntry | null {
   if (!preset) return null;
 
+  const override = shiftLayer ? getShiftOverride(controlId, preset) : null;
+  if (override) return override;
+
   const parsed = parseControlId(controlId);
   if (!parsed) return null;
 
   if (parsed.section === 'track' && parsed.trackNumber !== undefined) {
-    const trackIndex = parsed.trackNumber - 1;
-    const track = preset.mapping.tracks[trackIndex];
+    const { bank, strip } = getBankPosition(parsed.trackNumber);
+    const track = getBankTracks(preset.mapping, bank)?.[strip];
     if (!track) return null;
     const controlKey = parsed.controlType as keyof TrackMapping;
     return track[controlKey] ?? null;
@@ -97,6 +148,194 @@ function getMappingEntry(
   return null;
 }
 
+/**
+ * Gets the shift layer's mapping for a control, or null if the layer
+ * doesn't override it (the control keeps its base mapping).
+ * Track overrides apply to the same strip in every bank.
+ */
+function getShiftOverride(controlId: string, preset: Preset): MappingEntry | null {
+  const shift = preset.mapping.shift;
+  const parsed = parseControlId(controlId);
+  if (!shift || !parsed) return null;
+
+  if (parsed.section === 'track' && parsed.trackNumber !== undefined) {
+    const { strip } = getBankPosition(parsed.trackNumber);
+    return shift.tracks[strip]?.[parsed.controlType as keyof TrackMapping] ?? null;
+  }
+  return shift.transport[parsed.controlType as keyof TransportMapping] ?? null;
+}
+
+/**
+ * Writes a control's mapping into a (deep-copied) mapping config.
+ * In the shift layer, an undefined entry removes the override.
+ */
+function setMappingEntry(
+  mapping: MappingConfig,
+  parsed: ParsedControlId,
+  entry: MappingEntry | undefined,
+  shiftLayer: boolean
+): void {
+  const isTrack = parsed.section === 'track' && parsed.trackNumber !== undefined;
+  const { bank, strip } = getBankPosition(parsed.trackNumber ?? 1);
+
+  if (shiftLayer && mapping.shift) {
+    const target: Record<string, MappingEntry | undefined> | undefined = isTrack
+      ? mapping.shift.tracks[strip]
+      : mapping.shift.transport;
+    if (!target) return;
+    if (entry) {
+      target[parsed.controlType] = entry;
+    } else {
+      delete target[parsed.controlType];
+    }
+    return;
+  }
+
+  if (!entry) return;
+  if (isTrack) {
+    const track = getBankTracks(mapping, bank)?.[strip];
+    if (track) {
+      track[parsed.controlType as keyof TrackMapping] = entry;
+    }
+  } else if (parsed.section === 'transport') {
+    mapping.transport[parsed.controlType as keyof TransportMapping] = entry;
+  }
+}
+
+/**
+ * Rebinds a control to another hardware input. Bank tracks on the same strip
+ * and the shift layer override must use the same input, so they follow.
+ */
+function rebindInput(
+  mapping: MappingConfig,
+  parsed: ParsedControlId,
+  inputCC: number,
+  inputChannel: number | undefined
+): void {
+  const entries: Array<MappingEntry | undefined> = [];
+
+  if (parsed.section === 'track' && parsed.trackNumber !== undefined) {
+    const { strip } = getBankPosition(parsed.trackNumber);
+    const controlKey = parsed.controlType as keyof TrackMapping;
+    for (let bank = 0; bank < getBankCount(mapping); bank++) {
+      entries.push(getBankTracks(mapping, bank)?.[strip]?.[controlKey]);
+    }
+    entries.push(mapping.shift?.tracks[strip]?.[controlKey]);
+  } else {
+    const transportKey = parsed.controlType as keyof TransportMapping;
+    entries.push(mapping.transport[transportKey], mapping.shift?.transport[transportKey]);
+  }
+
+  for (const entry of entries) {
+    if (entry) {
+      entry.inputCC = inputCC;
+      entry.inputChannel = inputChannel;
+    }
+  }
+}
+
+/**
+ * Moves a button into a radio group (created if needed), or out of its
+ * group when the name is empty. Groups left without buttons are removed.
+ */
+function setButtonGroup(mapping: MappingConfig, controlId: string, groupName: string): void {
+  const groups = (mapping.groups ?? []).map((group) => ({
+    ...group,
+    buttons: group.buttons.filter((button) => button !== controlId),
+  }));
+
+  if (groupName) {
+    const group = groups.find((g) => g.name === groupName);
+    if (group) {
+      group.buttons.push(controlId);
+    } else {
+      groups.push({ name: groupName, buttons: [controlId] });
+    }
+  }
+
+  const remaining = groups.filter((group) => group.buttons.length > 0);
+  if (remaining.length > 0) {
+    mapping.groups = remaining;
+  } else {
+    delete mapping.groups;
+  }
+}
+
+/**
+ * Checks whether a button can join a radio group. The shift button and
+ * the track bank paging buttons don't send their own output.
+ */
+function canJoinGroup(controlId: string, mapping: MappingConfig): boolean {
+  if (controlId === mapping.shift?.button) return false;
+  return !mapping.banks || (controlId !== 'transport.track_left' && controlId !== 'transport.track_right');
+}
+
+/** Display names for curve types */
+const CURVE_LABELS: Record<CurveType, string> = {
+  linear: 'Linear',
+  log: 'Logarithmic',
+  exp: 'Exponential',
+  scurve: 'S-Curve',
+  stepped: 'Stepped',
+};
+
+/** Display names for button behaviors */
+const BEHAVIOR_LABELS: Record<ButtonBehavior, string> = {
+  toggle: 'Toggle',
+  momentary: 'Momentary',
+  trigger: 'Trigger (on, then off)',
+  cycle: 'Cycle Through Values',
+  longpress: 'Long Press',
+  doubletap: 'Double Tap',
+};
+
+/** Display names for output types */
+const OUTPUT_TYPE_LABELS: Record<OutputType, string> = {
+  cc: 'CC (7-bit)',
+  cc14: 'CC (14-bit MSB/LSB)',
+  nrpn: 'NRPN (14-bit)',
+  rpn: 'RPN (14-bit)',
+  note: 'Note On/Off',
+  program: 'Program Change',
+  pitchbend: 'Pitch Bend (14-bit)',
+  aftertouch: 'Channel Aftertouch',
+};
+
+/**
+ * Gets the label for the output number field, which holds a note or
+ * program number for some output types.
+ */
+function getOutputNumberLabel(outputType: OutputType, isButton: boolean): string {
+  if (outputType === 'note') {
+    return 'Note Number (to DAW)';
+  }
+  if (outputType === 'program' && isButton) {
+    return 'Program Number (to DAW)';
+  }
+  if (outputType === 'program' || outputType === 'pitchbend' || outputType === 'aftertouch') {
+    return 'Output CC (unused by this type)';
+  }
+  return 'Output CC (to DAW)';
+}
+
+/** Curve preview graph size (pixels) */
+const CURVE_PREVIEW_WIDTH = 248;
+const CURVE_PREVIEW_HEIGHT = 80;
+
+/**
+ * Parses a comma-separated list of cycle values (2-16 values, 0-127).
+ *
+ * @returns The values, or null if the list is invalid
+ */
+function parseCycleValues(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter((part) => part !== '');
+  const values = parts.map((part) => Number(part));
+  if (values.length < 2 || values.length > MAX_CYCLE_VALUES || values.some((value) => !isValidCC(value))) {
+    return null;
+  }
+  return values;
+}
+
 /**
  * Validates a CC number (0-127).
  */
@@ -111,6 +350,214 @@ function isValidChannel(value: number): boolean {
   return Number.isInteger(value) && value >= 1 && value <= 16;
 }
 
+// =============================================================================
+// Curve Preview
+// =============================================================================
+
+interface CurvePreviewProps {
+  curve: CurveType;
+  steps: number;
+  minValue: number;
+  maxValue: number;
+}
+
+/**
+ * Plots output value (y) against input value (x) for the current curve and range.
+ * Uses the same transform as the mapping engine, so the graph matches what is sent.
+ */
+function CurvePreview({ curve, steps, minValue, maxValue }: CurvePreviewProps): React.ReactElement {
+  const points: string[] = [];
+  for (let input = 0; input <= 127; input++) {
+    const output = transformContinuousValue(input, { curve, steps, minValue, maxValue });
+    const x = (input / 127) * CURVE_PREVIEW_WIDTH;
+    const y = CURVE_PREVIEW_HEIGHT - (output / 127) * CURVE_PREVIEW_HEIGHT;
+    points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  }
+
+  return (
+    <svg
+      width={CURVE_PREVIEW_WIDTH}
+      height={CURVE_PREVIEW_HEIGHT}
+      className="bg-nk-darker border border-nk-border rounded"
+      aria-label={`${CURVE_LABELS[curve]} curve preview`}
+    >
+      {/* Linear reference */}
+      <line
+        x1={0}
+        y1={CURVE_PREVIEW_HEIGHT}
+        x2={CURVE_PREVIEW_WIDTH}
+        y2={0}
+        className="stroke-gray-700"
+        strokeDasharray="4 4"
+      />
+      <polyline points={points.join(' ')} fill="none" className="stroke-nk-accent" strokeWidth={2} />
+    </svg>
+  );
+}
+
+// =============================================================================
+// Output Targets Editor
+// =============================================================================
+
+interface OutputTargetsEditorProps {
+  targets: OutputTarget[];
+  /** Knobs/sliders get per-target range and curve; buttons send their on/off value */
+  isContinuous: boolean;
+  defaultChannel: number;
+  onChange: (targets: OutputTarget[]) => void;
+}
+
+/**
+ * Edits the additional 7-bit CC outputs a control sends alongside its primary output.
+ */
+function OutputTargetsEditor({ targets, isContinuous, defaultChannel, onChange }: OutputTargetsEditorProps): React.ReactElement {
+  const updateTarget = (index: number, changes: Partial<OutputTarget>) => {
+    onChange(targets.map((target, i) => (i === index ? { ...target, ...changes } : target)));
+  };
+
+  const clamp = (value: string, min: number, max: number, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? fallback : Math.max(min, Math.min(max, parsed));
+  };
+
+  const inputClass =
+    'px-2 py-1 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-medium text-gray-400">Additional Outputs (CC)</label>
+        <button
+          type="button"
+          onClick={() => onChange([...targets, { outputCC: 0, channel: defaultChannel }])}
+          disabled={targets.length >= MAX_OUTPUT_TARGETS}
+          className="text-xs text-nk-accent hover:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          + Add
+        </button>
+      </div>
+      {targets.map((target, index) => (
+        <div key={index} className="p-2 bg-nk-darker/50 border border-nk-border rounded space-y-1.5">
+          <div className="flex gap-1.5 items-center">
+            <span className="text-xs text-gray-500">CC</span>
+            <input
+              type="number"
+              min={0}
+              max={127}
+              value={target.outputCC}
+              onChange={(e) => updateTarget(index, { outputCC: clamp(e.target.value, 0, 127, 0) })}
+              className={`w-14 ${inputClass}`}
+              aria-label={`Output ${index + 2} CC`}
+            />
+            <span className="text-xs text-gray-500">Ch</span>
+            <input
+              type="number"
+              min={1}
+              max={16}
+              value={target.channel}
+              onChange={(e) => updateTarget(index, { channel: clamp(e.target.value, 1, 16, 1) })}
+              className={`w-12 ${inputClass}`}
+              aria-label={`Output ${index + 2} channel`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(targets.filter((_, i) => i !== index))}
+              className="ml-auto text-gray-500 hover:text-red-400 text-sm"
+              aria-label={`Remove output ${index + 2}`}
+            >
+              &times;
+            </button>
+          </div>
+          {isContinuous && (
+            <div className="flex gap-1.5 items-center">
+              <input
+                type="number"
+                min={0}
+                max={127}
+                value={target.minValue ?? 0}
+                onChange={(e) => updateTarget(index, { minValue: clamp(e.target.value, 0, 127, 0) })}
+                className={`w-12 ${inputClass}`}
+                aria-label={`Output ${index + 2} minimum`}
+              />
+              <span className="text-xs text-gray-500">to</span>
+              <input
+                type="number"
+                min={0}
+                max={127}
+                value={target.maxValue ?? 127}
+                onChange={(e) => updateTarget(index, { maxValue: clamp(e.target.value, 0, 127, 127) })}
+                className={`w-12 ${inputClass}`}
+                aria-label={`Output ${index + 2} maximum`}
+              />
+              <select
+                value={target.curve ?? 'linear'}
+                onChange={(e) => updateTarget(index, { curve: e.target.value as CurveType })}
+                className="flex-1 min-w-0 px-1 py-1 bg-nk-darker border border-nk-border rounded text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                aria-label={`Output ${index + 2} curve`}
+              >
+                {CURVE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CURVE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Drops defaults from a target so saved presets only carry what was changed.
+ */
+function normalizeTarget(target: OutputTarget, isContinuous: boolean): OutputTarget {
+  const normalized: OutputTarget = { outputCC: target.outputCC, channel: target.channel };
+  if (!isContinuous) {
+    return normalized;
+  }
+  if ((target.minValue ?? 0) !== 0 || (target.maxValue ?? 127) !== 127) {
+    normalized.minValue = target.minValue ?? 0;
+    normalized.maxValue = target.maxValue ?? 127;
+  }
+  if (target.curve !== undefined && target.curve !== 'linear') {
+    normalized.curve = target.curve;
+  }
+  if (target.curve === 'stepped') {
+    normalized.steps = target.steps ?? DEFAULT_CURVE_STEPS;
+  }
+  return normalized;
+}
+
+// =============================================================================
+// Learn Button
+// =============================================================================
+
+interface LearnButtonProps {
+  /** Whether MIDI Learn is listening for this field */
+  active: boolean;
+  onClick: () => void;
+  title: string;
+}
+
+function LearnButton({ active, onClick, title }: LearnButtonProps): React.ReactElement {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={active ? 'Listening... click to cancel' : title}
+      className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+        active
+          ? 'border-nk-accent text-nk-accent animate-pulse'
+          : 'border-nk-border text-gray-400 hover:text-gray-200'
+      }`}
+    >
+      {active ? 'Listening...' : 'Learn'}
+    </button>
+  );
+}
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -124,6 +571,7 @@ export function ControlPopover({
 }: ControlPopoverProps): React.ReactElement | null {
   const currentPreset = usePresetStore((state) => state.currentPreset);
   const globalMidiChannel = useSettingsStore((state) => state.config?.globalMidiChannel ?? 1);
+  const outputTypes: readonly OutputType[] = controlKind === 'button' ? BUTTON_OUTPUT_TYPES : CONTINUOUS_OUTPUT_TYPES;
 
   // Local form state
   const [outputCC, setOutputCC] = useState<string>('');
@@ -132,10 +580,32 @@ export function ControlPopover({
   const [behavior, setBehavior] = useState<ButtonBehavior>('toggle');
   const [minValue, setMinValue] = useState<number>(0);
   const [maxValue, setMaxValue] = useState<number>(127);
+  const [curve, setCurve] = useState<CurveType>('linear');
+  const [steps, setSteps] = useState<number>(DEFAULT_CURVE_STEPS);
+  const [outputType, setOutputType] = useState<OutputType>('cc');
+  const [parameter, setParameter] = useState<number>(0);
+  const [smoothingMs, setSmoothingMs] = useState<number>(0);
   const [onValue, setOnValue] = useState<number>(127);
   const [offValue, setOffValue] = useState<number>(0);
-  const [errors, setErrors] = useState<{ outputCC?: string; channel?: string }>({});
+  const [targets, setTargets] = useState<OutputTarget[]>([]);
+  const [group, setGroup] = useState<string>('');
+  const [cycleValues, setCycleValues] = useState<string>('0, 64, 127');
+  const [altOutputCC, setAltOutputCC] = useState<string>('');
+  const [gestureMs, setGestureMs] = useState<number>(DEFAULT_LONG_PRESS_MS);
+  const [errors, setErrors] = useState<{ outputCC?: string; channel?: string; cycleValues?: string; altOutputCC?: string }>({});
   const [hasChanges, setHasChanges] = useState(false);
+  // MIDI Learn: what is being learned, the port outputs are learned from ('' = virtual input),
+  // and the learned hardware input until it is applied
+  const [learning, setLearning] = useState<LearnTarget | null>(null);
+  const [learnPort, setLearnPort] = useState<string>('');
+  const [learnError, setLearnError] = useState<string | null>(null);
+  const [inputBinding, setInputBinding] = useState<{ cc: number; channel: number } | null>(null);
+  const inputPorts = useConnectionStore((state) => state.availablePorts.inputs);
+
+  // Edit the shift layer while it's active; the shift button itself only has a base mapping
+  const shiftActive = useControlsStore((state) => state.shiftActive);
+  const editingShiftLayer =
+    shiftActive && currentPreset?.mapping.shift !== undefined && currentPreset.mapping.shift.button !== controlId;
 
   const popoverRef = useRef<HTMLDivElement>(null);
   const outputCCInputRef = useRef<HTMLInputElement>(null);
@@ -143,7 +613,7 @@ export function ControlPopover({
   // Initialize form state when popover opens or control changes
   useEffect(() => {
     if (isOpen && currentPreset) {
-      const entry = getMappingEntry(controlId, currentPreset);
+      const entry = getMappingEntry(controlId, currentPreset, editingShiftLayer);
       if (entry) {
         setOutputCC(String(entry.outputCC));
         // Use entry's channel if set, otherwise fall back to global MIDI channel
@@ -152,18 +622,113 @@ export function ControlPopover({
         setBehavior(entry.behavior ?? 'toggle');
         setMinValue(entry.minValue ?? 0);
         setMaxValue(entry.maxValue ?? 127);
+        setCurve(entry.curve ?? 'linear');
+        setSteps(entry.steps ?? DEFAULT_CURVE_STEPS);
+        setOutputType(entry.outputType ?? 'cc');
+        setParameter(entry.parameter ?? 0);
+        setSmoothingMs(entry.smoothingMs ?? 0);
         setOnValue(entry.onValue ?? 127);
         setOffValue(entry.offValue ?? 0);
+        setTargets(entry.targets ?? []);
+        setGroup(findButtonGroup(currentPreset.mapping, controlId)?.name ?? '');
+        setCycleValues(entry.cycleValues?.join(', ') ?? '0, 64, 127');
+        setAltOutputCC(entry.altOutputCC !== undefined ? String(entry.altOutputCC) : '');
+        setGestureMs(entry.gestureMs ?? (entry.behavior === 'doubletap' ? DEFAULT_DOUBLE_TAP_MS : DEFAULT_LONG_PRESS_MS));
         setErrors({});
         setHasChanges(false);
+        setInputBinding(null);
       } else {
         // No existing entry - use global MIDI channel as default
         setChannel(String(globalMidiChannel));
+        setTargets([]);
+        setGroup('');
         setErrors({});
         setHasChanges(false);
+        setInputBinding(null);
       }
+      setLearning(null);
+      setLearnError(null);
     }
-  }, [isOpen, controlId, currentPreset, globalMidiChannel]);
+  }, [isOpen, controlId, currentPreset, globalMidiChannel, editingShiftLayer]);
+
+  // MIDI Learn: listen while learning; closing the popover or learning something else cancels it
+  useEffect(() => {
+    const api = getElectronAPI();
+    if (!isOpen || !learning || !api) return;
+
+    const unsubscribe = api.onMidiLearn((event) => {
+      if (event.target !== learning || !isActiveDeviceEvent(event)) return;
+
+      if (event.target === 'output') {
+        setOutputCC(String(event.cc));
+        setChannel(String(event.channel));
+        setErrors((prev) => ({ ...prev, outputCC: undefined, channel: undefined }));
+      } else {
+        setInputBinding({ cc: event.cc, channel: event.channel });
+      }
+      setHasChanges(true);
+      setLearning(null);
+    });
+
+    api
+      .startLearn({
+        target: learning,
+        port: learning === 'output' && learnPort ? learnPort : undefined,
+        deviceId: getActiveDeviceId(),
+      })
+      .then((response) => {
+        if (!response.success) {
+          setLearnError(response.error ?? 'MIDI Learn failed');
+          setLearning(null);
+        }
+      })
+      .catch((err) => {
+        console.error('[ControlPopover] Failed to start MIDI Learn:', err);
+        setLearning(null);
+      });
+
+    return () => {
+      unsubscribe();
+      void api.cancelLearn();
+    };
+  }, [isOpen, learning, learnPort]);
+
+  const toggleLearn = (target: LearnTarget) => {
+    setLearnError(null);
+    setLearning((current) => (current === target ? null : target));
+  };
+
+  // Stores an edited preset in memory and applies its mapping to the MIDI manager
+  const commitPreset = useCallback((updatedPreset: Preset) => {
+    // Update the modified timestamp
+    updatedPreset.metadata.modifiedAt = new Date().toISOString();
+
+    // Update the store with the modified preset (in-memory only, not persisted)
+    // This marks the preset as having unsaved changes
+    usePresetStore.getState().setCurrentPreset(updatedPreset);
+
+    // Sync labels to the controls store so the Editor GUI reflects the updated labels
+    useControlsStore.getState().applyLabelsFromMapping(updatedPreset.mapping);
+
+    // Also apply the updated mapping to the MIDI manager so output CC changes take effect immediately
+    const api = (window as { electronAPI?: { applyMapping: (req: { mapping: MappingConfig; deviceId?: string | undefined }) => Promise<{ success: boolean }> } }).electronAPI;
+    if (api) {
+      api.applyMapping({ mapping: updatedPreset.mapping, deviceId: getActiveDeviceId() }).catch((err) => {
+        console.error('[ControlPopover] Failed to apply mapping:', err);
+      });
+    }
+  }, []);
+
+  // Removes this control's shift layer override so it uses its base mapping
+  const handleUseBaseMapping = useCallback(() => {
+    const parsed = parseControlId(controlId);
+    if (!currentPreset || !parsed) return;
+
+    const updatedPreset: Preset = JSON.parse(JSON.stringify(currentPreset));
+    setMappingEntry(updatedPreset.mapping, parsed, undefined, true);
+    commitPreset(updatedPreset);
+    onClose();
+  }, [currentPreset, controlId, commitPreset, onClose]);
 
   // Focus the output CC input when popover opens
   useEffect(() => {
@@ -217,16 +782,28 @@ export function ControlPopover({
 
   // Handle save - updates the current preset in memory
   const handleSave = useCallback(() => {
-    const newErrors: { outputCC?: string; channel?: string } = {};
+    const newErrors: { outputCC?: string; channel?: string; cycleValues?: string; altOutputCC?: string } = {};
     const ccValue = parseInt(outputCC, 10);
     const channelValue = parseInt(channel, 10);
+    const isButton = controlKind === 'button';
+    const isGesture = isButton && (behavior === 'longpress' || behavior === 'doubletap');
+    const parsedCycleValues = isButton && behavior === 'cycle' ? parseCycleValues(cycleValues) : null;
+    const altCCValue = parseInt(altOutputCC, 10);
 
     if (!isValidCC(ccValue)) {
-      newErrors.outputCC = 'CC must be 0-127';
+      newErrors.outputCC = 'Must be 0-127';
+    } else if (controlKind !== 'button' && outputType === 'cc14' && ccValue > CC14_MAX_MSB_CC) {
+      newErrors.outputCC = `14-bit CC must be 0-${CC14_MAX_MSB_CC} (LSB is CC + 32)`;
     }
     if (!isValidChannel(channelValue)) {
       newErrors.channel = 'Channel must be 1-16';
     }
+    if (isButton && behavior === 'cycle' && !parsedCycleValues) {
+      newErrors.cycleValues = `Enter 2-${MAX_CYCLE_VALUES} values from 0-127`;
+    }
+    if (isGesture && !isValidCC(altCCValue)) {
+      newErrors.altOutputCC = 'Must be 0-127';
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -246,51 +823,53 @@ export function ControlPopover({
       return;
     }
 
+    // Radio groups are part of the base layer and only hold toggle buttons
+    const editsGroup = controlKind === 'button' && !editingShiftLayer && canJoinGroup(controlId, currentPreset.mapping);
+    const groupName = editsGroup ? group.trim() : '';
+
     // Create updated mapping entry
+    const existingEntry = getMappingEntry(controlId, currentPreset, editingShiftLayer);
     const updatedEntry: MappingEntry = {
-      inputCC: getMappingEntry(controlId, currentPreset)?.inputCC ?? ccValue,
+      inputCC: existingEntry?.inputCC ?? ccValue,
+      inputChannel: existingEntry?.inputChannel,
       outputCC: ccValue,
       channel: channelValue,
       label: label.trim() || undefined,
-      behavior: controlKind === 'button' ? behavior : undefined,
+      behavior: controlKind === 'button' ? (groupName ? 'toggle' : behavior) : undefined,
       // Only include min/max for continuous controls (knob/slider)
       minValue: controlKind !== 'button' ? minValue : undefined,
       maxValue: controlKind !== 'button' ? maxValue : undefined,
-      // Only include on/off values for buttons
-      onValue: controlKind === 'button' ? onValue : undefined,
-      offValue: controlKind === 'button' ? offValue : undefined,
+      // Only include curve for continuous controls, and steps for the stepped curve
+      curve: controlKind !== 'button' && curve !== 'linear' ? curve : undefined,
+      steps: controlKind !== 'button' && curve === 'stepped' ? steps : undefined,
+      // Buttons and continuous controls offer different output types; 'cc' is the default (and the only one for cycle)
+      outputType: outputType !== 'cc' && outputTypes.includes(outputType) && !parsedCycleValues ? outputType : undefined,
+      parameter: controlKind !== 'button' && (outputType === 'nrpn' || outputType === 'rpn') ? parameter : undefined,
+      smoothingMs: controlKind !== 'button' && isHighResOutputType(outputType) && smoothingMs > 0 ? smoothingMs : undefined,
+      // Only include on/off values for buttons (cycle buttons send their values instead)
+      onValue: isButton && !parsedCycleValues ? onValue : undefined,
+      offValue: isButton && !parsedCycleValues ? offValue : undefined,
+      cycleValues: parsedCycleValues ?? undefined,
+      altOutputCC: isGesture ? altCCValue : undefined,
+      gestureMs: isGesture ? gestureMs : undefined,
+      targets: targets.length > 0 ? targets.map((target) => normalizeTarget(target, controlKind !== 'button')) : undefined,
     };
 
     // Create a deep copy of the current preset with the updated mapping
-    const updatedPreset = JSON.parse(JSON.stringify(currentPreset));
-
-    if (parsed.section === 'track' && parsed.trackNumber !== undefined) {
-      const trackIndex = parsed.trackNumber - 1;
-      updatedPreset.mapping.tracks[trackIndex][parsed.controlType] = updatedEntry;
-    } else if (parsed.section === 'transport') {
-      updatedPreset.mapping.transport[parsed.controlType] = updatedEntry;
+    const updatedPreset: Preset = JSON.parse(JSON.stringify(currentPreset));
+    setMappingEntry(updatedPreset.mapping, parsed, updatedEntry, editingShiftLayer);
+    if (editsGroup) {
+      setButtonGroup(updatedPreset.mapping, controlId, groupName);
     }
-
-    // Update the modified timestamp
-    updatedPreset.metadata.modifiedAt = new Date().toISOString();
-
-    // Update the store with the modified preset (in-memory only, not persisted)
-    // This marks the preset as having unsaved changes
-    usePresetStore.getState().setCurrentPreset(updatedPreset);
-
-    // Sync labels to the controls store so the Editor GUI reflects the updated labels
-    useControlsStore.getState().applyLabelsFromMapping(updatedPreset.mapping);
-
-    // Also apply the updated mapping to the MIDI manager so output CC changes take effect immediately
-    const api = (window as { electronAPI?: { applyMapping: (req: { mapping: typeof updatedPreset.mapping }) => Promise<{ success: boolean }> } }).electronAPI;
-    if (api) {
-      api.applyMapping({ mapping: updatedPreset.mapping }).catch((err) => {
-        console.error('[ControlPopover] Failed to apply mapping:', err);
-      });
+    if (inputBinding) {
+      // A control bound to an input channel stays bound, to the channel it was learned on
+      const inputChannel = existingEntry?.inputChannel !== undefined ? inputBinding.channel : undefined;
+      rebindInput(updatedPreset.mapping, parsed, inputBinding.cc, inputChannel);
     }
+    commitPreset(updatedPreset);
 
     onClose();
-  }, [outputCC, channel, label, behavior, minValue, maxValue, onValue, offValue, currentPreset, controlId, controlKind, onClose]);
+  }, [outputCC, channel, label, behavior, minValue, maxValue, curve, steps, outputType, parameter, smoothingMs, onValue, offValue, targets, group, cycleValues, altOutputCC, gestureMs, inputBinding, currentPreset, controlId, controlKind, outputTypes, editingShiftLayer, commitPreset, onClose]);
 
   // Handle input changes
   const handleOutputCCChange = (value: string) => {
@@ -312,6 +891,21 @@ export function ControlPopover({
 
   const handleBehaviorChange = (value: ButtonBehavior) => {
     setBehavior(value);
+    if (value === 'doubletap' && gestureMs === DEFAULT_LONG_PRESS_MS) {
+      setGestureMs(DEFAULT_DOUBLE_TAP_MS);
+    } else if (value === 'longpress' && gestureMs === DEFAULT_DOUBLE_TAP_MS) {
+      setGestureMs(DEFAULT_LONG_PRESS_MS);
+    }
+    setHasChanges(true);
+    setErrors((prev) => ({ ...prev, cycleValues: undefined, altOutputCC: undefined }));
+  };
+
+  // Group names are used as-is in mapping files, so keep them to one word
+  const handleGroupChange = (value: string) => {
+    setGroup(value.replace(/\s+/g, '_').replace(/[^A-Za-z0-9_-]/g, ''));
+    if (value.trim()) {
+      setBehavior('toggle');
+    }
     setHasChanges(true);
   };
 
@@ -335,8 +929,8 @@ export function ControlPopover({
 
   // Calculate position to keep popover within viewport
   const popoverWidth = 280;
-  // Buttons have behavior + on/off values, knobs/sliders have min/max range
-  const popoverHeight = controlKind === 'button' ? 420 : 340;
+  // Buttons have behavior + on/off values + radio group, knobs/sliders have min/max range + curve editor + output type
+  const popoverHeight = controlKind === 'button' ? 590 : 630;
   const padding = 16;
 
   let left = anchorPosition.x;
@@ -356,7 +950,10 @@ export function ControlPopover({
   left = Math.max(padding, left);
   top = Math.max(padding, top);
 
-  const entry = getMappingEntry(controlId, currentPreset);
+  const entry = getMappingEntry(controlId, currentPreset, editingShiftLayer);
+  const hasShiftOverride = editingShiftLayer && currentPreset !== null && getShiftOverride(controlId, currentPreset) !== null;
+  const showGroup = controlKind === 'button' && !editingShiftLayer && currentPreset !== null && canJoinGroup(controlId, currentPreset.mapping);
+  const groupNames = currentPreset?.mapping.groups?.map((g) => g.name) ?? [];
 
   return (
     <div
@@ -371,7 +968,10 @@ export function ControlPopover({
     >
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-3 border-b border-nk-border">
-        <h3 className="text-sm font-semibold text-gray-200">{displayName}</h3>
+        <h3 className="text-sm font-semibold text-gray-200">
+          {displayName}
+          {editingShiftLayer && <span className="ml-2 text-xs font-medium text-nk-accent">SHIFT</span>}
+        </h3>
         <button
           type="button"
           onClick={onClose}
@@ -385,24 +985,50 @@ export function ControlPopover({
       </div>
 
       {/* Content */}
-      <div className="p-4 space-y-4">
+      <div className="p-4 space-y-4 max-h-[75vh] overflow-y-auto">
         {!currentPreset ? (
           <div className="text-sm text-gray-500">
             No preset loaded. Load a preset first to edit mappings.
           </div>
         ) : (
           <>
-            {/* Input CC (read-only info) */}
-            <div className="flex items-center justify-between">
-              <span className="text-xs text-gray-500">Input CC (hardware):</span>
-              <span className="text-xs font-mono text-gray-400">{entry?.inputCC ?? '-'}</span>
+            {/* Input CC (learned from the hardware; the shift layer uses the base input) */}
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-500 flex-1">Input CC (hardware):</span>
+              {inputBinding ? (
+                <span className="text-xs font-mono text-nk-accent" title={`Learned on channel ${inputBinding.channel}`}>
+                  {inputBinding.cc}
+                </span>
+              ) : (
+                <span className="text-xs font-mono text-gray-400">{entry?.inputCC ?? '-'}</span>
+              )}
+              {!editingShiftLayer && (
+                <LearnButton
+                  active={learning === 'input'}
+                  onClick={() => toggleLearn('input')}
+                  title="Move a control on the unit to listen to its CC"
+                />
+              )}
             </div>
+            {entry?.inputChannel !== undefined && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Input channel (hardware):</span>
+                <span className="text-xs font-mono text-gray-400">{entry.inputChannel}</span>
+              </div>
+            )}
 
             {/* Output CC */}
             <div>
-              <label htmlFor="outputCC" className="block text-xs font-medium text-gray-400 mb-1">
-                Output CC (to DAW)
-              </label>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="outputCC" className="text-xs font-medium text-gray-400">
+                  {getOutputNumberLabel(outputType, controlKind === 'button')}
+                </label>
+                <LearnButton
+                  active={learning === 'output'}
+                  onClick={() => toggleLearn('output')}
+                  title="Send a CC from the DAW or synth to use its CC and channel"
+                />
+              </div>
               <input
                 ref={outputCCInputRef}
                 id="outputCC"
@@ -420,6 +1046,25 @@ export function ControlPopover({
               {errors.outputCC && (
                 <p className="mt-1 text-xs text-red-400">{errors.outputCC}</p>
               )}
+              <div className="flex gap-2 items-center mt-1">
+                <label htmlFor="learnPort" className="text-xs text-gray-500">Learn from</label>
+                <select
+                  id="learnPort"
+                  value={learnPort}
+                  onChange={(e) => setLearnPort(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-0.5 bg-nk-darker border border-nk-border rounded text-xs text-gray-300 focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                >
+                  <option value="">Virtual input</option>
+                  {inputPorts.map((port) => (
+                    <option key={port} value={port}>
+                      {port}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {learnError && (
+                <p className="mt-1 text-xs text-red-400">{learnError}</p>
+              )}
             </div>
 
             {/* Channel */}
@@ -461,6 +1106,72 @@ export function ControlPopover({
               />
             </div>
 
+            {/* Output message type */}
+            <div className="space-y-2">
+              <label htmlFor="outputType" className="text-xs font-medium text-gray-400">Output Type</label>
+              <select
+                id="outputType"
+                value={outputType}
+                onChange={(e) => {
+                  setOutputType(e.target.value as OutputType);
+                  setHasChanges(true);
+                  setErrors((prev) => ({ ...prev, outputCC: undefined }));
+                }}
+                className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-nk-accent"
+              >
+                {outputTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {OUTPUT_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {(outputType === 'nrpn' || outputType === 'rpn') && (
+                <div className="flex gap-2 items-center">
+                  <label htmlFor="parameter" className="text-xs text-gray-500 flex-1">
+                    Parameter number (0-{MIDI_14BIT_MAX})
+                  </label>
+                  <input
+                    id="parameter"
+                    type="number"
+                    min={0}
+                    max={MIDI_14BIT_MAX}
+                    value={parameter}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10) || 0;
+                      setParameter(Math.max(0, Math.min(MIDI_14BIT_MAX, parsed)));
+                      setHasChanges(true);
+                    }}
+                    className="w-20 px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                  />
+                </div>
+              )}
+              {isHighResOutputType(outputType) && (
+                <div className="flex gap-2 items-center">
+                  <label htmlFor="smoothing" className="text-xs text-gray-500 flex-1">
+                    Smoothing (ms, 0 = off)
+                  </label>
+                  <input
+                    id="smoothing"
+                    type="number"
+                    min={0}
+                    max={MAX_SMOOTHING_MS}
+                    value={smoothingMs}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10) || 0;
+                      setSmoothingMs(Math.max(0, Math.min(MAX_SMOOTHING_MS, parsed)));
+                      setHasChanges(true);
+                    }}
+                    className="w-20 px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                  />
+                </div>
+              )}
+              {outputType === 'cc14' && (
+                <p className="text-xs text-gray-500">
+                  MSB on the output CC, LSB on output CC + 32
+                </p>
+              )}
+            </div>
+
             {/* Min/Max Value Range (only for continuous controls) */}
             {(controlKind === 'knob' || controlKind === 'slider') && (
               <div className="space-y-2">
@@ -498,76 +1209,218 @@ export function ControlPopover({
               </div>
             )}
 
+            {/* Response curve (only for continuous controls) */}
+            {(controlKind === 'knob' || controlKind === 'slider') && (
+              <div className="space-y-2">
+                <label htmlFor="curve" className="text-xs font-medium text-gray-400">Response Curve</label>
+                <div className="flex gap-2 items-center">
+                  <select
+                    id="curve"
+                    value={curve}
+                    onChange={(e) => {
+                      setCurve(e.target.value as CurveType);
+                      setHasChanges(true);
+                    }}
+                    className="flex-1 px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                  >
+                    {CURVE_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {CURVE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  {curve === 'stepped' && (
+                    <input
+                      type="number"
+                      min={MIN_CURVE_STEPS}
+                      max={MAX_CURVE_STEPS}
+                      value={steps}
+                      onChange={(e) => {
+                        const parsed = parseInt(e.target.value, 10) || DEFAULT_CURVE_STEPS;
+                        setSteps(Math.max(MIN_CURVE_STEPS, Math.min(MAX_CURVE_STEPS, parsed)));
+                        setHasChanges(true);
+                      }}
+                      className="w-16 px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                      title="Number of steps"
+                    />
+                  )}
+                </div>
+                <CurvePreview curve={curve} steps={steps} minValue={minValue} maxValue={maxValue} />
+              </div>
+            )}
+
+            {/* Additional output targets (one-to-many) */}
+            <OutputTargetsEditor
+              targets={targets}
+              isContinuous={controlKind !== 'button'}
+              defaultChannel={parseInt(channel, 10) || globalMidiChannel}
+              onChange={(updated) => {
+                setTargets(updated);
+                setHasChanges(true);
+              }}
+            />
+
             {/* Behavior (buttons only) */}
             {controlKind === 'button' && (
               <>
-                <div>
-                  <label className="block text-xs font-medium text-gray-400 mb-2">
+                <div className="space-y-2">
+                  <label htmlFor="behavior" className="block text-xs font-medium text-gray-400">
                     Button Behavior
                   </label>
-                  <div className="flex gap-3">
-                    <label className="flex items-center gap-2 cursor-pointer">
-                      <input
-                        type="radio"
-                        name="behavior"
-                        value="toggle"
-                        checked={behavior === 'toggle'}
-                        onChange={() => handleBehaviorChange('toggle')}
-                        className="text-nk-accent focus:ring-nk-accent"
-                      />
-                      <span className="text-sm text-gray-300">Toggle</span>
-                    </label>
-                    <label className="flex items-center gap-2 cursor-pointer">
+                  <select
+                    id="behavior"
+                    value={behavior}
+                    onChange={(e) => handleBehaviorChange(e.target.value as ButtonBehavior)}
+                    disabled={group !== ''}
+                    title={group ? 'Buttons in a radio group are toggle buttons' : undefined}
+                    className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-nk-accent disabled:opacity-40"
+                  >
+                    {BUTTON_BEHAVIORS.map((type) => (
+                      <option key={type} value={type}>
+                        {BEHAVIOR_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+
+                  {behavior === 'cycle' && (
+                    <div>
+                      <label htmlFor="cycleValues" className="block text-xs text-gray-500 mb-1">
+                        Values (sent in turn on each press, always as CC)
+                      </label>
                       <input
-                        type="radio"
-                        name="behavior"
-                        value="momentary"
-                        checked={behavior === 'momentary'}
-                        onChange={() => handleBehaviorChange('momentary')}
-                        className="text-nk-accent focus:ring-nk-accent"
-                      />
-                      <span className="text-sm text-gray-300">Momentary</span>
-                    </label>
-                  </div>
-                </div>
-
-                {/* On/Off Values for buttons */}
-                <div className="space-y-2">
-                  <label className="text-xs font-medium text-gray-400">Button Output Values</label>
-                  <div className="flex gap-2 items-center">
-                    <div className="flex-1">
-                      <label className="block text-xs text-gray-500 mb-1">Off</label>
-                      <input
-                        type="number"
-                        min={0}
-                        max={127}
-                        value={offValue}
+                        id="cycleValues"
+                        type="text"
+                        value={cycleValues}
                         onChange={(e) => {
-                          setOffValue(parseInt(e.target.value) || 0);
+                          setCycleValues(e.target.value);
                           setHasChanges(true);
+                          setErrors((prev) => ({ ...prev, cycleValues: undefined }));
                         }}
-                        className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                        placeholder="e.g., 0, 64, 127"
+                        className={`w-full px-2 py-1.5 bg-nk-darker border rounded text-sm font-mono text-gray-200 focus:outline-none focus:ring-1 focus:ring-nk-accent ${
+                          errors.cycleValues ? 'border-red-500' : 'border-nk-border'
+                        }`}
                       />
+                      {errors.cycleValues && <p className="mt-1 text-xs text-red-400">{errors.cycleValues}</p>}
                     </div>
-                    <div className="flex-1">
-                      <label className="block text-xs text-gray-500 mb-1">On</label>
-                      <input
-                        type="number"
-                        min={0}
-                        max={127}
-                        value={onValue}
-                        onChange={(e) => {
-                          setOnValue(parseInt(e.target.value) || 127);
-                          setHasChanges(true);
-                        }}
-                        className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
-                      />
+                  )}
+
+                  {(behavior === 'longpress' || behavior === 'doubletap') && (
+                    <>
+                      <div className="flex gap-2 items-center">
+                        <label htmlFor="altOutputCC" className="text-xs text-gray-500 flex-1">
+                          {behavior === 'longpress' ? 'Long-press' : 'Double-tap'} output (0-127)
+                        </label>
+                        <input
+                          id="altOutputCC"
+                          type="number"
+                          min={0}
+                          max={127}
+                          value={altOutputCC}
+                          onChange={(e) => {
+                            setAltOutputCC(e.target.value);
+                            setHasChanges(true);
+                            setErrors((prev) => ({ ...prev, altOutputCC: undefined }));
+                          }}
+                          className={`w-20 px-2 py-1.5 bg-nk-darker border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent ${
+                            errors.altOutputCC ? 'border-red-500' : 'border-nk-border'
+                          }`}
+                        />
+                      </div>
+                      {errors.altOutputCC && <p className="text-xs text-red-400">{errors.altOutputCC}</p>}
+                      <div className="flex gap-2 items-center">
+                        <label htmlFor="gestureMs" className="text-xs text-gray-500 flex-1">
+                          {behavior === 'longpress' ? 'Hold time' : 'Tap window'} (ms)
+                        </label>
+                        <input
+                          id="gestureMs"
+                          type="number"
+                          min={1}
+                          max={MAX_GESTURE_MS}
+                          value={gestureMs}
+                          onChange={(e) => {
+                            const parsed = parseInt(e.target.value, 10) || 1;
+                            setGestureMs(Math.max(1, Math.min(MAX_GESTURE_MS, parsed)));
+                            setHasChanges(true);
+                          }}
+                          className="w-20 px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {behavior === 'longpress'
+                          ? 'A short press triggers the output CC; holding sends the long-press output until released'
+                          : 'A single press triggers the output CC after the window; a double tap triggers the double-tap output'}
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {/* Radio group (base layer toggle buttons) */}
+                {showGroup && (
+                  <div>
+                    <label htmlFor="group" className="block text-xs font-medium text-gray-400 mb-1">
+                      Radio Group
+                    </label>
+                    <input
+                      id="group"
+                      type="text"
+                      list="group-names"
+                      value={group}
+                      onChange={(e) => handleGroupChange(e.target.value)}
+                      maxLength={32}
+                      placeholder="None (e.g., track_select)"
+                      className="w-full px-3 py-2 bg-nk-darker border border-nk-border rounded text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                    />
+                    <datalist id="group-names">
+                      {groupNames.map((name) => (
+                        <option key={name} value={name} />
+                      ))}
+                    </datalist>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Turning this button on turns the group's other buttons off
+                    </p>
+                  </div>
+                )}
+
+                {/* On/Off Values for buttons (cycle buttons send their values instead) */}
+                {behavior !== 'cycle' && (
+                  <div className="space-y-2">
+                    <label className="text-xs font-medium text-gray-400">Button Output Values</label>
+                    <div className="flex gap-2 items-center">
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">Off</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={127}
+                          value={offValue}
+                          onChange={(e) => {
+                            setOffValue(parseInt(e.target.value) || 0);
+                            setHasChanges(true);
+                          }}
+                          className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">On</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={127}
+                          value={onValue}
+                          onChange={(e) => {
+                            setOnValue(parseInt(e.target.value) || 127);
+                            setHasChanges(true);
+                          }}
+                          className="w-full px-2 py-1.5 bg-nk-darker border border-nk-border rounded text-sm font-mono text-gray-200 text-center focus:outline-none focus:ring-1 focus:ring-nk-accent"
+                        />
+                      </div>
                     </div>
+                    <p className="text-xs text-gray-500">
+                      CC values sent for button states
+                    </p>
                   </div>
-                  <p className="text-xs text-gray-500">
-                    CC values sent for button states
-                  </p>
-                </div>
+                )}
               </>
             )}
           </>
@@ -577,6 +1430,16 @@ export function ControlPopover({
       {/* Footer */}
       {currentPreset && (
         <div className="flex justify-end gap-2 px-4 py-3 border-t border-nk-border">
+          {hasShiftOverride && (
+            <button
+              type="button"
+              onClick={handleUseBaseMapping}
+              className="mr-auto px-2 py-1.5 text-xs text-gray-500 hover:text-gray-200 transition-colors"
+              title="Remove the shift layer mapping so this control uses its base mapping"
+            >
+              Use Base
+            </button>
+          )}
           <button
             type="button"
             onClick={onClose}
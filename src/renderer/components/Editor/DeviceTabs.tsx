@@ -0,0 +1,43 @@
+/**
+ * Device Tabs Component
+ *
+ * Switches the editor between controller units when more than one is
+ * connected. Each unit keeps its own preset, unsaved changes and control
+ * state; switching tabs only changes which unit the editor shows and edits.
+ */
+
+import React from 'react';
+import { useConnectionStore } from '../../stores/connection';
+import { findProfile } from '@shared/profiles';
+import { usePresetStore } from '../../stores/preset';
+
+export function DeviceTabs(): React.ReactElement | null {
+  const devices = useConnectionStore((state) => state.devices);
+  const activeDeviceId = useConnectionStore((state) => state.activeDeviceId);
+  const profiles = useConnectionStore((state) => state.profiles);
+  const selectDevice = usePresetStore((state) => state.selectDevice);
+
+  if (devices.length < 2) return null;
+
+  return (
+    <div className="flex rounded overflow-hidden border border-nk-border mb-4 self-start">
+      {devices.map((device, index) => {
+        // The first device is addressed as null so it stays selected across reconnects
+        const tabId = index === 0 ? null : device.id;
+        const active = tabId === activeDeviceId;
+
+        return (
+          <button
+            key={device.id || index}
+            onClick={() => selectDevice(tabId)}
+            className={`px-3 py-1 text-xs ${active ? 'bg-nk-accent text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            title={`${findProfile(profiles, device.profileId).name}: ${device.inputPort ?? 'Disconnected'}`}
+          >
+            Unit {index + 1}
+            {!device.connected && <span className="ml-1 text-gray-500">(offline)</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
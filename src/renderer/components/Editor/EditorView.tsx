@@ -1,8 +1,10 @@
 /**
  * Editor View Component
  *
- * Main editor view showing the visual representation of the nanoKONTROL2.
- * Displays 8 tracks with knobs, sliders, and buttons, plus transport controls.
+ * Main editor view showing the visual representation of the controller.
+ * Displays the layout sections of the active unit's device profile: track
+ * strips, transport controls and control grids (8 strips plus transport for
+ * the nanoKONTROL2).
  *
  * Users can click on any control to edit its CC mapping. Changes are stored
  * in memory until explicitly saved via the Save button.
@@ -11,15 +13,22 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { Track } from './Track';
 import { Transport } from './Transport';
+import { ControlGrid } from './ControlGrid';
+import { LayerSwitcher } from './LayerSwitcher';
+import { ScenesBar } from './ScenesBar';
+import { DeviceTabs } from './DeviceTabs';
 import { useControlsStore } from '../../stores/controls';
 import { usePresetStore } from '../../stores/preset';
 import { useUndoStore } from '../../stores/undo';
+import { useActiveProfile } from '../../stores/connection';
 import { NewPresetDialog } from '../Librarian/NewPresetDialog';
 import type { ControlValues, Preset } from '@shared/ipc-protocol';
 
 export function EditorView(): React.ReactElement {
   const tracks = useControlsStore((state) => state.tracks);
   const transport = useControlsStore((state) => state.transport);
+  const bank = useControlsStore((state) => state.bank);
+  const profile = useActiveProfile();
   const currentPreset = usePresetStore((state) => state.currentPreset);
   const hasUnsavedChanges = usePresetStore((state) => state.hasUnsavedChanges);
   const saveCurrentPreset = usePresetStore((state) => state.saveCurrentPreset);
@@ -240,7 +249,7 @@ export function EditorView(): React.ReactElement {
       const currentValues = captureControlValues();
       pushSnapshot('Randomize All', currentValues);
 
-      await randomizeKnobsAndSliders(currentPreset.mapping);
+      await randomizeKnobsAndSliders();
       markUnsavedChanges();
       setRandomizeFeedback('success');
       setTimeout(() => setRandomizeFeedback('idle'), 1000);
@@ -258,7 +267,7 @@ export function EditorView(): React.ReactElement {
       const currentValues = captureControlValues();
       pushSnapshot('Randomize Selected', currentValues);
 
-      await randomizeSelectedKnobsAndSliders(currentPreset.mapping);
+      await randomizeSelectedKnobsAndSliders();
       markUnsavedChanges();
       setRandomizeFeedback('success');
       setTimeout(() => setRandomizeFeedback('idle'), 1000);
@@ -311,7 +320,7 @@ export function EditorView(): React.ReactElement {
         {/* Controller header */}
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-3">
-            <h2 className="text-lg font-semibold text-gray-200">nanoKONTROL2 Editor</h2>
+            <h2 className="text-lg font-semibold text-gray-200">{profile.name} Editor</h2>
             {currentPreset && (
               <span className="text-sm text-gray-400">
                 {currentPreset.metadata.name}
@@ -453,6 +462,9 @@ export function EditorView(): React.ReactElement {
           </div>
         </div>
 
+        {/* Unit selection when several controller units are connected */}
+        <DeviceTabs />
+
         {/* No preset loaded warning */}
         {!currentPreset && (
           <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-800 rounded text-sm text-yellow-400">
@@ -460,21 +472,35 @@ export function EditorView(): React.ReactElement {
           </div>
         )}
 
+        {/* Base/shift layer selection */}
+        <LayerSwitcher />
+
+        {/* Scene snapshots and morphing */}
+        <ScenesBar />
+
         {/* Controller visualization */}
         <div className="flex-1 bg-nk-darker rounded-lg p-4 overflow-auto">
-          {/* Track strips - flex-shrink-0 prevents compression in flex container */}
-          <div className="flex gap-4 justify-center mb-6 flex-shrink-0">
-            {tracks.map((track, index) => (
-              <Track
-                key={index}
-                trackNumber={index + 1}
-                track={track}
-              />
-            ))}
-          </div>
-
-          {/* Transport section */}
-          <Transport />
+          {profile.layout.sections.map((section, sectionIndex) => {
+            switch (section.type) {
+              case 'strips':
+                // Track strips - flex-shrink-0 prevents compression in flex container
+                return (
+                  <div key={sectionIndex} className="flex gap-4 justify-center mb-6 flex-shrink-0">
+                    {tracks.slice(0, section.count).map((track, index) => (
+                      <Track
+                        key={index}
+                        trackNumber={bank * 8 + index + 1}
+                        track={track}
+                      />
+                    ))}
+                  </div>
+                );
+              case 'transport':
+                return <Transport key={sectionIndex} />;
+              case 'grid':
+                return <ControlGrid key={sectionIndex} label={section.label} columns={section.columns} controls={section.controls} />;
+            }
+          })}
         </div>
       </div>
 
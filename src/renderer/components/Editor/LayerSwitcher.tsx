@@ -0,0 +1,131 @@
+/**
+ * Layer Switcher Component
+ *
+ * Chooses the shift button and mode for the current preset and switches the
+ * editor between the base and shift layers. While the shift layer is active,
+ * clicking a control edits its shift mapping instead of its base mapping.
+ */
+
+import React, { useCallback } from 'react';
+import { useControlsStore } from '../../stores/controls';
+import { usePresetStore } from '../../stores/preset';
+import { getActiveDeviceId } from '../../stores/connection';
+import { TRANSPORT_CONTROL_TYPES } from '@shared/constants';
+import type { MappingConfig, ShiftMode } from '@shared/types';
+import type { ElectronAPI } from '../../../main/preload';
+
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+export function LayerSwitcher(): React.ReactElement | null {
+  const currentPreset = usePresetStore((state) => state.currentPreset);
+  const shiftActive = useControlsStore((state) => state.shiftActive);
+  const setShiftActive = useControlsStore((state) => state.setShiftActive);
+
+  const shift = currentPreset?.mapping.shift;
+
+  // With track banks, track_left/track_right page the strips and can't be the shift button
+  const shiftButtonOptions = TRANSPORT_CONTROL_TYPES.filter(
+    (control) => !currentPreset?.mapping.banks || (control !== 'track_left' && control !== 'track_right')
+  );
+
+  // Stores the edited mapping and applies it to the MIDI manager
+  const updateMapping = useCallback((mapping: MappingConfig) => {
+    if (!currentPreset) return;
+
+    const presetStore = usePresetStore.getState();
+    presetStore.setCurrentPreset({
+      ...currentPreset,
+      mapping,
+      metadata: { ...currentPreset.metadata, modifiedAt: new Date().toISOString() },
+    });
+    presetStore.markUnsavedChanges();
+
+    getElectronAPI()?.applyMapping({ mapping, deviceId: getActiveDeviceId() }).catch((err) => {
+      console.error('[LayerSwitcher] Failed to apply mapping:', err);
+    });
+  }, [currentPreset]);
+
+  const handleButtonChange = useCallback((button: string) => {
+    if (!currentPreset) return;
+
+    const mapping: MappingConfig = { ...currentPreset.mapping };
+    if (!button) {
+      // Removing the shift button removes the whole layer
+      delete mapping.shift;
+      if (shiftActive) {
+        setShiftActive(false);
+      }
+    } else {
+      mapping.shift = shift
+        ? { ...shift, button }
+        : { button, mode: 'hold', tracks: Array.from({ length: 8 }, () => ({})), transport: {} };
+    }
+    updateMapping(mapping);
+  }, [currentPreset, shift, shiftActive, setShiftActive, updateMapping]);
+
+  const handleModeChange = useCallback((mode: ShiftMode) => {
+    if (!currentPreset || !shift) return;
+    updateMapping({ ...currentPreset.mapping, shift: { ...shift, mode } });
+  }, [currentPreset, shift, updateMapping]);
+
+  if (!currentPreset) return null;
+
+  return (
+    <div className="flex items-center gap-4 mb-4 text-sm">
+      {/* Layer toggle */}
+      <div className="flex rounded overflow-hidden border border-nk-border">
+        <button
+          onClick={() => setShiftActive(false)}
+          className={`px-3 py-1 text-xs ${!shiftActive ? 'bg-nk-accent text-white' : 'text-gray-400 hover:text-gray-200'}`}
+          title="Edit and play the base layer"
+        >
+          Base
+        </button>
+        <button
+          onClick={() => setShiftActive(true)}
+          disabled={!shift}
+          className={`px-3 py-1 text-xs ${
+            shiftActive ? 'bg-nk-accent text-white' : 'text-gray-400 hover:text-gray-200'
+          } disabled:opacity-40 disabled:cursor-not-allowed`}
+          title={shift ? 'Edit and play the shift layer' : 'Choose a shift button to enable the shift layer'}
+        >
+          Shift
+        </button>
+      </div>
+
+      {/* Shift button */}
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        Shift button
+        <select
+          value={shift?.button ?? ''}
+          onChange={(e) => handleButtonChange(e.target.value)}
+          className="input text-xs py-1"
+        >
+          <option value="">None</option>
+          {shiftButtonOptions.map((control) => (
+            <option key={control} value={`transport.${control}`}>
+              {control.replace('_', ' ')}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Shift mode */}
+      {shift && (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Mode
+          <select
+            value={shift.mode}
+            onChange={(e) => handleModeChange(e.target.value as ShiftMode)}
+            className="input text-xs py-1"
+          >
+            <option value="hold">Hold</option>
+            <option value="latch">Latch</option>
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Scenes Bar Component
+ *
+ * Shows the current preset's scenes (up to 8 snapshots of knob/slider values).
+ * Clicking a scene recalls it, morphing the unit's controls to its values;
+ * the selected scene's name, morph time and recall button can be edited and
+ * its values recaptured from the editor.
+ */
+
+import React, { useState } from 'react';
+import { usePresetStore } from '../../stores/preset';
+import { useScenesStore } from '../../stores/scenes';
+import { TRANSPORT_CONTROL_TYPES } from '@shared/constants';
+import { MAX_SCENES, MAX_SCENE_MORPH_MS } from '@shared/types';
+
+/** Track buttons that can recall a scene */
+const TRACK_SCENE_BUTTONS = Array.from({ length: 8 }, (_, i) =>
+  ['solo', 'mute', 'rec'].map((control) => `track${i + 1}.${control}`)
+).flat();
+
+/**
+ * Formats a button control type for display (e.g., 'transport.marker_set' -> 'marker set').
+ */
+function formatButton(controlType: string): string {
+  return controlType.replace('transport.', '').replace('.', ' ').replace('_', ' ');
+}
+
+export function ScenesBar(): React.ReactElement | null {
+  const currentPreset = usePresetStore((state) => state.currentPreset);
+  const activeScene = useScenesStore((state) => state.activeScene);
+  const morphing = useScenesStore((state) => state.morphing);
+  const error = useScenesStore((state) => state.error);
+  const captureScene = useScenesStore((state) => state.captureScene);
+  const updateScene = useScenesStore((state) => state.updateScene);
+  const deleteScene = useScenesStore((state) => state.deleteScene);
+  const recallScene = useScenesStore((state) => state.recallScene);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (!currentPreset) return null;
+
+  const mapping = currentPreset.mapping;
+  const scenes = mapping.scenes ?? [];
+  const selectedScene = selected !== null ? scenes[selected] : undefined;
+
+  // The shift button, paging buttons and other scenes' buttons can't recall a scene
+  const takenButtons = new Set(
+    scenes.filter((_, i) => i !== selected).map((scene) => scene.button).filter(Boolean)
+  );
+  if (mapping.shift) {
+    takenButtons.add(mapping.shift.button);
+  }
+  if (mapping.banks) {
+    takenButtons.add('transport.track_left');
+    takenButtons.add('transport.track_right');
+  }
+  const buttonOptions = [
+    ...TRANSPORT_CONTROL_TYPES.map((control) => `transport.${control}`),
+    ...TRACK_SCENE_BUTTONS,
+  ].filter((button) => !takenButtons.has(button));
+
+  const handleAdd = () => {
+    captureScene(scenes.length);
+    setSelected(scenes.length);
+  };
+
+  const handleDelete = () => {
+    if (selected === null || !selectedScene) return;
+    if (window.confirm(`Delete scene "${selectedScene.name}"?`)) {
+      deleteScene(selected);
+      setSelected(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-400 w-12">Scenes</span>
+        {scenes.map((scene, index) => (
+          <button
+            key={index}
+            onClick={() => {
+              setSelected(index);
+              recallScene(index);
+            }}
+            className={`px-3 py-1 text-xs rounded border ${
+              index === activeScene
+                ? `bg-nk-accent text-white border-nk-accent ${morphing ? 'animate-pulse' : ''}`
+                : 'bg-nk-dark text-gray-300 border-nk-border hover:bg-nk-light'
+            } ${index === selected ? 'ring-1 ring-gray-300' : ''}`}
+            title={`Recall "${scene.name}" (${scene.morphMs} ms morph)${scene.button ? ` - ${formatButton(scene.button)} button` : ''}`}
+          >
+            {scene.name}
+          </button>
+        ))}
+        {scenes.length < MAX_SCENES && (
+          <button
+            onClick={handleAdd}
+            className="px-3 py-1 text-xs rounded border border-dashed border-nk-border text-gray-500 hover:text-gray-300"
+            title="Capture the current knob and slider values as a new scene"
+          >
+            + Scene
+          </button>
+        )}
+      </div>
+
+      {/* Selected scene settings */}
+      {selected !== null && selectedScene && (
+        <div className="flex items-center gap-3 mt-2 ml-14 text-xs text-gray-400">
+          <input
+            type="text"
+            className="input text-xs py-1 w-32"
+            maxLength={50}
+            value={selectedScene.name}
+            onChange={(e) => updateScene(selected, { name: e.target.value || `Scene ${selected + 1}` })}
+          />
+          <label className="flex items-center gap-1">
+            Morph
+            <input
+              type="number"
+              className="input text-xs py-1 w-20"
+              min={0}
+              max={MAX_SCENE_MORPH_MS}
+              step={100}
+              value={selectedScene.morphMs}
+              onChange={(e) =>
+                updateScene(selected, {
+                  morphMs: Math.min(Math.max(Math.round(Number(e.target.value) || 0), 0), MAX_SCENE_MORPH_MS),
+                })
+              }
+            />
+            ms
+          </label>
+          <label className="flex items-center gap-1">
+            Button
+            <select
+              className="input text-xs py-1"
+              value={selectedScene.button ?? ''}
+              onChange={(e) => updateScene(selected, { button: e.target.value || undefined })}
+              title="Hardware button that recalls the scene; it no longer sends its own output"
+            >
+              <option value="">None</option>
+              {buttonOptions.map((button) => (
+                <option key={button} value={button}>
+                  {formatButton(button)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            className="btn btn-ghost text-xs px-2 py-1"
+            onClick={() => captureScene(selected)}
+            title="Replace the scene's values with the current knob and slider values"
+          >
+            Capture
+          </button>
+          <button className="text-xs text-gray-500 hover:text-red-400" onClick={handleDelete} title="Delete scene">
+            Delete
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-1 ml-14">{error}</p>}
+    </div>
+  );
+}
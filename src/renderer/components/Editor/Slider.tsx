@@ -20,12 +20,16 @@ interface SliderProps {
   selected?: boolean;
   /** Callback when selection is toggled */
   onToggleSelection?: () => void;
+  /** Whether the physical control is waiting to pick up this value (soft takeover) */
+  waitingForPickup?: boolean;
+  /** Last known physical position while waiting for pickup */
+  physicalValue?: number | null;
 }
 
 /** Minimum drag distance (in pixels) to distinguish drag from click */
 const DRAG_THRESHOLD = 3;
 
-export function Slider({ value, label, controlId, onValueChange, selected = false, onToggleSelection }: SliderProps): React.ReactElement {
+export function Slider({ value, label, controlId, onValueChange, selected = false, onToggleSelection, waitingForPickup = false, physicalValue = null }: SliderProps): React.ReactElement {
   const [isDragging, setIsDragging] = useState(false);
   const [popoverOpen, setPopoverOpen] = useState(false);
   const [popoverPosition, setPopoverPosition] = useState({ x: 0, y: 0 });
@@ -141,6 +145,14 @@ export function Slider({ value, label, controlId, onValueChange, selected = fals
           />
         </div>
         <span className="text-xs text-gray-600">{value}</span>
+        {waitingForPickup && (
+          <span
+            className="text-[10px] leading-none text-amber-400"
+            title={`Waiting for pickup: move the hardware slider to ${value}`}
+          >
+            pickup {physicalValue ?? '?'}→{value}
+          </span>
+        )}
       </div>
 
       <ControlPopover
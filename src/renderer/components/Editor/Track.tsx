@@ -1,12 +1,14 @@
 /**
  * Track Component
  *
- * Represents a single track channel on the nanoKONTROL2.
- * Contains a knob, slider, and three buttons (solo, mute, rec).
+ * Represents a single track channel on the controller.
+ * Contains a knob, slider, and three buttons (solo, mute, rec); controls the
+ * device profile has no hardware for are not shown.
  *
  * When GUI controls are manipulated, this component:
  * 1. Updates the local store state for UI reflection
- * 2. Sends MIDI CC messages to the virtual output port for DAW control
+ * 2. Sends the control value to the main-process mapping engine, which applies
+ *    the preset's output CC, channel, range and on/off values
  */
 
 import React from 'react';
@@ -16,86 +18,39 @@ import { Button } from './Button';
 import type { TrackState } from '../../stores/controls';
 import { useControlsStore } from '../../stores/controls';
 import { usePresetStore } from '../../stores/preset';
-import { HARDWARE_CC } from '@shared/constants';
+import { getActiveDeviceId, useActiveProfile } from '../../stores/connection';
+import { hasProfileControl } from '@shared/constants';
 import type { ElectronAPI } from '../../../main/preload';
-import type { MappingEntry } from '@shared/types';
 
 // Retrieve electronAPI from window for MIDI output
 const getElectronAPI = (): ElectronAPI | null => {
   return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
 };
 
-// Default MIDI channel for GUI-initiated CC messages (0-indexed)
-const DEFAULT_MIDI_CHANNEL = 0;
-
-/**
- * Scale a GUI value (0-127) to the configured min/max output range.
- * Formula: min + (value / 127) * (max - min)
- * Result is clamped to 0-127 and rounded to an integer.
- */
-function scaleValue(value: number, minValue: number = 0, maxValue: number = 127): number {
-  // Handle edge case where minValue > maxValue by swapping
-  const min = Math.min(minValue, maxValue);
-  const max = Math.max(minValue, maxValue);
-
-  // Apply scaling formula
-  const scaled = min + (value / 127) * (max - min);
-
-  // Clamp to 0-127 and round to integer
-  return Math.round(Math.max(0, Math.min(127, scaled)));
-}
-
-/**
- * Get the MIDI value for a button based on its state and configured on/off values.
- * Uses custom onValue/offValue if configured, otherwise defaults to 127/0.
- * Result is clamped to 0-127.
- */
-function getButtonMidiValue(active: boolean, mapping?: MappingEntry): number {
-  if (active) {
-    const onValue = mapping?.onValue ?? 127;
-    return Math.max(0, Math.min(127, onValue));
-  } else {
-    const offValue = mapping?.offValue ?? 0;
-    return Math.max(0, Math.min(127, offValue));
-  }
-}
-
 interface TrackProps {
+  /** Track number including the bank offset (e.g., 9 for the first strip of bank 2) */
   trackNumber: number;
   track: TrackState;
 }
 
 export function Track({ trackNumber, track }: TrackProps): React.ReactElement {
   const updateControl = useControlsStore((state) => state.updateControl);
-  const updateButton = useControlsStore((state) => state.updateButton);
+  const clickButton = useControlsStore((state) => state.clickButton);
   const selections = useControlsStore((state) => state.selections);
   const toggleControlSelection = useControlsStore((state) => state.toggleControlSelection);
+  const profile = useActiveProfile();
+  const has = (control: string) => hasProfileControl(profile, `track${trackNumber}.${control}`);
 
-  const trackIndex = trackNumber - 1;
+  // Selections are per physical strip
+  const trackIndex = (trackNumber - 1) % 8;
   const selection = selections[trackIndex];
 
   const handleKnobChange = (value: number) => {
     // Update local store state for UI
     updateControl(`track${trackNumber}.knob`, value);
 
-    // Send MIDI CC to virtual output port
-    const api = getElectronAPI();
-    if (api) {
-      const ccNumber = HARDWARE_CC.KNOBS[trackNumber - 1];
-      if (ccNumber !== undefined) {
-        // Get the current mapping to apply min/max scaling
-        const currentPreset = usePresetStore.getState().currentPreset;
-        const trackIndex = trackNumber - 1;
-        const mapping = currentPreset?.mapping.tracks[trackIndex]?.knob;
-
-        // Scale value from 0-127 to configured min-max range
-        const minVal = mapping?.minValue ?? 0;
-        const maxVal = mapping?.maxValue ?? 127;
-        const scaledValue = scaleValue(value, minVal, maxVal);
-
-        api.sendCC({ channel: DEFAULT_MIDI_CHANNEL, cc: ccNumber, value: scaledValue });
-      }
-    }
+    // Send through the mapping engine to the virtual output port
+    getElectronAPI()?.sendControl({ controlType: `track${trackNumber}.knob`, value, deviceId: getActiveDeviceId() });
 
     // Mark preset as having unsaved changes
     usePresetStore.getState().markUnsavedChanges();
@@ -105,24 +60,8 @@ export function Track({ trackNumber, track }: TrackProps): React.ReactElement {
     // Update local store state for UI
     updateControl(`track${trackNumber}.slider`, value);
 
-    // Send MIDI CC to virtual output port
-    const api = getElectronAPI();
-    if (api) {
-      const ccNumber = HARDWARE_CC.SLIDERS[trackNumber - 1];
-      if (ccNumber !== undefined) {
-        // Get the current mapping to apply min/max scaling
-        const currentPreset = usePresetStore.getState().currentPreset;
-        const trackIndex = trackNumber - 1;
-        const mapping = currentPreset?.mapping.tracks[trackIndex]?.slider;
-
-        // Scale value from 0-127 to configured min-max range
-        const minVal = mapping?.minValue ?? 0;
-        const maxVal = mapping?.maxValue ?? 127;
-        const scaledValue = scaleValue(value, minVal, maxVal);
-
-        api.sendCC({ channel: DEFAULT_MIDI_CHANNEL, cc: ccNumber, value: scaledValue });
-      }
-    }
+    // Send through the mapping engine to the virtual output port
+    getElectronAPI()?.sendControl({ controlType: `track${trackNumber}.slider`, value, deviceId: getActiveDeviceId() });
 
     // Mark preset as having unsaved changes
     usePresetStore.getState().markUnsavedChanges();
@@ -133,25 +72,15 @@ export function Track({ trackNumber, track }: TrackProps): React.ReactElement {
     const newActive = !currentActive;
 
     // Update local store state for UI
-    updateButton(`track${trackNumber}.${buttonType}`, newActive);
-
-    // Send MIDI CC to virtual output port
-    const api = getElectronAPI();
-    if (api) {
-      const ccArrayKey = buttonType.toUpperCase() as keyof typeof HARDWARE_CC;
-      const ccArray = HARDWARE_CC[ccArrayKey] as readonly number[];
-      const ccNumber = ccArray[trackNumber - 1];
-      if (ccNumber !== undefined) {
-        // Get the current mapping to apply custom on/off values
-        const currentPreset = usePresetStore.getState().currentPreset;
-        const trackIndex = trackNumber - 1;
-        const mapping = currentPreset?.mapping.tracks[trackIndex]?.[buttonType];
-
-        // Use custom on/off values if configured, otherwise default to 127/0
-        const midiValue = getButtonMidiValue(newActive, mapping);
-        api.sendCC({ channel: DEFAULT_MIDI_CHANNEL, cc: ccNumber, value: midiValue });
-      }
-    }
+    clickButton(`track${trackNumber}.${buttonType}`, newActive);
+
+    // Send through the mapping engine (applies the configured on/off values)
+    getElectronAPI()?.sendControl({
+      controlType: `track${trackNumber}.${buttonType}`,
+      value: newActive ? 127 : 0,
+      press: true,
+      deviceId: getActiveDeviceId(),
+    });
 
     // Mark preset as having unsaved changes
     usePresetStore.getState().markUnsavedChanges();
@@ -165,48 +94,62 @@ export function Track({ trackNumber, track }: TrackProps): React.ReactElement {
       </div>
 
       {/* Knob */}
-      <Knob
-        value={track.knob.value}
-        label={track.knob.label}
-        controlId={`track${trackNumber}.knob`}
-        onValueChange={handleKnobChange}
-        selected={selection?.knob ?? false}
-        onToggleSelection={() => toggleControlSelection(trackIndex, 'knob')}
-      />
+      {has('knob') && (
+        <Knob
+          value={track.knob.value}
+          label={track.knob.label}
+          controlId={`track${trackNumber}.knob`}
+          onValueChange={handleKnobChange}
+          selected={selection?.knob ?? false}
+          onToggleSelection={() => toggleControlSelection(trackIndex, 'knob')}
+          waitingForPickup={track.knob.locked ?? false}
+          physicalValue={track.knob.physicalValue ?? null}
+        />
+      )}
 
       {/* Slider */}
-      <Slider
-        value={track.slider.value}
-        label={track.slider.label}
-        controlId={`track${trackNumber}.slider`}
-        onValueChange={handleSliderChange}
-        selected={selection?.slider ?? false}
-        onToggleSelection={() => toggleControlSelection(trackIndex, 'slider')}
-      />
+      {has('slider') && (
+        <Slider
+          value={track.slider.value}
+          label={track.slider.label}
+          controlId={`track${trackNumber}.slider`}
+          onValueChange={handleSliderChange}
+          selected={selection?.slider ?? false}
+          onToggleSelection={() => toggleControlSelection(trackIndex, 'slider')}
+          waitingForPickup={track.slider.locked ?? false}
+          physicalValue={track.slider.physicalValue ?? null}
+        />
+      )}
 
       {/* Buttons */}
       <div className="flex flex-col gap-2">
-        <Button
-          type="solo"
-          active={track.solo.active}
-          label={track.solo.label}
-          controlId={`track${trackNumber}.solo`}
-          onClick={() => handleButtonClick('solo')}
-        />
-        <Button
-          type="mute"
-          active={track.mute.active}
-          label={track.mute.label}
-          controlId={`track${trackNumber}.mute`}
-          onClick={() => handleButtonClick('mute')}
-        />
-        <Button
-          type="rec"
-          active={track.rec.active}
-          label={track.rec.label}
-          controlId={`track${trackNumber}.rec`}
-          onClick={() => handleButtonClick('rec')}
-        />
+        {has('solo') && (
+          <Button
+            type="solo"
+            active={track.solo.active}
+            label={track.solo.label}
+            controlId={`track${trackNumber}.solo`}
+            onClick={() => handleButtonClick('solo')}
+          />
+        )}
+        {has('mute') && (
+          <Button
+            type="mute"
+            active={track.mute.active}
+            label={track.mute.label}
+            controlId={`track${trackNumber}.mute`}
+            onClick={() => handleButtonClick('mute')}
+          />
+        )}
+        {has('rec') && (
+          <Button
+            type="rec"
+            active={track.rec.active}
+            label={track.rec.label}
+            controlId={`track${trackNumber}.rec`}
+            onClick={() => handleButtonClick('rec')}
+          />
+        )}
       </div>
     </div>
   );
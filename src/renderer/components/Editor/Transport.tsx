@@ -1,189 +1,129 @@
 /**
  * Transport Component
  *
- * Transport section controls for the nanoKONTROL2.
- * Contains playback controls and marker/track navigation buttons.
+ * Transport section controls for the controller.
+ * Contains playback controls and marker/track navigation buttons; buttons the
+ * device profile has no hardware for are not shown.
  *
  * When GUI controls are manipulated, this component:
  * 1. Updates the local store state for UI reflection
- * 2. Sends MIDI CC messages to the virtual output port for DAW control
+ * 2. Sends the button state to the main-process mapping engine, which applies
+ *    the preset's output CC, channel and on/off values
  */
 
 import React, { useState, useCallback } from 'react';
 import { useControlsStore } from '../../stores/controls';
 import { usePresetStore } from '../../stores/preset';
-import { HARDWARE_CC } from '@shared/constants';
+import type { TransportState } from '../../stores/controls';
+import { getActiveDeviceId, useActiveProfile } from '../../stores/connection';
+import { findProfileControl, hasProfileControl } from '@shared/constants';
 import { ControlPopover } from './ControlPopover';
 import type { ElectronAPI } from '../../../main/preload';
-import type { MappingEntry, TransportControlType } from '@shared/types';
 
 // Retrieve electronAPI from window for MIDI output
 const getElectronAPI = (): ElectronAPI | null => {
   return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
 };
 
-// Default MIDI channel for GUI-initiated CC messages (0-indexed)
-const DEFAULT_MIDI_CHANNEL = 0;
-
-/**
- * Get the MIDI value for a button based on its state and configured on/off values.
- * Uses custom onValue/offValue if configured, otherwise defaults to 127/0.
- * Result is clamped to 0-127.
- */
-function getButtonMidiValue(active: boolean, mapping?: MappingEntry): number {
-  if (active) {
-    const onValue = mapping?.onValue ?? 127;
-    return Math.max(0, Math.min(127, onValue));
-  } else {
-    const offValue = mapping?.offValue ?? 0;
-    return Math.max(0, Math.min(127, offValue));
-  }
-}
-
-// Map transport control names to their CC numbers
-const TRANSPORT_CC_MAP: Record<string, number> = {
-  play: HARDWARE_CC.TRANSPORT.PLAY,
-  stop: HARDWARE_CC.TRANSPORT.STOP,
-  rewind: HARDWARE_CC.TRANSPORT.REWIND,
-  forward: HARDWARE_CC.TRANSPORT.FORWARD,
-  record: HARDWARE_CC.TRANSPORT.RECORD,
-  cycle: HARDWARE_CC.TRANSPORT.CYCLE,
-  track_left: HARDWARE_CC.TRANSPORT.TRACK_LEFT,
-  track_right: HARDWARE_CC.TRANSPORT.TRACK_RIGHT,
-  marker_set: HARDWARE_CC.TRANSPORT.MARKER_SET,
-  marker_left: HARDWARE_CC.TRANSPORT.MARKER_LEFT,
-  marker_right: HARDWARE_CC.TRANSPORT.MARKER_RIGHT,
-};
+type TransportControl = keyof TransportState;
 
 export function Transport(): React.ReactElement {
   const transport = useControlsStore((state) => state.transport);
-  const updateButton = useControlsStore((state) => state.updateButton);
+  const clickButton = useControlsStore((state) => state.clickButton);
+  const bank = useControlsStore((state) => state.bank);
+  const bankCount = useControlsStore((state) => state.bankCount);
+  const setBank = useControlsStore((state) => state.setBank);
+  const profile = useActiveProfile();
+
+  // Buttons and groups the device profile has no hardware for are not shown
+  const has = (controlName: TransportControl) => hasProfileControl(profile, `transport.${controlName}`);
+  const hasAny = (...controlNames: TransportControl[]) => controlNames.some(has);
 
   const handleTransportClick = (controlName: string) => {
+    // With track banks, the track buttons page the strips instead of sending
+    if (bankCount > 1 && (controlName === 'track_left' || controlName === 'track_right')) {
+      setBank(bank + (controlName === 'track_left' ? -1 : 1));
+      return;
+    }
+
     const controlKey = controlName as keyof typeof transport;
     const currentActive = transport[controlKey]?.active ?? false;
     const newActive = !currentActive;
 
     // Update local store state for UI
-    updateButton(`transport.${controlName}`, newActive);
-
-    // Send MIDI CC to virtual output port
-    const api = getElectronAPI();
-    if (api) {
-      const ccNumber = TRANSPORT_CC_MAP[controlName];
-      if (ccNumber !== undefined) {
-        // Get the current mapping to apply custom on/off values
-        const currentPreset = usePresetStore.getState().currentPreset;
-        const mapping = currentPreset?.mapping.transport[controlName as TransportControlType];
+    clickButton(`transport.${controlName}`, newActive);
 
-        // Use custom on/off values if configured, otherwise default to 127/0
-        const midiValue = getButtonMidiValue(newActive, mapping);
-        api.sendCC({ channel: DEFAULT_MIDI_CHANNEL, cc: ccNumber, value: midiValue });
-      }
-    }
+    // Send through the mapping engine (applies the configured on/off values)
+    getElectronAPI()?.sendControl({
+      controlType: `transport.${controlName}`,
+      value: newActive ? 127 : 0,
+      press: true,
+      deviceId: getActiveDeviceId(),
+    });
 
     // Mark preset as having unsaved changes
     usePresetStore.getState().markUnsavedChanges();
   };
 
+  /** Renders a transport button if the device profile has it */
+  const renderButton = (controlName: TransportControl, label: string, ledColor?: 'yellow' | 'red') =>
+    has(controlName) && (
+      <TransportButton
+        label={label}
+        active={transport[controlName].active}
+        controlId={`transport.${controlName}`}
+        hasLed={findProfileControl(profile, `transport.${controlName}`)?.led !== undefined}
+        ledColor={ledColor}
+        onClick={() => handleTransportClick(controlName)}
+      />
+    );
+
   return (
     <div className="flex items-center justify-center gap-6 p-4 bg-nk-dark rounded-lg border border-nk-border">
       {/* Track navigation */}
-      <div className="flex flex-col items-center gap-2">
-        <span className="text-xs text-gray-500">Track</span>
-        <div className="flex gap-2">
-          <TransportButton
-            label="<"
-            active={transport.track_left.active}
-            controlId="transport.track_left"
-            onClick={() => handleTransportClick('track_left')}
-          />
-          <TransportButton
-            label=">"
-            active={transport.track_right.active}
-            controlId="transport.track_right"
-            onClick={() => handleTransportClick('track_right')}
-          />
+      {hasAny('track_left', 'track_right') && (
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs text-gray-500">Track</span>
+          <div className="flex gap-2">
+            {renderButton('track_left', '<')}
+            {renderButton('track_right', '>')}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Marker controls */}
-      <div className="flex flex-col items-center gap-2">
-        <span className="text-xs text-gray-500">Marker</span>
-        <div className="flex gap-2">
-          <TransportButton
-            label="<"
-            active={transport.marker_left.active}
-            controlId="transport.marker_left"
-            onClick={() => handleTransportClick('marker_left')}
-          />
-          <TransportButton
-            label="Set"
-            active={transport.marker_set.active}
-            controlId="transport.marker_set"
-            onClick={() => handleTransportClick('marker_set')}
-          />
-          <TransportButton
-            label=">"
-            active={transport.marker_right.active}
-            controlId="transport.marker_right"
-            onClick={() => handleTransportClick('marker_right')}
-          />
+      {hasAny('marker_left', 'marker_set', 'marker_right') && (
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs text-gray-500">Marker</span>
+          <div className="flex gap-2">
+            {renderButton('marker_left', '<')}
+            {renderButton('marker_set', 'Set')}
+            {renderButton('marker_right', '>')}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Playback controls */}
-      <div className="flex flex-col items-center gap-2">
-        <span className="text-xs text-gray-500">Transport</span>
-        <div className="flex gap-2">
-          <TransportButton
-            label="<<"
-            active={transport.rewind.active}
-            controlId="transport.rewind"
-            onClick={() => handleTransportClick('rewind')}
-          />
-          <TransportButton
-            label=">>"
-            active={transport.forward.active}
-            controlId="transport.forward"
-            onClick={() => handleTransportClick('forward')}
-          />
-          <TransportButton
-            label="[]"
-            active={transport.stop.active}
-            controlId="transport.stop"
-            hasLed
-            onClick={() => handleTransportClick('stop')}
-          />
-          <TransportButton
-            label=">"
-            active={transport.play.active}
-            controlId="transport.play"
-            hasLed
-            onClick={() => handleTransportClick('play')}
-          />
-          <TransportButton
-            label="O"
-            active={transport.record.active}
-            controlId="transport.record"
-            hasLed
-            ledColor="red"
-            onClick={() => handleTransportClick('record')}
-          />
+      {hasAny('rewind', 'forward', 'stop', 'play', 'record') && (
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs text-gray-500">Transport</span>
+          <div className="flex gap-2">
+            {renderButton('rewind', '<<')}
+            {renderButton('forward', '>>')}
+            {renderButton('stop', '[]')}
+            {renderButton('play', '>')}
+            {renderButton('record', 'O', 'red')}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Cycle button */}
-      <div className="flex flex-col items-center gap-2">
-        <span className="text-xs text-gray-500">Cycle</span>
-        <TransportButton
-          label="@"
-          active={transport.cycle.active}
-          controlId="transport.cycle"
-          hasLed
-          onClick={() => handleTransportClick('cycle')}
-        />
-      </div>
+      {has('cycle') && (
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs text-gray-500">Cycle</span>
+          {renderButton('cycle', '@')}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,20 +1,24 @@
 /**
  * Header Component
  *
- * Application header with connection status and tab navigation.
+ * Application header with connection status, track bank indicator and tab navigation.
  */
 
 import React from 'react';
 import { useConnectionStore } from '../stores/connection';
+import { useControlsStore } from '../stores/controls';
 
 interface HeaderProps {
-  activeTab: 'editor' | 'librarian' | 'settings' | 'help';
-  onTabChange: (tab: 'editor' | 'librarian' | 'settings' | 'help') => void;
+  activeTab: 'editor' | 'librarian' | 'monitor' | 'settings' | 'help';
+  onTabChange: (tab: 'editor' | 'librarian' | 'monitor' | 'settings' | 'help') => void;
   showTabs: boolean;
 }
 
 export function Header({ activeTab, onTabChange, showTabs }: HeaderProps): React.ReactElement {
   const { connected, inputPort, connecting } = useConnectionStore();
+  const bank = useControlsStore((state) => state.bank);
+  const bankCount = useControlsStore((state) => state.bankCount);
+  const setBank = useControlsStore((state) => state.setBank);
 
   return (
     <header className="flex items-center justify-between px-4 py-2 bg-nk-dark border-b border-nk-border">
@@ -44,6 +48,12 @@ export function Header({ activeTab, onTabChange, showTabs }: HeaderProps): React
           >
             Librarian
           </TabButton>
+          <TabButton
+            active={activeTab === 'monitor'}
+            onClick={() => onTabChange('monitor')}
+          >
+            Monitor
+          </TabButton>
           <TabButton
             active={activeTab === 'settings'}
             onClick={() => onTabChange('settings')}
@@ -59,8 +69,11 @@ export function Header({ activeTab, onTabChange, showTabs }: HeaderProps): React
         </nav>
       )}
 
-      {/* Connection status */}
+      {/* Track bank and connection status */}
       <div className="flex items-center gap-3">
+        {bankCount > 1 && (
+          <BankIndicator bank={bank} bankCount={bankCount} onBankChange={setBank} />
+        )}
         <ConnectionStatus
           connected={connected}
           connecting={connecting}
@@ -96,6 +109,44 @@ function TabButton({ active, onClick, children }: TabButtonProps): React.ReactEl
   );
 }
 
+interface BankIndicatorProps {
+  bank: number;
+  bankCount: number;
+  onBankChange: (bank: number) => void;
+}
+
+/**
+ * Shows which track bank the physical strips control, with buttons mirroring
+ * the track_left/track_right paging buttons.
+ */
+function BankIndicator({ bank, bankCount, onBankChange }: BankIndicatorProps): React.ReactElement {
+  const firstTrack = bank * 8 + 1;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-400">
+      <button
+        className="px-1.5 py-0.5 rounded hover:text-white hover:bg-nk-light disabled:opacity-40 disabled:hover:bg-transparent"
+        onClick={() => onBankChange(bank - 1)}
+        disabled={bank === 0}
+        title="Previous track bank"
+      >
+        &lt;
+      </button>
+      <span title={`Tracks ${firstTrack}-${firstTrack + 7}`}>
+        Bank {bank + 1}/{bankCount}
+      </span>
+      <button
+        className="px-1.5 py-0.5 rounded hover:text-white hover:bg-nk-light disabled:opacity-40 disabled:hover:bg-transparent"
+        onClick={() => onBankChange(bank + 1)}
+        disabled={bank === bankCount - 1}
+        title="Next track bank"
+      >
+        &gt;
+      </button>
+    </div>
+  );
+}
+
 interface ConnectionStatusProps {
   connected: boolean;
   connecting: boolean;
@@ -0,0 +1,106 @@
+/**
+ * Crossfade Panel Component
+ *
+ * Puts two presets in the A and B slots and turns one knob/slider into a
+ * morph fader between their stored control values: the other knobs and
+ * sliders follow the fader between A and B, and buttons switch at its midpoint.
+ */
+
+import React from 'react';
+import { useCrossfadeStore } from '../../stores/crossfade';
+import { usePresetStore } from '../../stores/preset';
+import { MIDI_VALUE_ON } from '@shared/types';
+
+/** Controls that can act as the fader */
+const FADER_CONTROLS = Array.from({ length: 8 }, (_, i) => [`track${i + 1}.slider`, `track${i + 1}.knob`]).flat();
+
+/**
+ * Formats a control type for display (e.g., 'track8.slider' -> 'track 8 slider').
+ */
+function formatControl(controlType: string): string {
+  return controlType.replace('track', 'track ').replace('.', ' ');
+}
+
+export function CrossfadePanel(): React.ReactElement {
+  const fader = useCrossfadeStore((state) => state.fader);
+  const enabled = useCrossfadeStore((state) => state.enabled);
+  const position = useCrossfadeStore((state) => state.position);
+  const error = useCrossfadeStore((state) => state.error);
+  const setSlot = useCrossfadeStore((state) => state.setSlot);
+  const setFader = useCrossfadeStore((state) => state.setFader);
+  const setEnabled = useCrossfadeStore((state) => state.setEnabled);
+  const presets = usePresetStore((state) => state.presets);
+  const abSlotA = usePresetStore((state) => state.abSlotA);
+  const abSlotB = usePresetStore((state) => state.abSlotB);
+
+  const renderSlot = (slot: 'A' | 'B', preset: typeof abSlotA) => (
+    <label className="flex items-center gap-1">
+      {slot}
+      <select
+        className="input text-xs py-0.5 w-36"
+        value={preset?.metadata.id ?? ''}
+        onChange={(e) => e.target.value && setSlot(slot, e.target.value)}
+      >
+        <option value="">Choose preset</option>
+        {presets.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      {preset && !preset.controlValues && (
+        <span className="text-yellow-500" title="This preset has no stored control values">
+          !
+        </span>
+      )}
+    </label>
+  );
+
+  return (
+    <div className="mt-4 pt-3 border-t border-nk-border">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-400">A/B Crossfader</h3>
+        <button
+          className={`btn text-sm ${enabled ? 'btn-primary' : 'btn-secondary'}`}
+          onClick={() => setEnabled(!enabled)}
+          title={enabled ? 'Give the fader back its own mapping' : 'Morph between the slots with the fader'}
+        >
+          {enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 mb-2 text-xs text-gray-400">
+        {renderSlot('A', abSlotA)}
+        {renderSlot('B', abSlotB)}
+        <label className="flex items-center gap-1">
+          Fader
+          <select className="input text-xs py-0.5" value={fader} onChange={(e) => setFader(e.target.value)}>
+            {FADER_CONTROLS.map((controlType) => (
+              <option key={controlType} value={controlType}>
+                {formatControl(controlType)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Fader position */}
+      {enabled && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span>A</span>
+          <div className="flex-1 h-1.5 bg-nk-dark rounded relative">
+            {position !== null && (
+              <div
+                className="absolute top-1/2 -translate-y-1/2 w-2 h-3 bg-nk-accent rounded"
+                style={{ left: `calc(${(position / MIDI_VALUE_ON) * 100}% - 4px)` }}
+              />
+            )}
+          </div>
+          <span>B</span>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
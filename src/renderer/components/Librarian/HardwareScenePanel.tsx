@@ -0,0 +1,89 @@
+/**
+ * Hardware Scene Panel Component
+ *
+ * Reads the scene settings of the nanoKONTROL2 and writes a preset's mapping
+ * to it as its scene, listing what the unit can't reproduce by itself.
+ */
+
+import React, { useState } from 'react';
+import { useHardwareSceneStore } from '../../stores/hardware-scene';
+import { usePresetStore } from '../../stores/preset';
+
+/** Approximations listed before "and N more" */
+const MAX_LISTED = 6;
+
+export function HardwareScenePanel(): React.ReactElement {
+  const scene = useHardwareSceneStore((state) => state.scene);
+  const approximated = useHardwareSceneStore((state) => state.approximated);
+  const busy = useHardwareSceneStore((state) => state.busy);
+  const error = useHardwareSceneStore((state) => state.error);
+  const query = useHardwareSceneStore((state) => state.query);
+  const write = useHardwareSceneStore((state) => state.write);
+  const presets = usePresetStore((state) => state.presets);
+
+  const [presetId, setPresetId] = useState('');
+  const [ledMode, setLedMode] = useState<'internal' | 'external'>('internal');
+  const [store, setStore] = useState(true);
+
+  return (
+    <div className="mt-4 pt-3 border-t border-nk-border">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-400">Hardware Scene</h3>
+        <button className="btn btn-ghost text-sm" onClick={() => query()} disabled={busy} title="Read the scene the unit is using">
+          Read
+        </button>
+      </div>
+
+      {scene && (
+        <p className="text-xs text-gray-500 mb-2">
+          Firmware {scene.firmware}, global channel {scene.globalChannel}, {scene.controlMode} mode, {scene.ledMode} LEDs
+        </p>
+      )}
+
+      <div className="flex items-center gap-3 text-xs text-gray-400">
+        <select className="input text-xs py-0.5 w-40" value={presetId} onChange={(e) => setPresetId(e.target.value)}>
+          <option value="">Factory assignments</option>
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          LEDs
+          <select
+            className="input text-xs py-0.5"
+            value={ledMode}
+            onChange={(e) => setLedMode(e.target.value as 'internal' | 'external')}
+          >
+            <option value="internal">Internal</option>
+            <option value="external">External</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title="Keep the scene when the unit is switched off">
+          <input type="checkbox" checked={store} onChange={(e) => setStore(e.target.checked)} />
+          Store
+        </label>
+        <button
+          className="btn btn-secondary text-sm"
+          onClick={() => write(presetId || undefined, ledMode, store)}
+          disabled={busy}
+          title="Make the unit send this mapping by itself"
+        >
+          Write
+        </button>
+      </div>
+
+      {approximated.length > 0 && (
+        <ul className="text-xs text-yellow-500 mt-2">
+          {approximated.slice(0, MAX_LISTED).map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+          {approximated.length > MAX_LISTED && <li>and {approximated.length - MAX_LISTED} more</li>}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Import Presets Dialog Component
+ *
+ * Modal dialog for importing a preset .json file, a .txt mapping file or a
+ * KORG KONTROL Editor .nktrl2_data scene file (as a new preset named after
+ * the file), or a .zip bundle.
+ * Lists the valid presets of the file and the files that are not valid
+ * presets; presets colliding with a library preset by ID or name can be
+ * renamed, overwrite the library preset, or be skipped.
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { usePresetStore } from '../../stores/preset';
+import type { PresetImportCandidate, PresetImportResolution } from '@shared/ipc-protocol';
+
+interface ImportPresetsDialogProps {
+  /** File to import; the dialog is open while set */
+  file: File | null;
+  onClose: () => void;
+}
+
+/**
+ * Describes the collision of an imported preset with the library.
+ */
+function describeConflict(candidate: PresetImportCandidate): string | null {
+  if (candidate.conflict === 'id') {
+    return `Same ID as "${candidate.existingName}"`;
+  }
+  if (candidate.conflict === 'name') {
+    return `Same name as "${candidate.existingName}"`;
+  }
+  return null;
+}
+
+export function ImportPresetsDialog({ file, onClose }: ImportPresetsDialogProps): React.ReactElement | null {
+  const [candidates, setCandidates] = useState<PresetImportCandidate[]>([]);
+  const [resolutions, setResolutions] = useState<PresetImportResolution[]>([]);
+  const [invalid, setInvalid] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readPresetImport = usePresetStore((state) => state.readPresetImport);
+  const importPresets = usePresetStore((state) => state.importPresets);
+
+  // Read the file when the dialog opens
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    setCandidates([]);
+    setResolutions([]);
+    setInvalid([]);
+    setError(null);
+    setIsReading(true);
+
+    readPresetImport(file).then((response) => {
+      if (cancelled) return;
+      setIsReading(false);
+      if (!response?.success || !response.candidates) {
+        setError(response?.error ?? 'Failed to read file');
+        return;
+      }
+      setCandidates(response.candidates);
+      // Colliding presets are renamed unless chosen otherwise
+      setResolutions(response.candidates.map(() => 'rename'));
+      setInvalid(response.invalid ?? []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, readPresetImport]);
+
+  // Handle Escape key to close dialog
+  useEffect(() => {
+    if (!file) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isSubmitting) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [file, isSubmitting, onClose]);
+
+  const setResolution = useCallback((index: number, resolution: PresetImportResolution) => {
+    setResolutions((prev) => prev.map((r, i) => (i === index ? resolution : r)));
+  }, []);
+
+  const setAllConflicts = useCallback(
+    (resolution: PresetImportResolution) => {
+      setResolutions((prev) => prev.map((r, i) => (candidates[i]?.conflict ? resolution : r)));
+    },
+    [candidates]
+  );
+
+  const handleImport = useCallback(async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    const items = candidates.map((candidate, i) => ({
+      preset: candidate.preset,
+      resolution: resolutions[i] ?? 'skip',
+    }));
+    const response = await importPresets(items);
+
+    setIsSubmitting(false);
+    if (!response) return;
+
+    if (response.success) {
+      onClose();
+    } else if (response.failed && response.failed.length > 0) {
+      setError(`Imported ${response.imported?.length ?? 0}, failed:\n${response.failed.join('\n')}`);
+    } else {
+      setError(response.error ?? 'Failed to import presets');
+    }
+  }, [candidates, resolutions, importPresets, onClose]);
+
+  const handleClose = useCallback(() => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  }, [isSubmitting, onClose]);
+
+  if (!file) {
+    return null;
+  }
+
+  const conflictCount = candidates.filter((candidate) => candidate.conflict).length;
+  const importCount = resolutions.filter((resolution) => resolution !== 'skip').length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60" onClick={handleClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-nk-dark border border-nk-border rounded-lg shadow-xl w-full max-w-2xl mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-nk-border">
+          <h2 className="text-lg font-semibold text-gray-200">Import Presets</h2>
+          <button
+            className="text-gray-500 hover:text-gray-300 text-xl leading-none"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            aria-label="Close dialog"
+          >
+            x
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <div className="text-sm text-gray-500">
+            From: <span className="text-gray-300">{file.name}</span>
+          </div>
+
+          {/* Error message */}
+          {error && (
+            <div className="text-red-400 text-sm bg-red-900/20 border border-red-800 rounded px-3 py-2 whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {isReading && <p className="text-sm text-gray-400">Reading file...</p>}
+
+          {/* Files that are not valid presets */}
+          {invalid.length > 0 && (
+            <div className="text-xs text-yellow-400 bg-yellow-900/20 border border-yellow-800 rounded px-3 py-2">
+              <p className="mb-1">{invalid.length} file(s) skipped, not valid presets:</p>
+              <ul className="list-disc ml-4 space-y-0.5">
+                {invalid.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Presets and their resolutions */}
+          {candidates.length > 0 && (
+            <>
+              {conflictCount > 0 && (
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                  <span>{conflictCount} preset(s) collide with the library. All:</span>
+                  <button className="btn btn-ghost text-xs py-0.5 px-2" onClick={() => setAllConflicts('rename')}>
+                    Rename
+                  </button>
+                  <button className="btn btn-ghost text-xs py-0.5 px-2" onClick={() => setAllConflicts('overwrite')}>
+                    Overwrite
+                  </button>
+                  <button className="btn btn-ghost text-xs py-0.5 px-2" onClick={() => setAllConflicts('skip')}>
+                    Skip
+                  </button>
+                </div>
+              )}
+
+              <div className="max-h-72 overflow-auto space-y-1">
+                {candidates.map((candidate, index) => {
+                  const conflict = describeConflict(candidate);
+                  return (
+                    <div
+                      key={`${candidate.preset.metadata.id}-${index}`}
+                      className="flex items-center gap-2 px-2 py-1 rounded bg-nk-darker text-sm"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-gray-300">{candidate.preset.metadata.name}</div>
+                        {conflict && <div className="text-xs text-yellow-500 truncate">{conflict}</div>}
+                      </div>
+                      <select
+                        className="input text-xs py-0.5"
+                        value={resolutions[index] ?? 'rename'}
+                        onChange={(e) => setResolution(index, e.target.value as PresetImportResolution)}
+                        disabled={isSubmitting}
+                      >
+                        {conflict ? (
+                          <>
+                            <option value="rename">Rename</option>
+                            <option value="overwrite">Overwrite</option>
+                          </>
+                        ) : (
+                          <option value="rename">Import</option>
+                        )}
+                        <option value="skip">Skip</option>
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" className="btn btn-ghost" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleImport}
+              disabled={isSubmitting || isReading || importCount === 0}
+            >
+              {isSubmitting ? 'Importing...' : `Import ${importCount}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
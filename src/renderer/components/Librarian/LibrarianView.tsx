@@ -4,13 +4,17 @@
  * Preset management view for browsing, loading, and organizing presets.
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { PresetList } from './PresetList';
 import { QuickAccess } from './QuickAccess';
+import { TakesPanel } from './TakesPanel';
+import { CrossfadePanel } from './CrossfadePanel';
+import { HardwareScenePanel } from './HardwareScenePanel';
 import { NewPresetDialog } from './NewPresetDialog';
 import { EditPresetDialog } from './EditPresetDialog';
 import { EditControlValuesDialog } from './EditControlValuesDialog';
 import { DuplicatePresetDialog } from './DuplicatePresetDialog';
+import { ImportPresetsDialog } from './ImportPresetsDialog';
 import { usePresetStore } from '../../stores/preset';
 import type { PresetMetadata, Preset } from '@shared/ipc-protocol';
 
@@ -54,9 +58,13 @@ export function LibrarianView({ compact = false }: LibrarianViewProps): React.Re
   const [editingPreset, setEditingPreset] = useState<PresetMetadata | null>(null);
   const [editingControlValuesPreset, setEditingControlValuesPreset] = useState<Preset | null>(null);
   const [duplicatingPreset, setDuplicatingPreset] = useState<PresetMetadata | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const presets = usePresetStore((state) => state.presets);
   const loadPresets = usePresetStore((state) => state.loadPresets);
+  const exportPresets = usePresetStore((state) => state.exportPresets);
+  const error = usePresetStore((state) => state.error);
   const allTags = usePresetStore((state) => state.getAllTags());
   const allGroups = usePresetStore((state) => state.getAllGroups());
 
@@ -94,6 +102,18 @@ export function LibrarianView({ compact = false }: LibrarianViewProps): React.Re
     setDuplicatingPreset(null);
   }, []);
 
+  const handleImportFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      setImportFile(file);
+    }
+  }, []);
+
+  const handleCloseImportDialog = useCallback(() => {
+    setImportFile(null);
+  }, []);
+
   // Load presets on mount
   useEffect(() => {
     loadPresets();
@@ -153,14 +173,44 @@ export function LibrarianView({ compact = false }: LibrarianViewProps): React.Re
           <h2 className={`font-semibold text-gray-200 ${compact ? 'text-base' : 'text-lg'}`}>
             Preset Library
           </h2>
-          <button
-            className="btn btn-primary text-sm"
-            onClick={handleOpenNewPresetDialog}
-          >
-            + New
-          </button>
+          <div className="flex gap-2">
+            {!compact && (
+              <>
+                <button
+                  className="btn btn-ghost text-sm"
+                  onClick={() => importInputRef.current?.click()}
+                  title="Import a preset .json file, a .txt mapping file, a KORG KONTROL Editor .nktrl2_data scene file or a .zip bundle"
+                >
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,.txt,.nktrl2_data,.zip"
+                  className="hidden"
+                  onChange={handleImportFileChange}
+                />
+                <button
+                  className="btn btn-ghost text-sm"
+                  onClick={() => exportPresets()}
+                  disabled={presets.length === 0}
+                  title="Export the whole library as a .zip bundle"
+                >
+                  Export All
+                </button>
+              </>
+            )}
+            <button
+              className="btn btn-primary text-sm"
+              onClick={handleOpenNewPresetDialog}
+            >
+              + New
+            </button>
+          </div>
         </div>
 
+        {error && <p className="text-xs text-red-400 -mt-2 mb-2">{error}</p>}
+
         {/* Quick Access */}
         {!compact && <QuickAccess />}
 
@@ -244,6 +294,15 @@ export function LibrarianView({ compact = false }: LibrarianViewProps): React.Re
             <span className="ml-2">(ungrouped)</span>
           )}
         </div>
+
+        {/* Recorded takes */}
+        {!compact && <TakesPanel />}
+
+        {/* A/B morph fader */}
+        {!compact && <CrossfadePanel />}
+
+        {/* Scene stored on the unit */}
+        {!compact && <HardwareScenePanel />}
       </div>
 
       {/* New Preset Dialog */}
@@ -272,6 +331,9 @@ export function LibrarianView({ compact = false }: LibrarianViewProps): React.Re
         onClose={handleCloseDuplicateDialog}
         preset={duplicatingPreset}
       />
+
+      {/* Import Presets Dialog */}
+      <ImportPresetsDialog file={importFile} onClose={handleCloseImportDialog} />
     </div>
   );
 }
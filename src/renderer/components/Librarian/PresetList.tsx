@@ -29,6 +29,7 @@ export function PresetList({ presets, compact = false, onEditPreset, onEditContr
   const loadPreset = usePresetStore((state) => state.loadPreset);
   const deletePreset = usePresetStore((state) => state.deletePreset);
   const toggleFavorite = usePresetStore((state) => state.toggleFavorite);
+  const exportPresets = usePresetStore((state) => state.exportPresets);
 
   // Track which presets have expanded details
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
@@ -76,6 +77,8 @@ export function PresetList({ presets, compact = false, onEditPreset, onEditContr
           onEdit={onEditPreset ? () => onEditPreset(preset) : undefined}
           onEditControlValues={onEditControlValues}
           onDuplicate={onDuplicatePreset ? () => onDuplicatePreset(preset) : undefined}
+          onExport={compact ? undefined : () => exportPresets(preset.id)}
+          onExportMapping={compact ? undefined : () => exportPresets(preset.id, 'txt')}
         />
       ))}
     </div>
@@ -127,6 +130,8 @@ interface PresetItemProps {
   onEdit?: () => void;
   onEditControlValues?: (preset: Preset) => void;
   onDuplicate?: () => void;
+  onExport?: () => void;
+  onExportMapping?: () => void;
 }
 
 // Loading state for the Load button
@@ -153,6 +158,8 @@ function PresetItem({
   onEdit,
   onEditControlValues,
   onDuplicate,
+  onExport,
+  onExportMapping,
 }: PresetItemProps): React.ReactElement {
   // State for JSON preview
   const [jsonPreview, setJsonPreview] = useState<JsonPreviewState>({
@@ -576,6 +583,30 @@ function PresetItem({
               Duplicate
             </button>
           )}
+          {onExport && (
+            <button
+              className="btn btn-ghost text-xs py-1 px-2"
+              onClick={(e) => {
+                e.stopPropagation();
+                onExport();
+              }}
+              title="Export preset as a .json file"
+            >
+              Export
+            </button>
+          )}
+          {onExportMapping && (
+            <button
+              className="btn btn-ghost text-xs py-1 px-2"
+              onClick={(e) => {
+                e.stopPropagation();
+                onExportMapping();
+              }}
+              title="Export the mapping as a .txt mapping file for the command-line app"
+            >
+              .txt
+            </button>
+          )}
           <button
             className="btn btn-ghost text-xs py-1 px-2 text-red-400 hover:text-red-300 hover:bg-red-900/20"
             onClick={(e) => {
@@ -0,0 +1,250 @@
+/**
+ * Takes Panel Component
+ *
+ * Records control movements of the unit shown in the editor as takes and
+ * replays them to its virtual output, with loop, speed and quantize options.
+ * Takes can be exported as Standard MIDI Files, and the CC lanes of .mid
+ * files imported as takes.
+ */
+
+import React, { useRef } from 'react';
+import { useAutomationStore } from '../../stores/automation';
+import { usePresetStore } from '../../stores/preset';
+
+/** Replay speeds offered */
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+/** Quantize grids offered (ms, 0 = off) */
+const QUANTIZE_GRIDS = [0, 10, 25, 50, 100, 250];
+
+/** PPQ resolutions offered for MIDI file export */
+const PPQS = [96, 480, 960];
+
+/**
+ * Formats a duration as seconds with one decimal.
+ */
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function TakesPanel(): React.ReactElement {
+  const takes = useAutomationStore((state) => state.takes);
+  const recording = useAutomationStore((state) => state.recording);
+  const replayingTakeId = useAutomationStore((state) => state.replayingTakeId);
+  const replayOptions = useAutomationStore((state) => state.replayOptions);
+  const error = useAutomationStore((state) => state.error);
+  const startRecording = useAutomationStore((state) => state.startRecording);
+  const stopRecording = useAutomationStore((state) => state.stopRecording);
+  const deleteTake = useAutomationStore((state) => state.deleteTake);
+  const startReplay = useAutomationStore((state) => state.startReplay);
+  const stopReplay = useAutomationStore((state) => state.stopReplay);
+  const setReplayOptions = useAutomationStore((state) => state.setReplayOptions);
+  const midiFileOptions = useAutomationStore((state) => state.midiFileOptions);
+  const setMidiFileOptions = useAutomationStore((state) => state.setMidiFileOptions);
+  const exportTakeMidi = useAutomationStore((state) => state.exportTakeMidi);
+  const importTakeMidi = useAutomationStore((state) => state.importTakeMidi);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const presets = usePresetStore((state) => state.presets);
+
+  const handleRecordClick = () => {
+    if (!recording) {
+      startRecording();
+      return;
+    }
+    const time = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    stopRecording(`Take ${time}`);
+  };
+
+  const handleExport = async (id: string) => {
+    const file = await exportTakeMidi(id);
+    if (!file) return;
+
+    const url = URL.createObjectURL(new Blob([new Uint8Array(file.data)], { type: 'audio/midi' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      importTakeMidi(file);
+    }
+  };
+
+  const getPresetName = (id: string | undefined): string | null => {
+    return presets.find((preset) => preset.id === id)?.name ?? null;
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-nk-border">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-400">Takes</h3>
+        <div className="flex gap-2">
+          <button
+            className="btn btn-ghost text-sm"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import the CC lanes of a Standard MIDI File as a take"
+          >
+            Import .mid
+          </button>
+          <input ref={fileInputRef} type="file" accept=".mid,.midi" className="hidden" onChange={handleImport} />
+          <button
+            className={`btn text-sm ${recording ? 'bg-nk-rec text-white' : 'btn-secondary'}`}
+            onClick={handleRecordClick}
+            title={recording ? 'Stop recording and save the take' : 'Record control movements'}
+          >
+            {recording ? '■ Stop' : '● Record'}
+          </button>
+        </div>
+      </div>
+
+      {/* Replay options */}
+      <div className="flex items-center gap-3 mb-2 text-xs text-gray-400">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={replayOptions.loop}
+            onChange={(e) => setReplayOptions({ loop: e.target.checked })}
+          />
+          Loop
+        </label>
+        <label className="flex items-center gap-1">
+          Speed
+          <select
+            className="input text-xs py-0.5"
+            value={replayOptions.speed}
+            onChange={(e) => setReplayOptions({ speed: Number(e.target.value) })}
+          >
+            {SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Quantize
+          <select
+            className="input text-xs py-0.5"
+            value={replayOptions.quantizeMs}
+            onChange={(e) => setReplayOptions({ quantizeMs: Number(e.target.value) })}
+          >
+            {QUANTIZE_GRIDS.map((grid) => (
+              <option key={grid} value={grid}>
+                {grid === 0 ? 'Off' : `${grid} ms`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* MIDI file export options */}
+      <div className="flex items-center gap-3 mb-2 text-xs text-gray-400">
+        <span>MIDI file</span>
+        <select
+          className="input text-xs py-0.5"
+          value={midiFileOptions.format}
+          onChange={(e) => setMidiFileOptions({ format: Number(e.target.value) === 0 ? 0 : 1 })}
+          title="Type 0: one track; type 1: a track per channel or control"
+        >
+          <option value={0}>Type 0</option>
+          <option value={1}>Type 1</option>
+        </select>
+        {midiFileOptions.format === 1 && (
+          <select
+            className="input text-xs py-0.5"
+            value={midiFileOptions.trackPer}
+            onChange={(e) => setMidiFileOptions({ trackPer: e.target.value as 'channel' | 'control' })}
+          >
+            <option value="control">Track per control</option>
+            <option value="channel">Track per channel</option>
+          </select>
+        )}
+        <label className="flex items-center gap-1">
+          BPM
+          <input
+            type="number"
+            className="input text-xs py-0.5 w-16"
+            min={20}
+            max={300}
+            value={midiFileOptions.bpm}
+            onChange={(e) => setMidiFileOptions({ bpm: Math.min(Math.max(Number(e.target.value) || 120, 20), 300) })}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          PPQ
+          <select
+            className="input text-xs py-0.5"
+            value={midiFileOptions.ppq}
+            onChange={(e) => setMidiFileOptions({ ppq: Number(e.target.value) })}
+          >
+            {PPQS.map((ppq) => (
+              <option key={ppq} value={ppq}>
+                {ppq}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      {/* Take list */}
+      <div className="max-h-48 overflow-auto space-y-1">
+        {takes.length === 0 && (
+          <p className="text-xs text-gray-500">No takes yet. Press Record and move some controls.</p>
+        )}
+        {takes.map((take) => {
+          const replaying = take.id === replayingTakeId;
+          const presetName = getPresetName(take.presetId);
+
+          return (
+            <div
+              key={take.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded text-sm ${
+                replaying ? 'bg-nk-accent/20' : 'bg-nk-dark hover:bg-nk-light'
+              }`}
+            >
+              <button
+                className="w-6 text-nk-accent hover:text-white"
+                onClick={() => (replaying ? stopReplay() : startReplay(take.id))}
+                title={replaying ? 'Stop replay' : 'Replay to the virtual output'}
+              >
+                {replaying ? '■' : '▶'}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-gray-300">{take.name}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {formatDuration(take.duration)} &middot; {take.eventCount} messages
+                  {presetName && <> &middot; {presetName}</>}
+                </div>
+              </div>
+              <button
+                className="text-xs text-gray-500 hover:text-gray-300"
+                onClick={() => handleExport(take.id)}
+                title="Export as a Standard MIDI File"
+              >
+                .mid
+              </button>
+              <button
+                className="text-xs text-gray-500 hover:text-red-400"
+                onClick={() => {
+                  if (window.confirm(`Delete take "${take.name}"? This cannot be undone.`)) {
+                    deleteTake(take.id);
+                  }
+                }}
+                title="Delete take"
+              >
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
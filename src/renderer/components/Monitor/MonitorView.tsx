@@ -0,0 +1,196 @@
+/**
+ * Monitor View Component
+ *
+ * Live log of the MIDI messages the units receive and send: hardware input,
+ * remapped output, LED updates and DAW feedback, with the control each
+ * message belongs to. Values are shown per the Value Display setting.
+ *
+ * The log can be paused, cleared, filtered by source and by control/type
+ * text, and exported to CSV or JSON.
+ */
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import {
+  useMonitorStore,
+  MONITOR_SOURCES,
+  filterMonitorEntries,
+  formatMonitorNumber,
+  monitorEntriesToCsv,
+  monitorEntriesToJson,
+} from '../../stores/monitor';
+import type { MonitorEntry } from '../../stores/monitor';
+import { useSettingsStore } from '../../stores/settings';
+import { useConnectionStore } from '../../stores/connection';
+import type { MonitorSource } from '@shared/ipc-protocol';
+
+/** Display names and colors for message sources */
+const SOURCE_LABELS: Record<MonitorSource, { label: string; className: string }> = {
+  input: { label: 'In', className: 'text-green-400' },
+  output: { label: 'Out', className: 'text-nk-accent' },
+  led: { label: 'LED', className: 'text-yellow-400' },
+  feedback: { label: 'DAW', className: 'text-purple-400' },
+};
+
+/**
+ * Saves text as a file through the browser's download mechanism.
+ */
+function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Formats a timestamp as wall-clock time with milliseconds.
+ */
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+export function MonitorView(): React.ReactElement {
+  const entries = useMonitorStore((state) => state.entries);
+  const paused = useMonitorStore((state) => state.paused);
+  const filterText = useMonitorStore((state) => state.filterText);
+  const sources = useMonitorStore((state) => state.sources);
+  const setActive = useMonitorStore((state) => state.setActive);
+  const setPaused = useMonitorStore((state) => state.setPaused);
+  const clear = useMonitorStore((state) => state.clear);
+  const setFilterText = useMonitorStore((state) => state.setFilterText);
+  const toggleSource = useMonitorStore((state) => state.toggleSource);
+  const valueDisplay = useSettingsStore((state) => state.config?.valueDisplay ?? 'decimal');
+  const devices = useConnectionStore((state) => state.devices);
+
+  // Messages are only streamed while the tab is open
+  useEffect(() => {
+    setActive(true);
+    return () => setActive(false);
+  }, [setActive]);
+
+  const visibleEntries = useMemo(
+    () => filterMonitorEntries(entries, filterText, sources),
+    [entries, filterText, sources]
+  );
+
+  // Keep following new messages unless the log was scrolled up
+  const logRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+  useLayoutEffect(() => {
+    if (followRef.current && logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [visibleEntries]);
+
+  const handleScroll = () => {
+    const log = logRef.current;
+    if (log) {
+      followRef.current = log.scrollHeight - log.scrollTop - log.clientHeight < 24;
+    }
+  };
+
+  const getUnitLabel = (entry: MonitorEntry): string => {
+    const index = devices.findIndex((device) => device.id === entry.deviceId);
+    return index >= 0 ? String(index + 1) : '-';
+  };
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  return (
+    <div className="h-full p-4">
+      <div className="card p-4 h-full flex flex-col">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <h2 className="text-lg font-semibold text-gray-200 mr-2">MIDI Monitor</h2>
+          <button className="btn btn-secondary text-sm" onClick={() => setPaused(!paused)}>
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button className="btn btn-ghost text-sm" onClick={clear}>
+            Clear
+          </button>
+          <input
+            type="text"
+            className="input text-sm w-48"
+            placeholder="Filter control or type..."
+            value={filterText}
+            onChange={(e) => setFilterText(e.target.value)}
+          />
+          <div className="flex gap-2">
+            {MONITOR_SOURCES.map((source) => (
+              <label key={source} className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                <input type="checkbox" checked={sources[source]} onChange={() => toggleSource(source)} />
+                <span className={SOURCE_LABELS[source].className}>{SOURCE_LABELS[source].label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 ml-auto">
+            <button
+              className="btn btn-ghost text-sm"
+              disabled={visibleEntries.length === 0}
+              onClick={() => downloadFile(`midi-monitor-${stamp}.csv`, monitorEntriesToCsv(visibleEntries), 'text/csv')}
+            >
+              Export CSV
+            </button>
+            <button
+              className="btn btn-ghost text-sm"
+              disabled={visibleEntries.length === 0}
+              onClick={() =>
+                downloadFile(`midi-monitor-${stamp}.json`, monitorEntriesToJson(visibleEntries), 'application/json')
+              }
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+
+        {/* Message log */}
+        <div
+          ref={logRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-auto bg-nk-darker rounded font-mono text-xs"
+        >
+          <table className="w-full">
+            <thead className="sticky top-0 bg-nk-dark text-gray-500">
+              <tr className="text-left">
+                <th className="px-2 py-1 font-medium">Time</th>
+                {devices.length > 1 && <th className="px-2 py-1 font-medium">Unit</th>}
+                <th className="px-2 py-1 font-medium">Source</th>
+                <th className="px-2 py-1 font-medium">Type</th>
+                <th className="px-2 py-1 font-medium text-right">Ch</th>
+                <th className="px-2 py-1 font-medium text-right">CC/No.</th>
+                <th className="px-2 py-1 font-medium text-right">Value</th>
+                <th className="px-2 py-1 font-medium">Control</th>
+                <th className="px-2 py-1 font-medium">Label</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {visibleEntries.map((entry) => (
+                <tr key={entry.id} className="border-t border-nk-border/40">
+                  <td className="px-2 py-0.5 text-gray-500">{formatTime(entry.timestamp)}</td>
+                  {devices.length > 1 && <td className="px-2 py-0.5">{getUnitLabel(entry)}</td>}
+                  <td className={`px-2 py-0.5 ${SOURCE_LABELS[entry.source].className}`}>
+                    {SOURCE_LABELS[entry.source].label}
+                  </td>
+                  <td className="px-2 py-0.5">{entry.messageType}</td>
+                  <td className="px-2 py-0.5 text-right">{entry.channel}</td>
+                  <td className="px-2 py-0.5 text-right">{formatMonitorNumber(entry.number, valueDisplay)}</td>
+                  <td className="px-2 py-0.5 text-right">{formatMonitorNumber(entry.value, valueDisplay)}</td>
+                  <td className="px-2 py-0.5">{entry.controlType ?? '-'}</td>
+                  <td className="px-2 py-0.5 text-gray-400">{entry.label ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleEntries.length === 0 && (
+            <div className="p-4 text-center text-gray-500 font-sans text-sm">
+              {paused ? 'Paused.' : 'Waiting for MIDI messages...'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -99,8 +99,23 @@ export function SettingsView(): React.ReactElement {
                 <option value="external">External</option>
               </select>
               <p className="text-xs text-gray-500">
-                Internal: LEDs reflect button state. External: LEDs controlled by DAW.
+                Internal: LEDs reflect button state. External: LEDs controlled by DAW via the "nkEditor3 In" port.
               </p>
+              <label className="flex items-start gap-3 cursor-pointer pt-1">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={config.forceExternalLeds}
+                  onChange={(e) => updateConfig({ forceExternalLeds: e.target.checked })}
+                />
+                <div>
+                  <span className="text-sm text-gray-200">Set the nanoKONTROL2 to external LED mode on connect</span>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Changes the LED mode stored in the unit's scene over SysEx, so it no longer lights
+                    its LEDs by itself on button presses and leaves them to nkEditor3.
+                  </p>
+                </div>
+              </label>
             </div>
           </div>
         </section>
@@ -185,6 +200,29 @@ export function SettingsView(): React.ReactElement {
           </div>
         </section>
 
+        {/* Scene Settings */}
+        <section className="card p-4">
+          <h2 className="text-lg font-semibold text-gray-200 mb-4">Scenes</h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Morph rate: {config.sceneMorphRate} values/s
+            </label>
+            <input
+              type="range"
+              min="10"
+              max="200"
+              step="10"
+              value={config.sceneMorphRate}
+              onChange={(e) => updateConfig({ sceneMorphRate: parseInt(e.target.value, 10) })}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              How often each control is sent while a scene morphs. Lower rates send less MIDI traffic; higher rates glide more smoothly.
+            </p>
+          </div>
+        </section>
+
         {/* Appearance Settings */}
         <section className="card p-4">
           <h2 className="text-lg font-semibold text-gray-200 mb-4">Appearance</h2>
@@ -0,0 +1,185 @@
+/**
+ * Automation Store
+ *
+ * Manages recorded takes of control movements: recording from the unit shown
+ * in the editor, the take library, replay to the unit's virtual output, and
+ * Standard MIDI File export and import.
+ */
+
+import { create } from 'zustand';
+import type { ElectronAPI } from '../../main/preload';
+import type { TakeMetadata, ReplayOptions, MidiFileOptions } from '@shared/ipc-protocol';
+import { getActiveDeviceId } from './connection';
+import { usePresetStore } from './preset';
+
+// Get the electron API from window
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+// =============================================================================
+// Store Types
+// =============================================================================
+
+interface AutomationState {
+  // State
+  takes: TakeMetadata[];
+  recording: boolean;
+  /** ID of the take being replayed, or null */
+  replayingTakeId: string | null;
+  replayOptions: ReplayOptions;
+  midiFileOptions: MidiFileOptions;
+  error: string | null;
+
+  // Actions
+  initialize: () => void;
+  loadTakes: () => Promise<void>;
+  startRecording: () => Promise<void>;
+  /** Stops recording and saves the take under the given name */
+  stopRecording: (name: string) => Promise<boolean>;
+  deleteTake: (id: string) => Promise<void>;
+  startReplay: (id: string) => Promise<void>;
+  stopReplay: () => Promise<void>;
+  setReplayOptions: (options: Partial<ReplayOptions>) => void;
+  setMidiFileOptions: (options: Partial<MidiFileOptions>) => void;
+  /** Writes a take as a .mid file; returns its name and contents, or null on failure */
+  exportTakeMidi: (id: string) => Promise<{ fileName: string; data: Uint8Array } | null>;
+  /** Imports the CC lanes of a .mid file as a take named after the file */
+  importTakeMidi: (file: File) => Promise<boolean>;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+export const useAutomationStore = create<AutomationState>((set, get) => ({
+  // Initial state
+  takes: [],
+  recording: false,
+  replayingTakeId: null,
+  replayOptions: { loop: false, speed: 1, quantizeMs: 0 },
+  midiFileOptions: { format: 1, ppq: 480, bpm: 120, trackPer: 'control' },
+  error: null,
+
+  // Set up the state listener and load the take library
+  initialize: () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    api.onMidiAutomation((event) => {
+      set({ recording: event.recording, replayingTakeId: event.replayingTakeId });
+    });
+
+    get().loadTakes();
+  },
+
+  loadTakes: async () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    try {
+      const response = await api.listTakes();
+      set({ takes: response.takes });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+    }
+  },
+
+  startRecording: async () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    try {
+      await api.startRecording({ deviceId: getActiveDeviceId() });
+      set({ error: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+    }
+  },
+
+  stopRecording: async (name) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    const presetId = usePresetStore.getState().currentPreset?.metadata.id;
+    const response = await api.stopRecording({ name, presetId });
+    if (!response.success) {
+      set({ error: response.error ?? 'Failed to save take' });
+      return false;
+    }
+
+    set({ error: null });
+    await get().loadTakes();
+    return true;
+  },
+
+  deleteTake: async (id) => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    const response = await api.deleteTake({ id });
+    if (!response.success) {
+      set({ error: response.error ?? 'Failed to delete take' });
+      return;
+    }
+
+    set((state) => ({ takes: state.takes.filter((take) => take.id !== id), error: null }));
+  },
+
+  startReplay: async (id) => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    const response = await api.startReplay({
+      id,
+      options: get().replayOptions,
+      deviceId: getActiveDeviceId(),
+    });
+    set({ error: response.success ? null : response.error ?? 'Failed to replay take' });
+  },
+
+  stopReplay: async () => {
+    await getElectronAPI()?.stopReplay();
+  },
+
+  setReplayOptions: (options) => {
+    set((state) => ({ replayOptions: { ...state.replayOptions, ...options } }));
+  },
+
+  setMidiFileOptions: (options) => {
+    set((state) => ({ midiFileOptions: { ...state.midiFileOptions, ...options } }));
+  },
+
+  exportTakeMidi: async (id) => {
+    const api = getElectronAPI();
+    if (!api) return null;
+
+    const response = await api.exportTakeMidi({ id, options: get().midiFileOptions });
+    if (!response.success || !response.data || !response.fileName) {
+      set({ error: response.error ?? 'Failed to export take' });
+      return null;
+    }
+
+    set({ error: null });
+    return { fileName: response.fileName, data: response.data };
+  },
+
+  importTakeMidi: async (file) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const name = file.name.replace(/\.midi?$/i, '').slice(0, 100) || 'Imported take';
+    const response = await api.importTakeMidi({ name, data });
+    if (!response.success) {
+      set({ error: response.error ?? 'Failed to import MIDI file' });
+      return false;
+    }
+
+    set({ error: null });
+    await get().loadTakes();
+    return true;
+  },
+}));
@@ -6,6 +6,9 @@
 
 import { create } from 'zustand';
 import type { ElectronAPI } from '../../main/preload';
+import type { DeviceScoped, MidiDeviceInfo } from '@shared/ipc-protocol';
+import type { DeviceProfile } from '@shared/types';
+import { BUILT_IN_PROFILES, findProfile } from '@shared/profiles';
 
 // Get the electron API from window
 const getElectronAPI = (): ElectronAPI | null => {
@@ -28,9 +31,18 @@ interface ConnectionState {
     inputs: string[];
     outputs: string[];
   };
+  /** Every controller unit managed by the MIDI manager */
+  devices: MidiDeviceInfo[];
+  /** Device shown in the editor, or null for the first device */
+  activeDeviceId: string | null;
+  /** Device profiles units are recognized by */
+  profiles: DeviceProfile[];
 
   // Actions
   initialize: () => Promise<void>;
+  /** Re-reads connection state and the device list from the MIDI manager */
+  refreshStatus: () => Promise<void>;
+  setActiveDevice: (deviceId: string | null) => void;
   connect: (inputPort?: string, outputPort?: string) => Promise<boolean>;
   disconnect: () => Promise<void>;
   refreshPorts: () => Promise<void>;
@@ -49,6 +61,9 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
   virtualPort: 'nkEditor3 Out',
   midiAvailable: false,
   availablePorts: { inputs: [], outputs: [] },
+  devices: [],
+  activeDeviceId: null,
+  profiles: [...BUILT_IN_PROFILES],
 
   // Initialize connection and set up event listeners
   initialize: async () => {
@@ -59,39 +74,27 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
     }
 
     // Get initial status
-    try {
-      const status = await api.getStatus();
-      set({
-        connected: status.connected,
-        inputPort: status.inputPort,
-        outputPort: status.outputPort,
-        virtualPort: status.virtualPort,
-        midiAvailable: status.midiAvailable,
-      });
-    } catch (error) {
-      console.error('[connection] Failed to get initial status:', error);
-    }
+    await get().refreshStatus();
 
     // Get available ports
     await get().refreshPorts();
 
-    // Set up event listeners
-    api.onMidiConnected((event) => {
-      set({
-        connected: true,
-        connecting: false,
-        inputPort: event.inputPort,
-        outputPort: event.outputPort,
-        virtualPort: event.virtualPort,
-      });
+    // Get device profiles (built-in plus user profiles)
+    try {
+      const response = await api.listProfiles();
+      set({ profiles: response.profiles });
+    } catch (error) {
+      console.error('[connection] Failed to list profiles:', error);
+    }
+
+    // Set up event listeners (any unit connecting or disconnecting changes the device list)
+    api.onMidiConnected(() => {
+      set({ connecting: false });
+      void get().refreshStatus();
     });
 
     api.onMidiDisconnected(() => {
-      set({
-        connected: false,
-        inputPort: null,
-        outputPort: null,
-      });
+      void get().refreshStatus();
     });
 
     api.onMidiPortsChanged((event) => {
@@ -104,6 +107,31 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
     });
   },
 
+  // Read connection state and devices
+  refreshStatus: async () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    try {
+      const status = await api.getStatus();
+      set({
+        connected: status.connected,
+        inputPort: status.inputPort,
+        outputPort: status.outputPort,
+        virtualPort: status.virtualPort,
+        midiAvailable: status.midiAvailable,
+        devices: status.devices,
+      });
+    } catch (error) {
+      console.error('[connection] Failed to get status:', error);
+    }
+  },
+
+  // Choose the device shown in the editor
+  setActiveDevice: (deviceId) => {
+    set({ activeDeviceId: deviceId });
+  },
+
   // Connect to MIDI device
   connect: async (inputPort, outputPort) => {
     const api = getElectronAPI();
@@ -115,12 +143,8 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
       const result = await api.connect({ inputPort, outputPort });
 
       if (result.success) {
-        set({
-          connected: true,
-          connecting: false,
-          inputPort: result.inputPort ?? null,
-          outputPort: result.outputPort ?? null,
-        });
+        set({ connecting: false });
+        await get().refreshStatus();
         return true;
       } else {
         set({ connecting: false });
@@ -141,11 +165,7 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
 
     try {
       await api.disconnect();
-      set({
-        connected: false,
-        inputPort: null,
-        outputPort: null,
-      });
+      await get().refreshStatus();
     } catch (error) {
       console.error('[connection] Disconnect error:', error);
     }
@@ -170,3 +190,44 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
     }
   },
 }));
+
+// =============================================================================
+// Device Helpers
+// =============================================================================
+
+/**
+ * Gets the ID of the device shown in the editor, for device-scoped requests.
+ * Undefined addresses the first device.
+ */
+export function getActiveDeviceId(): string | undefined {
+  return useConnectionStore.getState().activeDeviceId ?? undefined;
+}
+
+/**
+ * Gets the profile of the device shown in the editor.
+ * Falls back to the nanoKONTROL2 profile while no device is known.
+ */
+export function useActiveProfile(): DeviceProfile {
+  return useConnectionStore((state) => {
+    const device =
+      state.activeDeviceId !== null
+        ? state.devices.find((d) => d.id === state.activeDeviceId)
+        : state.devices[0];
+    return findProfile(state.profiles, device?.profileId);
+  });
+}
+
+/**
+ * Checks if a MIDI event belongs to the device shown in the editor.
+ * Events without a device ID, and all events while only one unit exists, match.
+ */
+export function isActiveDeviceEvent(event: DeviceScoped): boolean {
+  if (!event.deviceId) return true;
+
+  const { devices, activeDeviceId } = useConnectionStore.getState();
+  if (activeDeviceId !== null) {
+    return event.deviceId === activeDeviceId;
+  }
+  // First device: its ID isn't known yet while it's the only unit
+  return devices.length <= 1 || event.deviceId === devices[0]?.id;
+}
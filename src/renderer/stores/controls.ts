@@ -6,8 +6,10 @@
 
 import { create } from 'zustand';
 import type { ElectronAPI } from '../../main/preload';
-import type { ControlValues } from '@shared/ipc-protocol';
-import type { MappingConfig, MappingEntry } from '@shared/types';
+import type { ControlValues, TrackControlValues } from '@shared/ipc-protocol';
+import type { MappingConfig, TrackMapping } from '@shared/types';
+import { getBankCount, getBankTracks, getBankPosition } from '@shared/constants';
+import { getActiveDeviceId, isActiveDeviceEvent } from './connection';
 
 // Get the electron API from window
 const getElectronAPI = (): ElectronAPI | null => {
@@ -15,34 +17,30 @@ const getElectronAPI = (): ElectronAPI | null => {
 };
 
 /**
- * Scale a GUI value (0-127) to the configured min/max output range.
- * Formula: min + (value / 127) * (max - min)
- * Result is clamped to 0-127 and rounded to an integer.
- */
-function scaleValue(value: number, minValue: number = 0, maxValue: number = 127): number {
-  // Handle edge case where minValue > maxValue by swapping
-  const min = Math.min(minValue, maxValue);
-  const max = Math.max(minValue, maxValue);
-
-  // Apply scaling formula
-  const scaled = min + (value / 127) * (max - min);
-
-  // Clamp to 0-127 and round to integer
-  return Math.round(Math.max(0, Math.min(127, scaled)));
-}
-
-/**
- * Get the MIDI value for a button based on its state and configured on/off values.
- * Uses custom onValue/offValue if configured, otherwise defaults to 127/0.
- * Result is clamped to 0-127.
+ * Sends a control value through the active device's mapping engine, which applies
+ * the preset's output CC, channel, range scaling and on/off values.
+ * Errors are logged but not thrown so one failed send doesn't abort a batch.
+ *
+ * @param api - The Electron API
+ * @param controlType - Control type identifier (e.g., 'track1.knob')
+ * @param value - Control value (0-127), or 127/0 for button on/off
+ * @param logPrefix - Log prefix identifying the caller
+ * @param cycleStep - Position to restore a cycle button to, if known
  */
-function getButtonMidiValue(active: boolean, mapping?: MappingEntry): number {
-  if (active) {
-    const onValue = mapping?.onValue ?? 127;
-    return Math.max(0, Math.min(127, onValue));
-  } else {
-    const offValue = mapping?.offValue ?? 0;
-    return Math.max(0, Math.min(127, offValue));
+async function safeSendControl(
+  api: ElectronAPI,
+  controlType: string,
+  value: number,
+  logPrefix: string,
+  cycleStep?: number
+): Promise<void> {
+  try {
+    await api.sendControl({ controlType, value, cycleStep, deviceId: getActiveDeviceId() });
+  } catch (error) {
+    console.error(`${logPrefix} Failed to send ${controlType}:`, {
+      value,
+      error: error instanceof Error ? error.message : String(error),
+    });
   }
 }
 
@@ -54,6 +52,8 @@ interface ControlState {
   value: number;
   label?: string;
   locked?: boolean; // For soft takeover
+  /** Last known physical position while locked (waiting for pickup) */
+  physicalValue?: number | null;
 }
 
 interface ButtonState {
@@ -69,7 +69,7 @@ export interface TrackState {
   rec: ButtonState;
 }
 
-interface TransportState {
+export interface TransportState {
   rewind: ButtonState;
   forward: ButtonState;
   stop: ButtonState;
@@ -83,6 +83,17 @@ interface TransportState {
   marker_right: ButtonState;
 }
 
+/** Control state of one device, kept while another device is shown */
+export interface ControlsView {
+  tracks: TrackState[];
+  transport: TransportState;
+  shiftActive: boolean;
+  bank: number;
+  bankCount: number;
+  bankTracks: TrackState[][];
+  cycleSteps: Record<string, number>;
+}
+
 /** Selection state for track controls */
 interface TrackSelectionState {
   knob: boolean;
@@ -95,13 +106,56 @@ interface ControlsStoreState {
   transport: TransportState;
   /** Selection state for each track's knob and slider */
   selections: TrackSelectionState[];
+  /** Whether the mapping's shift layer is active */
+  shiftActive: boolean;
+  /** Track bank shown on the strips (0 = tracks 1-8) */
+  bank: number;
+  /** Number of track banks in the mapping (1 when paging is off) */
+  bankCount: number;
+  /** Stored strip states of every bank; the displayed bank's entry is refreshed when paging away */
+  bankTracks: TrackState[][];
+  /** Positions of the cycle buttons moved so far: control type -> position in the cycle's values */
+  cycleSteps: Record<string, number>;
 
   // Actions
   initialize: () => void;
   updateControl: (controlId: string, value: number) => void;
   updateButton: (controlId: string, active: boolean) => void;
+  /**
+   * Follows a GUI click on a button: a cycle button goes to its second
+   * value (on) or its first value (off), as the mapping engine sets it.
+   */
+  clickButton: (controlId: string, active: boolean) => void;
+  /**
+   * Sets the soft takeover state of a knob/slider.
+   * A locked control is waiting for the physical control to pick up its value.
+   */
+  setTakeoverState: (controlId: string, locked: boolean, physicalValue: number | null) => void;
   setControlLabel: (controlId: string, label: string) => void;
+  /**
+   * Activates or deactivates the shift layer in the MIDI manager.
+   * The store follows the manager's shift events, so hardware presses stay in sync.
+   */
+  setShiftActive: (active: boolean) => void;
+  /**
+   * Pages the strips to a track bank in the MIDI manager.
+   * The store follows the manager's bank events, so hardware paging stays in sync.
+   */
+  setBank: (bank: number) => void;
+  /**
+   * Shows a bank on the strips after the MIDI manager paged to it.
+   * The displayed bank is stashed and the new bank's last known values are applied.
+   */
+  showBank: (bank: number, bankCount: number, values: Record<string, number>) => void;
   resetAllControls: () => void;
+  /**
+   * Captures the control state shown for the active device.
+   */
+  captureView: () => ControlsView;
+  /**
+   * Shows a device's captured control state, or defaults if it has none yet.
+   */
+  restoreView: (view: ControlsView | null) => void;
   /**
    * Applies control values and labels from a preset.
    * Updates the GUI state FIRST, then sends MIDI CC messages to the synth.
@@ -122,19 +176,15 @@ interface ControlsStoreState {
   applyLabelsFromMapping: (mapping: MappingConfig) => void;
   /**
    * Randomizes all knob and slider values (0-127) for all 8 tracks.
-   * Updates the GUI state FIRST, then sends MIDI CC messages.
+   * Updates the GUI state FIRST, then sends the values through the mapping engine.
    * Does NOT randomize button states (solo, mute, rec, transport).
-   *
-   * @param mapping - The mapping configuration with CC assignments for MIDI output
    */
-  randomizeKnobsAndSliders: (mapping: MappingConfig) => Promise<void>;
+  randomizeKnobsAndSliders: () => Promise<void>;
   /**
    * Randomizes only selected knob and slider values.
    * If no controls are selected, does nothing.
-   *
-   * @param mapping - The mapping configuration with CC assignments for MIDI output
    */
-  randomizeSelectedKnobsAndSliders: (mapping: MappingConfig) => Promise<void>;
+  randomizeSelectedKnobsAndSliders: () => Promise<void>;
   /**
    * Restores control values from a snapshot (used by undo).
    * Updates GUI state and sends MIDI CC messages.
@@ -177,6 +227,91 @@ function createDefaultTrack(): TrackState {
   };
 }
 
+function createDefaultTracks(): TrackState[] {
+  return Array(8).fill(null).map(() => createDefaultTrack());
+}
+
+/**
+ * Gets the strip index (0-7) of a track section (e.g., 'track11') on the displayed bank.
+ * Returns null for invalid track numbers and tracks of other banks.
+ */
+function getStripIndex(section: string, bank: number): number | null {
+  const trackNum = parseInt(section.replace('track', ''), 10);
+  if (isNaN(trackNum) || trackNum < 1) return null;
+
+  const position = getBankPosition(trackNum);
+  return position.bank === bank ? position.strip : null;
+}
+
+/**
+ * Builds a strip's state from stored preset values.
+ * Labels from the values take precedence over mapping labels.
+ */
+function createTrackState(trackValues: TrackControlValues | undefined, trackMapping: TrackMapping | undefined): TrackState {
+  if (!trackValues || !trackMapping) {
+    return createDefaultTrack();
+  }
+
+  return {
+    knob: {
+      value: trackValues.knob,
+      label: trackValues.knobLabel ?? trackMapping.knob.label,
+    },
+    slider: {
+      value: trackValues.slider,
+      label: trackValues.sliderLabel ?? trackMapping.slider.label,
+    },
+    solo: {
+      active: trackValues.solo,
+      label: trackValues.soloLabel ?? trackMapping.solo.label,
+    },
+    mute: {
+      active: trackValues.mute,
+      label: trackValues.muteLabel ?? trackMapping.mute.label,
+    },
+    rec: {
+      active: trackValues.rec,
+      label: trackValues.recLabel ?? trackMapping.rec.label,
+    },
+  };
+}
+
+/**
+ * Sets the labels of a bank's strips from its track mappings.
+ */
+function applyTrackLabels(tracks: TrackState[], tracksMapping: TrackMapping[] | undefined): TrackState[] {
+  return tracks.map((track, trackIndex) => {
+    const trackMapping = tracksMapping?.[trackIndex];
+    if (!trackMapping) return track;
+
+    return {
+      knob: { ...track.knob, label: trackMapping.knob.label },
+      slider: { ...track.slider, label: trackMapping.slider.label },
+      solo: { ...track.solo, label: trackMapping.solo.label },
+      mute: { ...track.mute, label: trackMapping.mute.label },
+      rec: { ...track.rec, label: trackMapping.rec.label },
+    };
+  });
+}
+
+/**
+ * Converts a strip's state to preset values (includes labels).
+ */
+function toTrackControlValues(track: TrackState): TrackControlValues {
+  return {
+    knob: track.knob.value,
+    knobLabel: track.knob.label,
+    slider: track.slider.value,
+    sliderLabel: track.slider.label,
+    solo: track.solo.active,
+    soloLabel: track.solo.label,
+    mute: track.mute.active,
+    muteLabel: track.mute.label,
+    rec: track.rec.active,
+    recLabel: track.rec.label,
+  };
+}
+
 function createDefaultTransport(): TransportState {
   return {
     rewind: { active: false },
@@ -206,9 +341,14 @@ function createDefaultSelections(): TrackSelectionState[] {
 
 export const useControlsStore = create<ControlsStoreState>((set, get) => ({
   // Initial state
-  tracks: Array(8).fill(null).map(() => createDefaultTrack()),
+  tracks: createDefaultTracks(),
   transport: createDefaultTransport(),
   selections: createDefaultSelections(),
+  shiftActive: false,
+  bank: 0,
+  bankCount: 1,
+  bankTracks: [],
+  cycleSteps: {},
 
   // Initialize and set up MIDI CC listener
   initialize: () => {
@@ -216,9 +356,17 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     if (!api) return;
 
     api.onMidiCC((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+
       const { controlType } = event;
       if (!controlType) return;
 
+      // Keep cycle positions of every bank for saving
+      const { cycleStep } = event;
+      if (cycleStep !== undefined) {
+        set((state) => ({ cycleSteps: { ...state.cycleSteps, [controlType]: cycleStep } }));
+      }
+
       // Parse control type (e.g., "track1.knob" or "transport.play")
       const parts = controlType.split('.');
       if (parts.length !== 2) return;
@@ -228,8 +376,8 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
 
       // Handle track controls
       if (section.startsWith('track')) {
-        const trackNum = parseInt(section.replace('track', ''), 10);
-        if (isNaN(trackNum) || trackNum < 1 || trackNum > 8) return;
+        // Tracks of other banks aren't on screen
+        if (getStripIndex(section, get().bank) === null) return;
 
         if (control === 'knob' || control === 'slider') {
           get().updateControl(controlType, event.value);
@@ -243,6 +391,26 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
         get().updateButton(controlType, event.value > 0);
       }
     });
+
+    api.onMidiLedFeedback((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+      get().updateButton(event.controlType, event.isOn);
+    });
+
+    api.onMidiTakeover((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+      get().setTakeoverState(event.controlType, event.waiting, event.physicalValue);
+    });
+
+    api.onMidiShift((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+      set({ shiftActive: event.active });
+    });
+
+    api.onMidiBank((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+      get().showBank(event.bank, event.bankCount, event.values);
+    });
   },
 
   // Update a continuous control (knob/slider)
@@ -254,10 +422,8 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     if (!section || !control) return;
 
     if (section.startsWith('track')) {
-      const trackNum = parseInt(section.replace('track', ''), 10);
-      if (isNaN(trackNum) || trackNum < 1 || trackNum > 8) return;
-
-      const trackIndex = trackNum - 1;
+      const trackIndex = getStripIndex(section, get().bank);
+      if (trackIndex === null) return;
 
       set((state) => {
         const newTracks = [...state.tracks];
@@ -290,10 +456,8 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     if (!section || !control) return;
 
     if (section.startsWith('track')) {
-      const trackNum = parseInt(section.replace('track', ''), 10);
-      if (isNaN(trackNum) || trackNum < 1 || trackNum > 8) return;
-
-      const trackIndex = trackNum - 1;
+      const trackIndex = getStripIndex(section, get().bank);
+      if (trackIndex === null) return;
 
       set((state) => {
         const newTracks = [...state.tracks];
@@ -326,6 +490,87 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     }
   },
 
+  // Update a clicked button; untracked cycle buttons are restored from on/off alone
+  clickButton: (controlId, active) => {
+    get().updateButton(controlId, active);
+    if (controlId in get().cycleSteps) {
+      set((state) => ({ cycleSteps: { ...state.cycleSteps, [controlId]: active ? 1 : 0 } }));
+    }
+  },
+
+  // Set the soft takeover state of a knob/slider
+  setTakeoverState: (controlId, locked, physicalValue) => {
+    const parts = controlId.split('.');
+    if (parts.length !== 2) return;
+
+    const [section, control] = parts;
+    if (!section || !control) return;
+    if (!section.startsWith('track') || (control !== 'knob' && control !== 'slider')) return;
+
+    const trackIndex = getStripIndex(section, get().bank);
+    if (trackIndex === null) return;
+
+    set((state) => {
+      const newTracks = [...state.tracks];
+      const track = newTracks[trackIndex];
+      if (!track) return state;
+
+      newTracks[trackIndex] = {
+        ...track,
+        [control]: { ...track[control], locked, physicalValue },
+      };
+
+      return { tracks: newTracks };
+    });
+  },
+
+  // Switch between the base and shift layers
+  setShiftActive: (active) => {
+    set({ shiftActive: active });
+
+    const api = getElectronAPI();
+    if (!api) return;
+    api.setShift({ active, deviceId: getActiveDeviceId() }).catch((err) => {
+      console.error('[controls-store] Failed to set shift layer:', err);
+    });
+  },
+
+  // Page the strips to another track bank
+  setBank: (bank) => {
+    const api = getElectronAPI();
+    if (!api) return;
+    api.setBank({ bank, deviceId: getActiveDeviceId() }).catch((err) => {
+      console.error('[controls-store] Failed to set track bank:', err);
+    });
+  },
+
+  // Show a bank paged in by the MIDI manager
+  showBank: (bank, bankCount, values) => {
+    set((state) => {
+      // Only the bank count changed (e.g., a mapping edit): the strips already show this bank
+      if (bank === state.bank) {
+        return { bankCount };
+      }
+
+      const bankTracks = [...state.bankTracks];
+      bankTracks[state.bank] = state.tracks;
+
+      const firstTrack = bank * 8 + 1;
+      const tracks = (bankTracks[bank] ?? createDefaultTracks()).map((track, strip) => {
+        const valueOf = (control: string) => values[`track${firstTrack + strip}.${control}`];
+        return {
+          knob: { ...track.knob, value: valueOf('knob') ?? track.knob.value, locked: false, physicalValue: null },
+          slider: { ...track.slider, value: valueOf('slider') ?? track.slider.value, locked: false, physicalValue: null },
+          solo: { ...track.solo, active: (valueOf('solo') ?? Number(track.solo.active)) > 0 },
+          mute: { ...track.mute, active: (valueOf('mute') ?? Number(track.mute.active)) > 0 },
+          rec: { ...track.rec, active: (valueOf('rec') ?? Number(track.rec.active)) > 0 },
+        };
+      });
+
+      return { bank, bankCount, bankTracks, tracks };
+    });
+  },
+
   // Set a control label
   setControlLabel: (controlId, label) => {
     const parts = controlId.split('.');
@@ -335,10 +580,8 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     if (!section || !control) return;
 
     if (section.startsWith('track')) {
-      const trackNum = parseInt(section.replace('track', ''), 10);
-      if (isNaN(trackNum) || trackNum < 1 || trackNum > 8) return;
-
-      const trackIndex = trackNum - 1;
+      const trackIndex = getStripIndex(section, get().bank);
+      if (trackIndex === null) return;
 
       set((state) => {
         const newTracks = [...state.tracks];
@@ -361,8 +604,29 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
   // Reset all controls to default state
   resetAllControls: () => {
     set({
-      tracks: Array(8).fill(null).map(() => createDefaultTrack()),
+      tracks: createDefaultTracks(),
+      transport: createDefaultTransport(),
+      bankTracks: [],
+      cycleSteps: {},
+    });
+  },
+
+  // Capture the active device's control state
+  captureView: () => {
+    const { tracks, transport, shiftActive, bank, bankCount, bankTracks, cycleSteps } = get();
+    return { tracks, transport, shiftActive, bank, bankCount, bankTracks, cycleSteps };
+  },
+
+  // Show another device's control state
+  restoreView: (view) => {
+    set(view ?? {
+      tracks: createDefaultTracks(),
       transport: createDefaultTransport(),
+      shiftActive: false,
+      bank: 0,
+      bankCount: 1,
+      bankTracks: [],
+      cycleSteps: {},
     });
   },
 
@@ -376,41 +640,20 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     // PHASE 1: Build new state (pure computation, no side effects)
     // =========================================================================
 
-    // Build new state for all tracks
-    const newTracks: TrackState[] = [];
-    for (let trackIndex = 0; trackIndex < 8; trackIndex++) {
-      const trackValues = controlValues.tracks[trackIndex];
-      const trackMapping = mapping.tracks[trackIndex];
-
-      if (!trackValues || !trackMapping) {
-        newTracks.push(createDefaultTrack());
-        continue;
-      }
-
-      // Labels from controlValues take precedence over mapping labels
-      newTracks.push({
-        knob: {
-          value: trackValues.knob,
-          label: trackValues.knobLabel ?? trackMapping.knob.label,
-        },
-        slider: {
-          value: trackValues.slider,
-          label: trackValues.sliderLabel ?? trackMapping.slider.label,
-        },
-        solo: {
-          active: trackValues.solo,
-          label: trackValues.soloLabel ?? trackMapping.solo.label,
-        },
-        mute: {
-          active: trackValues.mute,
-          label: trackValues.muteLabel ?? trackMapping.mute.label,
-        },
-        rec: {
-          active: trackValues.rec,
-          label: trackValues.recLabel ?? trackMapping.rec.label,
-        },
-      });
+    // Build new state for all tracks of every bank (bank 0 = tracks 1-8)
+    const bankCount = getBankCount(mapping);
+    const bankValues = [controlValues.tracks, ...(controlValues.banks ?? [])];
+    const bankTracks: TrackState[][] = [];
+    for (let bank = 0; bank < bankCount; bank++) {
+      const tracksMapping = getBankTracks(mapping, bank);
+      bankTracks.push(
+        Array.from({ length: 8 }, (_, trackIndex) =>
+          createTrackState(bankValues[bank]?.[trackIndex], tracksMapping?.[trackIndex])
+        )
+      );
     }
+    const displayedBank = get().bank < bankCount ? get().bank : 0;
+    const newTracks = bankTracks[displayedBank] ?? createDefaultTracks();
 
     // Build new transport state with labels (controlValues labels take precedence)
     const transportMapping = mapping.transport;
@@ -435,7 +678,8 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
     // This MUST happen before any MIDI transmission to guarantee GUI updates
     // =========================================================================
 
-    set({ tracks: newTracks, transport: newTransport });
+    const cycleSteps = controlValues.cycleSteps ?? {};
+    set({ tracks: newTracks, transport: newTransport, bankTracks, cycleSteps });
     console.log('[controls-store] GUI state updated');
     console.log('[preset-load] GUI updated with preset values');
 
@@ -450,92 +694,30 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
       return;
     }
 
-    // Helper function to send CC with error handling and logging
-    const safeSendCC = async (
-      channel: number,
-      cc: number,
-      value: number,
-      description: string
-    ): Promise<void> => {
-      try {
-        console.log('[preset-load] Sending CC:', { channel, cc, value, description });
-        await api.sendCC({ channel, cc, value });
-      } catch (error) {
-        console.error(`[preset-load] Failed to send CC for ${description}:`, {
-          channel,
-          cc,
-          value,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    };
+    // Send all track controls of every bank through the mapping engine
+    for (let trackIndex = 0; trackIndex < bankCount * 8; trackIndex++) {
+      const trackValues = bankValues[Math.floor(trackIndex / 8)]?.[trackIndex % 8];
 
-    // Send MIDI CC for all track controls
-    for (let trackIndex = 0; trackIndex < 8; trackIndex++) {
-      const trackValues = controlValues.tracks[trackIndex];
-      const trackMapping = mapping.tracks[trackIndex];
-
-      if (!trackValues || !trackMapping) {
+      if (!trackValues) {
         continue;
       }
 
       const trackNum = trackIndex + 1;
 
-      // Knobs are ALWAYS transmitted (continuous controllers)
-      // Apply min/max scaling if configured
-      const knobScaledValue = scaleValue(
-        trackValues.knob,
-        trackMapping.knob.minValue,
-        trackMapping.knob.maxValue
-      );
-      await safeSendCC(
-        trackMapping.knob.channel - 1,
-        trackMapping.knob.outputCC,
-        knobScaledValue,
-        `track${trackNum}.knob`
-      );
-
-      // Sliders are ALWAYS transmitted (continuous controllers)
-      // Apply min/max scaling if configured
-      const sliderScaledValue = scaleValue(
-        trackValues.slider,
-        trackMapping.slider.minValue,
-        trackMapping.slider.maxValue
-      );
-      await safeSendCC(
-        trackMapping.slider.channel - 1,
-        trackMapping.slider.outputCC,
-        sliderScaledValue,
-        `track${trackNum}.slider`
-      );
+      // Knobs and sliders are ALWAYS transmitted (continuous controllers)
+      await safeSendControl(api, `track${trackNum}.knob`, trackValues.knob, '[preset-load]');
+      await safeSendControl(api, `track${trackNum}.slider`, trackValues.slider, '[preset-load]');
 
       // Buttons are only transmitted if transmitButtons is true
       if (transmitButtons) {
-        // Use custom on/off values if configured
-        await safeSendCC(
-          trackMapping.solo.channel - 1,
-          trackMapping.solo.outputCC,
-          getButtonMidiValue(trackValues.solo, trackMapping.solo),
-          `track${trackNum}.solo`
-        );
-
-        await safeSendCC(
-          trackMapping.mute.channel - 1,
-          trackMapping.mute.outputCC,
-          getButtonMidiValue(trackValues.mute, trackMapping.mute),
-          `track${trackNum}.mute`
-        );
-
-        await safeSendCC(
-          trackMapping.rec.channel - 1,
-          trackMapping.rec.outputCC,
-          getButtonMidiValue(trackValues.rec, trackMapping.rec),
-          `track${trackNum}.rec`
-        );
+        for (const button of ['solo', 'mute', 'rec'] as const) {
+          const controlType = `track${trackNum}.${button}`;
+          await safeSendControl(api, controlType, trackValues[button] ? 127 : 0, '[preset-load]', cycleSteps[controlType]);
+        }
       }
     }
 
-    // Send MIDI CC for transport buttons (only if transmitButtons is true)
+    // Send transport buttons (only if transmitButtons is true)
     if (transmitButtons) {
       const transportControls: (keyof typeof transportMapping)[] = [
         'rewind', 'forward', 'stop', 'play', 'record', 'cycle',
@@ -543,15 +725,9 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
       ];
 
       for (const controlName of transportControls) {
-        const controlMapping = transportMapping[controlName];
         const isActive = transportValues[controlName];
-        // Use custom on/off values if configured
-        await safeSendCC(
-          controlMapping.channel - 1,
-          controlMapping.outputCC,
-          getButtonMidiValue(isActive, controlMapping),
-          `transport.${controlName}`
-        );
+        const controlType = `transport.${controlName}`;
+        await safeSendControl(api, controlType, isActive ? 127 : 0, '[preset-load]', cycleSteps[controlType]);
       }
     } else {
       console.log('[preset-load] Skipping button MIDI transmission (transmitButtons=false)');
@@ -564,18 +740,11 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
   captureControlValues: () => {
     const state = get();
 
-    const tracks = state.tracks.map((track) => ({
-      knob: track.knob.value,
-      knobLabel: track.knob.label,
-      slider: track.slider.value,
-      sliderLabel: track.slider.label,
-      solo: track.solo.active,
-      soloLabel: track.solo.label,
-      mute: track.mute.active,
-      muteLabel: track.mute.label,
-      rec: track.rec.active,
-      recLabel: track.rec.label,
-    }));
+    // The displayed bank is live in state.tracks, the others are stashed
+    const getBankState = (bank: number): TrackState[] =>
+      bank === state.bank ? state.tracks : state.bankTracks[bank] ?? createDefaultTracks();
+
+    const tracks = getBankState(0).map(toTrackControlValues);
 
     const transport = {
       play: state.transport.play.active,
@@ -602,24 +771,24 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
       marker_rightLabel: state.transport.marker_right.label,
     };
 
-    return { tracks, transport };
+    const cycleSteps = Object.keys(state.cycleSteps).length > 0 ? { ...state.cycleSteps } : undefined;
+
+    if (state.bankCount > 1) {
+      const banks = Array.from({ length: state.bankCount - 1 }, (_, i) => getBankState(i + 1).map(toTrackControlValues));
+      return { tracks, transport, banks, ...(cycleSteps && { cycleSteps }) };
+    }
+
+    return { tracks, transport, ...(cycleSteps && { cycleSteps }) };
   },
 
   // Apply labels from mapping config to all controls
   applyLabelsFromMapping: (mapping) => {
     set((state) => {
-      const newTracks = state.tracks.map((track, trackIndex) => {
-        const trackMapping = mapping.tracks[trackIndex];
-        if (!trackMapping) return track;
-
-        return {
-          knob: { ...track.knob, label: trackMapping.knob.label },
-          slider: { ...track.slider, label: trackMapping.slider.label },
-          solo: { ...track.solo, label: trackMapping.solo.label },
-          mute: { ...track.mute, label: trackMapping.mute.label },
-          rec: { ...track.rec, label: trackMapping.rec.label },
-        };
-      });
+      // Label the displayed strips and the stashed strips of the other banks
+      const bankTracks = Array.from({ length: getBankCount(mapping) }, (_, bank) =>
+        applyTrackLabels(state.bankTracks[bank] ?? createDefaultTracks(), getBankTracks(mapping, bank))
+      );
+      const newTracks = applyTrackLabels(state.tracks, getBankTracks(mapping, state.bank));
 
       const transportMapping = mapping.transport;
       const newTransport: TransportState = {
@@ -636,12 +805,12 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
         marker_right: { ...state.transport.marker_right, label: transportMapping.marker_right.label },
       };
 
-      return { tracks: newTracks, transport: newTransport };
+      return { tracks: newTracks, transport: newTransport, bankTracks };
     });
   },
 
   // Randomize knobs and sliders for all tracks, sending MIDI CC
-  randomizeKnobsAndSliders: async (mapping) => {
+  randomizeKnobsAndSliders: async () => {
     console.log('[controls-store] Randomizing knobs and sliders');
 
     // =========================================================================
@@ -693,66 +862,21 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
       return;
     }
 
-    // Helper function to send CC with error handling
-    const safeSendCC = async (
-      channel: number,
-      cc: number,
-      value: number,
-      description: string
-    ): Promise<void> => {
-      try {
-        await api.sendCC({ channel, cc, value });
-      } catch (error) {
-        console.error(`[controls-store] Failed to send CC for ${description}:`, {
-          channel,
-          cc,
-          value,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    };
-
-    // Send MIDI CC for all randomized controls
+    // Send all randomized controls through the mapping engine
     for (let trackIndex = 0; trackIndex < 8; trackIndex++) {
-      const trackMapping = mapping.tracks[trackIndex];
       const values = randomValues[trackIndex];
+      if (!values) continue;
 
-      if (!trackMapping || !values) continue;
-
-      const trackNum = trackIndex + 1;
-
-      // Apply min/max scaling if configured, then send knob CC
-      const knobScaledValue = scaleValue(
-        values.knob,
-        trackMapping.knob.minValue,
-        trackMapping.knob.maxValue
-      );
-      await safeSendCC(
-        trackMapping.knob.channel - 1,
-        trackMapping.knob.outputCC,
-        knobScaledValue,
-        `track${trackNum}.knob`
-      );
-
-      // Apply min/max scaling if configured, then send slider CC
-      const sliderScaledValue = scaleValue(
-        values.slider,
-        trackMapping.slider.minValue,
-        trackMapping.slider.maxValue
-      );
-      await safeSendCC(
-        trackMapping.slider.channel - 1,
-        trackMapping.slider.outputCC,
-        sliderScaledValue,
-        `track${trackNum}.slider`
-      );
+      const trackNum = get().bank * 8 + trackIndex + 1;
+      await safeSendControl(api, `track${trackNum}.knob`, values.knob, '[controls-store]');
+      await safeSendControl(api, `track${trackNum}.slider`, values.slider, '[controls-store]');
     }
 
     console.log('[controls-store] Randomize MIDI transmission complete');
   },
 
   // Randomize only selected knobs and sliders
-  randomizeSelectedKnobsAndSliders: async (mapping) => {
+  randomizeSelectedKnobsAndSliders: async () => {
     const { selections, tracks: currentTracks } = get();
 
     // Check if any controls are selected
@@ -803,58 +927,20 @@ export const useControlsStore = create<ControlsStoreState>((set, get) => ({
       return;
     }
 
-    const safeSendCC = async (
-      channel: number,
-      cc: number,
-      value: number,
-      description: string
-    ): Promise<void> => {
-      try {
-        await api.sendCC({ channel, cc, value });
-      } catch (error) {
-        console.error(`[controls-store] Failed to send CC for ${description}:`, {
-          channel, cc, value,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    };
-
     for (let trackIndex = 0; trackIndex < 8; trackIndex++) {
-      const trackMapping = mapping.tracks[trackIndex];
       const values = randomValues[trackIndex];
+      if (!values) continue;
 
-      if (!trackMapping || !values) continue;
-
-      const trackNum = trackIndex + 1;
+      const trackNum = get().bank * 8 + trackIndex + 1;
 
-      // Send knob CC if it was randomized
+      // Send knob if it was randomized
       if (values.knob !== null) {
-        const knobScaledValue = scaleValue(
-          values.knob,
-          trackMapping.knob.minValue,
-          trackMapping.knob.maxValue
-        );
-        await safeSendCC(
-          trackMapping.knob.channel - 1,
-          trackMapping.knob.outputCC,
-          knobScaledValue,
-          `track${trackNum}.knob`
-        );
+        await safeSendControl(api, `track${trackNum}.knob`, values.knob, '[controls-store]');
       }
 
-      // Send slider CC if it was randomized
+      // Send slider if it was randomized
       if (values.slider !== null) {
-        const sliderScaledValue = scaleValue(
-          values.slider,
-          trackMapping.slider.minValue,
-          trackMapping.slider.maxValue
-        );
-        await safeSendCC(
-          trackMapping.slider.channel - 1,
-          trackMapping.slider.outputCC,
-          sliderScaledValue,
-          `track${trackNum}.slider`
-        );
+        await safeSendControl(api, `track${trackNum}.slider`, values.slider, '[controls-store]');
       }
     }
 
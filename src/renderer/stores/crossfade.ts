@@ -0,0 +1,158 @@
+/**
+ * Crossfade Store
+ *
+ * Manages the A/B morph fader: the presets in the A and B comparison slots,
+ * the knob/slider used as the fader, and turning the fader on or off on the
+ * unit shown in the editor. While on, fader movements morph the unit's
+ * controls between the two presets' stored control values in the main process.
+ */
+
+import { create } from 'zustand';
+import type { ElectronAPI } from '../../main/preload';
+import type { Preset } from '@shared/ipc-protocol';
+import { getActiveDeviceId, isActiveDeviceEvent } from './connection';
+import { useControlsStore } from './controls';
+import { usePresetStore } from './preset';
+
+// Get the electron API from window
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+/** Fader used until another control is chosen */
+const DEFAULT_FADER = 'track8.slider';
+
+/**
+ * Gets the presets in the A and B slots.
+ */
+function getSlots(): { a: Preset | null; b: Preset | null } {
+  const { abSlotA, abSlotB } = usePresetStore.getState();
+  return { a: abSlotA, b: abSlotB };
+}
+
+// =============================================================================
+// Store Types
+// =============================================================================
+
+interface CrossfadeState {
+  // State
+  /** Control type of the fader (e.g., 'track8.slider') */
+  fader: string;
+  /** Whether the fader is morphing between the slots on the unit shown */
+  enabled: boolean;
+  /** Last fader position (0 = A, 127 = B), or null before the first movement */
+  position: number | null;
+  error: string | null;
+
+  // Actions
+  initialize: () => void;
+  /** Loads a preset into the A or B slot; an enabled fader morphs to the new values */
+  setSlot: (slot: 'A' | 'B', id: string) => Promise<boolean>;
+  setFader: (controlType: string) => Promise<void>;
+  setEnabled: (enabled: boolean) => Promise<boolean>;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+export const useCrossfadeStore = create<CrossfadeState>((set, get) => ({
+  // Initial state
+  fader: DEFAULT_FADER,
+  enabled: false,
+  position: null,
+  error: null,
+
+  // Follow fader movements on the unit shown, moving its controls in the editor
+  initialize: () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    api.onMidiCrossfade((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+
+      const controls = useControlsStore.getState();
+      for (const [controlType, value] of Object.entries(event.values)) {
+        controls.updateControl(controlType, value);
+      }
+      for (const [controlType, isOn] of Object.entries(event.buttons)) {
+        controls.updateButton(controlType, isOn);
+      }
+      set({ position: event.position });
+    });
+  },
+
+  setSlot: async (slot, id) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    try {
+      const response = await api.loadPreset({ id });
+      if (!response.success || !response.preset) {
+        set({ error: response.error ?? 'Failed to load preset' });
+        return false;
+      }
+
+      const presetStore = usePresetStore.getState();
+      if (slot === 'A') {
+        presetStore.setSlotA(response.preset);
+      } else {
+        presetStore.setSlotB(response.preset);
+      }
+      set({ error: null });
+
+      if (get().enabled) {
+        return get().setEnabled(true);
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+      return false;
+    }
+  },
+
+  setFader: async (controlType) => {
+    set({ fader: controlType });
+    if (get().enabled) {
+      await get().setEnabled(true);
+    }
+  },
+
+  setEnabled: async (enabled) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    const { a, b } = getSlots();
+    if (enabled) {
+      if (!a || !b) {
+        set({ error: 'Choose a preset for both slots' });
+        return false;
+      }
+      const missing = [a, b].filter((preset) => !preset.controlValues).map((preset) => preset.metadata.name);
+      if (missing.length > 0) {
+        set({ error: `No stored control values in: ${missing.join(', ')}` });
+        return false;
+      }
+    }
+
+    try {
+      const response = await api.setCrossfade({
+        fader: enabled ? get().fader : null,
+        a: enabled ? a?.controlValues : undefined,
+        b: enabled ? b?.controlValues : undefined,
+        deviceId: getActiveDeviceId(),
+      });
+      if (!response.success) {
+        set({ error: response.error ?? 'Failed to set crossfader' });
+        return false;
+      }
+      set({ enabled, position: null, error: null });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+      return false;
+    }
+  },
+}));
@@ -0,0 +1,90 @@
+/**
+ * Hardware Scene Store
+ *
+ * Manages the scene stored on the nanoKONTROL2 itself (over SysEx): reading
+ * the scene settings of the unit shown in the editor, and writing a preset's
+ * mapping (or the factory assignments) to it, so the unit sends the mapping's
+ * CCs and button behaviors without the app running.
+ */
+
+import { create } from 'zustand';
+import type { ElectronAPI } from '../../main/preload';
+import type { HardwareSceneInfo } from '@shared/ipc-protocol';
+import { getActiveDeviceId } from './connection';
+
+// Get the electron API from window
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+// =============================================================================
+// Store Types
+// =============================================================================
+
+interface HardwareSceneState {
+  // State
+  /** Scene settings last read from the unit, or null */
+  scene: HardwareSceneInfo | null;
+  /** What of the last written mapping the unit can't do by itself */
+  approximated: string[];
+  /** Whether a read or write is in progress */
+  busy: boolean;
+  error: string | null;
+
+  // Actions
+  query: () => Promise<boolean>;
+  /** Writes a preset's mapping, or the factory assignments without presetId */
+  write: (presetId: string | undefined, ledMode: 'internal' | 'external', store: boolean) => Promise<boolean>;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+export const useHardwareSceneStore = create<HardwareSceneState>((set, get) => ({
+  // Initial state
+  scene: null,
+  approximated: [],
+  busy: false,
+  error: null,
+
+  query: async () => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    set({ busy: true });
+    try {
+      const response = await api.queryHardwareScene({ deviceId: getActiveDeviceId() });
+      if (!response.success || !response.scene) {
+        set({ busy: false, error: response.error ?? 'Failed to read the scene' });
+        return false;
+      }
+      set({ busy: false, scene: response.scene, error: null });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ busy: false, error: message });
+      return false;
+    }
+  },
+
+  write: async (presetId, ledMode, store) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    set({ busy: true });
+    try {
+      const response = await api.writeHardwareScene({ presetId, ledMode, store, deviceId: getActiveDeviceId() });
+      if (!response.success) {
+        set({ busy: false, error: response.error ?? 'Failed to write the scene' });
+        return false;
+      }
+      set({ busy: false, approximated: response.approximated ?? [], error: null });
+      return get().query();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ busy: false, error: message });
+      return false;
+    }
+  },
+}));
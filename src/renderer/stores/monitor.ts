@@ -0,0 +1,177 @@
+/**
+ * Monitor Store
+ *
+ * Keeps the MIDI monitor's log of the messages the units receive and send:
+ * hardware input, remapped output, LED updates and DAW feedback. The main
+ * process only streams messages while the Monitor tab is open and not paused.
+ */
+
+import { create } from 'zustand';
+import type { ElectronAPI } from '../../main/preload';
+import type { MidiMonitorEvent, MonitorSource } from '@shared/ipc-protocol';
+
+// Get the electron API from window
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+/** Maximum number of messages kept; the oldest are dropped first */
+export const MAX_MONITOR_ENTRIES = 2000;
+
+/** Message sources in display order */
+export const MONITOR_SOURCES: readonly MonitorSource[] = ['input', 'output', 'led', 'feedback'];
+
+// =============================================================================
+// Store Types
+// =============================================================================
+
+export interface MonitorEntry extends MidiMonitorEvent {
+  /** Sequence number, unique within the session */
+  id: number;
+}
+
+interface MonitorState {
+  // State
+  entries: MonitorEntry[];
+  /** Whether the Monitor tab is open */
+  active: boolean;
+  paused: boolean;
+  /** Text matched against the control type, label and message type */
+  filterText: string;
+  /** Sources shown in the log */
+  sources: Record<MonitorSource, boolean>;
+
+  // Actions
+  initialize: () => void;
+  /** Called by the Monitor tab when it opens and closes */
+  setActive: (active: boolean) => void;
+  setPaused: (paused: boolean) => void;
+  clear: () => void;
+  setFilterText: (text: string) => void;
+  toggleSource: (source: MonitorSource) => void;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+let nextEntryId = 1;
+
+/**
+ * Tells the main process whether to stream messages.
+ */
+function syncMonitoring(active: boolean, paused: boolean): void {
+  getElectronAPI()
+    ?.setMonitoring({ enabled: active && !paused })
+    .catch((error) => {
+      console.error('[monitor] Failed to set monitoring:', error);
+    });
+}
+
+export const useMonitorStore = create<MonitorState>((set, get) => ({
+  // Initial state
+  entries: [],
+  active: false,
+  paused: false,
+  filterText: '',
+  sources: { input: true, output: true, led: true, feedback: true },
+
+  // Set up the message listener
+  initialize: () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    api.onMidiMonitor((event) => {
+      if (get().paused) return;
+      set((state) => ({
+        entries: [...state.entries, { ...event, id: nextEntryId++ }].slice(-MAX_MONITOR_ENTRIES),
+      }));
+    });
+  },
+
+  setActive: (active) => {
+    set({ active });
+    syncMonitoring(active, get().paused);
+  },
+
+  setPaused: (paused) => {
+    set({ paused });
+    syncMonitoring(get().active, paused);
+  },
+
+  clear: () => {
+    set({ entries: [] });
+  },
+
+  setFilterText: (text) => {
+    set({ filterText: text });
+  },
+
+  toggleSource: (source) => {
+    set((state) => ({ sources: { ...state.sources, [source]: !state.sources[source] } }));
+  },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Gets the entries shown with the current filters.
+ */
+export function filterMonitorEntries(
+  entries: MonitorEntry[],
+  filterText: string,
+  sources: Record<MonitorSource, boolean>
+): MonitorEntry[] {
+  const text = filterText.trim().toLowerCase();
+
+  return entries.filter((entry) => {
+    if (!sources[entry.source]) return false;
+    if (!text) return true;
+    return [entry.controlType, entry.label, entry.messageType].some((field) => field?.toLowerCase().includes(text));
+  });
+}
+
+/**
+ * Formats a number per the value display setting. 14-bit values get four hex digits.
+ */
+export function formatMonitorNumber(value: number, display: 'decimal' | 'hex'): string {
+  if (display === 'decimal') return String(value);
+  return value.toString(16).toUpperCase().padStart(value > 0x7f ? 4 : 2, '0');
+}
+
+/**
+ * Converts entries to CSV, one message per line.
+ */
+export function monitorEntriesToCsv(entries: MonitorEntry[]): string {
+  const quote = (field: string | number | undefined) => {
+    const text = field === undefined ? '' : String(field);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = 'time,device,source,type,channel,number,value,control,label';
+  const lines = entries.map((entry) =>
+    [
+      new Date(entry.timestamp).toISOString(),
+      entry.deviceId,
+      entry.source,
+      entry.messageType,
+      entry.channel,
+      entry.number,
+      entry.value,
+      entry.controlType,
+      entry.label,
+    ]
+      .map(quote)
+      .join(',')
+  );
+  return [header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Converts entries to JSON, an array of messages.
+ */
+export function monitorEntriesToJson(entries: MonitorEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
@@ -6,9 +6,18 @@
 
 import { create } from 'zustand';
 import type { ElectronAPI } from '../../main/preload';
-import type { PresetMetadata, Preset } from '@shared/ipc-protocol';
+import type {
+  PresetMetadata,
+  Preset,
+  PresetImportResolution,
+  PresetExportFormat,
+  ReadPresetImportResponse,
+  ImportPresetsResponse,
+} from '@shared/ipc-protocol';
 import { createDefaultPreset } from '@shared/schemas';
 import { useControlsStore } from './controls';
+import type { ControlsView } from './controls';
+import { useConnectionStore, getActiveDeviceId } from './connection';
 
 // Get the electron API from window
 const getElectronAPI = (): ElectronAPI | null => {
@@ -19,6 +28,14 @@ const getElectronAPI = (): ElectronAPI | null => {
 // Store Types
 // =============================================================================
 
+/** Editor state of a device that isn't shown, restored when switching back to it */
+interface DeviceView {
+  currentPreset: Preset | null;
+  selectedId: string | null;
+  hasUnsavedChanges: boolean;
+  controls: ControlsView;
+}
+
 interface PresetStoreState {
   // State
   presets: PresetMetadata[];
@@ -40,6 +57,11 @@ interface PresetStoreState {
   saveCurrentPreset: () => Promise<boolean>;
   setCurrentPreset: (preset: Preset) => void;
   markUnsavedChanges: () => void;
+  /**
+   * Shows another nanoKONTROL2 unit in the editor (null = the first unit).
+   * The current preset, unsaved-changes flag and control state are kept per device.
+   */
+  selectDevice: (deviceId: string | null) => void;
   deletePreset: (id: string) => Promise<boolean>;
   toggleFavorite: (id: string) => Promise<void>;
   updatePresetMetadata: (id: string, updates: {
@@ -56,6 +78,19 @@ interface PresetStoreState {
    */
   duplicatePreset: (id: string, newName: string) => Promise<string | null>;
 
+  // Import/export
+  /**
+   * Exports a preset as a .json file (or its mapping as a .txt mapping file),
+   * or the whole library as a .zip bundle without an ID, and downloads it.
+   */
+  exportPresets: (id?: string, format?: PresetExportFormat) => Promise<boolean>;
+  /** Reads the presets of a .json, .txt, .nktrl2_data or .zip file and their collisions with the library */
+  readPresetImport: (file: File) => Promise<ReadPresetImportResponse | null>;
+  /** Stores imported presets as resolved, then reloads the library */
+  importPresets: (
+    items: Array<{ preset: Preset; resolution: PresetImportResolution }>
+  ) => Promise<ImportPresetsResponse | null>;
+
   // A/B comparison
   setSlotA: (preset: Preset) => void;
   setSlotB: (preset: Preset) => void;
@@ -70,6 +105,9 @@ interface PresetStoreState {
 // Store Implementation
 // =============================================================================
 
+/** Editor state of devices that aren't shown, keyed by device ID ('' = the first device) */
+const deviceViews = new Map<string, DeviceView>();
+
 export const usePresetStore = create<PresetStoreState>((set, get) => ({
   // Initial state
   presets: [],
@@ -123,8 +161,8 @@ export const usePresetStore = create<PresetStoreState>((set, get) => ({
         console.log('[preset-store] Loaded preset data:', response.preset);
         console.log('[preset-store] Control values:', response.preset?.controlValues);
 
-        // Apply the mapping configuration to the MIDI manager
-        const applyResult = await api.applyMapping({ mapping: response.preset.mapping });
+        // Apply the mapping configuration to the active device
+        const applyResult = await api.applyMapping({ mapping: response.preset.mapping, deviceId: getActiveDeviceId() });
 
         if (!applyResult.success) {
           console.warn('[preset-store] Failed to apply mapping:', applyResult.error);
@@ -305,6 +343,27 @@ export const usePresetStore = create<PresetStoreState>((set, get) => ({
     set({ hasUnsavedChanges: true });
   },
 
+  // Switch the editor to another device, stashing the shown device's state
+  selectDevice: (deviceId) => {
+    const connectionStore = useConnectionStore.getState();
+    const fromKey = connectionStore.activeDeviceId ?? '';
+    const toKey = deviceId ?? '';
+    if (fromKey === toKey) return;
+
+    const controlsStore = useControlsStore.getState();
+    const { currentPreset, selectedId, hasUnsavedChanges } = get();
+    deviceViews.set(fromKey, { currentPreset, selectedId, hasUnsavedChanges, controls: controlsStore.captureView() });
+
+    const view = deviceViews.get(toKey);
+    connectionStore.setActiveDevice(deviceId);
+    controlsStore.restoreView(view?.controls ?? null);
+    set({
+      currentPreset: view?.currentPreset ?? null,
+      selectedId: view?.selectedId ?? null,
+      hasUnsavedChanges: view?.hasUnsavedChanges ?? false,
+    });
+  },
+
   // Delete a preset
   deletePreset: async (id) => {
     const api = getElectronAPI();
@@ -510,4 +569,64 @@ export const usePresetStore = create<PresetStoreState>((set, get) => ({
       return null;
     }
   },
+
+  // Export a preset or the whole library and download the file
+  exportPresets: async (id, format) => {
+    const api = getElectronAPI();
+    if (!api) return false;
+
+    try {
+      const response = await api.exportPresets({ id, format });
+      if (!response.success || !response.data || !response.fileName) {
+        set({ error: response.error ?? 'Failed to export presets' });
+        return false;
+      }
+
+      const type = response.fileName.endsWith('.zip')
+        ? 'application/zip'
+        : response.fileName.endsWith('.txt')
+          ? 'text/plain'
+          : 'application/json';
+      const url = URL.createObjectURL(new Blob([new Uint8Array(response.data)], { type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+      return false;
+    }
+  },
+
+  // Read an import file for the import dialog
+  readPresetImport: async (file) => {
+    const api = getElectronAPI();
+    if (!api) return null;
+
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      return await api.readPresetImport({ fileName: file.name, data });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  },
+
+  // Store imported presets
+  importPresets: async (items) => {
+    const api = getElectronAPI();
+    if (!api) return null;
+
+    try {
+      const response = await api.importPresets({ items });
+      await get().loadPresets();
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message };
+    }
+  },
 }));
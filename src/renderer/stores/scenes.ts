@@ -0,0 +1,171 @@
+/**
+ * Scenes Store
+ *
+ * Manages the snapshot scenes of the current preset's mapping: capturing the
+ * knob/slider values shown in the editor into a scene, editing and deleting
+ * scenes, and recalling them on the unit shown, which morphs its controls
+ * to the scene's values in the main process.
+ */
+
+import { create } from 'zustand';
+import type { ElectronAPI } from '../../main/preload';
+import type { ControlValues } from '@shared/ipc-protocol';
+import type { MappingConfig, Scene } from '@shared/types';
+import { MAX_SCENES } from '@shared/types';
+import { getActiveDeviceId, isActiveDeviceEvent } from './connection';
+import { useControlsStore } from './controls';
+import { usePresetStore } from './preset';
+
+// Get the electron API from window
+const getElectronAPI = (): ElectronAPI | null => {
+  return (window as { electronAPI?: ElectronAPI }).electronAPI ?? null;
+};
+
+/** Morph time of a newly captured scene (ms) */
+const DEFAULT_MORPH_MS = 2000;
+
+/**
+ * Collects the knob/slider values of every track bank, by control type.
+ */
+function toSceneValues(controlValues: ControlValues): Record<string, number> {
+  const values: Record<string, number> = {};
+
+  [controlValues.tracks, ...(controlValues.banks ?? [])].forEach((tracks, bank) => {
+    tracks.forEach((track, strip) => {
+      const trackNumber = bank * 8 + strip + 1;
+      values[`track${trackNumber}.knob`] = track.knob;
+      values[`track${trackNumber}.slider`] = track.slider;
+    });
+  });
+
+  return values;
+}
+
+/**
+ * Stores edited scenes in the current preset and applies the mapping to the
+ * MIDI manager, so scene buttons work immediately.
+ */
+function commitScenes(scenes: Scene[]): void {
+  const presetStore = usePresetStore.getState();
+  const preset = presetStore.currentPreset;
+  if (!preset) return;
+
+  const mapping: MappingConfig = { ...preset.mapping, scenes };
+  if (scenes.length === 0) {
+    delete mapping.scenes;
+  }
+
+  presetStore.setCurrentPreset({
+    ...preset,
+    mapping,
+    metadata: { ...preset.metadata, modifiedAt: new Date().toISOString() },
+  });
+
+  getElectronAPI()?.applyMapping({ mapping, deviceId: getActiveDeviceId() }).catch((err) => {
+    console.error('[scenes-store] Failed to apply mapping:', err);
+  });
+}
+
+/**
+ * Gets the scenes of the current preset.
+ */
+function getScenes(): Scene[] {
+  return usePresetStore.getState().currentPreset?.mapping.scenes ?? [];
+}
+
+// =============================================================================
+// Store Types
+// =============================================================================
+
+interface ScenesState {
+  // State
+  /** Index of the scene last recalled on the unit shown, or null */
+  activeScene: number | null;
+  /** Whether the unit shown is morphing to the active scene */
+  morphing: boolean;
+  error: string | null;
+
+  // Actions
+  initialize: () => void;
+  /**
+   * Stores the knob/slider values shown in the editor as a scene.
+   * An index past the last scene adds a new scene.
+   */
+  captureScene: (index: number) => void;
+  updateScene: (index: number, updates: Partial<Omit<Scene, 'values'>>) => void;
+  deleteScene: (index: number) => void;
+  recallScene: (index: number) => Promise<void>;
+}
+
+// =============================================================================
+// Store Implementation
+// =============================================================================
+
+export const useScenesStore = create<ScenesState>((set) => ({
+  // Initial state
+  activeScene: null,
+  morphing: false,
+  error: null,
+
+  // Follow morphs on the unit shown, moving its controls in the editor
+  initialize: () => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    api.onMidiScene((event) => {
+      if (!isActiveDeviceEvent(event)) return;
+
+      const controls = useControlsStore.getState();
+      for (const [controlType, value] of Object.entries(event.values)) {
+        controls.updateControl(controlType, value);
+      }
+      set({ activeScene: event.scene, morphing: event.morphing });
+    });
+  },
+
+  captureScene: (index) => {
+    const scenes = [...getScenes()];
+    const existing = scenes[index];
+    if (!existing && scenes.length >= MAX_SCENES) return;
+
+    const values = toSceneValues(useControlsStore.getState().captureControlValues());
+    const scene: Scene = existing
+      ? { ...existing, values }
+      : { name: `Scene ${scenes.length + 1}`, values, morphMs: DEFAULT_MORPH_MS };
+
+    if (existing) {
+      scenes[index] = scene;
+    } else {
+      scenes.push(scene);
+    }
+    commitScenes(scenes);
+  },
+
+  updateScene: (index, updates) => {
+    const scenes = [...getScenes()];
+    const scene = scenes[index];
+    if (!scene) return;
+
+    scenes[index] = { ...scene, ...updates };
+    commitScenes(scenes);
+  },
+
+  deleteScene: (index) => {
+    const scenes = getScenes().filter((_, i) => i !== index);
+    commitScenes(scenes);
+    set({ activeScene: null, morphing: false });
+  },
+
+  recallScene: async (index) => {
+    const api = getElectronAPI();
+    if (!api) return;
+
+    try {
+      const response = await api.recallScene({ scene: index, deviceId: getActiveDeviceId() });
+      set({ error: response.success ? null : response.error ?? 'Failed to recall scene' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      set({ error: message });
+    }
+  },
+}));
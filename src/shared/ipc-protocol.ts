@@ -5,7 +5,7 @@
  * the Electron main process and renderer process.
  */
 
-import type { MappingConfig, MidiPorts, CCMessage } from './types.js';
+import type { MappingConfig, MidiPorts, CCMessage, DeviceProfile, OutputType } from './types.js';
 
 // =============================================================================
 // IPC Channel Names
@@ -17,6 +17,15 @@ export const IPC_EVENTS = {
   MIDI_CONNECTED: 'midi:connected',
   MIDI_DISCONNECTED: 'midi:disconnected',
   MIDI_PORTS_CHANGED: 'midi:portsChanged',
+  MIDI_TAKEOVER: 'midi:takeover',
+  MIDI_LED_FEEDBACK: 'midi:ledFeedback',
+  MIDI_SHIFT: 'midi:shift',
+  MIDI_BANK: 'midi:bank',
+  MIDI_SCENE: 'midi:scene',
+  MIDI_CROSSFADE: 'midi:crossfade',
+  MIDI_LEARN: 'midi:learn',
+  MIDI_MONITOR: 'midi:monitor',
+  MIDI_AUTOMATION: 'midi:automation',
   ERROR: 'error',
 } as const;
 
@@ -24,10 +33,20 @@ export const IPC_EVENTS = {
 export const IPC_INVOKE = {
   // MIDI operations
   MIDI_SEND: 'midi:send',
+  MIDI_SEND_CONTROL: 'midi:sendControl',
+  MIDI_SET_SHIFT: 'midi:setShift',
+  MIDI_SET_BANK: 'midi:setBank',
+  MIDI_RECALL_SCENE: 'midi:recallScene',
+  MIDI_SET_CROSSFADE: 'midi:setCrossfade',
   MIDI_CONNECT: 'midi:connect',
   MIDI_DISCONNECT: 'midi:disconnect',
   MIDI_GET_PORTS: 'midi:ports',
   MIDI_GET_STATUS: 'midi:status',
+  MIDI_LEARN_START: 'midi:learnStart',
+  MIDI_LEARN_CANCEL: 'midi:learnCancel',
+  MIDI_SET_MONITORING: 'midi:setMonitoring',
+  MIDI_QUERY_HARDWARE_SCENE: 'midi:queryHardwareScene',
+  MIDI_WRITE_HARDWARE_SCENE: 'midi:writeHardwareScene',
 
   // Preset operations
   PRESET_LOAD: 'preset:load',
@@ -35,35 +54,196 @@ export const IPC_INVOKE = {
   PRESET_DELETE: 'preset:delete',
   PRESET_LIST: 'preset:list',
   PRESET_APPLY: 'preset:apply',
+  PRESET_EXPORT: 'preset:export',
+  PRESET_READ_IMPORT: 'preset:readImport',
+  PRESET_IMPORT: 'preset:import',
 
   // Config operations
   CONFIG_GET: 'config:get',
   CONFIG_UPDATE: 'config:update',
+
+  // Device profile operations
+  PROFILE_LIST: 'profile:list',
+
+  // Automation take operations
+  TAKE_RECORD_START: 'take:recordStart',
+  TAKE_RECORD_STOP: 'take:recordStop',
+  TAKE_LIST: 'take:list',
+  TAKE_DELETE: 'take:delete',
+  TAKE_REPLAY_START: 'take:replayStart',
+  TAKE_REPLAY_STOP: 'take:replayStop',
+  TAKE_EXPORT_MIDI: 'take:exportMidi',
+  TAKE_IMPORT_MIDI: 'take:importMidi',
 } as const;
 
+// =============================================================================
+// Devices
+// =============================================================================
+
+/**
+ * Identifies the controller unit an event came from or a request is for,
+ * when several units are connected.
+ */
+export interface DeviceScoped {
+  /** Device ID (the unit's hardware input port name); requests without one go to the first unit */
+  deviceId?: string | undefined;
+}
+
+/** A controller unit managed by the main process */
+export interface MidiDeviceInfo {
+  /** Device ID (hardware input port name, empty until the first unit is found) */
+  id: string;
+  connected: boolean;
+  inputPort: string | null;
+  outputPort: string | null;
+  /** Virtual output port the unit's remapped messages are sent to */
+  virtualPort: string;
+  /** Virtual input port for the unit's DAW LED feedback, or null if unavailable */
+  virtualInputPort: string | null;
+  /** ID of the device profile of the unit's controller model */
+  profileId: string;
+}
+
 // =============================================================================
 // Event Payloads (Main -> Renderer)
 // =============================================================================
 
 /** Payload for midi:cc event */
-export interface MidiCCEvent extends CCMessage {
+export interface MidiCCEvent extends CCMessage, DeviceScoped {
   /** Mapped output CC (after remapping) */
   outputCC?: number;
   /** Mapped output channel (after remapping) */
   outputChannel?: number;
   /** Control type identifier */
   controlType?: string;
+  /** For cycle buttons, the new position in the cycle's values */
+  cycleStep?: number | undefined;
+}
+
+/** Payload for midi:takeover event (soft takeover state of a knob/slider changed) */
+export interface MidiTakeoverEvent extends DeviceScoped {
+  /** Control type identifier (e.g., 'track1.knob') */
+  controlType: string;
+  /** Whether the physical control is waiting to pick up the stored value */
+  waiting: boolean;
+  /** The stored value the physical control must reach, or null if not waiting */
+  target: number | null;
+  /** Last known physical value, or null if the control hasn't moved yet */
+  physicalValue: number | null;
+}
+
+/** Payload for midi:ledFeedback event (DAW set a button's LED via the virtual input) */
+export interface MidiLedFeedbackEvent extends DeviceScoped {
+  /** Control type identifier (e.g., 'track1.solo') */
+  controlType: string;
+  /** Hardware LED/button CC number */
+  cc: number;
+  /** New LED state */
+  isOn: boolean;
+}
+
+/** Payload for midi:shift event (shift layer activated or deactivated) */
+export interface MidiShiftEvent extends DeviceScoped {
+  /** Whether the shift layer is now active */
+  active: boolean;
+}
+
+/** Payload for midi:bank event (track_left/track_right paged to another bank) */
+export interface MidiBankEvent extends DeviceScoped {
+  /** Active bank (0 = tracks 1-8, 1 = tracks 9-16, ...) */
+  bank: number;
+  /** Number of banks in the mapping */
+  bankCount: number;
+  /**
+   * Last known values of the bank's track controls, by control type (e.g., 'track9.knob').
+   * Buttons report 127/0; knobs/sliders that were never moved are omitted.
+   */
+  values: Record<string, number>;
+}
+
+/** Payload for midi:scene event (a scene morph sent values or ended) */
+export interface MidiSceneEvent extends DeviceScoped {
+  /** Index of the recalled scene in the mapping's scenes */
+  scene: number;
+  /** False once the morph has reached the scene's values */
+  morphing: boolean;
+  /** Knob/slider input values sent by this step, by control type (e.g., 'track9.knob') */
+  values: Record<string, number>;
+}
+
+/** Payload for midi:crossfade event (the A/B morph fader moved) */
+export interface MidiCrossfadeEvent extends DeviceScoped {
+  /** Control type of the fader (e.g., 'track8.slider') */
+  fader: string;
+  /** Fader position (0 = slot A, 127 = slot B) */
+  position: number;
+  /** Knob/slider input values sent, by control type */
+  values: Record<string, number>;
+  /** Button states switched at the midpoint, by control type */
+  buttons: Record<string, boolean>;
+}
+
+/**
+ * What MIDI Learn captures:
+ * - 'output': the CC and channel a DAW or synth sends, as a control's output
+ * - 'input': the CC and channel a hardware control sends, as the control's input
+ */
+export type LearnTarget = 'output' | 'input';
+
+/** Payload for midi:learn event (the first CC received while learning) */
+export interface MidiLearnEvent extends DeviceScoped {
+  target: LearnTarget;
+  /** CC number received (0-127) */
+  cc: number;
+  /** MIDI channel it was received on (1-16) */
+  channel: number;
+}
+
+/**
+ * Where a monitored MIDI message was seen:
+ * - 'input': received from the hardware
+ * - 'output': sent to the virtual output (remapped)
+ * - 'led': sent to the hardware to set an LED
+ * - 'feedback': received from the DAW on the virtual input
+ */
+export type MonitorSource = 'input' | 'output' | 'led' | 'feedback';
+
+/** Payload for midi:monitor event (one message, sent while monitoring is on) */
+export interface MidiMonitorEvent extends DeviceScoped {
+  source: MonitorSource;
+  /** Time the message was seen (ms since the epoch) */
+  timestamp: number;
+  /** Message type; input, LED and feedback messages are CCs */
+  messageType: OutputType;
+  /** MIDI channel (1-16) */
+  channel: number;
+  /** CC, note or NRPN/RPN parameter number (unused by program, pitchbend and aftertouch) */
+  number: number;
+  /** Value (0-127, or 0-16383 for 14-bit message types) */
+  value: number;
+  /** Control the message belongs to, if known (e.g., 'track1.knob') */
+  controlType?: string | undefined;
+  /** Label of that control in the current mapping */
+  label?: string | undefined;
+}
+
+/** Payload for midi:automation event (recording or replay started or stopped) */
+export interface MidiAutomationEvent extends DeviceScoped {
+  /** Whether a take is being recorded */
+  recording: boolean;
+  /** ID of the take being replayed, or null */
+  replayingTakeId: string | null;
 }
 
 /** Payload for midi:connected event */
-export interface MidiConnectedEvent {
+export interface MidiConnectedEvent extends DeviceScoped {
   inputPort: string;
   outputPort: string;
   virtualPort: string;
 }
 
 /** Payload for midi:disconnected event */
-export interface MidiDisconnectedEvent {
+export interface MidiDisconnectedEvent extends DeviceScoped {
   reason: string;
 }
 
@@ -81,12 +261,128 @@ export interface ErrorEvent {
 // =============================================================================
 
 /** Request to send CC message */
-export interface SendCCRequest {
+export interface SendCCRequest extends DeviceScoped {
   channel: number;
   cc: number;
   value: number;
 }
 
+/**
+ * Request to send a control value through the mapping engine.
+ * The main process applies output CC/channel, range scaling and on/off values.
+ */
+export interface SendControlRequest extends DeviceScoped {
+  /** Control type identifier (e.g., 'track1.knob', 'transport.play') */
+  controlType: string;
+  /** Control value (0-127) for knobs/sliders; for buttons > 0 means on */
+  value: number;
+  /** A click on the button in the GUI: trigger, long-press and double-tap buttons fire like a tap */
+  press?: boolean | undefined;
+  /** Position of a cycle button in its values to restore (e.g., from a preset) */
+  cycleStep?: number | undefined;
+}
+
+/** Request to activate or deactivate the mapping's shift layer */
+export interface SetShiftRequest extends DeviceScoped {
+  active: boolean;
+}
+
+/** Request to turn the MIDI monitor event stream on or off */
+export interface SetMonitoringRequest {
+  enabled: boolean;
+}
+
+/** Request to page the physical strips to a track bank */
+export interface SetBankRequest extends DeviceScoped {
+  /** Bank index (0 = tracks 1-8) */
+  bank: number;
+}
+
+/** Request to recall a scene of the mapping, morphing to its values */
+export interface RecallSceneRequest extends DeviceScoped {
+  /** Index of the scene in the mapping's scenes */
+  scene: number;
+}
+
+/** Response from recall scene request */
+export interface RecallSceneResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Request to make a knob/slider the morph fader between the control values of
+ * the A and B comparison slots, or to turn the fader off (fader null).
+ */
+export interface SetCrossfadeRequest extends DeviceScoped {
+  /** Control type of the fader (e.g., 'track8.slider'), or null to turn it off */
+  fader: string | null;
+  /** Control values at the fader's minimum */
+  a?: ControlValues | undefined;
+  /** Control values at the fader's maximum */
+  b?: ControlValues | undefined;
+}
+
+/** Response from set crossfade request */
+export interface SetCrossfadeResponse {
+  success: boolean;
+  error?: string;
+}
+
+/** Settings of the scene a nanoKONTROL2 is using, read over SysEx */
+export interface HardwareSceneInfo {
+  /** Firmware version (e.g., '1.03') */
+  firmware: string;
+  /** Global MIDI channel (1-16) */
+  globalChannel: number;
+  /** Control mode (e.g., 'CC'; the scene's assignments are only used in CC mode) */
+  controlMode: string;
+  ledMode: 'internal' | 'external';
+}
+
+/** Response from query hardware scene request */
+export interface QueryHardwareSceneResponse {
+  success: boolean;
+  scene?: HardwareSceneInfo;
+  error?: string;
+}
+
+/**
+ * Request to write a preset's mapping to a nanoKONTROL2 as its scene, so the
+ * unit sends the mapping's CCs and button behaviors by itself.
+ */
+export interface WriteHardwareSceneRequest extends DeviceScoped {
+  /** Preset whose mapping is written, or undefined for the factory assignments */
+  presetId?: string | undefined;
+  ledMode: 'internal' | 'external';
+  /** Whether to write the scene to the unit's memory, so it is kept when switched off (default: true) */
+  store?: boolean | undefined;
+}
+
+/** Response from write hardware scene request */
+export interface WriteHardwareSceneResponse {
+  success: boolean;
+  /** What of the mapping the unit can't do by itself, per control (e.g., 'track1.knob: log curve (sent linear)') */
+  approximated?: string[];
+  error?: string;
+}
+
+/** Request to start MIDI Learn; a new request replaces the pending one */
+export interface StartLearnRequest extends DeviceScoped {
+  target: LearnTarget;
+  /**
+   * Input port to listen on for output learning (default: the unit's virtual input).
+   * Input learning always listens on the unit's hardware input.
+   */
+  port?: string | undefined;
+}
+
+/** Response from start learn request */
+export interface StartLearnResponse {
+  success: boolean;
+  error?: string;
+}
+
 /** Request to connect to MIDI device */
 export interface ConnectRequest {
   inputPort?: string;
@@ -106,13 +402,18 @@ export interface GetPortsResponse extends MidiPorts {
   nanoKontrol2Found: boolean;
 }
 
-/** MIDI connection status */
+/** MIDI connection status (ports of the first unit) */
 export interface MidiStatusResponse {
+  /** Whether any unit is connected */
   connected: boolean;
   inputPort: string | null;
   outputPort: string | null;
   virtualPort: string;
+  /** Virtual input port for DAW LED feedback, or null if unavailable */
+  virtualInputPort: string | null;
   midiAvailable: boolean;
+  /** Every managed unit, the first one first */
+  devices: MidiDeviceInfo[];
 }
 
 /** Preset metadata */
@@ -189,6 +490,10 @@ export interface ControlValues {
   tracks: TrackControlValues[];
   /** Transport button states */
   transport: TransportControlValues;
+  /** Control values for the extra track banks (tracks 9-16, ...), when the mapping pages banks */
+  banks?: TrackControlValues[][];
+  /** Positions of cycle buttons in their values: control type (e.g., 'track1.rec') -> position */
+  cycleSteps?: Record<string, number>;
 }
 
 /** Full preset data */
@@ -240,8 +545,81 @@ export interface ListPresetsResponse {
   presets: PresetMetadata[];
 }
 
+/** File format of an exported preset: the preset as JSON, or its mapping as a text mapping file */
+export type PresetExportFormat = 'json' | 'txt';
+
+/** Request to export presets as a portable file */
+export interface ExportPresetsRequest {
+  /** Preset to export as a single file; without an ID the whole library is exported as a .zip bundle */
+  id?: string;
+  /** Format of the single preset file (default: 'json') */
+  format?: PresetExportFormat;
+}
+
+/** Response from export presets */
+export interface ExportPresetsResponse {
+  success: boolean;
+  error?: string;
+  /** File name for the .json, .txt or .zip file */
+  fileName?: string;
+  /** Contents of the file */
+  data?: Uint8Array;
+}
+
+/** Request to read the presets of an import file (.json preset, .txt mapping, .nktrl2_data scene or .zip bundle) */
+export interface ReadPresetImportRequest {
+  fileName: string;
+  /** Contents of the file */
+  data: Uint8Array;
+}
+
+/** What an imported preset collides with in the library */
+export type PresetConflict = 'id' | 'name';
+
+/**
+ * How an imported preset is stored:
+ * - 'rename': under a free ID and name (a preset without a collision is stored as is)
+ * - 'overwrite': replacing the library preset it collides with
+ * - 'skip': not at all
+ */
+export type PresetImportResolution = 'rename' | 'overwrite' | 'skip';
+
+/** A valid preset read from an import file */
+export interface PresetImportCandidate {
+  preset: Preset;
+  /** Collision with a library preset, or null */
+  conflict: PresetConflict | null;
+  /** Name of the library preset it collides with */
+  existingName?: string;
+}
+
+/** Response from read preset import */
+export interface ReadPresetImportResponse {
+  success: boolean;
+  error?: string;
+  candidates?: PresetImportCandidate[];
+  /** Files of the bundle that are not valid presets, with the reason */
+  invalid?: string[];
+}
+
+/** Request to store presets read from an import file */
+export interface ImportPresetsRequest {
+  items: Array<{ preset: Preset; resolution: PresetImportResolution }>;
+}
+
+/** Response from import presets */
+export interface ImportPresetsResponse {
+  success: boolean;
+  error?: string;
+  /** IDs of the presets stored */
+  imported?: string[];
+  skipped?: number;
+  /** Presets that failed to store, with the reason */
+  failed?: string[];
+}
+
 /** Request to apply a mapping configuration */
-export interface ApplyMappingRequest {
+export interface ApplyMappingRequest extends DeviceScoped {
   mapping: MappingConfig;
 }
 
@@ -295,6 +673,8 @@ export interface AppConfig {
   softTakeoverMode: 'catch' | 'jump' | 'pickup';
   /** Soft takeover threshold (default: 3) */
   softTakeoverThreshold: number;
+  /** Values sent per second for each control while a scene morphs (default: 50) */
+  sceneMorphRate: number;
   /** Theme: light or dark */
   theme: 'light' | 'dark' | 'system';
   /** Show values in decimal or hex */
@@ -307,6 +687,8 @@ export interface AppConfig {
   globalMidiChannel: number;
   /** LED mode: internal (button state) or external (DAW controlled) */
   ledMode: 'internal' | 'external';
+  /** Switch each nanoKONTROL2 to external LED mode over SysEx when it connects (default: false) */
+  forceExternalLeds: boolean;
   /** Recently used presets (max 10) */
   recentPresets: string[];
   /** Quick access preset slots (5 slots) */
@@ -347,6 +729,144 @@ export interface UpdateConfigResponse {
   config?: AppConfig;
 }
 
+/** Response from list profiles */
+export interface ListProfilesResponse {
+  profiles: DeviceProfile[];
+}
+
+// =============================================================================
+// Automation Takes
+// =============================================================================
+
+/** One message of a recorded take */
+export interface AutomationEvent {
+  /** Time since the take started (ms) */
+  time: number;
+  /** 'input' = received from the hardware, 'output' = sent to the virtual output */
+  source: 'input' | 'output';
+  messageType: OutputType;
+  /** MIDI channel (1-16) */
+  channel: number;
+  /** CC, note or NRPN/RPN parameter number */
+  number: number;
+  /** Value (0-127, or 0-16383 for 14-bit message types) */
+  value: number;
+  /** Control the message belongs to, if known (e.g., 'track1.knob') */
+  controlType?: string | undefined;
+}
+
+/** Take metadata */
+export interface TakeMetadata {
+  id: string;
+  name: string;
+  /** Preset that was loaded while recording */
+  presetId?: string | undefined;
+  createdAt: string;
+  /** Length of the take (ms) */
+  duration: number;
+  eventCount: number;
+}
+
+/** A recorded take of control movements */
+export interface AutomationTake {
+  metadata: TakeMetadata;
+  events: AutomationEvent[];
+}
+
+/** How a take is replayed */
+export interface ReplayOptions {
+  /** Start over at the end of the take */
+  loop: boolean;
+  /** Playback speed (1 = as recorded, 2 = twice as fast) */
+  speed: number;
+  /** Grid the message times are snapped to (ms, 0 = off) */
+  quantizeMs: number;
+}
+
+/** Request to stop recording and save the take */
+export interface StopRecordingRequest {
+  name: string;
+  /** Preset that was loaded while recording */
+  presetId?: string | undefined;
+}
+
+/** Response from stop recording */
+export interface StopRecordingResponse {
+  success: boolean;
+  error?: string;
+  take?: TakeMetadata;
+}
+
+/** Response from list takes */
+export interface ListTakesResponse {
+  takes: TakeMetadata[];
+}
+
+/** Request to delete a take */
+export interface DeleteTakeRequest {
+  id: string;
+}
+
+/** Response from delete take */
+export interface DeleteTakeResponse {
+  success: boolean;
+  error?: string;
+}
+
+/** Request to replay a take to a unit's virtual output; replaces the current replay */
+export interface StartReplayRequest extends DeviceScoped {
+  id: string;
+  options: ReplayOptions;
+}
+
+/** Response from start replay */
+export interface StartReplayResponse {
+  success: boolean;
+  error?: string;
+}
+
+/** How a take is written as a Standard MIDI File */
+export interface MidiFileOptions {
+  /** 0 = a single track, 1 = a tempo track plus one track per channel or control */
+  format: 0 | 1;
+  /** Ticks per quarter note (1-32767) */
+  ppq: number;
+  /** Tempo the message times are converted to beats with (beats per minute) */
+  bpm: number;
+  /** What the tracks of a type 1 file are split by */
+  trackPer: 'channel' | 'control';
+}
+
+/** Request to export a take as a Standard MIDI File */
+export interface ExportTakeMidiRequest {
+  id: string;
+  options: MidiFileOptions;
+}
+
+/** Response from export take */
+export interface ExportTakeMidiResponse {
+  success: boolean;
+  error?: string;
+  /** File name for the .mid file */
+  fileName?: string;
+  /** Contents of the .mid file */
+  data?: Uint8Array;
+}
+
+/** Request to import the CC lanes of a Standard MIDI File as a take */
+export interface ImportTakeMidiRequest {
+  name: string;
+  /** Contents of the .mid file */
+  data: Uint8Array;
+}
+
+/** Response from import take */
+export interface ImportTakeMidiResponse {
+  success: boolean;
+  error?: string;
+  take?: TakeMetadata;
+}
+
 // =============================================================================
 // Type Guards
 // =============================================================================
@@ -0,0 +1,25 @@
+/**
+ * Device Profiles
+ *
+ * A device profile describes a controller model: its controls and their CCs,
+ * LED CCs, the pattern its MIDI ports are recognized by, and the editor layout.
+ * Profiles are JSON; the built-in ones live in ./profiles, and users can add
+ * their own to the profiles folder of the app's data directory.
+ */
+
+import type { DeviceProfile } from './types.js';
+import { validateDeviceProfile } from './schemas.js';
+import nanoKontrol2Profile from './profiles/nanokontrol2.json';
+
+/** The Korg nanoKONTROL2, used for devices and mappings without a profile */
+export const NANOKONTROL2_PROFILE: DeviceProfile = validateDeviceProfile(nanoKontrol2Profile);
+
+/** Profiles that ship with the app, the default first */
+export const BUILT_IN_PROFILES: readonly DeviceProfile[] = [NANOKONTROL2_PROFILE];
+
+/**
+ * Finds a profile by ID, falling back to the nanoKONTROL2 profile.
+ */
+export function findProfile(profiles: readonly DeviceProfile[], id: string | undefined): DeviceProfile {
+  return profiles.find((profile) => profile.id === id) ?? NANOKONTROL2_PROFILE;
+}
@@ -23,12 +23,30 @@ export const midiValueSchema = z.number().int().min(0).max(127);
 // Mapping Schemas
 // =============================================================================
 
-/** Button behavior: toggle or momentary */
-export const buttonBehaviorSchema = z.enum(['toggle', 'momentary']);
+/** Button behavior: toggle, momentary, trigger, cycle, long-press or double-tap */
+export const buttonBehaviorSchema = z.enum(['toggle', 'momentary', 'trigger', 'cycle', 'longpress', 'doubletap']);
+
+/** Response curve for continuous controls */
+export const curveTypeSchema = z.enum(['linear', 'log', 'exp', 'scurve', 'stepped']);
+
+/** MIDI message type a control sends */
+export const outputTypeSchema = z.enum(['cc', 'cc14', 'nrpn', 'rpn', 'note', 'program', 'pitchbend', 'aftertouch']);
+
+/** Additional output target for a control (7-bit CC) */
+export const outputTargetSchema = z.object({
+  outputCC: ccNumberSchema,
+  channel: midiChannelSchema,
+  minValue: z.number().int().min(0).max(127).optional(),
+  maxValue: z.number().int().min(0).max(127).optional(),
+  curve: curveTypeSchema.optional(),
+  steps: z.number().int().min(2).max(128).optional(),
+});
 
 /** Single mapping entry */
 export const mappingEntrySchema = z.object({
   inputCC: ccNumberSchema,
+  /** MIDI channel the input is expected on (1-16, default any channel) */
+  inputChannel: midiChannelSchema.optional(),
   outputCC: ccNumberSchema,
   channel: midiChannelSchema,
   behavior: buttonBehaviorSchema.optional(),
@@ -37,10 +55,28 @@ export const mappingEntrySchema = z.object({
   minValue: z.number().int().min(0).max(127).optional(),
   /** Maximum output value for continuous controls (0-127, default 127) */
   maxValue: z.number().int().min(0).max(127).optional(),
+  /** Response curve for continuous controls (default linear) */
+  curve: curveTypeSchema.optional(),
+  /** Number of positions for the stepped curve (2-128, default 8) */
+  steps: z.number().int().min(2).max(128).optional(),
+  /** MIDI message type to send (default cc) */
+  outputType: outputTypeSchema.optional(),
+  /** NRPN/RPN parameter number (0-16383) */
+  parameter: z.number().int().min(0).max(16383).optional(),
+  /** Glide time for 14-bit outputs (0-1000 ms, default 0 = off) */
+  smoothingMs: z.number().int().min(0).max(1000).optional(),
   /** CC value sent when button is ON (0-127, default 127) */
   onValue: z.number().int().min(0).max(127).optional(),
   /** CC value sent when button is OFF (0-127, default 0) */
   offValue: z.number().int().min(0).max(127).optional(),
+  /** Additional outputs driven by the same control */
+  targets: z.array(outputTargetSchema).max(8).optional(),
+  /** Values a cycle button sends in turn (2-16 values) */
+  cycleValues: z.array(midiValueSchema).min(2).max(16).optional(),
+  /** Output CC of the long press / double tap */
+  altOutputCC: ccNumberSchema.optional(),
+  /** Long-press threshold or double-tap window (1-2000 ms) */
+  gestureMs: z.number().int().min(1).max(2000).optional(),
 });
 
 /** Track mapping (5 controls) */
@@ -67,10 +103,113 @@ export const transportMappingSchema = z.object({
   marker_right: mappingEntrySchema,
 });
 
+/** Shift layer (alternate mappings selected by a shift button) */
+export const shiftLayerSchema = z.object({
+  button: z.string().regex(/^(track[1-8]\.(solo|mute|rec)|transport\.[a-z_]+)$/),
+  mode: z.enum(['hold', 'latch']),
+  tracks: z.array(trackMappingSchema.partial()).length(8),
+  transport: transportMappingSchema.partial(),
+});
+
+/** Radio-button group of toggle buttons */
+export const buttonGroupSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  buttons: z.array(z.string().regex(/^(track\d+\.(solo|mute|rec)|transport\.[a-z_]+)$/)).min(1),
+});
+
+/** Snapshot scene of knob/slider values */
+export const sceneSchema = z.object({
+  name: z.string().min(1).max(50),
+  values: z.record(z.string().regex(/^track\d+\.(knob|slider)$/), midiValueSchema),
+  /** Morph time (0-30000 ms, 0 = jump) */
+  morphMs: z.number().int().min(0).max(30000),
+  button: z.string().regex(/^(track[1-8]\.(solo|mute|rec)|transport\.[a-z_]+)$/).optional(),
+});
+
 /** Complete mapping configuration */
 export const mappingConfigSchema = z.object({
   tracks: z.array(trackMappingSchema).length(8),
   transport: transportMappingSchema,
+  shift: shiftLayerSchema.optional(),
+  /** Extra track banks for paging (tracks 9-16, ...), up to 8 banks in total */
+  banks: z.array(z.array(trackMappingSchema).length(8)).min(1).max(7).optional(),
+  groups: z.array(buttonGroupSchema).optional(),
+  scenes: z.array(sceneSchema).max(8).optional(),
+});
+
+// =============================================================================
+// Device Profile Schemas
+// =============================================================================
+
+/** Control slot a hardware control is assigned to (e.g., 'track1.knob', 'transport.play') */
+const profileSlotSchema = z.string().regex(
+  /^(track[1-8]\.(knob|slider|solo|mute|rec)|transport\.(rewind|forward|stop|play|record|cycle|track_left|track_right|marker_set|marker_left|marker_right))$/,
+  'Invalid control slot'
+);
+
+/** ID of a hardware control of a device profile (e.g., 'pad1', 'track1.knob') */
+const profileControlIdSchema = z.string().regex(/^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)?$/, 'Invalid control ID');
+
+/** Hardware control of a device profile */
+export const profileControlSchema = z.object({
+  cc: ccNumberSchema,
+  /** CC number that switches the control's LED */
+  led: ccNumberSchema.optional(),
+  label: z.string().max(50).optional(),
+  /** Mapping slot the control is played through (default: the control ID) */
+  slot: profileSlotSchema.optional(),
+});
+
+/** Section of the editor layout of a device profile */
+export const profileLayoutSectionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('strips'), count: z.number().int().min(1).max(8) }),
+  z.object({ type: z.literal('transport') }),
+  z.object({
+    type: z.literal('grid'),
+    label: z.string().max(50).optional(),
+    columns: z.number().int().min(1).max(16),
+    controls: z.array(profileControlIdSchema).min(1),
+  }),
+]);
+
+/** Device profile (controller model definition loaded from JSON) */
+export const deviceProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1).max(100),
+  /** Regular expression matching the device's port names */
+  portPattern: z.string().min(1).refine((pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid port pattern'),
+  controls: z.record(profileControlIdSchema, profileControlSchema),
+  layout: z.object({
+    sections: z.array(profileLayoutSectionSchema).min(1),
+  }),
+}).superRefine((profile, ctx) => {
+  // Each slot is played by one control; controls without a slot are named after theirs
+  const slots = new Set<string>();
+  for (const [id, control] of Object.entries(profile.controls)) {
+    const slot = control.slot ?? id;
+    if (!profileSlotSchema.safeParse(slot).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['controls', id], message: `Control ${id} needs a slot` });
+    } else if (slots.has(slot)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['controls', id], message: `Slot ${slot} is assigned twice` });
+    }
+    slots.add(slot);
+  }
+
+  profile.layout.sections.forEach((section, index) => {
+    if (section.type !== 'grid') return;
+    for (const id of section.controls) {
+      if (!profile.controls[id]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['layout', 'sections', index], message: `Unknown control: ${id}` });
+      }
+    }
+  });
 });
 
 // =============================================================================
@@ -121,6 +260,9 @@ export const transportControlValuesSchema = z.object({
 export const controlValuesSchema = z.object({
   tracks: z.array(trackControlValuesSchema).length(8),
   transport: transportControlValuesSchema,
+  banks: z.array(z.array(trackControlValuesSchema).length(8)).max(7).optional(),
+  /** Positions of cycle buttons in their values: control type -> position */
+  cycleSteps: z.record(z.string(), z.number().int().min(0).max(127)).optional(),
 });
 
 // =============================================================================
@@ -148,6 +290,52 @@ export const presetSchema = z.object({
   controlValues: controlValuesSchema.optional(),
 });
 
+/** Manifest of a preset bundle (a .zip of preset files exported from the library) */
+export const presetBundleManifestSchema = z.object({
+  format: z.literal('nkeditor3-presets'),
+  version: z.literal(1),
+  exportedAt: z.string().datetime(),
+  presets: z.array(
+    z.object({
+      id: z.string().min(1).max(100),
+      name: z.string().min(1).max(100),
+      /** Path of the preset's JSON file inside the bundle */
+      file: z.string().min(1),
+    })
+  ),
+});
+
+// =============================================================================
+// Automation Take Schemas
+// =============================================================================
+
+/** One recorded message */
+export const automationEventSchema = z.object({
+  time: z.number().min(0),
+  source: z.enum(['input', 'output']),
+  messageType: outputTypeSchema,
+  channel: midiChannelSchema,
+  number: z.number().int().min(0).max(16383),
+  value: z.number().int().min(0).max(16383),
+  controlType: z.string().optional(),
+});
+
+/** Take metadata */
+export const takeMetadataSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(100),
+  presetId: z.string().max(100).optional(),
+  createdAt: z.string().datetime(),
+  duration: z.number().min(0),
+  eventCount: z.number().int().min(0),
+});
+
+/** Full take (metadata + recorded messages) */
+export const automationTakeSchema = z.object({
+  metadata: takeMetadataSchema,
+  events: z.array(automationEventSchema),
+});
+
 // =============================================================================
 // Configuration Schemas
 // =============================================================================
@@ -194,12 +382,16 @@ export const userThemeSchema = z.object({
 export const appConfigSchema = z.object({
   softTakeoverMode: softTakeoverModeSchema,
   softTakeoverThreshold: z.number().int().min(1).max(20),
+  /** Values sent per second for each control while a scene morphs */
+  sceneMorphRate: z.number().int().min(10).max(200),
   theme: themeSchema,
   valueDisplay: valueDisplaySchema,
   autoConnect: z.boolean(),
   transmitButtonsOnLoad: z.boolean(),
   globalMidiChannel: z.number().int().min(1).max(16),
   ledMode: ledModeSchema,
+  /** Switch connected nanoKONTROL2s to external LED mode over SysEx */
+  forceExternalLeds: z.boolean(),
   recentPresets: z.array(z.string()).max(10),
   quickAccessSlots: z.array(z.string().nullable()).length(5),
   windowBounds: windowBoundsSchema.optional(),
@@ -228,6 +420,12 @@ export const sendCCRequestSchema = z.object({
   value: midiValueSchema,
 });
 
+/** Send control request (routed through the mapping engine) */
+export const sendControlRequestSchema = z.object({
+  controlType: z.string().min(1),
+  value: midiValueSchema,
+});
+
 /** Connect request */
 export const connectRequestSchema = z.object({
   inputPort: z.string().optional(),
@@ -268,7 +466,11 @@ export type TransportControlValues = z.infer<typeof transportControlValuesSchema
 export type ControlValues = z.infer<typeof controlValuesSchema>;
 export type PresetMetadata = z.infer<typeof presetMetadataSchema>;
 export type Preset = z.infer<typeof presetSchema>;
+export type PresetBundleManifest = z.infer<typeof presetBundleManifestSchema>;
+export type TakeMetadata = z.infer<typeof takeMetadataSchema>;
+export type AutomationTake = z.infer<typeof automationTakeSchema>;
 export type AppConfig = z.infer<typeof appConfigSchema>;
+export type DeviceProfile = z.infer<typeof deviceProfileSchema>;
 export type CCMessage = z.infer<typeof ccMessageSchema>;
 
 // =============================================================================
@@ -299,6 +501,14 @@ export function validateAppConfig(data: unknown): AppConfig {
   return appConfigSchema.parse(data);
 }
 
+/**
+ * Validates a device profile.
+ * Throws ZodError if validation fails.
+ */
+export function validateDeviceProfile(data: unknown): DeviceProfile {
+  return deviceProfileSchema.parse(data);
+}
+
 /**
  * Safe validation that returns success/error result.
  */
@@ -310,6 +520,28 @@ export function safeValidatePreset(data: unknown): { success: true; data: Preset
   return { success: false, error: result.error.message };
 }
 
+/**
+ * Safe validation of a take that returns success/error result.
+ */
+export function safeValidateTake(data: unknown): { success: true; data: AutomationTake } | { success: false; error: string } {
+  const result = automationTakeSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error.message };
+}
+
+/**
+ * Safe validation of a device profile that returns success/error result.
+ */
+export function safeValidateDeviceProfile(data: unknown): { success: true; data: DeviceProfile } | { success: false; error: string } {
+  const result = deviceProfileSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error.message };
+}
+
 /**
  * Creates default app configuration.
  */
@@ -317,12 +549,14 @@ export function createDefaultAppConfig(): AppConfig {
   return {
     softTakeoverMode: 'catch',
     softTakeoverThreshold: 3,
+    sceneMorphRate: 50,
     theme: 'dark',
     valueDisplay: 'decimal',
     autoConnect: true,
     transmitButtonsOnLoad: true,
     globalMidiChannel: 1,
     ledMode: 'internal',
+    forceExternalLeds: false,
     recentPresets: [],
     quickAccessSlots: [null, null, null, null, null],
   };
@@ -355,12 +589,38 @@ export function createDefaultPresetMetadata(name: string, group?: string): Prese
 /**
  * Generates a unique preset ID.
  */
-function generatePresetId(): string {
+export function generatePresetId(): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substring(2, 8);
   return `preset_${timestamp}_${random}`;
 }
 
+/**
+ * Creates the metadata of a newly recorded take.
+ * @param name - The name of the take
+ * @param duration - Length of the take (ms)
+ * @param eventCount - Number of recorded messages
+ * @param presetId - Preset that was loaded while recording
+ */
+export function createTakeMetadata(name: string, duration: number, eventCount: number, presetId?: string): TakeMetadata {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  const metadata: TakeMetadata = {
+    id: `take_${timestamp}_${random}`,
+    name,
+    createdAt: new Date().toISOString(),
+    duration,
+    eventCount,
+  };
+
+  // Only include the preset if provided to avoid undefined in JSON
+  if (presetId) {
+    metadata.presetId = presetId;
+  }
+
+  return metadata;
+}
+
 /**
  * Creates default track control values (all at zero/off).
  */
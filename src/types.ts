@@ -50,8 +50,37 @@ export type TransportControlType =
  * Button behavior determines how button presses are interpreted.
  * - toggle: Press toggles between on/off states
  * - momentary: Button is on only while pressed
+ * - trigger: Press sends the on value, followed shortly by the off value
+ * - cycle: Each press sends the next of the mapping's cycleValues
+ * - longpress: A short press triggers the output; holding past gestureMs sends
+ *   altOutputCC instead, on until released
+ * - doubletap: A single press triggers the output once the gestureMs window has
+ *   passed; a second press within the window triggers altOutputCC instead
  */
-export type ButtonBehavior = 'toggle' | 'momentary';
+export type ButtonBehavior = 'toggle' | 'momentary' | 'trigger' | 'cycle' | 'longpress' | 'doubletap';
+
+/**
+ * Response curve for continuous controls.
+ * - linear: Output follows input directly
+ * - log: Fast rise at the bottom of travel (e.g., volume)
+ * - exp: Slow rise at the bottom of travel (e.g., filter cutoff)
+ * - scurve: Fine control at both ends
+ * - stepped: Quantized to a fixed number of positions (e.g., waveform select)
+ */
+export type CurveType = 'linear' | 'log' | 'exp' | 'scurve' | 'stepped';
+
+/**
+ * MIDI message type a control sends.
+ * - cc: 7-bit Control Change on outputCC
+ * - cc14: 14-bit Control Change pair (MSB on outputCC 0-31, LSB on outputCC + 32)
+ * - nrpn: 14-bit Non-Registered Parameter Number (parameter 0-16383)
+ * - rpn: 14-bit Registered Parameter Number (parameter 0-16383)
+ * - note: Note On/Off with outputCC as the note number (buttons only)
+ * - program: Program Change - outputCC is the program for buttons, the value is the program for knobs/sliders
+ * - pitchbend: 14-bit Pitch Bend (knobs/sliders only)
+ * - aftertouch: Channel Pressure (knobs/sliders only)
+ */
+export type OutputType = 'cc' | 'cc14' | 'nrpn' | 'rpn' | 'note' | 'program' | 'pitchbend' | 'aftertouch';
 
 // =============================================================================
 // Mapping Entry Types
@@ -64,6 +93,8 @@ export type ButtonBehavior = 'toggle' | 'momentary';
 export interface MappingEntry {
   /** CC number received from hardware (0-127) */
   inputCC: number;
+  /** MIDI channel the input is expected on (1-16); any channel when omitted */
+  inputChannel?: number | undefined;
   /** CC number to send to DAW (0-127) */
   outputCC: number;
   /** MIDI channel (1-16, not 0-15) */
@@ -72,6 +103,52 @@ export interface MappingEntry {
   behavior?: ButtonBehavior | undefined;
   /** Optional human-readable label for the control */
   label?: string | undefined;
+  /** Minimum output value (0-127, default 0) */
+  minValue?: number;
+  /** Maximum output value (0-127, default 127) */
+  maxValue?: number;
+  /** Response curve for continuous controls (default 'linear') */
+  curve?: CurveType;
+  /** Number of positions for the 'stepped' curve (2-128, default 8) */
+  steps?: number;
+  /** MIDI message type to send (default 'cc'); see OutputType for which controls support each */
+  outputType?: OutputType;
+  /** NRPN/RPN parameter number (0-16383), only for 'nrpn' and 'rpn' output types */
+  parameter?: number;
+  /** Glide time in ms for 14-bit outputs (cc14/nrpn/rpn/pitchbend), interpolating between 7-bit input steps (0 = off) */
+  smoothingMs?: number;
+  /** CC value sent when button is ON (default 127) */
+  onValue?: number;
+  /** CC value sent when button is OFF (default 0) */
+  offValue?: number;
+  /** Additional outputs driven by the same control, sent alongside the primary output */
+  targets?: OutputTarget[];
+  /** Values a 'cycle' button sends in turn (2-16 values, 0-127); the LED is off on the first */
+  cycleValues?: number[];
+  /** Output CC (or note/program) of the long press or double tap, for 'longpress'/'doubletap' buttons */
+  altOutputCC?: number;
+  /** Long-press threshold or double-tap window in ms (defaults 500/300) */
+  gestureMs?: number;
+}
+
+/**
+ * An additional output for a control (one-to-many mapping).
+ * Targets always send 7-bit CC. For knobs/sliders each target applies its own
+ * curve and range to the control value; buttons send their on/off value.
+ */
+export interface OutputTarget {
+  /** CC number to send to DAW (0-127) */
+  outputCC: number;
+  /** MIDI channel (1-16, not 0-15) */
+  channel: number;
+  /** Minimum output value (0-127, default 0), knobs/sliders only */
+  minValue?: number;
+  /** Maximum output value (0-127, default 127), knobs/sliders only */
+  maxValue?: number;
+  /** Response curve (default 'linear'), knobs/sliders only */
+  curve?: CurveType;
+  /** Number of positions for the 'stepped' curve (2-128, default 8) */
+  steps?: number;
 }
 
 /**
@@ -113,6 +190,125 @@ export interface MappingConfig {
   tracks: TrackMapping[];
   /** Transport section mapping */
   transport: TransportMapping;
+  /** Optional shift layer with alternate mappings, active while the shift button is held or latched */
+  shift?: ShiftLayer;
+  /**
+   * Optional extra track banks for paging (tracks 9-16, 17-24, ...), 8 tracks each.
+   * When set, track_left/track_right switch the physical strips between banks
+   * instead of sending their own output.
+   */
+  banks?: TrackMapping[][];
+  /** Optional radio-button groups of toggle buttons */
+  groups?: ButtonGroup[];
+  /** Optional snapshot scenes of knob/slider values (up to 8), recalled with a morph */
+  scenes?: Scene[];
+}
+
+/**
+ * How the shift button activates the shift layer.
+ * - hold: Active while the button is held
+ * - latch: Each press toggles the layer on/off
+ */
+export type ShiftMode = 'hold' | 'latch';
+
+/**
+ * Alternate mappings selected by a shift button.
+ * Controls missing from the layer keep their base mapping. The shift
+ * button itself sends no output.
+ */
+export interface ShiftLayer {
+  /** Control type of the shift button (e.g., 'transport.cycle') */
+  button: string;
+  /** How the shift button activates the layer */
+  mode: ShiftMode;
+  /** Alternate track mappings, index 0-7 corresponds to tracks 1-8 */
+  tracks: Partial<TrackMapping>[];
+  /** Alternate transport mappings */
+  transport: Partial<TransportMapping>;
+}
+
+/**
+ * Radio-button group of toggle buttons.
+ * Turning one member on turns the others off (sending their off values);
+ * turning the active member off leaves the group with no button on.
+ */
+export interface ButtonGroup {
+  /** Group name (e.g., 'track_select') */
+  name: string;
+  /** Control types of the member buttons (e.g., 'track1.solo', 'transport.play') */
+  buttons: string[];
+}
+
+/**
+ * A snapshot of knob/slider values.
+ * Recalling a scene glides every stored control from its current value to
+ * the scene's value over the morph time, sending through the mapping.
+ */
+export interface Scene {
+  /** Scene name (e.g., 'Verse') */
+  name: string;
+  /** Input values (0-127) by control type (e.g., 'track9.knob' -> 64) */
+  values: Record<string, number>;
+  /** Morph time in ms (0 = jump to the values) */
+  morphMs: number;
+  /** Control type of the button that recalls the scene (e.g., 'transport.marker_set'); it sends no output */
+  button?: string | undefined;
+}
+
+// =============================================================================
+// Device Profiles
+// =============================================================================
+
+/**
+ * A hardware control of a device profile.
+ */
+export interface ProfileControl {
+  /** CC number the control sends (0-127) */
+  cc: number;
+  /** CC number that switches the control's LED, for buttons with an LED */
+  led?: number | undefined;
+  /** Name printed on the hardware (e.g., 'Pad 9') */
+  label?: string | undefined;
+  /** Mapping slot the control is played through (e.g., 'track1.solo'); defaults to the control ID */
+  slot?: string | undefined;
+}
+
+/**
+ * A section of the editor layout of a device.
+ * - strips: nanoKONTROL2-style track strips (knob, slider, solo/mute/rec) of tracks 1 to count
+ * - transport: the transport buttons
+ * - grid: the listed controls (by control ID) row by row, e.g. a pad grid
+ */
+export type ProfileLayoutSection =
+  | { type: 'strips'; count: number }
+  | { type: 'transport' }
+  | { type: 'grid'; label?: string | undefined; columns: number; controls: string[] };
+
+/**
+ * How the editor lays out a device.
+ */
+export interface ProfileLayout {
+  /** Sections shown from top to bottom */
+  sections: ProfileLayoutSection[];
+}
+
+/**
+ * Definition of a MIDI controller model, loaded from JSON.
+ * The controller's controls have their own IDs (e.g., 'pad1') and are played
+ * through the mapping's control slots (8 strips of knob/slider/solo/mute/rec
+ * and the transport buttons); slots without a control are ignored for the device.
+ */
+export interface DeviceProfile {
+  /** Profile ID (lowercase letters, digits and dashes, e.g., 'nanokontrol2') */
+  id: string;
+  /** Display name (e.g., 'Korg nanoKONTROL2') */
+  name: string;
+  /** Regular expression matching the device's MIDI port names (case-insensitive) */
+  portPattern: string;
+  /** Hardware controls by control ID (e.g., 'pad1', or a slot like 'track1.knob' when the ID is the slot) */
+  controls: Record<string, ProfileControl>;
+  /** Editor layout */
+  layout: ProfileLayout;
 }
 
 // =============================================================================
@@ -222,6 +418,8 @@ export interface MidiHandlerOptions {
   outputPort?: string;
   /** Name for the virtual output port (default: "nkEditor3 Out") */
   virtualPortName?: string;
+  /** Name for the virtual input port used for DAW LED feedback (default: "nkEditor3 In") */
+  virtualInputPortName?: string;
 }
 
 /**
@@ -270,9 +468,64 @@ export const MIDI_VALUE_ON = 127;
 /** MIDI CC value for "off" state */
 export const MIDI_VALUE_OFF = 0;
 
+/** Maximum 14-bit MIDI value (cc14, NRPN, RPN) */
+export const MIDI_14BIT_MAX = 16383;
+
+/** Offset from a 14-bit CC's MSB controller number to its LSB controller number */
+export const CC14_LSB_OFFSET = 32;
+
+/** Highest controller number that can carry a 14-bit CC MSB */
+export const CC14_MAX_MSB_CC = 31;
+
+/** Controller numbers used by NRPN/RPN message sequences */
+export const PARAMETER_CC = {
+  NRPN_MSB: 99,
+  NRPN_LSB: 98,
+  RPN_MSB: 101,
+  RPN_LSB: 100,
+  DATA_ENTRY_MSB: 6,
+  DATA_ENTRY_LSB: 38,
+} as const;
+
+/** Maximum glide time for 14-bit output smoothing (ms) */
+export const MAX_SMOOTHING_MS = 1000;
+
+/** Maximum number of additional output targets per control */
+export const MAX_OUTPUT_TARGETS = 8;
+
+/** Maximum number of values a 'cycle' button steps through */
+export const MAX_CYCLE_VALUES = 16;
+
+/** Default hold time before a 'longpress' button sends its alternate output (ms) */
+export const DEFAULT_LONG_PRESS_MS = 500;
+
+/** Default window for the second press of a 'doubletap' button (ms) */
+export const DEFAULT_DOUBLE_TAP_MS = 300;
+
+/** Maximum long-press threshold / double-tap window (ms) */
+export const MAX_GESTURE_MS = 2000;
+
+/** Time between a triggered button's on and off values (ms) */
+export const TRIGGER_PULSE_MS = 50;
+
+/** Maximum number of track banks, including tracks 1-8 (8 banks = 64 tracks) */
+export const MAX_TRACK_BANKS = 8;
+
+/** Maximum number of scenes per mapping */
+export const MAX_SCENES = 8;
+
+/** Maximum scene morph time (ms) */
+export const MAX_SCENE_MORPH_MS = 30000;
+
+/** Default number of values sent per second for each control while a scene morphs */
+export const DEFAULT_SCENE_MORPH_RATE = 50;
+
 /** Default virtual output port name */
 export const DEFAULT_VIRTUAL_PORT_NAME = 'nkEditor3 Out';
 
+/** Default virtual input port name (receives LED feedback from the DAW) */
+export const DEFAULT_VIRTUAL_INPUT_PORT_NAME = 'nkEditor3 In';
+
 /** Default hotplug polling interval in milliseconds */
 export const DEFAULT_HOTPLUG_INTERVAL_MS = 2000;
 
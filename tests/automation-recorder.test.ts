@@ -0,0 +1,168 @@
+/**
+ * Tests for the automation-recorder module.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AutomationRecorder, quantizeEvents } from '../src/main/services/automation-recorder.js';
+import type { AutomationEvent, MidiMonitorEvent } from '../src/shared/ipc-protocol.js';
+
+/** Creates a monitored message of a device */
+function monitorEvent(overrides: Partial<MidiMonitorEvent> = {}): MidiMonitorEvent {
+  return {
+    source: 'output',
+    timestamp: Date.now(),
+    messageType: 'cc',
+    channel: 1,
+    number: 74,
+    value: 64,
+    deviceId: 'nanoKONTROL2',
+    ...overrides,
+  };
+}
+
+/** Creates a recorded output CC */
+function outputEvent(time: number, value: number, number = 74): AutomationEvent {
+  return { time, source: 'output', messageType: 'cc', channel: 1, number, value };
+}
+
+describe('AutomationRecorder', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('recording', () => {
+    it('should record input and output with times from the start', () => {
+      vi.useFakeTimers();
+      const recorder = new AutomationRecorder();
+
+      recorder.startRecording('nanoKONTROL2');
+      vi.advanceTimersByTime(100);
+      recorder.capture(monitorEvent({ source: 'input', number: 16, controlType: 'track1.knob' }));
+      recorder.capture(monitorEvent({ controlType: 'track1.knob' }));
+      vi.advanceTimersByTime(50);
+      const take = recorder.stopRecording();
+
+      expect(take?.duration).toBe(150);
+      expect(take?.events).toEqual([
+        { time: 100, source: 'input', messageType: 'cc', channel: 1, number: 16, value: 64, controlType: 'track1.knob' },
+        { time: 100, source: 'output', messageType: 'cc', channel: 1, number: 74, value: 64, controlType: 'track1.knob' },
+      ]);
+    });
+
+    it('should ignore LED updates, DAW feedback and other devices', () => {
+      const recorder = new AutomationRecorder();
+
+      recorder.startRecording('nanoKONTROL2');
+      recorder.capture(monitorEvent({ source: 'led' }));
+      recorder.capture(monitorEvent({ source: 'feedback' }));
+      recorder.capture(monitorEvent({ deviceId: 'nanoKONTROL2 2' }));
+
+      expect(recorder.stopRecording()?.events).toEqual([]);
+    });
+
+    it('should return null when stopped without recording', () => {
+      const recorder = new AutomationRecorder();
+
+      expect(recorder.stopRecording()).toBeNull();
+      expect(recorder.getRecordingDeviceId()).toBeNull();
+    });
+  });
+
+  describe('replay', () => {
+    it('should send output messages at their recorded times', () => {
+      vi.useFakeTimers();
+      const recorder = new AutomationRecorder();
+      const sent: number[] = [];
+      const onEnd = vi.fn();
+      const events = [
+        outputEvent(0, 0),
+        { ...outputEvent(50, 10), source: 'input' as const },
+        outputEvent(100, 64),
+        outputEvent(200, 127),
+      ];
+
+      recorder.startReplay({ duration: 300, events }, { loop: false, speed: 1, quantizeMs: 0 }, (e) => sent.push(e.value), onEnd);
+      expect(sent).toEqual([0]);
+
+      vi.advanceTimersByTime(100);
+      expect(sent).toEqual([0, 64]);
+
+      vi.advanceTimersByTime(100);
+      expect(sent).toEqual([0, 64, 127]);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(recorder.isReplaying()).toBe(false);
+    });
+
+    it('should replay faster at a higher speed', () => {
+      vi.useFakeTimers();
+      const recorder = new AutomationRecorder();
+      const sent: number[] = [];
+
+      recorder.startReplay(
+        { duration: 200, events: [outputEvent(0, 0), outputEvent(200, 127)] },
+        { loop: false, speed: 2, quantizeMs: 0 },
+        (e) => sent.push(e.value),
+        () => {}
+      );
+      vi.advanceTimersByTime(100);
+
+      expect(sent).toEqual([0, 127]);
+    });
+
+    it('should start over after the take length when looping', () => {
+      vi.useFakeTimers();
+      const recorder = new AutomationRecorder();
+      const sent: number[] = [];
+
+      recorder.startReplay(
+        { duration: 300, events: [outputEvent(0, 0), outputEvent(100, 127)] },
+        { loop: true, speed: 1, quantizeMs: 0 },
+        (e) => sent.push(e.value),
+        () => {}
+      );
+      vi.advanceTimersByTime(299);
+      expect(sent).toEqual([0, 127]);
+
+      vi.advanceTimersByTime(1);
+      expect(sent).toEqual([0, 127, 0]);
+
+      recorder.stopReplay();
+      vi.advanceTimersByTime(1000);
+      expect(sent).toEqual([0, 127, 0]);
+    });
+
+    it('should reject a take without output messages', () => {
+      const recorder = new AutomationRecorder();
+      const events = [{ ...outputEvent(0, 0), source: 'input' as const }];
+
+      expect(() =>
+        recorder.startReplay({ duration: 100, events }, { loop: false, speed: 1, quantizeMs: 0 }, () => {}, () => {})
+      ).toThrow('no output messages');
+    });
+  });
+});
+
+describe('quantizeEvents', () => {
+  it('should leave times unchanged without a grid', () => {
+    const events = [outputEvent(13, 1), outputEvent(27, 2)];
+
+    expect(quantizeEvents(events, 0)).toBe(events);
+  });
+
+  it('should snap times to the grid and keep the last value per target', () => {
+    const events = [outputEvent(3, 1), outputEvent(8, 2), outputEvent(12, 3, 75), outputEvent(14, 4), outputEvent(26, 5)];
+
+    expect(quantizeEvents(events, 10)).toEqual([
+      outputEvent(0, 1),
+      outputEvent(10, 3, 75),
+      outputEvent(10, 4),
+      outputEvent(30, 5),
+    ]);
+  });
+
+  it('should keep every note on the same grid line', () => {
+    const note = (time: number, value: number): AutomationEvent => ({ ...outputEvent(time, value, 60), messageType: 'note' });
+
+    expect(quantizeEvents([note(1, 100), note(4, 0)], 10)).toEqual([note(0, 100), note(0, 0)]);
+  });
+});
@@ -7,6 +7,7 @@ import { readFileSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseMapping, parseMappingOrThrow, ParseError } from '../src/config-parser.js';
+import type { DeviceProfile } from '../src/types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const MAPPINGS_DIR = join(__dirname, '..', 'mappings');
@@ -277,6 +278,445 @@ rec 64 -> 64 momentary
         }
       }
     });
+
+    it('should parse range and on/off value options', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^knob\s+16 -> (\d+) ch1/m, 'knob 16 -> $1 ch1 range:100-20')
+        .replace(/^solo\s+32 -> (\d+) ch1 toggle/m, 'solo 32 -> $1 ch1 toggle on:90 off:10');
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const track1 = result.config.tracks[0];
+        expect(track1).toBeDefined();
+        if (track1) {
+          expect(track1.knob.minValue).toBe(100);
+          expect(track1.knob.maxValue).toBe(20);
+          expect(track1.solo.onValue).toBe(90);
+          expect(track1.solo.offValue).toBe(10);
+        }
+      }
+    });
+
+    it('should parse curve options', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^knob\s+16 -> (\d+) ch1/m, 'knob 16 -> $1 ch1 curve:exp')
+        .replace(/^slider\s+0 ->\s+(\d+) ch1/m, 'slider 0 -> $1 ch1 curve:stepped:4');
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const track1 = result.config.tracks[0];
+        expect(track1).toBeDefined();
+        if (track1) {
+          expect(track1.knob.curve).toBe('exp');
+          expect(track1.knob.steps).toBeUndefined();
+          expect(track1.slider.curve).toBe('stepped');
+          expect(track1.slider.steps).toBe(4);
+        }
+      }
+    });
+
+    it('should return error for unknown curve', () => {
+      const content = `
+[track1]
+knob 16 -> 16 ch1 curve:wobble
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Invalid curve: wobble');
+      }
+    });
+
+    it('should parse 14-bit output options', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^knob\s+16 -> (\d+) ch1/m, 'knob 16 -> $1 ch1 out:nrpn:1234 smooth:40')
+        .replace(/^slider\s+0 ->\s+(\d+) ch1/m, 'slider 0 -> 1 ch1 out:cc14');
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const track1 = result.config.tracks[0];
+        expect(track1).toBeDefined();
+        if (track1) {
+          expect(track1.knob.outputType).toBe('nrpn');
+          expect(track1.knob.parameter).toBe(1234);
+          expect(track1.knob.smoothingMs).toBe(40);
+          expect(track1.slider.outputType).toBe('cc14');
+          expect(track1.slider.outputCC).toBe(1);
+        }
+      }
+    });
+
+    it('should return error for cc14 output CC above 31', () => {
+      const content = `
+[track1]
+slider 0 -> 74 ch1 out:cc14
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('cc14 output CC must be between 0 and 31');
+      }
+    });
+
+    it('should parse note, program, pitch bend and aftertouch outputs', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^solo\s+32 ->\s+(\d+) ch1/m, 'solo 32 -> 36 ch10 out:note')
+        .replace(/^mute\s+48 ->\s+(\d+) ch1/m, 'mute 48 -> 5 ch1 out:program')
+        .replace(/^slider\s+0 ->\s+(\d+) ch1/m, 'slider 0 -> 0 ch1 out:pitchbend smooth:20')
+        .replace(/^knob\s+16 -> (\d+) ch1/m, 'knob 16 -> 0 ch1 out:aftertouch');
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const track1 = result.config.tracks[0];
+        expect(track1).toBeDefined();
+        if (track1) {
+          expect(track1.solo.outputType).toBe('note');
+          expect(track1.solo.outputCC).toBe(36);
+          expect(track1.mute.outputType).toBe('program');
+          expect(track1.slider.outputType).toBe('pitchbend');
+          expect(track1.slider.smoothingMs).toBe(20);
+          expect(track1.knob.outputType).toBe('aftertouch');
+        }
+      }
+    });
+
+    it('should return error for pitch bend output on a button', () => {
+      const content = `
+[track1]
+solo 32 -> 32 ch1 toggle out:pitchbend
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('pitchbend output is not valid for control type: solo');
+      }
+    });
+
+    it('should parse additional output target lines', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^(knob\s+16 -> .*)$/m, '$1\n  + -> 74 ch2\n  + -> 71 ch1 range:127-0 curve:log');
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.config.tracks[0]?.knob.targets).toEqual([
+          { outputCC: 74, channel: 2 },
+          { outputCC: 71, channel: 1, minValue: 127, maxValue: 0, curve: 'log' },
+        ]);
+        expect(result.config.tracks[0]?.slider.targets).toBeUndefined();
+      }
+    });
+
+    it('should return error for an output target without a control line', () => {
+      const content = `
+[track1]
++ -> 74 ch2
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Output target found without a control mapping line');
+      }
+    });
+
+    it('should parse a shift button and shift layer sections', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        .replace(/^(cycle\s+46 -> 46 ch1 momentary)/m, '$1 shift:latch')
+        + '\n[track1.shift]\nknob 16 -> 90 ch2 "Track 1 Alt Knob"\n\n[transport.shift]\nplay 41 -> 100 ch1 momentary\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const shift = result.config.shift;
+        expect(shift?.button).toBe('transport.cycle');
+        expect(shift?.mode).toBe('latch');
+        expect(shift?.tracks).toHaveLength(8);
+        expect(shift?.tracks[0]?.knob).toMatchObject({ inputCC: 16, outputCC: 90, channel: 2 });
+        expect(shift?.tracks[0]?.slider).toBeUndefined();
+        expect(shift?.transport.play?.outputCC).toBe(100);
+        expect(result.config.tracks[0]?.knob.outputCC).toBe(74);
+      }
+    });
+
+    it('should return error for shift sections without a shift button', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[track1.shift]\nknob 16 -> 90 ch2\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('shift');
+      }
+    });
+
+    it('should parse track bank sections', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8');
+      const bank2 = content
+        .slice(content.indexOf('[track1]'), content.indexOf('[transport]'))
+        .replace(/\[track(\d)\]/g, (_, n: string) => `[track${Number(n) + 8}]`)
+        .replace(/^(knob\s+16 -> )74/m, '$190');
+      const result = parseMapping(content + '\n' + bank2);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.config.tracks).toHaveLength(8);
+        expect(result.config.banks).toHaveLength(1);
+        expect(result.config.banks?.[0]?.[0]?.knob).toMatchObject({ inputCC: 16, outputCC: 90 });
+        expect(result.config.tracks[0]?.knob.outputCC).toBe(74);
+      }
+    });
+
+    it('should return error for an incomplete track bank', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[track9]\nknob 16 -> 16 ch1\nslider 0 -> 0 ch1\nsolo 32 -> 32 ch1\nmute 48 -> 48 ch1\nrec 64 -> 64 ch1\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Track 10 is not defined');
+      }
+    });
+
+    it('should return error for a bank track with a different input CC', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8');
+      const bank2 = content
+        .slice(content.indexOf('[track1]'), content.indexOf('[transport]'))
+        .replace(/\[track(\d)\]/g, (_, n: string) => `[track${Number(n) + 8}]`)
+        .replace(/^knob\s+16 ->/m, 'knob 30 ->');
+      const result = parseMapping(content + '\n' + bank2);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('track9.knob must use the same input CC as track1.knob (16)');
+      }
+    });
+
+    it('should parse radio-button groups', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[groups]\ntrack_select = track1-8.solo\npair = track1.mute TRACK2.MUTE\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.config.groups).toEqual([
+          { name: 'track_select', buttons: Array.from({ length: 8 }, (_, i) => `track${i + 1}.solo`) },
+          { name: 'pair', buttons: ['track1.mute', 'track2.mute'] },
+        ]);
+      }
+    });
+
+    it('should return error for a momentary button in a group', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[groups]\nscenes = track1.rec track2.rec\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('track1.rec in group scenes must be a toggle button');
+      }
+    });
+
+    it('should return error for a button in two groups', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[groups]\na = track1.solo track2.solo\nb = track2.solo track3.solo\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('track2.solo is already in group a');
+      }
+    });
+
+    it('should parse scenes', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[scenes]\n"Verse A" = morph:2000 button:transport.marker_set track1.knob:64 TRACK2.SLIDER:100\nintro =\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.config.scenes).toEqual([
+          { name: 'Verse A', values: { 'track1.knob': 64, 'track2.slider': 100 }, morphMs: 2000, button: 'transport.marker_set' },
+          { name: 'intro', values: {}, morphMs: 0 },
+        ]);
+      }
+    });
+
+    it('should return error for two scenes on one button', () => {
+      const content = readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+        + '\n[scenes]\na = button:track1.rec\nb = button:track1.rec track1.knob:1\n';
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('track1.rec already recalls scene a');
+      }
+    });
+
+    it('should parse button behavior options', () => {
+      const config = parseMappingOrThrow(
+        readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+          .replace('solo    32 -> 32 ch1 toggle', 'solo 32 -> 20 ch1 cycle values:0,32,64,96')
+          .replace('rec     64 -> 64 ch1 momentary', 'rec 64 -> 64 ch1 longpress alt:65 time:800')
+      );
+      expect(config.tracks[0]?.solo).toMatchObject({ behavior: 'cycle', cycleValues: [0, 32, 64, 96] });
+      expect(config.tracks[0]?.rec).toMatchObject({ behavior: 'longpress', altOutputCC: 65, gestureMs: 800 });
+    });
+
+    it('should return error for cycle buttons without values', () => {
+      const result = parseMapping('[track1]\nsolo 32 -> 32 cycle\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('cycle buttons require values');
+      }
+    });
+
+    it('should return error for long-press buttons without an alternate output', () => {
+      const result = parseMapping('[track1]\nrec 64 -> 64 longpress time:300\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('longpress buttons require alt:CC');
+      }
+    });
+
+    it('should parse input channels', () => {
+      const config = parseMappingOrThrow(
+        readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8')
+          .replace('solo    32 -> 32 ch1 toggle', 'solo 32 -> 32 ch1 in:ch3 toggle')
+      );
+      expect(config.tracks[0]?.solo).toMatchObject({ inputCC: 32, inputChannel: 3, channel: 1 });
+      expect(config.tracks[0]?.knob.inputChannel).toBeUndefined();
+    });
+
+    it('should return error for out-of-range input channel', () => {
+      const result = parseMapping('[track1]\nknob 16 -> 16 in:ch17\n');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Channel must be an integer between 1 and 16, got: 17');
+      }
+    });
+
+    it('should return error for range on a button', () => {
+      const content = `
+[track1]
+solo 32 -> 32 ch1 toggle range:0-64
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('range is only valid for knobs and sliders');
+      }
+    });
+
+    it('should return error for out-of-range on value', () => {
+      const content = `
+[track1]
+solo 32 -> 32 ch1 toggle on:200
+`;
+      const result = parseMapping(content);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('on value must be an integer between 0 and 127');
+      }
+    });
+  });
+});
+
+describe('parseMapping with a device profile', () => {
+  // Two strips with a knob and a solo button each, plus play
+  const profile: DeviceProfile = {
+    id: 'test-pad',
+    name: 'Test Pad',
+    portPattern: '^test pad',
+    controls: {
+      'track1.knob': { cc: 1 },
+      'track1.solo': { cc: 10, led: 10 },
+      'track2.knob': { cc: 2 },
+      'track2.solo': { cc: 11, led: 11 },
+      'transport.play': { cc: 20 },
+    },
+    layout: { sections: [{ type: 'strips', count: 2 }, { type: 'transport' }] },
+  };
+
+  const content = `
+[track1]
+knob 1 -> 30 ch2
+solo 10 -> 40 ch2 toggle
+
+[track2]
+knob 2 -> 31 ch2
+solo 11 -> 41 ch2 toggle
+
+[transport]
+play 20 -> 50 ch2
+`;
+
+  it('should only require the controls of the profile', () => {
+    const config = parseMappingOrThrow(content, profile);
+
+    expect(config.tracks).toHaveLength(8);
+    expect(config.tracks[0]?.knob).toMatchObject({ inputCC: 1, outputCC: 30, channel: 2 });
+    expect(config.tracks[1]?.solo).toMatchObject({ inputCC: 11, outputCC: 41 });
+    expect(config.transport.play).toMatchObject({ inputCC: 20, outputCC: 50 });
+  });
+
+  it('should fill controls without hardware with placeholders', () => {
+    const config = parseMappingOrThrow(content, profile);
+
+    expect(config.tracks[0]?.slider).toMatchObject({ inputCC: 0, outputCC: 0, channel: 1 });
+    expect(config.tracks[7]?.rec).toMatchObject({ inputCC: 71, behavior: 'momentary' });
+    expect(config.transport.stop).toMatchObject({ inputCC: 42, outputCC: 42 });
+  });
+
+  it('should return error for a missing track with profile controls', () => {
+    const result = parseMapping(content.replace('[track2]', '[track3]'), profile);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('Track 2 is not defined');
+    }
+  });
+
+  it('should still require all nanoKONTROL2 controls without a profile', () => {
+    expect(parseMapping(content).success).toBe(false);
+  });
+
+  it('should map controls by their profile IDs in a [controls] section', () => {
+    const pads: DeviceProfile = {
+      ...profile,
+      controls: { pad1: { cc: 36, slot: 'track1.solo' }, pad2: { cc: 37, slot: 'transport.play' }, 'track1.knob': { cc: 1 } },
+    };
+
+    const config = parseMappingOrThrow('[controls]\npad1 36 -> 60 ch10 "Kick"\nPAD2 37 -> 61 ch10 shift\ntrack1.knob 1 -> 74 ch1\n', pads);
+
+    expect(config.tracks[0]?.solo).toMatchObject({ inputCC: 36, outputCC: 60, channel: 10, label: 'Kick' });
+    expect(config.tracks[0]?.knob).toMatchObject({ inputCC: 1, outputCC: 74 });
+    expect(config.transport.play).toMatchObject({ inputCC: 37, outputCC: 61 });
+    expect(config.shift?.button).toBe('transport.play');
+  });
+
+  it('should return error for unknown profile controls and a [controls] section without a profile', () => {
+    const unknown = parseMapping('[controls]\npad9 44 -> 44 ch1\n', profile);
+    const noProfile = parseMapping('[controls]\ntrack1.knob 1 -> 1 ch1\n');
+
+    expect(unknown.success).toBe(false);
+    expect(noProfile.success).toBe(false);
+    if (!unknown.success && !noProfile.success) {
+      expect(unknown.error).toContain('Unknown Test Pad control: pad9');
+      expect(noProfile.error).toContain('needs one');
+    }
   });
 });
 
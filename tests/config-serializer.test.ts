@@ -0,0 +1,127 @@
+/**
+ * Tests for the config-serializer module.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { serializeMapping } from '../src/main/services/config-serializer.js';
+import { parseMappingOrThrow } from '../src/main/services/config-parser.js';
+import { createDefaultMappingConfig } from '../src/shared/schemas.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Builds a complete mapping file from the given track 1 and transport lines,
+ * filling the other controls with passthrough mappings.
+ */
+function createMappingFile(track1: string[], extra: string[] = []): string {
+  const lines = ['[track1]', ...track1];
+  for (let track = 2; track <= 8; track++) {
+    lines.push(
+      `[track${track}]`,
+      `knob ${15 + track} -> ${15 + track} ch1`,
+      `slider ${track - 1} -> ${track - 1} ch1`,
+      `solo ${31 + track} -> ${31 + track} ch1`,
+      `mute ${47 + track} -> ${47 + track} ch1`,
+      `rec ${63 + track} -> ${63 + track} ch1`
+    );
+  }
+  lines.push(
+    '[transport]',
+    'rewind 43 -> 43 ch1',
+    'forward 44 -> 44 ch1',
+    'stop 42 -> 42 ch1',
+    'play 41 -> 41 ch1',
+    'record 45 -> 45 ch1',
+    'cycle 46 -> 46 ch1 shift:latch',
+    'track_left 58 -> 58 ch1',
+    'track_right 59 -> 59 ch1',
+    'marker_set 60 -> 60 ch1',
+    'marker_left 61 -> 61 ch1',
+    'marker_right 62 -> 62 ch1',
+    ...extra
+  );
+  return lines.join('\n');
+}
+
+describe('serializeMapping', () => {
+  it('should round-trip the default mapping file', () => {
+    const content = readFileSync(join(__dirname, '..', 'mappings', 'default.txt'), 'utf-8');
+    const config = parseMappingOrThrow(content);
+
+    expect(parseMappingOrThrow(serializeMapping(config))).toEqual(config);
+  });
+
+  it('should round-trip every option, the shift layer and groups', () => {
+    const config = parseMappingOrThrow(
+      createMappingFile(
+        [
+          'knob 16 -> 74 ch2 in:ch3 range:100-20 curve:log "Cutoff"',
+          '  + -> 71 ch1 range:0-64 curve:stepped:4',
+          'slider 0 -> 7 ch1 out:nrpn:1234 smooth:40 curve:stepped:5 "Volume"',
+          'solo 32 -> 32 ch1 cycle values:0,64,127',
+          'mute 48 -> 60 ch1 longpress alt:61 time:800 on:100 off:10',
+          'rec 64 -> 5 ch1 out:program',
+        ],
+        ['[track1.shift]', 'knob 16 -> 20 ch4 in:ch3 out:cc14', '[transport.shift]', 'play 41 -> 90 ch1 trigger', '[groups]', 'modes = track2-4.solo']
+      )
+    );
+
+    const text = serializeMapping(config);
+
+    expect(text).toContain('cycle         46 ->  46 ch1 shift:latch');
+    expect(parseMappingOrThrow(text)).toEqual(config);
+  });
+
+  it('should write the track banks after tracks 1-8', () => {
+    const config = createDefaultMappingConfig();
+    config.banks = [config.tracks.map((track) => ({ ...track, knob: { ...track.knob, outputCC: 100 } }))];
+
+    const text = serializeMapping(config);
+
+    expect(text).toContain('[track16]');
+    expect(parseMappingOrThrow(text).banks?.[0]?.[7]?.knob.outputCC).toBe(100);
+  });
+
+  it('should round-trip scenes', () => {
+    const config = createDefaultMappingConfig();
+    config.scenes = [
+      { name: 'Verse "A"', values: { 'track1.knob': 64, 'track8.slider': 0 }, morphMs: 1500, button: 'transport.marker_set' },
+      { name: 'Empty', values: {}, morphMs: 0 },
+    ];
+
+    const text = serializeMapping(config);
+
+    expect(text).toContain(`"Verse 'A'" = morph:1500 button:transport.marker_set track1.knob:64 track8.slider:0`);
+    expect(parseMappingOrThrow(text).scenes).toEqual([{ ...config.scenes[0], name: "Verse 'A'" }, config.scenes[1]]);
+  });
+
+  it('should write one-sided ranges with the default for the other end', () => {
+    const config = createDefaultMappingConfig();
+    const track1 = config.tracks[0];
+    if (!track1) throw new Error('missing track 1');
+    track1.knob.minValue = 20;
+    track1.slider.maxValue = 100;
+
+    const parsed = parseMappingOrThrow(serializeMapping(config)).tracks[0];
+
+    expect(parsed?.knob).toMatchObject({ minValue: 20, maxValue: 127 });
+    expect(parsed?.slider).toMatchObject({ minValue: 0, maxValue: 100 });
+  });
+
+  it('should leave out defaults and write labels without double quotes', () => {
+    const config = createDefaultMappingConfig();
+    const solo = config.tracks[0]?.solo;
+    if (!solo) throw new Error('missing track 1 solo');
+    solo.behavior = 'toggle';
+    solo.label = 'Say "hi"';
+
+    const text = serializeMapping(config, 'My preset');
+
+    expect(text.startsWith('# My preset\n')).toBe(true);
+    expect(text).toContain(`solo    32 ->  32 ch1 "Say 'hi'"`);
+    expect(parseMappingOrThrow(text).tracks[0]?.solo.label).toBe("Say 'hi'");
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the crossfader module.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Crossfader, toCrossfadeSide } from '../src/main/services/crossfader.js';
+import type { ControlValues } from '../src/shared/ipc-protocol.js';
+
+/**
+ * Creates control values with every track at the given knob/slider value.
+ */
+function createControlValues(value: number, solo = false): ControlValues {
+  return {
+    tracks: Array.from({ length: 8 }, () => ({ knob: value, slider: value, solo, mute: false, rec: false })),
+    transport: {
+      play: true,
+      stop: false,
+      rewind: false,
+      forward: false,
+      record: false,
+      cycle: false,
+      track_left: false,
+      track_right: false,
+      marker_set: false,
+      marker_left: false,
+      marker_right: false,
+    },
+  };
+}
+
+describe('toCrossfadeSide', () => {
+  it('should flatten tracks, banks and transport buttons by control type', () => {
+    const controlValues = createControlValues(10, true);
+    controlValues.banks = [createControlValues(20).tracks];
+
+    const side = toCrossfadeSide(controlValues);
+
+    expect(side.values['track1.knob']).toBe(10);
+    expect(side.values['track9.slider']).toBe(20);
+    expect(side.buttons['track1.solo']).toBe(true);
+    expect(side.buttons['track9.solo']).toBe(false);
+    expect(side.buttons['transport.play']).toBe(true);
+    expect(Object.keys(side.values)).toHaveLength(32);
+  });
+});
+
+describe('Crossfader', () => {
+  it('should interpolate values between A and B, leaving out the fader', () => {
+    const crossfader = new Crossfader();
+    crossfader.configure(
+      'track8.slider',
+      { values: { 'track1.knob': 0, 'track8.slider': 0 }, buttons: {} },
+      { values: { 'track1.knob': 100, 'track8.slider': 127 }, buttons: {} }
+    );
+
+    expect(crossfader.process(0).values).toEqual({ 'track1.knob': 0 });
+    expect(crossfader.process(127).values).toEqual({ 'track1.knob': 100 });
+    expect(crossfader.process(64).values).toEqual({ 'track1.knob': 50 });
+  });
+
+  it('should only return values that changed', () => {
+    const crossfader = new Crossfader();
+    crossfader.configure(
+      'track8.slider',
+      { values: { 'track1.knob': 0, 'track2.knob': 40 }, buttons: {} },
+      { values: { 'track1.knob': 127, 'track2.knob': 40 }, buttons: {} }
+    );
+
+    expect(crossfader.process(10).values).toEqual({ 'track1.knob': 10, 'track2.knob': 40 });
+    expect(crossfader.process(11).values).toEqual({ 'track1.knob': 11 });
+    expect(crossfader.process(11).values).toEqual({});
+  });
+
+  it('should switch only differing buttons when crossing the midpoint', () => {
+    const crossfader = new Crossfader();
+    crossfader.configure(
+      'track8.slider',
+      { values: {}, buttons: { 'track1.solo': true, 'track2.mute': false, 'transport.play': true } },
+      { values: {}, buttons: { 'track1.solo': false, 'track2.mute': true, 'transport.play': true } }
+    );
+
+    expect(crossfader.process(10).buttons).toEqual({ 'track1.solo': true, 'track2.mute': false });
+    expect(crossfader.process(60).buttons).toEqual({});
+    expect(crossfader.process(70).buttons).toEqual({ 'track1.solo': false, 'track2.mute': true });
+    expect(crossfader.process(127).buttons).toEqual({});
+    expect(crossfader.process(0).buttons).toEqual({ 'track1.solo': true, 'track2.mute': false });
+  });
+
+  it('should do nothing when cleared', () => {
+    const crossfader = new Crossfader();
+    crossfader.configure('track8.slider', toCrossfadeSide(createControlValues(0)), toCrossfadeSide(createControlValues(127)));
+    crossfader.clear();
+
+    expect(crossfader.getFader()).toBeNull();
+    expect(crossfader.process(64)).toEqual({ values: {}, buttons: {} });
+  });
+});
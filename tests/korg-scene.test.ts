@@ -0,0 +1,190 @@
+/**
+ * Tests for the korg-scene module.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  decodeScene,
+  encodeScene,
+  readSceneFile,
+  sceneToMapping,
+  mappingToScene,
+  setHardwareLedMode,
+} from '../src/main/services/korg-scene.js';
+import { encodeSevenBit, SCENE_DATA_SIZE } from '../src/main/services/korg-sysex.js';
+import { createDefaultMappingConfig } from '../src/shared/schemas.js';
+
+/**
+ * Creates the scene parameters of the factory scene: CC mode, internal LEDs,
+ * every control on the global channel with its factory CC.
+ */
+function createFactorySceneData(): Uint8Array {
+  const data = new Uint8Array(SCENE_DATA_SIZE);
+  const button = (offset: number, cc: number, behavior: number) => {
+    data.set([1, behavior, cc, 0, 127, 0], offset);
+  };
+
+  for (let i = 0; i < 8; i++) {
+    const offset = 3 + i * 31;
+    data[offset] = 16;
+    data.set([1, 0, i, 0, 127, 0], offset + 1); // slider
+    data.set([1, 0, 16 + i, 0, 127, 0], offset + 7); // knob
+    button(offset + 13, 32 + i, 1);
+    button(offset + 19, 48 + i, 1);
+    button(offset + 25, 64 + i, 0);
+  }
+
+  data[251] = 16;
+  [58, 59, 46, 60, 61, 62, 43, 44, 42, 41, 45].forEach((cc, i) => button(252 + i * 6, cc, 0));
+  return data;
+}
+
+describe('decodeScene', () => {
+  it('should read the global settings, groups and transport buttons', () => {
+    const data = createFactorySceneData();
+    data[0] = 2;
+    data[2] = 1;
+    data[3 + 31] = 4;
+    data.set([2, 0, 60, 10, 100, 0], 3 + 13);
+
+    const scene = decodeScene(data);
+
+    expect(scene.globalChannel).toBe(3);
+    expect(scene.ledMode).toBe('external');
+    expect(scene.groups[0]?.channel).toBeNull();
+    expect(scene.groups[1]?.channel).toBe(5);
+    expect(scene.groups[0]?.solo).toEqual({ type: 'note', behavior: 'momentary', number: 60, offValue: 10, onValue: 100 });
+    expect(scene.transport.play).toEqual({ type: 'cc', behavior: 'momentary', number: 41, offValue: 0, onValue: 127 });
+  });
+
+  it('should encode back to the same bytes', () => {
+    const data = createFactorySceneData();
+    data[2] = 1;
+    data.set([2, 1, 60, 10, 100, 0], 3 + 13);
+
+    expect(encodeScene(decodeScene(data), data)).toEqual(data);
+  });
+
+  it('should reject data with out of range parameters', () => {
+    const data = createFactorySceneData();
+    data[2] = 5;
+
+    expect(() => decodeScene(data)).toThrow('LED mode is 5');
+    expect(() => decodeScene(new Uint8Array(10))).toThrow('10 bytes');
+  });
+});
+
+describe('readSceneFile', () => {
+  it('should read the scene parameters after the header of an editor data file', () => {
+    const file = new Uint8Array(40 + SCENE_DATA_SIZE);
+    file.set(createFactorySceneData(), 40);
+
+    expect(readSceneFile(file).groups[7]?.knob).toEqual({ enabled: true, cc: 23, min: 0, max: 127 });
+  });
+
+  it('should read the scene data dump of a SysEx file', () => {
+    const data = createFactorySceneData();
+    data[6] = 99; // group 1 slider CC
+    const header = [0xf0, 0x42, 0x43, 0x00, 0x01, 0x13, 0x00, 0x7f, 0x7f, 0x02, 0x03, 0x05, 0x40];
+    const file = new Uint8Array([...header, ...encodeSevenBit(data), 0xf7]);
+
+    expect(readSceneFile(file).groups[0]?.slider.cc).toBe(99);
+  });
+});
+
+describe('sceneToMapping', () => {
+  it('should map the factory CCs to the scene assignments', () => {
+    const data = createFactorySceneData();
+    data[0] = 1;
+    data.set([1, 0, 74, 20, 100, 0], 3 + 7); // group 1 knob
+    data.set([2, 0, 36, 0, 90, 0], 3 + 13); // group 1 solo: note, momentary
+    data[3 + 31 + 1] = 0; // group 2 slider disabled
+    data[251] = 9;
+
+    const { mapping, unassigned } = sceneToMapping(decodeScene(data));
+
+    expect(mapping.tracks[0]?.knob).toEqual({ inputCC: 16, outputCC: 74, channel: 2, minValue: 20, maxValue: 100 });
+    expect(mapping.tracks[0]?.solo).toEqual({
+      inputCC: 32,
+      outputCC: 36,
+      channel: 2,
+      behavior: 'momentary',
+      outputType: 'note',
+      onValue: 90,
+    });
+    expect(mapping.tracks[0]?.mute.behavior).toBe('toggle');
+    expect(mapping.transport.play).toMatchObject({ inputCC: 41, outputCC: 41, channel: 10 });
+    expect(unassigned).toEqual(['track2.slider']);
+    expect(mapping.tracks[1]?.slider).toEqual({ inputCC: 1, outputCC: 1, channel: 2 });
+  });
+});
+
+describe('mappingToScene', () => {
+  it('should give the factory scene for the identity mapping', () => {
+    const factory = decodeScene(createFactorySceneData());
+
+    const { scene, approximated } = mappingToScene(createDefaultMappingConfig(), factory, 'internal');
+
+    expect(approximated).toEqual([]);
+    expect(scene.groups[0]?.knob).toEqual(factory.groups[0]?.knob);
+    expect(scene.groups[0]?.solo).toEqual(factory.groups[0]?.solo);
+    expect(scene.groups[0]?.channel).toBe(1);
+    expect(scene.transport.cycle.behavior).toBe('toggle');
+  });
+
+  it('should write outputs, ranges and behaviors, noting what the unit cannot do', () => {
+    const mapping = createDefaultMappingConfig();
+    const track = mapping.tracks[0];
+    if (!track) throw new Error('missing track 1');
+    track.knob = { inputCC: 16, outputCC: 74, channel: 2, minValue: 100, maxValue: 20, curve: 'log' };
+    track.slider.channel = 2;
+    track.solo = { inputCC: 32, outputCC: 36, channel: 2, behavior: 'toggle', outputType: 'note', onValue: 90 };
+    track.mute = { inputCC: 48, outputCC: 48, channel: 2, behavior: 'longpress', altOutputCC: 49 };
+
+    const { scene, approximated } = mappingToScene(mapping, decodeScene(createFactorySceneData()), 'external');
+
+    expect(scene.ledMode).toBe('external');
+    expect(scene.groups[0]?.channel).toBe(2);
+    expect(scene.groups[0]?.knob).toEqual({ enabled: true, cc: 74, min: 100, max: 20 });
+    expect(scene.groups[0]?.solo).toEqual({ type: 'note', behavior: 'toggle', number: 36, offValue: 0, onValue: 90 });
+    expect(approximated).toEqual([
+      'track1.knob: log curve (sent linear)',
+      'track1.mute: longpress behavior (sent as momentary)',
+      'track1.rec: channel 1 (the strip sends on channel 2)',
+    ]);
+  });
+});
+
+describe('setHardwareLedMode', () => {
+  /**
+   * Creates a unit holding the factory scene; a stubborn unit ignores loaded scenes.
+   */
+  function createUnit(stubborn = false) {
+    let data = createFactorySceneData();
+    return {
+      requestSceneData: vi.fn(async () => data.slice()),
+      writeSceneData: vi.fn(async (scene: Uint8Array) => {
+        if (!stubborn) data = scene;
+      }),
+    };
+  }
+
+  it('should load the scene with external LEDs and check it', async () => {
+    const unit = createUnit();
+
+    await expect(setHardwareLedMode(unit, 'external')).resolves.toBe(true);
+
+    const written = unit.writeSceneData.mock.calls[0]?.[0];
+    expect(written?.[2]).toBe(1);
+    expect(written?.subarray(3)).toEqual(createFactorySceneData().subarray(3));
+    expect(unit.writeSceneData).toHaveBeenCalledWith(written, true);
+    expect(unit.requestSceneData).toHaveBeenCalledTimes(2);
+
+    await expect(setHardwareLedMode(unit, 'external')).resolves.toBe(false);
+    expect(unit.writeSceneData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail when the unit keeps its LED mode', async () => {
+    await expect(setHardwareLedMode(createUnit(true), 'external')).rejects.toThrow('still reports internal LED mode');
+  });
+});
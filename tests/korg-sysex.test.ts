@@ -0,0 +1,173 @@
+/**
+ * Tests for the korg-sysex module, against a simulated nanoKONTROL2.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SysexSession,
+  encodeSevenBit,
+  decodeSevenBit,
+  buildSceneDump,
+  buildSceneDumpRequest,
+  buildSceneWriteRequest,
+  buildKorgReply,
+  parseIdentityReply,
+  parseKorgReply,
+  SCENE_DATA_SIZE,
+} from '../src/main/services/korg-sysex.js';
+
+/**
+ * Simulated nanoKONTROL2 answering SysEx messages like the hardware:
+ * identity requests, scene dump requests, scene loads and scene writes.
+ */
+class SimulatedNanoKontrol2 {
+  /** Current scene parameters */
+  scene = new Uint8Array(SCENE_DATA_SIZE).map((_, i) => i % 128);
+  /** Scene parameters written to memory, or null */
+  stored: Uint8Array | null = null;
+  /** Messages received */
+  received: number[][] = [];
+  /** Whether the unit ignores every message */
+  silent = false;
+
+  constructor(
+    private readonly reply: (bytes: number[]) => void,
+    /** Global MIDI channel (1-16) */
+    readonly channel = 1,
+    /** Device family code of the identity reply */
+    private readonly family = 0x0113
+  ) {}
+
+  receive(bytes: number[]): void {
+    this.received.push(bytes);
+    if (this.silent) return;
+
+    if (bytes.join() === [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7].join()) {
+      // Version 1.03
+      const identity = [0xf0, 0x7e, this.channel - 1, 0x06, 0x02, 0x42, this.family & 0xff, this.family >> 8, 0, 0, 3, 0, 1, 0, 0xf7];
+      this.send(identity);
+      return;
+    }
+
+    if (bytes.join() === buildSceneDumpRequest(this.channel).join()) {
+      this.send(buildSceneDump(this.channel, this.scene));
+    } else if (bytes.join() === buildSceneWriteRequest(this.channel).join()) {
+      this.stored = this.scene.slice();
+      this.send(buildKorgReply({ type: 'writeCompleted', channel: this.channel }));
+    } else {
+      const message = parseKorgReply(bytes);
+      if (message?.type === 'sceneDump' && message.channel === this.channel) {
+        this.scene = message.data;
+        this.send(buildKorgReply({ type: 'loadCompleted', channel: this.channel }));
+      }
+    }
+  }
+
+  private send(bytes: number[]): void {
+    queueMicrotask(() => this.reply(bytes));
+  }
+}
+
+/**
+ * Connects a session to a simulated unit.
+ */
+function connect(channel?: number, family?: number): { session: SysexSession; device: SimulatedNanoKontrol2 } {
+  const box: { session?: SysexSession } = {};
+  const device = new SimulatedNanoKontrol2((bytes) => box.session?.handleMessage(bytes), channel, family);
+  const session = new SysexSession((bytes) => device.receive(bytes), 20);
+  box.session = session;
+  return { session, device };
+}
+
+describe('7-bit encoding', () => {
+  it('should restore the most significant bits of each group', () => {
+    const data = new Uint8Array([0x80, 1, 2, 3, 4, 5, 0xff, 7, 0x81]);
+
+    expect(decodeSevenBit(encodeSevenBit(data))).toEqual(data);
+  });
+
+  it('should encode scene parameters as a 388-byte dump', () => {
+    const dump = buildSceneDump(16, new Uint8Array(SCENE_DATA_SIZE).fill(0xff));
+
+    expect(dump.slice(0, 3)).toEqual([0xf0, 0x42, 0x4f]);
+    expect(dump).toHaveLength(7 + 6 + 388 + 1);
+    expect(dump.every((byte, i) => i === 0 || i === dump.length - 1 || byte < 0x80)).toBe(true);
+  });
+});
+
+describe('parseIdentityReply', () => {
+  it('should read the channel, family and version', () => {
+    expect(parseIdentityReply([0xf0, 0x7e, 0x02, 0x06, 0x02, 0x42, 0x13, 0x01, 0, 0, 3, 0, 1, 0, 0xf7])).toEqual({
+      channel: 3,
+      manufacturer: 0x42,
+      family: 0x0113,
+      member: 0,
+      version: '1.03',
+    });
+    expect(parseIdentityReply([0xf0, 0x42, 0x40, 0xf7])).toBeNull();
+  });
+});
+
+describe('SysexSession', () => {
+  it('should query the identity of the unit', async () => {
+    const { session } = connect(5);
+
+    await expect(session.requestIdentity()).resolves.toMatchObject({ channel: 5, version: '1.03' });
+  });
+
+  it('should read the current scene on the unit channel', async () => {
+    const { session, device } = connect(3);
+
+    const data = await session.requestSceneData();
+
+    expect(data).toEqual(device.scene);
+    expect(device.received[1]?.[2]).toBe(0x42);
+  });
+
+  it('should load and store a scene', async () => {
+    const { session, device } = connect();
+    const scene = new Uint8Array(SCENE_DATA_SIZE).fill(7);
+
+    await session.writeSceneData(scene);
+
+    expect(device.scene).toEqual(scene);
+    expect(device.stored).toEqual(scene);
+  });
+
+  it('should load a scene without storing it on request', async () => {
+    const { session, device } = connect();
+
+    await session.writeSceneData(new Uint8Array(SCENE_DATA_SIZE).fill(9), false);
+
+    expect(device.scene[0]).toBe(9);
+    expect(device.stored).toBeNull();
+  });
+
+  it('should run requests one after another', async () => {
+    const { session } = connect();
+    const scene = new Uint8Array(SCENE_DATA_SIZE).fill(1);
+
+    const [, data] = await Promise.all([session.writeSceneData(scene, false), session.requestSceneData()]);
+
+    expect(data).toEqual(scene);
+  });
+
+  it('should fail when the unit does not answer, or is not a nanoKONTROL2', async () => {
+    const silent = connect();
+    silent.device.silent = true;
+    await expect(silent.session.requestSceneData()).rejects.toThrow('No identity reply from the nanoKONTROL2 within 20 ms');
+
+    const other = connect(1, 0x0112);
+    await expect(other.session.requestIdentity()).rejects.toThrow('Not a nanoKONTROL2');
+  });
+
+  it('should fail the waiting request when cancelled', async () => {
+    const { session, device } = connect();
+    device.silent = true;
+
+    const request = session.requestIdentity();
+    session.cancel('Device disconnected');
+
+    await expect(request).rejects.toThrow('Device disconnected');
+  });
+});
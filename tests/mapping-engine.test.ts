@@ -0,0 +1,687 @@
+/**
+ * Tests for the mapping-engine module.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseMappingOrThrow } from '../src/config-parser.js';
+import {
+  MappingEngine,
+  scaleToRange,
+  applyCurve,
+  getButtonOutputValue,
+  isButtonOutputOn,
+  shouldSendOutput,
+} from '../src/mapping-engine.js';
+import type { ProcessedMessage } from '../src/mapping-engine.js';
+import type { DeviceProfile, MappingConfig, MappingEntry } from '../src/types.js';
+import { deriveControlTypeFromCC } from '../src/constants.js';
+import { safeValidateDeviceProfile } from '../src/shared/schemas.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const MAPPINGS_DIR = join(__dirname, '..', 'mappings');
+
+/**
+ * Loads the default mapping with track 1's knob and solo customised.
+ */
+function loadConfig(): MappingConfig {
+  const config = parseMappingOrThrow(readFileSync(join(MAPPINGS_DIR, 'default.txt'), 'utf-8'));
+  const track1 = config.tracks[0];
+  if (track1) {
+    track1.knob = { ...track1.knob, minValue: 100, maxValue: 20 };
+    track1.solo = { ...track1.solo, onValue: 90, offValue: 10 };
+  }
+  return config;
+}
+
+describe('scaleToRange', () => {
+  it('should pass values through with the default range', () => {
+    expect(scaleToRange(0)).toBe(0);
+    expect(scaleToRange(64)).toBe(64);
+    expect(scaleToRange(127)).toBe(127);
+  });
+
+  it('should scale into a narrowed range', () => {
+    expect(scaleToRange(0, 20, 100)).toBe(20);
+    expect(scaleToRange(127, 20, 100)).toBe(100);
+  });
+
+  it('should invert when min is greater than max', () => {
+    expect(scaleToRange(0, 127, 0)).toBe(127);
+    expect(scaleToRange(127, 127, 0)).toBe(0);
+  });
+});
+
+describe('applyCurve', () => {
+  it('should keep the endpoints fixed for every curve', () => {
+    for (const curve of ['linear', 'log', 'exp', 'scurve', 'stepped'] as const) {
+      expect(applyCurve(0, curve)).toBeCloseTo(0);
+      expect(applyCurve(127, curve)).toBeCloseTo(127);
+    }
+  });
+
+  it('should bend log above and exp below linear', () => {
+    expect(applyCurve(32, 'log')).toBeGreaterThan(32);
+    expect(applyCurve(32, 'exp')).toBeLessThan(32);
+  });
+
+  it('should flatten the ends of the S-curve', () => {
+    expect(applyCurve(16, 'scurve')).toBeLessThan(16);
+    expect(applyCurve(111, 'scurve')).toBeGreaterThan(111);
+    expect(applyCurve(63.5, 'scurve')).toBeCloseTo(63.5);
+  });
+
+  it('should quantize the stepped curve to the given number of positions', () => {
+    const outputs = new Set<number>();
+    for (let value = 0; value <= 127; value++) {
+      outputs.add(Math.round(applyCurve(value, 'stepped', 8)));
+    }
+    expect(outputs.size).toBe(8);
+  });
+});
+
+describe('getButtonOutputValue', () => {
+  it('should default to 127/0', () => {
+    const mapping = { inputCC: 32, outputCC: 32, channel: 1 };
+
+    expect(getButtonOutputValue(mapping, true)).toBe(127);
+    expect(getButtonOutputValue(mapping, false)).toBe(0);
+  });
+
+  it('should use configured on/off values', () => {
+    const mapping = { inputCC: 32, outputCC: 32, channel: 1, onValue: 90, offValue: 10 };
+
+    expect(getButtonOutputValue(mapping, true)).toBe(90);
+    expect(getButtonOutputValue(mapping, false)).toBe(10);
+  });
+});
+
+describe('isButtonOutputOn', () => {
+  it('should treat the off value as off and anything else as on', () => {
+    const mapping = { inputCC: 32, outputCC: 32, channel: 1, onValue: 90, offValue: 10 };
+
+    expect(isButtonOutputOn(mapping, 10)).toBe(false);
+    expect(isButtonOutputOn(mapping, 0)).toBe(false);
+    expect(isButtonOutputOn(mapping, 90)).toBe(true);
+    expect(isButtonOutputOn(mapping, 127)).toBe(true);
+  });
+});
+
+describe('MappingEngine', () => {
+  it('should apply the value range to hardware input', () => {
+    const engine = new MappingEngine(loadConfig());
+
+    expect(engine.processCC(0, 16, 0)?.value).toBe(100);
+    expect(engine.processCC(0, 16, 127)?.value).toBe(20);
+  });
+
+  it('should apply the curve before the value range', () => {
+    const config = loadConfig();
+    const track2 = config.tracks[1];
+    if (track2) {
+      track2.knob = { ...track2.knob, curve: 'stepped', steps: 2, minValue: 10, maxValue: 20 };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processControl('track2.knob', 40)?.value).toBe(10);
+    expect(engine.processControl('track2.knob', 90)?.value).toBe(20);
+  });
+
+  it('should send configured on/off values for toggle buttons', () => {
+    const engine = new MappingEngine(loadConfig());
+
+    expect(engine.processCC(0, 32, 127)?.value).toBe(90);
+    expect(engine.processCC(0, 32, 0)).toBeNull();
+    expect(engine.processCC(0, 32, 127)?.value).toBe(10);
+  });
+
+  it('should apply the same transform to GUI-originated values', () => {
+    const engine = new MappingEngine(loadConfig());
+
+    expect(engine.processControl('track1.knob', 0)?.value).toBe(100);
+    expect(engine.processControl('track1.solo', 127)?.value).toBe(90);
+    expect(engine.getButtonState(32)).toBe(true);
+    expect(engine.processControl('track1.solo', 0)?.value).toBe(10);
+    expect(engine.getButtonState(32)).toBe(false);
+  });
+
+  it('should ignore controls the device profile has no hardware for', () => {
+    const profile: DeviceProfile = {
+      id: 'test-pad',
+      name: 'Test Pad',
+      portPattern: '^test pad',
+      controls: { 'track1.knob': { cc: 16 }, 'transport.play': { cc: 41, led: 41 } },
+      layout: { sections: [{ type: 'strips', count: 1 }, { type: 'transport' }] },
+    };
+    const engine = new MappingEngine(loadConfig(), profile);
+
+    expect(engine.processCC(0, 16, 127)?.value).toBe(20);
+    expect(engine.processCC(0, 41, 127)).not.toBeNull();
+    expect(engine.processCC(0, 0, 127)).toBeNull();
+    expect(engine.processCC(0, 32, 127)).toBeNull();
+  });
+
+  it('should run a nanoPAD2 profile through the parser and the engine', () => {
+    // 16 pads on the solo and mute slots (top row first), the X-Y pad on track 1's knob and slider
+    const pads = Array.from({ length: 16 }, (_, i) => i + 1);
+    const result = safeValidateDeviceProfile({
+      id: 'nanopad2',
+      name: 'Korg nanoPAD2',
+      portPattern: '^nanopad2[:\\s]',
+      controls: {
+        ...Object.fromEntries(
+          pads.map((pad) => [`pad${pad}`, { cc: 35 + pad, label: `Pad ${pad}`, slot: `track${((pad - 1) % 8) + 1}.${pad <= 8 ? 'solo' : 'mute'}` }])
+        ),
+        x: { cc: 1, label: 'X', slot: 'track1.knob' },
+        y: { cc: 2, label: 'Y', slot: 'track1.slider' },
+      },
+      layout: {
+        sections: [
+          { type: 'grid', label: 'Pads', columns: 8, controls: [...pads.slice(8), ...pads.slice(0, 8)].map((pad) => `pad${pad}`) },
+          { type: 'grid', label: 'X-Y pad', columns: 2, controls: ['x', 'y'] },
+        ],
+      },
+    });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const profile = result.data;
+
+    const config = parseMappingOrThrow(
+      [
+        '[controls]',
+        ...pads.map((pad) => `pad${pad} ${35 + pad} -> ${59 + pad} ch10 momentary out:note`),
+        'x 1 -> 74 ch1 "Cutoff"',
+        'y 2 -> 71 ch1 range:20-100',
+      ].join('\n'),
+      profile
+    );
+    const engine = new MappingEngine(config, profile);
+
+    expect(deriveControlTypeFromCC(44, profile)).toBe('track1.mute');
+    expect(engine.processCC(9, 36, 127)).toMatchObject({ controlType: 'track1.solo', outputCC: 60, outputType: 'note', channel: 10 });
+    expect(engine.processCC(9, 51, 127)).toMatchObject({ controlType: 'track8.mute', outputCC: 75 });
+    expect(engine.processCC(0, 1, 127)).toMatchObject({ controlType: 'track1.knob', outputCC: 74, value: 127 });
+    expect(engine.processCC(0, 2, 0)?.value).toBe(20);
+
+    // nanoKONTROL2 CCs of slots without a pad do nothing
+    expect(engine.processCC(0, 17, 127)).toBeNull();
+    expect(engine.processCC(0, 64, 127)).toBeNull();
+  });
+
+  it('should reject profiles with controls that have no slot or share one', () => {
+    const base = { id: 'test-pad', name: 'Test Pad', portPattern: '^test pad', layout: { sections: [{ type: 'transport' }] } };
+
+    expect(safeValidateDeviceProfile({ ...base, controls: { pad1: { cc: 36 } } }).success).toBe(false);
+    expect(
+      safeValidateDeviceProfile({ ...base, controls: { pad1: { cc: 36, slot: 'transport.play' }, 'transport.play': { cc: 41 } } }).success
+    ).toBe(false);
+  });
+
+  it('should return null for unknown control types', () => {
+    const engine = new MappingEngine(loadConfig());
+
+    expect(engine.processControl('track9.knob', 64)).toBeNull();
+  });
+
+  it('should reverse-map DAW feedback to hardware button CCs', () => {
+    const config = loadConfig();
+    const engine = new MappingEngine(config);
+    const solo = config.tracks[0]?.solo;
+    expect(solo).toBeDefined();
+    if (!solo) return;
+
+    const matches = engine.findButtonsByOutput(solo.channel, solo.outputCC);
+    expect(matches.map((m) => m.inputCC)).toContain(32);
+    expect(matches.find((m) => m.inputCC === 32)?.controlType).toBe('track1.solo');
+  });
+
+  it('should add a 14-bit value for high-resolution outputs', () => {
+    const config = loadConfig();
+    const track3 = config.tracks[2];
+    if (track3) {
+      track3.slider = { ...track3.slider, outputType: 'nrpn', parameter: 1234 };
+    }
+    const engine = new MappingEngine(config);
+
+    const processed = engine.processControl('track3.slider', 127);
+    expect(processed?.outputType).toBe('nrpn');
+    expect(processed?.parameter).toBe(1234);
+    expect(processed?.highResValue).toBe(16383);
+    expect(engine.processControl('track3.slider', 0)?.highResValue).toBe(0);
+    expect(engine.processControl('track1.slider', 127)?.highResValue).toBeUndefined();
+  });
+
+  it('should send Note Off when a note button turns off', () => {
+    const config = loadConfig();
+    const track2 = config.tracks[1];
+    if (track2) {
+      track2.solo = { ...track2.solo, outputCC: 36, outputType: 'note', onValue: 100 };
+    }
+    const engine = new MappingEngine(config);
+
+    const on = engine.processControl('track2.solo', 127);
+    expect(on?.outputType).toBe('note');
+    expect(on?.outputCC).toBe(36);
+    expect(on?.value).toBe(100);
+    expect(engine.processControl('track2.solo', 0)?.value).toBe(0);
+  });
+
+  it('should send the program number only when a program button is pressed', () => {
+    const config = loadConfig();
+    const track2 = config.tracks[1];
+    if (track2) {
+      track2.mute = { ...track2.mute, outputCC: 5, outputType: 'program', behavior: 'momentary' };
+    }
+    const engine = new MappingEngine(config);
+    const muteCC = track2?.mute.inputCC ?? 0;
+
+    const press = engine.processCC(0, muteCC, 127);
+    expect(press?.value).toBe(5);
+    expect(press && shouldSendOutput(press)).toBe(true);
+
+    const release = engine.processCC(0, muteCC, 0);
+    expect(release && shouldSendOutput(release)).toBe(false);
+  });
+
+  it('should send a 14-bit value for pitch bend outputs', () => {
+    const config = loadConfig();
+    const track3 = config.tracks[2];
+    if (track3) {
+      track3.slider = { ...track3.slider, outputType: 'pitchbend' };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processControl('track3.slider', 127)?.highResValue).toBe(16383);
+    expect(engine.processControl('track3.slider', 0)?.highResValue).toBe(0);
+  });
+
+  it('should send each output target with its own range and curve', () => {
+    const config = loadConfig();
+    const track2 = config.tracks[1];
+    if (track2) {
+      track2.knob = {
+        ...track2.knob,
+        targets: [
+          { outputCC: 74, channel: 2 },
+          { outputCC: 71, channel: 1, minValue: 127, maxValue: 0 },
+        ],
+      };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processControl('track2.knob', 127)?.targets).toEqual([
+      { outputCC: 74, channel: 2, value: 127 },
+      { outputCC: 71, channel: 1, value: 0 },
+    ]);
+    expect(engine.processControl('track2.knob', 0)?.targets?.map((t) => t.value)).toEqual([0, 127]);
+    expect(engine.processControl('track1.knob', 0)?.targets).toBeUndefined();
+  });
+
+  it('should send button on/off values to every output target', () => {
+    const config = loadConfig();
+    const track1 = config.tracks[0];
+    if (track1) {
+      track1.solo = { ...track1.solo, targets: [{ outputCC: 20, channel: 3 }] };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processCC(0, 32, 127)?.targets).toEqual([{ outputCC: 20, channel: 3, value: 90 }]);
+    expect(engine.processCC(0, 32, 127)?.targets).toEqual([{ outputCC: 20, channel: 3, value: 10 }]);
+  });
+
+  it('should switch to shift layer mappings while the shift button is held', () => {
+    const config = loadConfig();
+    config.shift = {
+      button: 'transport.cycle',
+      mode: 'hold',
+      tracks: Array.from({ length: 8 }, () => ({})),
+      transport: {},
+    };
+    const shiftTrack1 = config.shift.tracks[0];
+    if (shiftTrack1) {
+      shiftTrack1.slider = { inputCC: 0, outputCC: 90, channel: 2 };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processCC(0, 0, 64)?.outputCC).toBe(0);
+
+    // The shift button itself produces no output
+    expect(engine.processCC(0, 46, 127)).toBeNull();
+    expect(engine.isShiftActive()).toBe(true);
+    expect(engine.processCC(0, 0, 64)).toMatchObject({ outputCC: 90, channel: 2 });
+    // Controls without a shift override keep their base mapping
+    expect(engine.processCC(0, 16, 127)?.outputCC).toBe(74);
+
+    expect(engine.processCC(0, 46, 0)).toBeNull();
+    expect(engine.isShiftActive()).toBe(false);
+    expect(engine.processCC(0, 0, 64)?.outputCC).toBe(0);
+  });
+
+  it('should toggle the shift layer on each press in latch mode', () => {
+    const config = loadConfig();
+    config.shift = {
+      button: 'transport.cycle',
+      mode: 'latch',
+      tracks: Array.from({ length: 8 }, () => ({})),
+      transport: {},
+    };
+    const engine = new MappingEngine(config);
+
+    engine.processCC(0, 46, 127);
+    engine.processCC(0, 46, 0);
+    expect(engine.isShiftActive()).toBe(true);
+
+    engine.processCC(0, 46, 127);
+    engine.processCC(0, 46, 0);
+    expect(engine.isShiftActive()).toBe(false);
+  });
+
+  it('should page the track strips between banks with track_left/track_right', () => {
+    const config = loadConfig();
+    config.banks = [structuredClone(config.tracks)];
+    const bankTrack = config.banks[0]?.[0];
+    if (bankTrack) {
+      bankTrack.knob = { ...bankTrack.knob, outputCC: 90, minValue: 0, maxValue: 127 };
+    }
+    const engine = new MappingEngine(config);
+    const { track_left, track_right } = config.transport;
+
+    expect(engine.processCC(0, 16, 127)).toMatchObject({ outputCC: 74, controlType: 'track1.knob' });
+
+    // Paging buttons send nothing themselves
+    expect(engine.processCC(0, track_right.inputCC, 127)).toBeNull();
+    expect(engine.getBank()).toBe(1);
+    expect(engine.processCC(0, 16, 127)).toMatchObject({ outputCC: 90, controlType: 'track9.knob', value: 127 });
+
+    // Paging past the last bank does nothing
+    engine.processCC(0, track_right.inputCC, 127);
+    expect(engine.getBank()).toBe(1);
+
+    engine.processCC(0, track_left.inputCC, 127);
+    expect(engine.getBank()).toBe(0);
+    expect(engine.processCC(0, 16, 127)?.controlType).toBe('track1.knob');
+  });
+
+  it('should keep button states and values per bank', () => {
+    const config = loadConfig();
+    config.banks = [structuredClone(config.tracks)];
+    const engine = new MappingEngine(config);
+
+    engine.processCC(0, 32, 127);
+    expect(engine.getButtonState(32)).toBe(true);
+
+    // Controls of an inactive bank are sent and remembered for when it is paged in
+    expect(engine.processControl('track9.knob', 100)?.controlType).toBe('track9.knob');
+    engine.processControl('track9.mute', 127);
+
+    engine.setBank(1);
+    expect(engine.getButtonState(32)).toBe(false);
+    expect(engine.getBankValues()).toMatchObject({ 'track9.knob': 100, 'track9.mute': 127, 'track9.solo': 0 });
+
+    engine.setBank(0);
+    expect(engine.getButtonState(32)).toBe(true);
+  });
+
+  it('should turn off the other buttons of a radio group', () => {
+    const config = loadConfig();
+    config.groups = [{ name: 'track_select', buttons: ['track1.solo', 'track2.solo', 'track3.solo'] }];
+    const engine = new MappingEngine(config);
+    const stateChanges: Array<{ cc: number; isOn: boolean }> = [];
+    engine.on('buttonStateChanged', ({ cc, isOn }) => stateChanges.push({ cc, isOn }));
+
+    expect(engine.processCC(0, 32, 127)?.released).toBeUndefined();
+
+    // Pressing solo 2 releases solo 1 with its off value (track 1 solo sends 10 when off)
+    const processed = engine.processCC(0, 33, 127);
+    expect(processed).toMatchObject({ controlType: 'track2.solo', buttonState: true });
+    expect(processed?.released).toEqual([
+      expect.objectContaining({ controlType: 'track1.solo', outputCC: 32, value: 10, buttonState: false }),
+    ]);
+    expect(engine.getButtonState(32)).toBe(false);
+    expect(engine.getButtonState(33)).toBe(true);
+    expect(stateChanges).toContainEqual({ cc: 32, isOn: false });
+
+    // Turning the active button off leaves the group empty
+    expect(engine.processCC(0, 33, 127)?.released).toBeUndefined();
+    expect(engine.getButtonState(33)).toBe(false);
+
+    // Buttons outside the group are unaffected
+    engine.processCC(0, 48, 127);
+    engine.processControl('track3.solo', 127);
+    expect(engine.getButtonState(48)).toBe(true);
+  });
+
+  it('should release radio group buttons on inactive banks', () => {
+    const config = loadConfig();
+    config.banks = [structuredClone(config.tracks)];
+    config.groups = [{ name: 'track_select', buttons: ['track1.solo', 'track9.solo'] }];
+    const engine = new MappingEngine(config);
+
+    engine.processControl('track9.solo', 127);
+    const processed = engine.processCC(0, 32, 127);
+    expect(processed?.released).toEqual([expect.objectContaining({ controlType: 'track9.solo', buttonState: false })]);
+
+    engine.setBank(1);
+    expect(engine.getBankValues()['track9.solo']).toBe(0);
+
+    // track9.solo shares CC 32 with track1.solo, now paged out
+    engine.processCC(0, 32, 127);
+    expect(engine.getBankValues()['track9.solo']).toBe(127);
+    engine.setBank(0);
+    expect(engine.getButtonState(32)).toBe(false);
+  });
+
+  it('should match controls by input channel', () => {
+    const config = loadConfig();
+    const [track1, track2] = config.tracks;
+    if (track1 && track2) {
+      track1.knob = { ...track1.knob, inputChannel: 2 };
+      // track2.solo shares CC 32 with track1.solo, but only on channel 2
+      track2.solo = { ...track2.solo, inputCC: 32, inputChannel: 2 };
+    }
+    const engine = new MappingEngine(config);
+
+    expect(engine.processCC(0, 16, 64)).toBeNull();
+    expect(engine.processCC(1, 16, 64)).toMatchObject({ controlType: 'track1.knob', inputCC: 16 });
+
+    // A control bound to the channel wins over one that accepts any channel
+    expect(engine.processCC(1, 32, 127)).toMatchObject({ controlType: 'track2.solo', inputCC: 32 });
+    expect(engine.processCC(5, 32, 127)).toMatchObject({ controlType: 'track1.solo', inputCC: 32 });
+    expect(engine.getControlType(32, 2)).toBe('track2.solo');
+    expect(engine.getControlType(32)).toBe('track1.solo');
+
+    engine.setButtonState(32, false, 2);
+    expect(engine.getButtonState(32, 2)).toBe(false);
+    expect(engine.getButtonState(32)).toBe(true);
+  });
+
+  it('should warn when two controls receive the same channel and CC', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = loadConfig();
+    const track2 = config.tracks[1];
+    if (track2) {
+      track2.solo = { ...track2.solo, inputCC: 32 };
+    }
+    new MappingEngine(config);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('track2.solo and track1.solo both receive CC 32 on any channel'));
+    warn.mockRestore();
+  });
+
+  it('should recall scenes from their buttons instead of sending the buttons', () => {
+    const config = loadConfig();
+    config.scenes = [
+      { name: 'Verse', values: { 'track1.knob': 10 }, morphMs: 0, button: 'transport.marker_set' },
+      { name: 'Chorus', values: { 'track1.knob': 90 }, morphMs: 500, button: 'track2.solo' },
+    ];
+    const engine = new MappingEngine(config);
+    const recalled: number[] = [];
+    engine.on('sceneRecall', ({ scene }) => recalled.push(scene));
+
+    expect(engine.processCC(0, 60, 127)).toBeNull();
+    expect(engine.processCC(0, 60, 0)).toBeNull();
+    expect(engine.processCC(0, 33, 127)).toBeNull();
+    expect(engine.processControl('track2.solo', 127)).toBeNull();
+    expect(recalled).toEqual([0, 1]);
+
+    // The recalled scene's button is lit
+    engine.setActiveScene(1);
+    expect(engine.getButtonState(33)).toBe(true);
+    expect(engine.getButtonState(60)).toBe(false);
+  });
+});
+
+describe('MappingEngine button behaviors', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Creates an engine whose track 1 rec button (CC 64) has the given mapping options.
+   */
+  function createEngine(rec: Partial<MappingEntry>): { engine: MappingEngine; timed: ProcessedMessage[] } {
+    const config = loadConfig();
+    const track1 = config.tracks[0];
+    if (track1) {
+      track1.rec = { ...track1.rec, ...rec };
+    }
+    const engine = new MappingEngine(config);
+    const timed: ProcessedMessage[] = [];
+    engine.on('timedOutput', (processed: ProcessedMessage) => timed.push(processed));
+    return { engine, timed };
+  }
+
+  it('should send on then off for trigger buttons', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'trigger' });
+
+    expect(engine.processCC(0, 64, 127)).toMatchObject({ outputCC: 64, value: 127, buttonState: true });
+    expect(engine.processCC(0, 64, 0)).toBeNull();
+    expect(engine.getButtonState(64)).toBe(true);
+
+    vi.advanceTimersByTime(50);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 64, value: 0, buttonState: false })]);
+    expect(engine.getButtonState(64)).toBe(false);
+  });
+
+  it('should not end a trigger pulse after the mapping is reloaded', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'trigger' });
+    const outputs: ProcessedMessage[] = [];
+    engine.on('output', (processed: ProcessedMessage) => outputs.push(processed));
+
+    engine.processCC(0, 64, 127);
+    engine.updateConfig(loadConfig());
+    vi.advanceTimersByTime(50);
+
+    expect(timed).toEqual([]);
+    expect(outputs).toEqual([expect.objectContaining({ outputCC: 64, value: 127 })]);
+  });
+
+  it('should restart a trigger pulse pressed again', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'trigger' });
+
+    engine.processCC(0, 64, 127);
+    vi.advanceTimersByTime(30);
+    engine.processCC(0, 64, 127);
+    vi.advanceTimersByTime(30);
+    expect(timed).toEqual([]);
+
+    vi.advanceTimersByTime(20);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 64, value: 0 })]);
+  });
+
+  it('should step through the values of cycle buttons', () => {
+    const { engine } = createEngine({ behavior: 'cycle', cycleValues: [0, 40, 80] });
+
+    expect(engine.processCC(0, 64, 127)).toMatchObject({ value: 40, buttonState: true });
+    expect(engine.processCC(0, 64, 0)).toBeNull();
+    expect(engine.processCC(0, 64, 127)?.value).toBe(80);
+    expect(engine.processCC(0, 64, 127)).toMatchObject({ value: 0, buttonState: false });
+    expect(engine.getButtonState(64)).toBe(false);
+
+    // The GUI resets to the first value with 0
+    engine.processControl('track1.rec', 127);
+    expect(engine.processControl('track1.rec', 0)?.value).toBe(0);
+  });
+
+  it('should tell short and long presses apart', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'longpress', altOutputCC: 100, gestureMs: 400 });
+
+    // Short press: the release triggers the output
+    expect(engine.processCC(0, 64, 127)).toBeNull();
+    vi.advanceTimersByTime(200);
+    expect(engine.processCC(0, 64, 0)).toMatchObject({ outputCC: 64, value: 127 });
+    vi.advanceTimersByTime(50);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 64, value: 0 })]);
+
+    // Long press: the alternate output is on until released
+    timed.length = 0;
+    engine.processCC(0, 64, 127);
+    vi.advanceTimersByTime(400);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 100, value: 127 })]);
+    expect(engine.getButtonState(64)).toBe(true);
+    expect(engine.processCC(0, 64, 0)).toMatchObject({ outputCC: 100, value: 0 });
+    expect(engine.getButtonState(64)).toBe(false);
+  });
+
+  it('should detect double taps', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'doubletap', altOutputCC: 101 });
+
+    // Single tap: triggered once the window has passed
+    expect(engine.processCC(0, 64, 127)).toBeNull();
+    engine.processCC(0, 64, 0);
+    vi.advanceTimersByTime(300);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 64, value: 127 })]);
+
+    // Double tap: the second press triggers the alternate output
+    vi.advanceTimersByTime(50);
+    timed.length = 0;
+    engine.processCC(0, 64, 127);
+    engine.processCC(0, 64, 0);
+    vi.advanceTimersByTime(100);
+    expect(engine.processCC(0, 64, 127)).toMatchObject({ outputCC: 101, value: 127 });
+    vi.advanceTimersByTime(1000);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 101, value: 0 })]);
+  });
+  it('should not fire timed buttons when loading a preset', () => {
+    vi.useFakeTimers();
+
+    for (const behavior of ['trigger', 'longpress', 'doubletap'] as const) {
+      const { engine, timed } = createEngine({ behavior, altOutputCC: 100 });
+
+      expect(engine.processControl('track1.rec', 127)).toBeNull();
+      expect(engine.processControl('track1.rec', 0)).toBeNull();
+      vi.advanceTimersByTime(1000);
+      expect(timed).toEqual([]);
+    }
+  });
+
+  it('should fire trigger buttons clicked in the GUI', () => {
+    vi.useFakeTimers();
+    const { engine, timed } = createEngine({ behavior: 'trigger' });
+
+    expect(engine.processControl('track1.rec', 127, { press: true })).toMatchObject({ outputCC: 64, value: 127 });
+    vi.advanceTimersByTime(50);
+    expect(timed).toEqual([expect.objectContaining({ outputCC: 64, value: 0 })]);
+  });
+
+  it('should restore cycle buttons to their position when loading a preset', () => {
+    const { engine } = createEngine({ behavior: 'cycle', cycleValues: [0, 40, 80] });
+    const outputs: ProcessedMessage[] = [];
+    engine.on('output', (processed: ProcessedMessage) => outputs.push(processed));
+
+    expect(engine.processControl('track1.rec', 127, { cycleStep: 2 })).toMatchObject({ value: 80, cycleStep: 2, buttonState: true });
+    expect(outputs[0]).toMatchObject({ value: 80, cycleStep: 2 });
+    expect(engine.processCC(0, 64, 127)).toMatchObject({ value: 0, cycleStep: 0 });
+
+    // Without a stored position, loading the same state twice does not step forward
+    expect(engine.processControl('track1.rec', 127)).toMatchObject({ value: 40, cycleStep: 1 });
+    expect(engine.processControl('track1.rec', 127)).toMatchObject({ value: 40, cycleStep: 1 });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the midi-file module.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { writeMidiFile, readMidiFile } from '../src/main/services/midi-file.js';
+import type { AutomationEvent, MidiFileOptions } from '../src/shared/ipc-protocol.js';
+
+const OPTIONS: MidiFileOptions = { format: 1, ppq: 480, bpm: 120, trackPer: 'control' };
+
+/** Creates a recorded output CC */
+function cc(time: number, number: number, value: number, channel = 1, controlType?: string): AutomationEvent {
+  const event: AutomationEvent = { time, source: 'output', messageType: 'cc', channel, number, value };
+  if (controlType) {
+    event.controlType = controlType;
+  }
+  return event;
+}
+
+/** Counts the MTrk chunks of a file */
+function countTracks(data: Uint8Array): number {
+  return Buffer.from(data).toString('latin1').split('MTrk').length - 1;
+}
+
+describe('writeMidiFile', () => {
+  it('should write the header with format, track count and PPQ', () => {
+    const data = writeMidiFile([cc(0, 74, 64)], OPTIONS);
+
+    expect(Buffer.from(data.subarray(0, 4)).toString('latin1')).toBe('MThd');
+    expect(Array.from(data.subarray(8, 14))).toEqual([0, 1, 0, 2, 0x01, 0xe0]);
+  });
+
+  it('should put everything on one track for type 0', () => {
+    const data = writeMidiFile([cc(0, 74, 64), cc(10, 71, 1, 2)], { ...OPTIONS, format: 0 });
+
+    expect(data[9]).toBe(0);
+    expect(countTracks(data)).toBe(1);
+  });
+
+  it('should write a track per control or per channel for type 1', () => {
+    const events = [
+      cc(0, 74, 1, 1, 'track1.knob'),
+      cc(10, 71, 2, 1, 'track2.knob'),
+      cc(20, 74, 3, 1, 'track1.knob'),
+      cc(30, 10, 4, 2, 'track3.knob'),
+    ];
+
+    expect(countTracks(writeMidiFile(events, OPTIONS))).toBe(4);
+    expect(countTracks(writeMidiFile(events, { ...OPTIONS, trackPer: 'channel' }))).toBe(3);
+  });
+
+  it('should skip input messages', () => {
+    const input: AutomationEvent = { ...cc(0, 16, 64), source: 'input' };
+
+    expect(readMidiFile(writeMidiFile([input, cc(0, 74, 64)], OPTIONS)).events).toEqual([cc(0, 74, 64)]);
+  });
+
+  it('should write NRPN outputs as their CC sequence', () => {
+    const nrpn: AutomationEvent = { time: 0, source: 'output', messageType: 'nrpn', channel: 1, number: 1234, value: 8192 };
+
+    const { events } = readMidiFile(writeMidiFile([nrpn], OPTIONS));
+
+    expect(events.map((event) => [event.number, event.value])).toEqual([
+      [99, 1234 >> 7],
+      [98, 1234 & 0x7f],
+      [6, 64],
+      [38, 0],
+    ]);
+  });
+
+  it('should reject an invalid tempo', () => {
+    expect(() => writeMidiFile([], { ...OPTIONS, bpm: 0 })).toThrow('Invalid tempo');
+  });
+});
+
+describe('readMidiFile', () => {
+  it('should read back CC lanes with their times', () => {
+    const events = [cc(0, 74, 0), cc(250, 74, 64), cc(500, 71, 127, 3), cc(1000, 74, 127)];
+
+    const content = readMidiFile(writeMidiFile(events, { ...OPTIONS, trackPer: 'channel' }));
+
+    expect(content.events).toEqual(events);
+    expect(content.duration).toBe(1000);
+  });
+
+  it('should convert ticks with the file tempo', () => {
+    const data = writeMidiFile([cc(0, 1, 0), cc(1000, 1, 127)], { ...OPTIONS, bpm: 90, ppq: 96 });
+
+    expect(readMidiFile(data).events.map((event) => event.time)).toEqual([0, 1000]);
+  });
+
+  it('should read running status', () => {
+    // One track: CC 74 = 10, then (running status) CC 74 = 20 one quarter note later
+    const track = [0x00, 0xb0, 74, 10, 0x60, 74, 20, 0x00, 0xff, 0x2f, 0x00];
+    const data = Uint8Array.from([
+      ...Buffer.from('MThd'), 0, 0, 0, 6, 0, 0, 0, 1, 0, 96,
+      ...Buffer.from('MTrk'), 0, 0, 0, track.length, ...track,
+    ]);
+
+    expect(readMidiFile(data).events).toEqual([cc(0, 74, 10), cc(500, 74, 20)]);
+  });
+
+  it('should reject data that is not a MIDI file', () => {
+    expect(() => readMidiFile(Uint8Array.from(Buffer.from('RIFF0000')))).toThrow('Not a Standard MIDI File');
+  });
+
+  it('should reject SMPTE timing', () => {
+    const data = Uint8Array.from([...Buffer.from('MThd'), 0, 0, 0, 6, 0, 0, 0, 0, 0xe7, 0x28]);
+
+    expect(() => readMidiFile(data)).toThrow('SMPTE');
+  });
+});
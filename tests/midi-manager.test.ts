@@ -0,0 +1,303 @@
+/**
+ * Tests for the midi-manager module, against simulated MIDI ports.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { MidiManager } from '../src/main/services/midi-manager.js';
+import { invalidatePortCache } from '../src/main/services/midi-discovery.js';
+import { parseMappingOrThrow } from '../src/main/services/config-parser.js';
+import { NANOKONTROL2_PROFILE } from '../src/shared/profiles.js';
+import type { DeviceProfile, MappingConfig } from '../src/shared/types.js';
+import type { MidiCCEvent, MidiLearnEvent } from '../src/shared/ipc-protocol.js';
+
+/**
+ * Simulated MIDI system standing in for easymidi: the ports it lists, and
+ * the ports opened on it, which CC messages can be played into.
+ */
+const midi = vi.hoisted(() => {
+  type Listener = (msg: { channel: number; controller: number; value: number }) => void;
+
+  const state = {
+    inputPorts: [] as string[],
+    outputPorts: [] as string[],
+    inputs: [] as FakeInput[],
+    outputs: [] as FakeOutput[],
+  };
+
+  class FakeInput {
+    listeners: Record<string, Listener[]> = {};
+    closed = false;
+
+    constructor(readonly name: string, readonly virtual = false) {
+      state.inputs.push(this);
+    }
+
+    on(type: string, listener: Listener): void {
+      (this.listeners[type] ??= []).push(listener);
+    }
+
+    close(): void {
+      this.closed = true;
+    }
+  }
+
+  class FakeOutput {
+    sent: Array<{ type: string; msg: unknown }> = [];
+
+    constructor(readonly name: string, readonly virtual = false) {
+      state.outputs.push(this);
+    }
+
+    send(type: string, msg: unknown): void {
+      this.sent.push({ type, msg });
+    }
+
+    close(): void {}
+  }
+
+  /** Plays a CC message into every open input port with the given name */
+  function play(portName: string, controller: number, value: number, channel = 0): void {
+    for (const input of state.inputs.filter((port) => port.name === portName && !port.closed)) {
+      for (const listener of input.listeners.cc ?? []) {
+        listener({ channel, controller, value });
+      }
+    }
+  }
+
+  /** CC messages sent to the output ports with the given name */
+  function sentTo(portName: string): Array<{ type: string; msg: unknown }> {
+    return state.outputs.filter((port) => port.name === portName).flatMap((port) => port.sent);
+  }
+
+  return { state, FakeInput, FakeOutput, play, sentTo };
+});
+
+vi.mock('easymidi', () => ({
+  default: {
+    Input: midi.FakeInput,
+    Output: midi.FakeOutput,
+    getInputs: () => midi.state.inputPorts,
+    getOutputs: () => midi.state.outputPorts,
+  },
+}));
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const UNIT_1 = 'nanoKONTROL2:nanoKONTROL2 MIDI 1 24:0';
+const UNIT_2 = 'nanoKONTROL2:nanoKONTROL2 MIDI 1 28:0';
+const PAD = 'Test Pad:Test Pad MIDI 1 32:0';
+const SYNTH = 'Synth:Synth MIDI 1 40:0';
+
+/** A pad controller with one knob on track 1's knob slot */
+const PAD_PROFILE: DeviceProfile = {
+  id: 'test-pad',
+  name: 'Test Pad',
+  portPattern: '^test pad',
+  controls: { 'track1.knob': { cc: 1 } },
+  layout: { sections: [{ type: 'strips', count: 1 }] },
+};
+
+/**
+ * Loads the default mapping with track 1's knob sent to another CC.
+ */
+function loadConfig(knobOutputCC: number): MappingConfig {
+  const config = parseMappingOrThrow(readFileSync(join(__dirname, '..', 'mappings', 'default.txt'), 'utf-8'));
+  const track1 = config.tracks[0];
+  if (track1) {
+    track1.knob = { ...track1.knob, outputCC: knobOutputCC };
+  }
+  return config;
+}
+
+/**
+ * Plugs in units: each appears as an input and an output port of the same name.
+ */
+function plugIn(...portNames: string[]): void {
+  midi.state.inputPorts = [...portNames];
+  midi.state.outputPorts = [...portNames];
+  invalidatePortCache();
+}
+
+/**
+ * Creates a manager recognizing the nanoKONTROL2 and the pad controller, collecting its events.
+ */
+function createManager(): { manager: MidiManager; cc: MidiCCEvent[]; errors: unknown[] } {
+  const manager = new MidiManager([NANOKONTROL2_PROFILE, PAD_PROFILE]);
+  const cc: MidiCCEvent[] = [];
+  const errors: unknown[] = [];
+  manager.on('cc', (event: MidiCCEvent) => cc.push(event));
+  manager.on('error', (event) => errors.push(event));
+  return { manager, cc, errors };
+}
+
+beforeEach(() => {
+  midi.state.inputs = [];
+  midi.state.outputs = [];
+  plugIn();
+});
+
+describe('MidiManager devices', () => {
+  it('should always have a first device, even without a unit', () => {
+    const { manager, errors } = createManager();
+
+    expect(manager.connect()).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(manager.getStatus().devices).toEqual([expect.objectContaining({ id: '', connected: false, virtualPort: 'nkEditor3 Out' })]);
+
+    // Requests without a device ID go to the first device
+    manager.loadMapping(loadConfig(100));
+    expect(manager.getMapping()?.tracks[0]?.knob.outputCC).toBe(100);
+
+    // Disconnecting keeps it
+    manager.disconnect();
+    expect(manager.getStatus().devices).toHaveLength(1);
+  });
+
+  it('should run one device per unit found, with its profile and virtual port', () => {
+    plugIn(UNIT_1, UNIT_2, PAD);
+    const { manager } = createManager();
+
+    expect(manager.connect()).toBe(true);
+
+    expect(manager.getStatus().devices).toEqual([
+      expect.objectContaining({ id: UNIT_1, connected: true, profileId: 'nanokontrol2', virtualPort: 'nkEditor3 Out' }),
+      expect.objectContaining({ id: UNIT_2, connected: true, profileId: 'nanokontrol2', virtualPort: 'nkEditor3 Out 2' }),
+      expect.objectContaining({ id: PAD, connected: true, profileId: 'test-pad', virtualPort: 'nkEditor3 Out 3' }),
+    ]);
+    expect(manager.getCurrentPorts(UNIT_2)).toEqual({ input: UNIT_2, output: UNIT_2 });
+  });
+
+  it('should keep the bound devices when connecting again', () => {
+    plugIn(UNIT_1, UNIT_2);
+    const { manager } = createManager();
+    manager.connect();
+
+    manager.disconnect(UNIT_2);
+    expect(manager.connect(UNIT_2, UNIT_2)).toBe(true);
+    expect(manager.connect()).toBe(true);
+
+    expect(manager.getStatus().devices.map((device) => device.id)).toEqual([UNIT_1, UNIT_2]);
+  });
+
+  it('should keep a mapping per device', () => {
+    plugIn(UNIT_1, UNIT_2);
+    const { manager } = createManager();
+    manager.connect();
+
+    manager.loadMapping(loadConfig(100), UNIT_2);
+
+    expect(manager.getMapping(UNIT_1)?.tracks[0]?.knob.outputCC).toBe(16);
+    expect(manager.getMapping(UNIT_2)?.tracks[0]?.knob.outputCC).toBe(100);
+  });
+
+  it('should route hardware messages through their own device, tagged with its ID', () => {
+    plugIn(UNIT_1, UNIT_2);
+    const { manager, cc } = createManager();
+    manager.connect();
+    manager.loadMapping(loadConfig(100), UNIT_2);
+
+    midi.play(UNIT_2, 16, 64);
+
+    expect(cc).toEqual([expect.objectContaining({ deviceId: UNIT_2, controlType: 'track1.knob', outputCC: 100 })]);
+    expect(midi.sentTo('nkEditor3 Out 2')).toEqual([{ type: 'cc', msg: { channel: 0, controller: 100, value: 64 } }]);
+    expect(midi.sentTo('nkEditor3 Out')).toEqual([]);
+  });
+
+  it('should route GUI controls by device ID, and ignore unknown devices', () => {
+    plugIn(UNIT_1, UNIT_2);
+    const { manager } = createManager();
+    manager.connect();
+    manager.loadMapping(loadConfig(100), UNIT_2);
+
+    expect(manager.sendControl('track1.knob', 127, {}, UNIT_2)).toBe(true);
+    expect(manager.sendControl('track1.knob', 127)).toBe(true);
+    expect(manager.sendControl('track1.knob', 127, {}, 'Unplugged unit')).toBe(false);
+
+    expect(midi.sentTo('nkEditor3 Out 2')).toEqual([{ type: 'cc', msg: { channel: 0, controller: 100, value: 127 } }]);
+    expect(midi.sentTo('nkEditor3 Out')).toEqual([{ type: 'cc', msg: { channel: 0, controller: 16, value: 127 } }]);
+    expect(() => manager.loadMapping(loadConfig(1), 'Unplugged unit')).toThrow('Unknown MIDI device: Unplugged unit');
+  });
+});
+
+describe('MidiManager MIDI Learn', () => {
+  /**
+   * Creates a manager connected to one nanoKONTROL2, collecting its learn events.
+   */
+  function createLearningManager(): { manager: MidiManager; cc: MidiCCEvent[]; learned: MidiLearnEvent[] } {
+    plugIn(UNIT_1);
+    const { manager, cc } = createManager();
+    manager.connect();
+    const learned: MidiLearnEvent[] = [];
+    manager.on('learn', (event: MidiLearnEvent) => learned.push(event));
+    return { manager, cc, learned };
+  }
+
+  /** Waits for the learn port to close (it closes outside its message callback) */
+  const portsClosed = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should capture a CC from the hardware instead of processing it', () => {
+    const { manager, cc, learned } = createLearningManager();
+
+    manager.startLearn('input');
+    midi.play(UNIT_1, 16, 64, 1);
+
+    expect(learned).toEqual([{ target: 'input', cc: 16, channel: 2, deviceId: UNIT_1 }]);
+    expect(cc).toEqual([]);
+    expect(midi.sentTo('nkEditor3 Out')).toEqual([]);
+
+    // Learning ends with the captured CC
+    midi.play(UNIT_1, 16, 64);
+    expect(learned).toHaveLength(1);
+    expect(cc).toEqual([expect.objectContaining({ controlType: 'track1.knob' })]);
+  });
+
+  it('should capture a CC from an output port, or from the virtual input without one', async () => {
+    const { manager, learned } = createLearningManager();
+
+    manager.startLearn('output', SYNTH);
+    midi.play(SYNTH, 74, 10);
+    await portsClosed();
+
+    expect(learned).toEqual([{ target: 'output', cc: 74, channel: 1, deviceId: UNIT_1 }]);
+    expect(midi.state.inputs.find((port) => port.name === SYNTH)?.closed).toBe(true);
+
+    manager.startLearn('output');
+    midi.play('nkEditor3 In', 20, 127, 15);
+
+    expect(learned[1]).toEqual({ target: 'output', cc: 20, channel: 16, deviceId: UNIT_1 });
+  });
+
+  it('should replace a pending learn with a new one', async () => {
+    const { manager, learned } = createLearningManager();
+
+    manager.startLearn('output', SYNTH);
+    manager.startLearn('input');
+    await portsClosed();
+    midi.play(SYNTH, 74, 10);
+    midi.play(UNIT_1, 32, 127);
+
+    expect(learned).toEqual([{ target: 'input', cc: 32, channel: 1, deviceId: UNIT_1 }]);
+    expect(midi.state.inputs.find((port) => port.name === SYNTH)?.closed).toBe(true);
+  });
+
+  it('should process CCs normally after cancelling', () => {
+    const { manager, cc, learned } = createLearningManager();
+
+    manager.startLearn('input');
+    manager.cancelLearn();
+    midi.play(UNIT_1, 16, 64);
+
+    expect(learned).toEqual([]);
+    expect(cc).toEqual([expect.objectContaining({ deviceId: UNIT_1, controlType: 'track1.knob' })]);
+    expect(midi.sentTo('nkEditor3 Out')).toEqual([{ type: 'cc', msg: { channel: 0, controller: 16, value: 64 } }]);
+  });
+
+  it('should fail to learn from hardware without a connected unit', () => {
+    const { manager } = createManager();
+
+    expect(() => manager.startLearn('input')).toThrow('No controller connected to learn from');
+  });
+});
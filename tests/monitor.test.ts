@@ -0,0 +1,145 @@
+/**
+ * Tests for the monitor store's message log, filters and exports.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  useMonitorStore,
+  MAX_MONITOR_ENTRIES,
+  filterMonitorEntries,
+  formatMonitorNumber,
+  monitorEntriesToCsv,
+  monitorEntriesToJson,
+} from '../src/renderer/stores/monitor.js';
+import type { MonitorEntry } from '../src/renderer/stores/monitor.js';
+import type { MidiMonitorEvent, MonitorSource } from '../src/shared/ipc-protocol.js';
+
+const ALL_SOURCES: Record<MonitorSource, boolean> = { input: true, output: true, led: true, feedback: true };
+
+/**
+ * Creates a log entry of a hardware knob movement, with the given fields changed.
+ */
+function createEntry(id: number, fields: Partial<MidiMonitorEvent> = {}): MonitorEntry {
+  return {
+    id,
+    source: 'input',
+    timestamp: Date.UTC(2026, 0, 1, 12, 0, 0, id),
+    messageType: 'cc',
+    channel: 1,
+    number: 16,
+    value: 64,
+    controlType: 'track1.knob',
+    label: 'Cutoff',
+    deviceId: 'nanoKONTROL2 1',
+    ...fields,
+  };
+}
+
+describe('filterMonitorEntries', () => {
+  const entries = [
+    createEntry(1),
+    createEntry(2, { source: 'output', messageType: 'nrpn', controlType: 'track1.slider', label: 'Volume' }),
+    createEntry(3, { source: 'led', controlType: 'track1.solo', label: undefined }),
+    createEntry(4, { source: 'feedback', controlType: undefined, label: undefined }),
+  ];
+
+  it('should match the text against the control type, label and message type, ignoring case', () => {
+    expect(filterMonitorEntries(entries, ' VOLUME ', ALL_SOURCES).map((entry) => entry.id)).toEqual([2]);
+    expect(filterMonitorEntries(entries, 'track1.s', ALL_SOURCES).map((entry) => entry.id)).toEqual([2, 3]);
+    expect(filterMonitorEntries(entries, 'nrpn', ALL_SOURCES).map((entry) => entry.id)).toEqual([2]);
+    expect(filterMonitorEntries(entries, '', ALL_SOURCES)).toEqual(entries);
+  });
+
+  it('should only show the selected sources', () => {
+    const sources = { ...ALL_SOURCES, led: false, feedback: false };
+
+    expect(filterMonitorEntries(entries, '', sources).map((entry) => entry.id)).toEqual([1, 2]);
+    expect(filterMonitorEntries(entries, 'solo', sources)).toEqual([]);
+  });
+});
+
+describe('formatMonitorNumber', () => {
+  it('should write hex with two digits, or four for 14-bit values', () => {
+    expect(formatMonitorNumber(10, 'decimal')).toBe('10');
+    expect(formatMonitorNumber(10, 'hex')).toBe('0A');
+    expect(formatMonitorNumber(16383, 'hex')).toBe('3FFF');
+  });
+});
+
+describe('monitorEntriesToCsv', () => {
+  it('should write a header and one line per message', () => {
+    const csv = monitorEntriesToCsv([createEntry(1), createEntry(2, { controlType: undefined, label: undefined })]);
+
+    expect(csv.split('\n')).toEqual([
+      'time,device,source,type,channel,number,value,control,label',
+      '2026-01-01T12:00:00.001Z,nanoKONTROL2 1,input,cc,1,16,64,track1.knob,Cutoff',
+      '2026-01-01T12:00:00.002Z,nanoKONTROL2 1,input,cc,1,16,64,,',
+      '',
+    ]);
+  });
+
+  it('should quote fields with commas, quotes or line breaks', () => {
+    const csv = monitorEntriesToCsv([createEntry(1, { label: 'Say "hi", then\nbye' })]);
+
+    expect(csv).toContain(',track1.knob,"Say ""hi"", then\nbye"\n');
+  });
+});
+
+describe('monitorEntriesToJson', () => {
+  it('should write the messages as an array', () => {
+    const entries = [createEntry(1), createEntry(2, { source: 'output' })];
+
+    expect(JSON.parse(monitorEntriesToJson(entries))).toEqual(entries);
+  });
+});
+
+describe('useMonitorStore', () => {
+  let emit: (event: MidiMonitorEvent) => void = () => {};
+  const setMonitoring = vi.fn(() => Promise.resolve());
+
+  beforeEach(() => {
+    setMonitoring.mockClear();
+    vi.stubGlobal('window', {
+      electronAPI: {
+        setMonitoring,
+        onMidiMonitor: (callback: (event: MidiMonitorEvent) => void) => {
+          emit = callback;
+          return () => {};
+        },
+      },
+    });
+    useMonitorStore.setState({ entries: [], active: false, paused: false });
+    useMonitorStore.getState().initialize();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep only the newest messages', () => {
+    for (let i = 0; i < MAX_MONITOR_ENTRIES + 5; i++) {
+      emit(createEntry(0, { value: i % 128, timestamp: i }));
+    }
+
+    const { entries } = useMonitorStore.getState();
+    expect(entries).toHaveLength(MAX_MONITOR_ENTRIES);
+    expect(entries[0]?.timestamp).toBe(5);
+    expect(new Set(entries.map((entry) => entry.id)).size).toBe(MAX_MONITOR_ENTRIES);
+  });
+
+  it('should drop messages and stop streaming while paused', () => {
+    const store = useMonitorStore.getState();
+    store.setActive(true);
+    store.setPaused(true);
+    emit(createEntry(0));
+
+    expect(useMonitorStore.getState().entries).toEqual([]);
+    expect(setMonitoring).toHaveBeenLastCalledWith({ enabled: false });
+
+    store.setPaused(false);
+    emit(createEntry(0));
+
+    expect(useMonitorStore.getState().entries).toHaveLength(1);
+    expect(setMonitoring).toHaveBeenLastCalledWith({ enabled: true });
+  });
+});
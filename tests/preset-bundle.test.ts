@@ -0,0 +1,183 @@
+/**
+ * Tests for the preset-bundle module.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  writeZip,
+  readZip,
+  writePresetFile,
+  writeMappingFile,
+  writePresetBundle,
+  readPresetImport,
+  findPresetConflict,
+  resolvePresetImport,
+  BUNDLE_MANIFEST_FILE,
+} from '../src/main/services/preset-bundle.js';
+import { createDefaultPreset } from '../src/shared/schemas.js';
+import type { Preset } from '../src/shared/ipc-protocol.js';
+
+/**
+ * Creates a preset with a fixed ID.
+ */
+function createPreset(id: string, name: string): Preset {
+  const preset = createDefaultPreset(name);
+  preset.metadata.id = id;
+  return preset;
+}
+
+/**
+ * Encodes text as file contents.
+ */
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+describe('zip archives', () => {
+  it('should read back the files written', () => {
+    const entries = [
+      { name: 'a.txt', data: encode('hello') },
+      { name: 'folder/b.json', data: encode('{"x":1}'.repeat(100)) },
+      { name: 'empty', data: new Uint8Array(0) },
+    ];
+
+    expect(readZip(writeZip(entries))).toEqual(entries);
+  });
+
+  it('should reject data that is not a zip file', () => {
+    expect(() => readZip(encode('not a zip'))).toThrow('Not a zip file');
+  });
+
+  it('should detect corrupt entries', () => {
+    const zip = writeZip([{ name: 'a.txt', data: encode('hello hello hello') }]);
+    // Flip a byte of the CRC stored in the central directory
+    const view = new DataView(zip.buffer);
+    const centralOffset = view.getUint32(zip.length - 6, true);
+    zip[centralOffset + 16] = (zip[centralOffset + 16] ?? 0) ^ 0xff;
+
+    expect(() => readZip(zip)).toThrow('checksum mismatch');
+  });
+});
+
+describe('preset files', () => {
+  it('should read a single preset file', () => {
+    const preset = createPreset('preset_a', 'Bass');
+
+    const content = readPresetImport(writePresetFile(preset));
+
+    expect(content.presets).toEqual([preset]);
+    expect(content.invalid).toEqual([]);
+  });
+
+  it('should read back the presets of a bundle with its manifest', () => {
+    const presets = [createPreset('preset_a', 'Bass'), createPreset('preset_b', 'Lead')];
+    const bundle = writePresetBundle(presets);
+
+    const manifest = readZip(bundle).find((entry) => entry.name === BUNDLE_MANIFEST_FILE);
+    expect(JSON.parse(new TextDecoder().decode(manifest?.data)).presets).toEqual([
+      { id: 'preset_a', name: 'Bass', file: 'presets/preset_a.json' },
+      { id: 'preset_b', name: 'Lead', file: 'presets/preset_b.json' },
+    ]);
+    expect(readPresetImport(bundle).presets).toEqual(presets);
+  });
+
+  it('should report invalid and missing presets of a bundle and keep the valid ones', () => {
+    const valid = createPreset('preset_a', 'Bass');
+    const manifest = {
+      format: 'nkeditor3-presets',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      presets: [
+        { id: 'preset_a', name: 'Bass', file: 'presets/a.json' },
+        { id: 'preset_b', name: 'Broken', file: 'presets/b.json' },
+        { id: 'preset_c', name: 'Gone', file: 'presets/c.json' },
+      ],
+    };
+    const bundle = writeZip([
+      { name: BUNDLE_MANIFEST_FILE, data: encode(JSON.stringify(manifest)) },
+      { name: 'presets/a.json', data: writePresetFile(valid) },
+      { name: 'presets/b.json', data: encode(JSON.stringify({ metadata: { id: 'preset_b' } })) },
+    ]);
+
+    const content = readPresetImport(bundle);
+
+    expect(content.presets).toEqual([valid]);
+    expect(content.invalid).toHaveLength(2);
+    expect(content.invalid[0]).toMatch(/^Broken \(presets\/b\.json\): metadata\./);
+    expect(content.invalid[1]).toBe('Gone (presets/c.json): missing from the bundle');
+  });
+
+  it('should read a text mapping file as a new preset named after the file', () => {
+    const preset = createPreset('preset_a', 'Bass');
+    const knob = preset.mapping.tracks[0]?.knob;
+    if (knob) knob.label = 'Cutoff';
+
+    const content = readPresetImport(writeMappingFile(preset), 'Live Set.txt');
+
+    expect(content.presets).toHaveLength(1);
+    expect(content.presets[0]?.metadata.id).not.toBe('preset_a');
+    expect(content.presets[0]?.metadata.name).toBe('Live Set');
+    expect(content.presets[0]?.mapping).toEqual(preset.mapping);
+    expect(() => readPresetImport(encode('[track1]'), 'broken.txt')).toThrow('Invalid mapping file');
+  });
+
+  it('should read a KORG KONTROL Editor scene file as a new preset named after the file', () => {
+    // All-zero scene data: every control unassigned, LEDs in internal mode
+    const content = readPresetImport(new Uint8Array(339), 'My Scene.nktrl2_data');
+
+    expect(content.presets[0]?.metadata.name).toBe('My Scene');
+    expect(content.presets[0]?.metadata.description).toContain('LED mode: internal.');
+    expect(content.presets[0]?.metadata.description).toMatch(/track1\.knob, .* and 43 more\.$/);
+  });
+
+  it('should reject files that are neither presets nor bundles', () => {
+    expect(() => readPresetImport(encode('{ nope'))).toThrow('Not a preset file');
+    expect(() => readPresetImport(encode('{"name":"x"}'))).toThrow('Invalid preset');
+    expect(() => readPresetImport(writeZip([{ name: 'x.json', data: encode('{}') }]))).toThrow(
+      'manifest.json is missing'
+    );
+  });
+});
+
+describe('import conflicts', () => {
+  const library = [createPreset('preset_a', 'Bass').metadata, createPreset('preset_b', 'Lead').metadata];
+
+  it('should find collisions by ID first, then by name ignoring case', () => {
+    expect(findPresetConflict(createPreset('preset_a', 'Other'), library)).toEqual({
+      conflict: 'id',
+      existing: library[0],
+    });
+    expect(findPresetConflict(createPreset('preset_x', 'LEAD'), library)).toEqual({
+      conflict: 'name',
+      existing: library[1],
+    });
+    expect(findPresetConflict(createPreset('preset_x', 'Pad'), library)).toBeNull();
+  });
+
+  it('should rename a colliding preset to a free ID and name', () => {
+    const resolved = resolvePresetImport(createPreset('preset_a', 'Bass'), 'rename', library);
+
+    expect(resolved?.metadata.id).not.toBe('preset_a');
+    expect(resolved?.metadata.name).toBe('Bass copy');
+  });
+
+  it('should keep the ID when only the name collides', () => {
+    const resolved = resolvePresetImport(createPreset('preset_x', 'Lead'), 'rename', library);
+
+    expect(resolved?.metadata.id).toBe('preset_x');
+    expect(resolved?.metadata.name).toBe('Lead copy');
+  });
+
+  it('should overwrite the colliding preset by taking its ID', () => {
+    expect(resolvePresetImport(createPreset('preset_x', 'Lead'), 'overwrite', library)?.metadata.id).toBe('preset_b');
+    expect(resolvePresetImport(createPreset('preset_a', 'New'), 'overwrite', library)?.metadata.id).toBe('preset_a');
+  });
+
+  it('should store presets without a collision as they are, and skip on request', () => {
+    const preset = createPreset('preset_x', 'Pad');
+
+    expect(resolvePresetImport(preset, 'rename', library)).toBe(preset);
+    expect(resolvePresetImport(preset, 'overwrite', library)).toBe(preset);
+    expect(resolvePresetImport(preset, 'skip', library)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for the scene-morpher module.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SceneMorpher } from '../src/main/services/scene-morpher.js';
+
+describe('SceneMorpher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should glide each control to its scene value at the given rate', () => {
+    vi.useFakeTimers();
+    const morpher = new SceneMorpher();
+    const sent: Array<Record<string, number>> = [];
+    const onEnd = vi.fn();
+
+    morpher.start({ 'track1.knob': 0, 'track1.slider': 100 }, { 'track1.knob': 100, 'track1.slider': 0 }, 1000, 4, (values) => sent.push(values), onEnd);
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(250);
+    expect(sent).toEqual([{ 'track1.knob': 25, 'track1.slider': 75 }]);
+
+    vi.advanceTimersByTime(750);
+    expect(sent.at(-1)).toEqual({ 'track1.knob': 100, 'track1.slider': 0 });
+    expect(sent).toHaveLength(4);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(morpher.isMorphing()).toBe(false);
+  });
+
+  it('should only send values that changed', () => {
+    vi.useFakeTimers();
+    const morpher = new SceneMorpher();
+    const sent: Array<Record<string, number>> = [];
+
+    morpher.start({ 'track1.knob': 0, 'track2.knob': 50 }, { 'track1.knob': 2, 'track2.knob': 50 }, 100, 100, (values) => sent.push(values), () => {});
+    vi.advanceTimersByTime(100);
+
+    expect(sent).toEqual([{ 'track1.knob': 1 }, { 'track1.knob': 2 }]);
+  });
+
+  it('should jump controls without a current value and morphs without a morph time', () => {
+    const morpher = new SceneMorpher();
+    const sent: Array<Record<string, number>> = [];
+    const onEnd = vi.fn();
+
+    morpher.start({ 'track1.knob': 0 }, { 'track1.knob': 64, 'track9.slider': 127 }, 0, 50, (values) => sent.push(values), onEnd);
+
+    expect(sent).toEqual([{ 'track1.knob': 64, 'track9.slider': 127 }]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(morpher.isMorphing()).toBe(false);
+  });
+
+  it('should leave released controls where they are', () => {
+    vi.useFakeTimers();
+    const morpher = new SceneMorpher();
+    const sent: Array<Record<string, number>> = [];
+
+    morpher.start({ 'track1.knob': 0, 'track2.knob': 0 }, { 'track1.knob': 100, 'track2.knob': 100 }, 1000, 2, (values) => sent.push(values), () => {});
+    vi.advanceTimersByTime(500);
+    morpher.release('track1.knob');
+    vi.advanceTimersByTime(500);
+
+    expect(sent).toEqual([{ 'track1.knob': 50, 'track2.knob': 50 }, { 'track2.knob': 100 }]);
+  });
+
+  it('should stop without ending the morph', () => {
+    vi.useFakeTimers();
+    const morpher = new SceneMorpher();
+    const send = vi.fn();
+    const onEnd = vi.fn();
+
+    morpher.start({ 'track1.knob': 0 }, { 'track1.knob': 100 }, 1000, 10, send, onEnd);
+    morpher.stop();
+    vi.advanceTimersByTime(2000);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('should reject a non-positive rate', () => {
+    expect(() => new SceneMorpher().start({}, {}, 100, 0, () => {}, () => {})).toThrow('Invalid morph rate');
+  });
+});
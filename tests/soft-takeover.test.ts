@@ -0,0 +1,85 @@
+/**
+ * Tests for the soft-takeover module.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SoftTakeover } from '../src/main/services/soft-takeover.js';
+
+describe('SoftTakeover', () => {
+  it('should pass physical values when not armed', () => {
+    const takeover = new SoftTakeover('catch', 3);
+
+    expect(takeover.process('track1.knob', 40)).toEqual({ pass: true, released: false });
+  });
+
+  describe('catch mode', () => {
+    it('should block until the physical value is within threshold', () => {
+      const takeover = new SoftTakeover('catch', 3);
+
+      expect(takeover.arm('track1.knob', 100)).toBe(true);
+      expect(takeover.process('track1.knob', 20).pass).toBe(false);
+      expect(takeover.process('track1.knob', 90).pass).toBe(false);
+      expect(takeover.process('track1.knob', 98)).toEqual({ pass: true, released: true });
+      expect(takeover.isWaiting('track1.knob')).toBe(false);
+    });
+
+    it('should not catch when the physical value jumps across the target', () => {
+      const takeover = new SoftTakeover('catch', 3);
+
+      takeover.arm('track1.slider', 64);
+      expect(takeover.process('track1.slider', 10).pass).toBe(false);
+      expect(takeover.process('track1.slider', 120).pass).toBe(false);
+    });
+
+    it('should not arm when the physical control already matches', () => {
+      const takeover = new SoftTakeover('catch', 3);
+
+      takeover.process('track1.knob', 50);
+      expect(takeover.arm('track1.knob', 52)).toBe(false);
+      expect(takeover.isWaiting('track1.knob')).toBe(false);
+    });
+  });
+
+  describe('pickup mode', () => {
+    it('should release when the physical value crosses the target', () => {
+      const takeover = new SoftTakeover('pickup', 3);
+
+      takeover.arm('track1.slider', 64);
+      expect(takeover.process('track1.slider', 10).pass).toBe(false);
+      expect(takeover.process('track1.slider', 120)).toEqual({ pass: true, released: true });
+    });
+
+    it('should not release on the first value without a previous position', () => {
+      const takeover = new SoftTakeover('pickup', 3);
+
+      takeover.arm('track1.slider', 64);
+      expect(takeover.process('track1.slider', 120).pass).toBe(false);
+    });
+  });
+
+  describe('jump mode', () => {
+    it('should never block', () => {
+      const takeover = new SoftTakeover('jump', 3);
+
+      expect(takeover.arm('track1.knob', 100)).toBe(false);
+      expect(takeover.process('track1.knob', 0).pass).toBe(true);
+    });
+
+    it('should release pending controls when switching to jump', () => {
+      const takeover = new SoftTakeover('catch', 3);
+
+      takeover.arm('track1.knob', 100);
+      takeover.setMode('jump', 3);
+      expect(takeover.isWaiting('track1.knob')).toBe(false);
+    });
+  });
+
+  it('should report released controls from releaseAll', () => {
+    const takeover = new SoftTakeover('catch', 3);
+
+    takeover.arm('track1.knob', 100);
+    takeover.arm('track2.slider', 10);
+    expect(takeover.releaseAll().sort()).toEqual(['track1.knob', 'track2.slider']);
+    expect(takeover.getTarget('track1.knob')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the value-smoother module.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ValueSmoother } from '../src/main/services/value-smoother.js';
+
+describe('ValueSmoother', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send the first value immediately', () => {
+    const smoother = new ValueSmoother();
+    const sent: number[] = [];
+
+    smoother.send('track1.slider', 8192, 40, (value) => sent.push(value));
+
+    expect(sent).toEqual([8192]);
+  });
+
+  it('should send immediately when smoothing is off', () => {
+    const smoother = new ValueSmoother();
+    const sent: number[] = [];
+
+    smoother.send('track1.slider', 0, 0, (value) => sent.push(value));
+    smoother.send('track1.slider', 16383, 0, (value) => sent.push(value));
+
+    expect(sent).toEqual([0, 16383]);
+  });
+
+  it('should glide from the previous value to the target', () => {
+    vi.useFakeTimers();
+    const smoother = new ValueSmoother();
+    const sent: number[] = [];
+
+    smoother.send('track1.slider', 0, 20, (value) => sent.push(value));
+    smoother.send('track1.slider', 1000, 20, (value) => sent.push(value));
+    vi.advanceTimersByTime(100);
+
+    expect(sent).toEqual([0, 250, 500, 750, 1000]);
+  });
+
+  it('should stop gliding on reset', () => {
+    vi.useFakeTimers();
+    const smoother = new ValueSmoother();
+    const sent: number[] = [];
+
+    smoother.send('track1.slider', 0, 20, (value) => sent.push(value));
+    smoother.send('track1.slider', 1000, 20, (value) => sent.push(value));
+    smoother.reset();
+    vi.advanceTimersByTime(100);
+
+    expect(sent).toEqual([0]);
+  });
+});